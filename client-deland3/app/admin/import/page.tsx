@@ -0,0 +1,392 @@
+"use client"
+
+import type React from "react"
+
+import { useMemo, useState } from "react"
+import Link from "next/link"
+import RequireRole from "@/components/RequireRole"
+import SessionBadge from "@/components/SessionBadge"
+import { addEntries, ApiError, MAX_BATCH_SIZE } from "@/lib/api"
+import { downloadFile } from "@/lib/download"
+import type { I18n } from "@/lib/i18n"
+import { useI18n, useRichText } from "@/lib/i18n-context"
+import {
+  guessMapping,
+  IMPORT_FIELDS,
+  ImportParseError,
+  parseImportFile,
+  toCSV,
+  validateRecords,
+  type ColumnMapping,
+  type ImportFieldName,
+  type ParsedFile,
+} from "@/lib/import"
+import type { BatchRowStatus } from "@/lib/types"
+
+// Invalid rows listed before the rest are summarised as a count.
+const MAX_LISTED_ERRORS = 100
+
+interface ReportRow {
+  rowNumber: number
+  propertyNumber: string
+  status: BatchRowStatus
+  message: string
+  entryID?: string
+}
+
+const STATUS_STYLES: Record<BatchRowStatus, string> = {
+  created: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  skipped: "bg-gray-100 text-gray-700",
+}
+
+// Import fields are labelled by the catalog's field.* messages, as on the
+// single-entry form.
+const fieldLabel = (name: string, i18n: I18n) =>
+  i18n.lookup(`field.${name.replace(/^payload\./, "")}`) ??
+  IMPORT_FIELDS.find((field) => field.name === name)?.label ??
+  name
+
+const describeErrors = (errors: Record<string, string>, i18n: I18n) =>
+  Object.entries(errors)
+    .map(([name, message]) => `${fieldLabel(name, i18n)}: ${message}`)
+    .join("; ")
+
+export default function ImportPage() {
+  const i18n = useI18n()
+  const { t } = i18n
+  const richText = useRichText()
+  const [fileName, setFileName] = useState("")
+  const [parsed, setParsed] = useState<ParsedFile | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [parseError, setParseError] = useState<string | null>(null)
+
+  const [isImporting, setIsImporting] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [report, setReport] = useState<ReportRow[] | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+
+  const rows = useMemo(() => (parsed ? validateRecords(parsed.records, mapping) : []), [parsed, mapping])
+  const invalidRows = rows.filter((row) => row.entry === null)
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    setParsed(null)
+    setReport(null)
+    setParseError(null)
+    setImportError(null)
+    if (!file) return
+
+    setFileName(file.name)
+    try {
+      const result = parseImportFile(file.name, await file.text())
+      setParsed(result)
+      setMapping(guessMapping(result.columns))
+    } catch (err) {
+      setParseError(err instanceof ImportParseError ? t(err.key, err.values) : t("import.readFailed"))
+    }
+  }
+
+  const handleMappingChange = (field: ImportFieldName, column: string) => {
+    setMapping((prev) => {
+      const next = { ...prev }
+      if (column) {
+        next[field] = column
+      } else {
+        delete next[field]
+      }
+      return next
+    })
+  }
+
+  // Sends the rows in file order, one batch at a time, so later rows for a
+  // property chain onto the earlier ones.
+  const handleImport = async () => {
+    const entries = rows.flatMap((row) => (row.entry ? [{ rowNumber: row.rowNumber, entry: row.entry }] : []))
+    setIsImporting(true)
+    setProgress(0)
+    setImportError(null)
+
+    const results: ReportRow[] = []
+    try {
+      for (let start = 0; start < entries.length; start += MAX_BATCH_SIZE) {
+        const batch = entries.slice(start, start + MAX_BATCH_SIZE)
+        const response = await addEntries(batch.map((row) => row.entry))
+        for (const result of response.results) {
+          const row = batch[result.index]
+          results.push({
+            rowNumber: row.rowNumber,
+            propertyNumber: row.entry.property_number,
+            status: result.status,
+            message:
+              result.status === "created"
+                ? t("import.appended")
+                : [result.error, result.fields && describeErrors(result.fields, i18n)].filter(Boolean).join(" — "),
+            entryID: result.entry?.id,
+          })
+        }
+        setProgress(start + batch.length)
+      }
+    } catch (err) {
+      setImportError(
+        t("import.notSent", {
+          error: err instanceof ApiError ? err.message : t("import.failed"),
+          row: results.length + 1,
+        }),
+      )
+    } finally {
+      setReport(results)
+      setIsImporting(false)
+    }
+  }
+
+  const downloadReport = () => {
+    if (!report) return
+    downloadFile(
+      `${fileName.replace(/\.[^.]+$/, "") || "import"}-report.csv`,
+      toCSV(
+        ["row", "property_number", "status", "entry_id", "message"],
+        report.map((row) => [String(row.rowNumber), row.propertyNumber, row.status, row.entryID ?? "", row.message]),
+      ),
+      "text/csv",
+    )
+  }
+
+  const counts = report
+    ? {
+        created: report.filter((row) => row.status === "created").length,
+        failed: report.filter((row) => row.status === "failed").length,
+        skipped: report.filter((row) => row.status === "skipped").length,
+      }
+    : null
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-6 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{t("import.title")}</h1>
+              <p className="text-gray-600 mt-1">{t("import.subtitle")}</p>
+            </div>
+            <div className="flex items-center gap-6">
+              <SessionBadge />
+              <Link
+                href="/admin"
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+              >
+                ← {t("nav.backAdmin")}
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-6 py-12">
+        <RequireRole roles={["registrar"]}>
+          {/* File */}
+          <div className="bg-white border border-gray-200 rounded-lg mb-8">
+            <div className="px-8 py-8">
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">{t("import.chooseTitle")}</h2>
+              <p className="text-sm text-gray-600 mb-6">
+                {richText("import.chooseHint", { payload: <code>payload</code> })}
+              </p>
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={handleFileChange}
+                disabled={isImporting}
+                className="block text-sm text-gray-700 file:mr-4 file:px-4 file:py-2 file:rounded-md file:border file:border-gray-300 file:bg-white file:text-sm file:font-medium file:text-gray-700 hover:file:bg-gray-50"
+              />
+              {parseError && <p className="mt-4 text-sm text-red-600">{parseError}</p>}
+              {parsed && (
+                <p className="mt-4 text-sm text-gray-600">
+                  {t("import.parsed", { file: fileName, rows: parsed.records.length, columns: parsed.columns.length })}
+                </p>
+              )}
+            </div>
+          </div>
+
+          {parsed && (
+            <>
+              {/* Column Mapping */}
+              <div className="bg-white border border-gray-200 rounded-lg mb-8">
+                <div className="px-8 py-8">
+                  <h2 className="text-xl font-semibold text-gray-900 mb-2">{t("import.mapTitle")}</h2>
+                  <p className="text-sm text-gray-600 mb-6">{t("import.mapHint")}</p>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {IMPORT_FIELDS.map((field) => (
+                      <div key={field.name}>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          {fieldLabel(field.name, i18n)}
+                          {field.required && " *"}
+                          <span className="ml-1 font-mono text-xs text-gray-400">{field.name}</span>
+                        </label>
+                        <select
+                          value={mapping[field.name] ?? ""}
+                          onChange={(e) => handleMappingChange(field.name, e.target.value)}
+                          disabled={isImporting}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
+                        >
+                          <option value="">{t("import.notMapped")}</option>
+                          {parsed.columns.map((column) => (
+                            <option key={column} value={column}>
+                              {column}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {/* Validation */}
+              <div className="bg-white border border-gray-200 rounded-lg mb-8">
+                <div className="px-8 py-8">
+                  <div className="flex items-center justify-between mb-6">
+                    <div>
+                      <h2 className="text-xl font-semibold text-gray-900 mb-1">{t("import.checkTitle")}</h2>
+                      <p className="text-sm text-gray-600">
+                        {t(invalidRows.length > 0 ? "import.readyWithInvalid" : "import.ready", {
+                          ready: rows.length - invalidRows.length,
+                          total: rows.length,
+                          invalid: invalidRows.length,
+                        })}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handleImport}
+                      disabled={isImporting || invalidRows.length > 0 || report !== null}
+                      className="px-6 py-2 bg-gray-900 text-white font-medium rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                    >
+                      {isImporting
+                        ? t("import.importing", { done: progress, total: rows.length })
+                        : t("import.submit", { count: rows.length })}
+                    </button>
+                  </div>
+
+                  {invalidRows.length > 0 && (
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full divide-y divide-gray-200">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              {t("import.column.row")}
+                            </th>
+                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              {t("import.column.problems")}
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {invalidRows.slice(0, MAX_LISTED_ERRORS).map((row) => (
+                            <tr key={row.rowNumber}>
+                              <td className="px-4 py-3 text-sm font-medium text-gray-900">{row.rowNumber}</td>
+                              <td className="px-4 py-3 text-sm text-red-700">
+                                <ul className="space-y-1">
+                                  {Object.entries(row.errors).map(([name, message]) => (
+                                    <li key={name}>
+                                      <span className="font-medium">{fieldLabel(name, i18n)}:</span>{" "}
+                                      {t(message.key, message.values)}
+                                    </li>
+                                  ))}
+                                </ul>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      {invalidRows.length > MAX_LISTED_ERRORS && (
+                        <p className="mt-4 text-sm text-gray-600">
+                          {t("import.moreInvalid", { count: invalidRows.length - MAX_LISTED_ERRORS })}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Report */}
+          {report && counts && (
+            <div className="bg-white border border-gray-200 rounded-lg">
+              <div className="px-8 py-8">
+                <div className="flex items-center justify-between mb-6">
+                  <div>
+                    <h2 className="text-xl font-semibold text-gray-900 mb-1">{t("import.reportTitle")}</h2>
+                    <p className="text-sm text-gray-600">{t("import.summary", counts)}</p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={downloadReport}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                  >
+                    {t("import.download")}
+                  </button>
+                </div>
+
+                {importError && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+                    <div className="flex">
+                      <div className="text-red-400 mr-3">⚠️</div>
+                      <div className="text-red-700 font-medium">{importError}</div>
+                    </div>
+                  </div>
+                )}
+
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {t("import.column.row")}
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {t("import.column.property")}
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {t("import.column.status")}
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {t("import.column.message")}
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {report.map((row) => (
+                        <tr key={row.rowNumber} className="hover:bg-gray-50">
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900">{row.rowNumber}</td>
+                          <td className="px-4 py-3 text-sm">
+                            <Link
+                              href={`/property?property_number=${encodeURIComponent(row.propertyNumber)}`}
+                              className="text-gray-900 underline hover:text-gray-600"
+                            >
+                              {row.propertyNumber}
+                            </Link>
+                          </td>
+                          <td className="px-4 py-3 text-sm">
+                            <span
+                              className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[row.status]}`}
+                            >
+                              {t(`import.status.${row.status}`)}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-gray-700">{row.message}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          )}
+        </RequireRole>
+      </main>
+    </div>
+  )
+}
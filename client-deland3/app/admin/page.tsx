@@ -4,9 +4,20 @@ import type React from "react"
 
 import { useState } from "react"
 import Link from "next/link"
-
-type LandType = "Agricultural" | "Non-Agricultural"
-type Action = "AwardDeclared" | "Compensated" | "OwnershipUpdated" | "Other"
+import ActivityFeed from "@/components/ActivityFeed"
+import AmendmentFields from "@/components/AmendmentFields"
+import AttachmentUpload from "@/components/AttachmentUpload"
+import OwnerPicker from "@/components/OwnerPicker"
+import RequireRole from "@/components/RequireRole"
+import SessionBadge from "@/components/SessionBadge"
+import { amendedHistory, buildCorrection, correctionValues } from "@/lib/amend"
+import { addEntry, ApiError, createCheckpoint, getPropertyHistory } from "@/lib/api"
+import { GENESIS_HASH, sortChain } from "@/lib/chain"
+import { describeBoundary, parseBoundary } from "@/lib/geo"
+import { useI18n, useRichText } from "@/lib/i18n-context"
+import { buildPayload, PAYLOAD_FIELDS, type PayloadFieldName } from "@/lib/payloads"
+import { formatAward, formatOutstanding, replayState, restatedRecord, type PropertyState } from "@/lib/state"
+import { ACTIONS, LAND_TYPES, type Action, type Attachment, type LandType, type LedgerEntry } from "@/lib/types"
 
 interface FormData {
   surveyNumber: string
@@ -17,15 +28,53 @@ interface FormData {
   details: string
 }
 
+// Maps form inputs to the payload field names the server reports errors under.
+const FIELD_NAMES: Record<keyof FormData, string> = {
+  surveyNumber: "survey_number",
+  propertyNumber: "property_number",
+  ownerID: "owner_id",
+  landType: "land_type",
+  action: "action",
+  details: "details",
+}
+
+const emptyForm: FormData = {
+  surveyNumber: "",
+  propertyNumber: "",
+  ownerID: "",
+  landType: "Agricultural",
+  action: "AwardDeclared",
+  details: "",
+}
+
+const emptyPayload: Partial<Record<PayloadFieldName, string>> = { currency: "INR" }
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="mt-1 text-sm text-red-600">{message}</p> : null
+
 export default function AdminPage() {
-  const [formData, setFormData] = useState<FormData>({
-    surveyNumber: "",
-    propertyNumber: "",
-    ownerID: "",
-    landType: "Agricultural",
-    action: "AwardDeclared",
-    details: "",
-  })
+  const i18n = useI18n()
+  const { t, lookup, actionLabel, landTypeLabel, fieldLabel, fieldPlaceholder } = i18n
+  const rich = useRichText()
+  const [formData, setFormData] = useState<FormData>(emptyForm)
+  const [payloadValues, setPayloadValues] = useState(emptyPayload)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  // The chain head the entry will be appended after, read when the property
+  // number is entered; null until it has been loaded.
+  const [head, setHead] = useState<{
+    propertyNumber: string
+    hash: string
+    length: number
+    chain: LedgerEntry[]
+    state: PropertyState
+  } | null>(null)
+  // The entry a Correction or Reversal amends, and the corrected values.
+  const [amends, setAmends] = useState("")
+  const [correctedValues, setCorrectedValues] = useState<Record<string, string>>({})
+  const [attachments, setAttachments] = useState<Attachment[]>([])
+  // Set once the registrar confirms a boundary that overlaps another parcel.
+  const [acceptOverlaps, setAcceptOverlaps] = useState(false)
+  const [isUploading, setIsUploading] = useState(false)
 
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [toast, setToast] = useState<{
@@ -39,6 +88,73 @@ export default function AdminPage() {
       ...prev,
       [name]: value,
     }))
+    clearFieldError(FIELD_NAMES[name as keyof FormData])
+  }
+
+  const clearFieldError = (field: string) =>
+    setFieldErrors((prev) => {
+      const next = { ...prev }
+      delete next[field]
+      return next
+    })
+
+  const loadHead = async (propertyNumber: string) => {
+    setHead(null)
+    if (!propertyNumber) return
+    try {
+      const chain = sortChain(await getPropertyHistory(propertyNumber))
+      setHead({
+        propertyNumber,
+        hash: chain[chain.length - 1].hash,
+        length: chain.length,
+        chain,
+        state: replayState(chain),
+      })
+    } catch (err) {
+      // A missing property starts a new chain; on any other failure the entry
+      // is sent without prev_hash and the server appends at its current head.
+      if (err instanceof ApiError && err.status === 404) {
+        setHead({ propertyNumber, hash: GENESIS_HASH, length: 0, chain: [], state: replayState([]) })
+      }
+    }
+  }
+
+  const handlePayloadChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const name = e.target.name as PayloadFieldName
+    const { value } = e.target
+    setPayloadValues((prev) => ({ ...prev, [name]: value }))
+    clearFieldError(`payload.${name}`)
+  }
+
+  const inputClass = (field: string) =>
+    `w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500 ${
+      fieldErrors[field] ? "border-red-400 bg-red-50" : "border-gray-300"
+    }`
+
+  const payloadSpecs = PAYLOAD_FIELDS[formData.action]
+  const headState = head?.propertyNumber === formData.propertyNumber.trim() ? head.state : null
+  const headChain = head?.propertyNumber === formData.propertyNumber.trim() ? head.chain : null
+
+  // A Correction or Reversal restates the property's survey number, owner and
+  // land type as they stand once it applies, so the form fills them in.
+  const isAmending = formData.action === "Correction" || formData.action === "Reversal"
+  const amendable = headChain ? amendedHistory(headChain) : null
+  const amendTarget = amendable?.find((entry) => entry.id === amends)
+  const amendmentPayload =
+    isAmending && amendTarget
+      ? {
+          amends,
+          corrected: formData.action === "Correction" ? buildCorrection(amendTarget, correctedValues) : undefined,
+        }
+      : undefined
+  const restated = headChain && amendmentPayload ? restatedRecord(headChain, formData.action, amendmentPayload) : null
+  const positions = new Map(headChain?.map((entry, index) => [entry.id, index + 1]))
+
+  const handleAmendsChange = (id: string) => {
+    setAmends(id)
+    const target = amendable?.find((entry) => entry.id === id)
+    setCorrectedValues(target ? correctionValues(target) : {})
+    clearFieldError("payload.amends")
   }
 
   const showToast = (type: "success" | "error", message: string) => {
@@ -46,43 +162,69 @@ export default function AdminPage() {
     setTimeout(() => setToast(null), 5000)
   }
 
+  const publishCheckpoint = async () => {
+    try {
+      const { checkpoint, created } = await createCheckpoint()
+      showToast(
+        "success",
+        created
+          ? t("admin.checkpointPublished", { sequence: checkpoint.sequence, chains: checkpoint.tree_size })
+          : t("admin.checkpointUnchanged", { sequence: checkpoint.sequence }),
+      )
+    } catch (err) {
+      showToast("error", err instanceof ApiError ? err.message : t("admin.checkpointFailed"))
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    if (formData.action === "BoundaryRecorded" && !parseBoundary(payloadValues.boundary ?? "")) {
+      setFieldErrors({ "payload.boundary": t("admin.boundaryInvalid") })
+      return
+    }
     setIsSubmitting(true)
+    setFieldErrors({})
 
     try {
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8080"
-      const response = await fetch(`${apiUrl}/add_entry`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          survey_number: formData.surveyNumber,
-          property_number: formData.propertyNumber,
-          owner_id: formData.ownerID,
-          land_type: formData.landType,
-          action: formData.action,
-          details: formData.details,
-        }),
+      await addEntry({
+        survey_number: restated?.survey_number ?? formData.surveyNumber,
+        property_number: formData.propertyNumber,
+        owner_id: restated?.owner_id ?? formData.ownerID,
+        land_type: (restated?.land_type as LandType | undefined) ?? formData.landType,
+        action: formData.action,
+        details: formData.details,
+        prev_hash: head?.propertyNumber === formData.propertyNumber.trim() ? head.hash : undefined,
+        payload: isAmending
+          ? amendmentPayload
+          : buildPayload(formData.action, {
+              ...payloadValues,
+              // The new owner is the entry's owner; the form only asks for it once.
+              new_owner: formData.action === "OwnershipUpdated" ? formData.ownerID : undefined,
+            }),
+        attachments: attachments.length > 0 ? attachments : undefined,
+        accept_overlaps: acceptOverlaps || undefined,
       })
 
-      if (response.ok) {
-        showToast("success", "Land entry added successfully!")
-        setFormData({
-          surveyNumber: "",
-          propertyNumber: "",
-          ownerID: "",
-          landType: "Agricultural",
-          action: "AwardDeclared",
-          details: "",
-        })
-      } else {
-        const errorData = await response.json()
-        showToast("error", errorData.message || "Failed to add land entry")
+      showToast("success", t("admin.added"))
+      setFormData(emptyForm)
+      setPayloadValues(emptyPayload)
+      setAmends("")
+      setCorrectedValues({})
+      setAttachments([])
+      setAcceptOverlaps(false)
+      setHead(null)
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 409) {
+        showToast("error", t("admin.conflict"))
+        loadHead(formData.propertyNumber.trim())
+        return
       }
-    } catch {
-      showToast("error", "Network error: Unable to connect to server")
+      if (err instanceof ApiError && Object.keys(err.fields).length > 0) {
+        setFieldErrors(err.fields)
+        showToast("error", t("admin.fixFields"))
+        return
+      }
+      showToast("error", err instanceof ApiError ? err.message : t("admin.addFailed"))
     } finally {
       setIsSubmitting(false)
     }
@@ -95,15 +237,31 @@ export default function AdminPage() {
         <div className="max-w-6xl mx-auto px-6 py-6">
           <div className="flex items-center justify-between">
             <div>
-              <h1 className="text-2xl font-bold text-gray-900">Admin Panel</h1>
-              <p className="text-gray-600 mt-1">Add new land ledger entries</p>
+              <h1 className="text-2xl font-bold text-gray-900">{t("admin.title")}</h1>
+              <p className="text-gray-600 mt-1">{t("admin.subtitle")}</p>
+            </div>
+            <div className="flex items-center gap-6">
+              <SessionBadge />
+              <Link href="/admin/import" className="text-sm font-medium text-gray-700 underline hover:text-gray-900">
+                {t("admin.bulkImport")}
+              </Link>
+              <Link href="/transfers" className="text-sm font-medium text-gray-700 underline hover:text-gray-900">
+                {t("admin.transfers")}
+              </Link>
+              <button
+                type="button"
+                onClick={publishCheckpoint}
+                className="text-sm font-medium text-gray-700 underline hover:text-gray-900"
+              >
+                {t("admin.publishCheckpoint")}
+              </button>
+              <Link
+                href="/"
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+              >
+                ← {t("nav.backHome")}
+              </Link>
             </div>
-            <Link
-              href="/"
-              className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
-            >
-              ← Back to Home
-            </Link>
           </div>
         </div>
       </header>
@@ -130,140 +288,346 @@ export default function AdminPage() {
 
       {/* Main Content */}
       <main className="max-w-4xl mx-auto px-6 py-12">
-        <div className="bg-white border border-gray-200 rounded-lg">
-          <div className="px-8 py-8">
-            <h2 className="text-xl font-semibold text-gray-900 mb-8">Add New Land Entry</h2>
+        <RequireRole roles={["registrar"]}>
+          <div className="bg-white border border-gray-200 rounded-lg">
+            <div className="px-8 py-8">
+              <h2 className="text-xl font-semibold text-gray-900 mb-8">{t("admin.formTitle")}</h2>
 
-            <form onSubmit={handleSubmit} className="space-y-6">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                {/* Survey Number */}
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Survey Number *</label>
-                  <input
-                    type="text"
-                    name="surveyNumber"
-                    value={formData.surveyNumber}
-                    onChange={handleInputChange}
-                    required
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
-                    placeholder="e.g., SY-001"
-                  />
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {/* Survey Number */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">{t("admin.surveyNumber")} *</label>
+                    <input
+                      type="text"
+                      name="surveyNumber"
+                      value={isAmending ? (restated?.survey_number ?? "") : formData.surveyNumber}
+                      onChange={handleInputChange}
+                      readOnly={isAmending}
+                      required
+                      className={`${inputClass("survey_number")}${isAmending ? " bg-gray-50 text-gray-500" : ""}`}
+                      placeholder={t(isAmending ? "admin.fromAmended" : "admin.surveyPlaceholder")}
+                    />
+                    <FieldError message={fieldErrors.survey_number} />
+                  </div>
+
+                  {/* Property Number */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {t("admin.propertyNumber")} *
+                    </label>
+                    <input
+                      type="text"
+                      name="propertyNumber"
+                      value={formData.propertyNumber}
+                      onChange={handleInputChange}
+                      onBlur={(e) => loadHead(e.target.value.trim())}
+                      required
+                      className={inputClass("property_number")}
+                      placeholder={t("admin.propertyPlaceholder")}
+                    />
+                    <FieldError message={fieldErrors.property_number} />
+                    {head?.propertyNumber === formData.propertyNumber.trim() && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        {head.length === 0
+                          ? t("admin.newChain")
+                          : t("admin.appends", { position: head.length + 1, hash: `${head.hash.slice(0, 12)}…` })}
+                      </p>
+                    )}
+                  </div>
+
+                  {/* Owner ID */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">{t("admin.ownerId")} *</label>
+                    {isAmending ? (
+                      <input
+                        type="text"
+                        name="ownerID"
+                        value={restated?.owner_id ?? ""}
+                        readOnly
+                        required
+                        className={`${inputClass("owner_id")} bg-gray-50 text-gray-500`}
+                        placeholder={t("admin.fromAmended")}
+                      />
+                    ) : (
+                      <OwnerPicker
+                        name="ownerID"
+                        value={formData.ownerID}
+                        onChange={(ownerID) => {
+                          setFormData((prev) => ({ ...prev, ownerID }))
+                          clearFieldError("owner_id")
+                        }}
+                        required
+                        className={inputClass("owner_id")}
+                        placeholder={t("admin.ownerPlaceholder")}
+                      />
+                    )}
+                    <FieldError message={fieldErrors.owner_id} />
+                  </div>
+
+                  {/* Land Type */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">{t("admin.landType")} *</label>
+                    <select
+                      name="landType"
+                      value={isAmending ? (restated?.land_type ?? formData.landType) : formData.landType}
+                      onChange={handleInputChange}
+                      disabled={isAmending}
+                      required
+                      className={inputClass("land_type")}
+                    >
+                      {LAND_TYPES.map((landType) => (
+                        <option key={landType} value={landType}>
+                          {landTypeLabel(landType)}
+                        </option>
+                      ))}
+                    </select>
+                    <FieldError message={fieldErrors.land_type} />
+                  </div>
+
+                  {/* Action */}
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">{t("admin.action")} *</label>
+                    <select
+                      name="action"
+                      value={formData.action}
+                      onChange={handleInputChange}
+                      required
+                      className={inputClass("action")}
+                    >
+                      {ACTIONS.map((action) => (
+                        <option key={action} value={action}>
+                          {actionLabel(action)}
+                        </option>
+                      ))}
+                    </select>
+                    <FieldError message={fieldErrors.action} />
+                    {formData.action === "OwnershipUpdated" && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        {rich("admin.hint.OwnershipUpdated", {
+                          transfer: (
+                            <Link href="/transfers" className="underline hover:text-gray-700">
+                              {t("admin.hint.transfer")}
+                            </Link>
+                          ),
+                        })}
+                      </p>
+                    )}
+                    {formData.action === "Subdivided" && (
+                      <p className="mt-1 text-xs text-gray-500">{t("admin.hint.Subdivided")}</p>
+                    )}
+                    {formData.action === "Merged" && (
+                      <p className="mt-1 text-xs text-gray-500">{t("admin.hint.Merged")}</p>
+                    )}
+                    {(formData.action === "LienRegistered" || formData.action === "MortgageRegistered") && (
+                      <p className="mt-1 text-xs text-gray-500">{t("admin.hint.charge")}</p>
+                    )}
+                    {formData.action === "StayOrdered" && (
+                      <p className="mt-1 text-xs text-gray-500">{t("admin.hint.StayOrdered")}</p>
+                    )}
+                    {formData.action === "Compensated" && headState?.awardNumber && (
+                      <p className="mt-1 text-xs text-gray-500">
+                        {headState.awardAmount
+                          ? t("admin.paysAwardOutstanding", {
+                              award: formatAward(headState, i18n),
+                              outstanding: formatOutstanding(headState, i18n),
+                            })
+                          : t("admin.paysAward", { award: formatAward(headState, i18n) })}
+                      </p>
+                    )}
+                  </div>
                 </div>
 
-                {/* Property Number */}
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Property Number *</label>
-                  <input
-                    type="text"
-                    name="propertyNumber"
-                    value={formData.propertyNumber}
-                    onChange={handleInputChange}
-                    required
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
-                    placeholder="e.g., PR-001"
+                {/* Amendment */}
+                {isAmending && (
+                  <AmendmentFields
+                    action={formData.action as "Correction" | "Reversal"}
+                    amendable={amendable}
+                    positions={positions}
+                    amends={amends}
+                    onAmendsChange={handleAmendsChange}
+                    corrected={correctedValues}
+                    onCorrectedChange={(name, value) => {
+                      setCorrectedValues((prev) => ({ ...prev, [name]: value }))
+                      clearFieldError(`payload.corrected.${name}`)
+                      clearFieldError("payload.corrected")
+                    }}
+                    fieldErrors={fieldErrors}
                   />
-                </div>
+                )}
+                {formData.action === "Correction" && amendTarget?.action === "BoundaryRecorded" && (
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={acceptOverlaps}
+                      onChange={(e) => {
+                        setAcceptOverlaps(e.target.checked)
+                        clearFieldError("payload.corrected.payload.boundary")
+                      }}
+                    />
+                    {t("admin.acceptCorrectedOverlap")}
+                  </label>
+                )}
 
-                {/* Owner ID */}
+                {/* Action Payload */}
+                {!isAmending && payloadSpecs.length > 0 && (
+                  <fieldset className="border border-gray-200 rounded-md px-6 py-5">
+                    <legend className="px-2 text-sm font-semibold text-gray-900">
+                      {lookup(`section.${formData.action}`)}
+                    </legend>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      {payloadSpecs.map((spec) => {
+                        const errorKey = `payload.${spec.name}`
+                        const derived = formData.action === "OwnershipUpdated" && spec.name === "new_owner"
+                        if (spec.kind === "geojson") {
+                          const boundary = parseBoundary(payloadValues[spec.name] ?? "")
+                          return (
+                            <div key={spec.name} className="md:col-span-2">
+                              <label className="block text-sm font-medium text-gray-700 mb-2">
+                                {fieldLabel(formData.action, spec)} *
+                              </label>
+                              <textarea
+                                name={spec.name}
+                                value={payloadValues[spec.name] ?? ""}
+                                onChange={handlePayloadChange}
+                                required
+                                rows={6}
+                                className={`${inputClass(errorKey)} font-mono text-xs`}
+                                placeholder={fieldPlaceholder(formData.action, spec)}
+                              />
+                              <FieldError message={fieldErrors[errorKey]} />
+                              <p className="mt-1 text-xs text-gray-500">
+                                {boundary
+                                  ? t("admin.boundaryReads", { boundary: describeBoundary(boundary, i18n) })
+                                  : t("admin.boundaryHint")}
+                              </p>
+                              <label className="mt-3 flex items-center gap-2 text-sm text-gray-700">
+                                <input
+                                  type="checkbox"
+                                  checked={acceptOverlaps}
+                                  onChange={(e) => {
+                                    setAcceptOverlaps(e.target.checked)
+                                    clearFieldError(errorKey)
+                                  }}
+                                />
+                                {t("admin.acceptOverlap")}
+                              </label>
+                            </div>
+                          )
+                        }
+                        return (
+                          <div key={spec.name}>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              {fieldLabel(formData.action, spec)}
+                              {spec.optional ? "" : " *"}
+                            </label>
+                            <input
+                              type={spec.kind === "date" ? "date" : spec.kind === "amount" ? "number" : "text"}
+                              name={spec.name}
+                              value={derived ? formData.ownerID : (payloadValues[spec.name] ?? "")}
+                              onChange={handlePayloadChange}
+                              readOnly={derived}
+                              required={!spec.optional}
+                              min={spec.kind === "amount" ? "0.01" : undefined}
+                              step={spec.kind === "amount" ? "0.01" : undefined}
+                              maxLength={spec.kind === "currency" ? 3 : undefined}
+                              className={`${inputClass(errorKey)}${derived ? " bg-gray-50 text-gray-500" : ""}`}
+                              placeholder={derived ? t("admin.sameAsOwner") : fieldPlaceholder(formData.action, spec)}
+                            />
+                            <FieldError message={fieldErrors[errorKey]} />
+                          </div>
+                        )
+                      })}
+                    </div>
+                  </fieldset>
+                )}
+
+                {/* Details */}
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Owner ID *</label>
-                  <input
-                    type="text"
-                    name="ownerID"
-                    value={formData.ownerID}
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {formData.action === "Other"
+                      ? `${t("admin.details")} *`
+                      : isAmending
+                        ? `${t("admin.reason")} *`
+                        : t("admin.remarks")}
+                  </label>
+                  <textarea
+                    name="details"
+                    value={formData.details}
                     onChange={handleInputChange}
-                    required
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
-                    placeholder="e.g., OWN-001"
+                    required={formData.action === "Other" || isAmending}
+                    rows={4}
+                    className={inputClass("details")}
+                    placeholder={
+                      t(
+                        formData.action === "Other"
+                          ? "admin.detailsPlaceholder"
+                          : isAmending
+                            ? "admin.reasonPlaceholder"
+                            : "admin.remarksPlaceholder",
+                      )
+                    }
                   />
+                  <FieldError message={fieldErrors.details} />
                 </div>
 
-                {/* Land Type */}
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Land Type *</label>
-                  <select
-                    name="landType"
-                    value={formData.landType}
-                    onChange={handleInputChange}
-                    required
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
-                  >
-                    <option value="Agricultural">Agricultural</option>
-                    <option value="Non-Agricultural">Non-Agricultural</option>
-                  </select>
-                </div>
+                {/* Attachments */}
+                <AttachmentUpload
+                  attachments={attachments}
+                  onChange={(next) => {
+                    setAttachments(next)
+                    setFieldErrors((prev) =>
+                      Object.fromEntries(Object.entries(prev).filter(([name]) => !name.startsWith("attachments"))),
+                    )
+                  }}
+                  onBusyChange={setIsUploading}
+                  fieldErrors={fieldErrors}
+                />
 
-                {/* Action */}
-                <div className="md:col-span-2">
-                  <label className="block text-sm font-medium text-gray-700 mb-2">Action *</label>
-                  <select
-                    name="action"
-                    value={formData.action}
-                    onChange={handleInputChange}
-                    required
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
+                {/* Submit Button */}
+                <div className="flex justify-end pt-4">
+                  <button
+                    type="submit"
+                    disabled={isSubmitting || isUploading}
+                    className="px-6 py-2 bg-gray-900 text-white font-medium rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
                   >
-                    <option value="AwardDeclared">Award Declared</option>
-                    <option value="Compensated">Compensated</option>
-                    <option value="OwnershipUpdated">Ownership Updated</option>
-                    <option value="Other">Other</option>
-                  </select>
+                    {isSubmitting ? (
+                      <div className="flex items-center">
+                        <svg
+                          className="animate-spin -ml-1 mr-3 h-4 w-4 text-white"
+                          xmlns="http://www.w3.org/2000/svg"
+                          fill="none"
+                          viewBox="0 0 24 24"
+                        >
+                          <circle
+                            className="opacity-25"
+                            cx="12"
+                            cy="12"
+                            r="10"
+                            stroke="currentColor"
+                            strokeWidth="4"
+                          ></circle>
+                          <path
+                            className="opacity-75"
+                            fill="currentColor"
+                            d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                          ></path>
+                        </svg>
+                        {t("admin.adding")}
+                      </div>
+                    ) : (
+                      t("admin.submit")
+                    )}
+                  </button>
                 </div>
-              </div>
-
-              {/* Details */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Details *</label>
-                <textarea
-                  name="details"
-                  value={formData.details}
-                  onChange={handleInputChange}
-                  required
-                  rows={4}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
-                  placeholder="Enter detailed description of the land entry..."
-                />
-              </div>
-
-              {/* Submit Button */}
-              <div className="flex justify-end pt-4">
-                <button
-                  type="submit"
-                  disabled={isSubmitting}
-                  className="px-6 py-2 bg-gray-900 text-white font-medium rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
-                >
-                  {isSubmitting ? (
-                    <div className="flex items-center">
-                      <svg
-                        className="animate-spin -ml-1 mr-3 h-4 w-4 text-white"
-                        xmlns="http://www.w3.org/2000/svg"
-                        fill="none"
-                        viewBox="0 0 24 24"
-                      >
-                        <circle
-                          className="opacity-25"
-                          cx="12"
-                          cy="12"
-                          r="10"
-                          stroke="currentColor"
-                          strokeWidth="4"
-                        ></circle>
-                        <path
-                          className="opacity-75"
-                          fill="currentColor"
-                          d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                        ></path>
-                      </svg>
-                      Adding Entry...
-                    </div>
-                  ) : (
-                    "Add Land Entry"
-                  )}
-                </button>
-              </div>
-            </form>
+              </form>
+            </div>
           </div>
-        </div>
+
+          <div className="mt-8">
+            <ActivityFeed />
+          </div>
+        </RequireRole>
       </main>
     </div>
   )
@@ -0,0 +1,293 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import RequireRole from "@/components/RequireRole"
+import SessionBadge from "@/components/SessionBadge"
+import { ApiError, scanLedger } from "@/lib/api"
+import {
+  applyScanBatch,
+  AUDIT_BATCH_SIZE,
+  auditReportCSV,
+  auditReportFileName,
+  auditReportJSON,
+  clearAuditScan,
+  countFindings,
+  groupByProperty,
+  loadAuditScan,
+  newAuditScan,
+  saveAuditScan,
+  type AuditScan,
+} from "@/lib/audit"
+import { downloadFile } from "@/lib/download"
+import { useI18n } from "@/lib/i18n-context"
+import { AUDIT_FINDING_KINDS, type AuditFindingKind } from "@/lib/types"
+
+// Properties listed before the rest are summarised as a count.
+const MAX_LISTED_PROPERTIES = 200
+
+function AuditDashboard() {
+  const { t, plural, formatTimestamp, formatNumber } = useI18n()
+  const [scan, setScan] = useState<AuditScan | null>(null)
+  const [isScanning, setIsScanning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [kindFilter, setKindFilter] = useState<AuditFindingKind | null>(null)
+  const scanController = useRef<AbortController | null>(null)
+
+  // Pick up a scan left unfinished by an earlier visit.
+  useEffect(() => {
+    setScan(loadAuditScan())
+    return () => scanController.current?.abort()
+  }, [])
+
+  // Scans batch by batch from the scan's cursor, saving after each batch so
+  // a failure or reload loses at most the batch in flight.
+  const runScan = async (from: AuditScan) => {
+    const controller = new AbortController()
+    scanController.current = controller
+    setIsScanning(true)
+    setError(null)
+
+    let current = from
+    try {
+      do {
+        const batch = await scanLedger(current.cursor, AUDIT_BATCH_SIZE, { signal: controller.signal })
+        current = applyScanBatch(current, batch)
+        saveAuditScan(current)
+        setScan(current)
+      } while (!current.finished_at)
+    } catch (err) {
+      if (err instanceof ApiError && err.kind === "aborted") return
+      setError(t("audit.resumeAfter", { error: err instanceof ApiError ? err.message : t("audit.scanFailed") }))
+    } finally {
+      setIsScanning(false)
+    }
+  }
+
+  const startScan = () => {
+    clearAuditScan()
+    setKindFilter(null)
+    const fresh = newAuditScan()
+    setScan(fresh)
+    runScan(fresh)
+  }
+
+  const pauseScan = () => scanController.current?.abort()
+
+  const counts = countFindings(scan?.findings ?? [])
+  const findings = (scan?.findings ?? []).filter((finding) => !kindFilter || finding.kind === kindFilter)
+  const groups = [...groupByProperty(findings)]
+  const percent = scan && scan.total_properties > 0 ? Math.round((scan.properties / scan.total_properties) * 100) : 0
+
+  return (
+    <>
+      {/* Scan Controls */}
+      <div className="bg-white border border-gray-200 rounded-lg mb-8">
+        <div className="px-8 py-8">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">{t("audit.scanTitle")}</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                {t("audit.scanDescription", { batch: formatNumber(AUDIT_BATCH_SIZE) })}
+              </p>
+              {scan && (
+                <p className="text-sm text-gray-600 mt-2">
+                  {scan.finished_at
+                    ? t("audit.finished", {
+                        started: formatTimestamp(scan.started_at),
+                        finished: formatTimestamp(scan.finished_at),
+                      })
+                    : t(isScanning ? "audit.started" : "audit.paused", { started: formatTimestamp(scan.started_at) })}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center gap-3">
+              {isScanning ? (
+                <button
+                  type="button"
+                  onClick={pauseScan}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                >
+                  {t("audit.pause")}
+                </button>
+              ) : (
+                scan &&
+                !scan.finished_at && (
+                  <button
+                    type="button"
+                    onClick={() => runScan(scan)}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                  >
+                    {t("audit.resume")}
+                  </button>
+                )
+              )}
+              <button
+                type="button"
+                onClick={startScan}
+                disabled={isScanning}
+                className="px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {scan ? t("audit.startNew") : t("audit.start")}
+              </button>
+            </div>
+          </div>
+
+          {scan && (
+            <div className="mt-6">
+              <div className="flex justify-between text-sm text-gray-600 mb-1">
+                <span>
+                  {t("audit.progress", {
+                    properties: formatNumber(scan.properties),
+                    total: scan.total_properties ? formatNumber(scan.total_properties) : "?",
+                    entries: formatNumber(scan.entries),
+                  })}
+                </span>
+                <span>{t("audit.percent", { percent: formatNumber(percent) })}</span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full bg-gray-900 transition-all duration-300" style={{ width: `${percent}%` }} />
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mt-6">
+              <div className="flex">
+                <div className="text-red-400 mr-3">⚠️</div>
+                <div className="text-red-700 font-medium">{error}</div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {scan && (
+        <>
+          {/* Counts */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
+            {AUDIT_FINDING_KINDS.map((kind) => (
+              <button
+                key={kind}
+                type="button"
+                onClick={() => setKindFilter(kindFilter === kind ? null : kind)}
+                title={t(`finding.${kind}.description`)}
+                className={`text-left border rounded-lg px-4 py-4 transition-colors duration-200 ${
+                  kindFilter === kind ? "border-gray-900 bg-gray-50" : "border-gray-200 hover:border-gray-400"
+                }`}
+              >
+                <div className={`text-2xl font-bold ${counts[kind] > 0 ? "text-red-700" : "text-green-700"}`}>
+                  {counts[kind]}
+                </div>
+                <div className="text-sm font-medium text-gray-700">{t(`finding.${kind}.title`)}</div>
+              </button>
+            ))}
+          </div>
+
+          {/* Findings */}
+          <div className="bg-white border border-gray-200 rounded-lg">
+            <div className="px-8 py-8">
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <h3 className="text-xl font-semibold text-gray-900">
+                  {kindFilter ? t(`finding.${kindFilter}.title`) : t("audit.allFindings")}
+                  <span className="text-gray-500 font-normal"> · {plural("audit.affected", groups.length)}</span>
+                </h3>
+                <div className="flex items-center gap-3">
+                  <button
+                    type="button"
+                    onClick={() => downloadFile(auditReportFileName(scan, "csv"), auditReportCSV(scan), "text/csv")}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                  >
+                    {t("audit.downloadCSV")}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      downloadFile(auditReportFileName(scan, "json"), auditReportJSON(scan), "application/json")
+                    }
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                  >
+                    {t("audit.downloadJSON")}
+                  </button>
+                </div>
+              </div>
+
+              {groups.length === 0 ? (
+                <p className="text-gray-600">{scan.finished_at ? t("audit.clean") : t("audit.cleanSoFar")}</p>
+              ) : (
+                <div className="space-y-4">
+                  {groups.slice(0, MAX_LISTED_PROPERTIES).map(([propertyNumber, propertyFindings]) => (
+                    <div key={propertyNumber} className="border border-red-200 rounded-lg p-4">
+                      <Link
+                        href={`/property?property_number=${encodeURIComponent(propertyNumber)}`}
+                        className="font-semibold text-gray-900 underline hover:text-gray-700"
+                      >
+                        {propertyNumber}
+                      </Link>
+                      <ul className="mt-2 space-y-1 text-sm">
+                        {propertyFindings.map((finding, index) => (
+                          <li key={index} className="text-gray-700">
+                            <span className="inline-flex px-2 py-0.5 mr-2 text-xs font-medium rounded-full bg-red-100 text-red-800">
+                              {t(`finding.${finding.kind}.title`)}
+                            </span>
+                            {finding.position !== undefined && (
+                              <span className="text-gray-500">{t("audit.entry", { position: finding.position })} </span>
+                            )}
+                            {finding.detail}
+                            {finding.entry_id && (
+                              <div className="font-mono text-xs text-gray-500 ml-1">{finding.entry_id}</div>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                  {groups.length > MAX_LISTED_PROPERTIES && (
+                    <p className="text-sm text-gray-600">
+                      {plural("audit.more", groups.length - MAX_LISTED_PROPERTIES)}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </>
+  )
+}
+
+export default function AuditPage() {
+  const { t } = useI18n()
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-6 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{t("audit.title")}</h1>
+              <p className="text-gray-600 mt-1">{t("audit.subtitle")}</p>
+            </div>
+            <div className="flex items-center gap-6">
+              <SessionBadge />
+              <Link
+                href="/"
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+              >
+                ← {t("nav.backHome")}
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-6 py-12">
+        <RequireRole roles={["registrar", "auditor"]}>
+          <AuditDashboard />
+        </RequireRole>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,289 @@
+"use client"
+
+import type React from "react"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import RequireRole from "@/components/RequireRole"
+import SessionBadge from "@/components/SessionBadge"
+import { ApiError, getCompensationReport } from "@/lib/api"
+import {
+  AGE_BRACKETS,
+  ageBracket,
+  AWARD_STATUS_STYLES,
+  COMPENSATION_FILTERS,
+  compensationReportCSV,
+  compensationReportFileName,
+  formatAwardAmount,
+  sortAwards,
+  type AwardSort,
+} from "@/lib/compensation"
+import { downloadFile } from "@/lib/download"
+import { useI18n } from "@/lib/i18n-context"
+import type { CompensationFilter, CompensationReport } from "@/lib/types"
+
+const selectClass =
+  "px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-gray-500"
+
+function CompensationDashboard() {
+  const { t, plural, locale, formatAmount, formatTimestamp } = useI18n()
+  const [filter, setFilter] = useState<CompensationFilter>("outstanding")
+  const [surveyInput, setSurveyInput] = useState("")
+  const [surveyNumber, setSurveyNumber] = useState("")
+  const [sort, setSort] = useState<AwardSort>("age")
+  const [report, setReport] = useState<CompensationReport | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(
+    async (status: CompensationFilter, survey: string, signal?: AbortSignal) => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        setReport(await getCompensationReport({ status, survey_number: survey || undefined }, { signal }))
+      } catch (err) {
+        if (err instanceof ApiError && err.kind === "aborted") return
+        setError(err instanceof ApiError ? err.message : t("compensation.loadFailed"))
+      } finally {
+        if (!signal?.aborted) setIsLoading(false)
+      }
+    },
+    [t],
+  )
+
+  useEffect(() => {
+    const controller = new AbortController()
+    load(filter, surveyNumber, controller.signal)
+    return () => controller.abort()
+  }, [filter, surveyNumber, load])
+
+  const handleSurveySubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setSurveyNumber(surveyInput.trim())
+  }
+
+  const awards = report ? sortAwards(report.awards, sort) : []
+  const owed = awards.filter((award) => award.status !== "paid")
+  const currencies = report ? Object.entries(report.outstanding) : []
+
+  return (
+    <>
+      {/* Filters */}
+      <div className="bg-white border border-gray-200 rounded-lg mb-8">
+        <div className="px-8 py-6 flex flex-wrap items-end gap-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t("compensation.awards")}</label>
+            <select
+              value={filter}
+              onChange={(e) => setFilter(e.target.value as CompensationFilter)}
+              className={selectClass}
+            >
+              {COMPENSATION_FILTERS.map((value) => (
+                <option key={value} value={value}>
+                  {t(`compensationFilter.${value}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <form onSubmit={handleSurveySubmit}>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t("compensation.surveyNumber")}</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={surveyInput}
+                onChange={(e) => setSurveyInput(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-gray-500"
+                placeholder={t("compensation.allSurveys")}
+              />
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                {t("compensation.apply")}
+              </button>
+            </div>
+          </form>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t("compensation.orderBy")}</label>
+            <select value={sort} onChange={(e) => setSort(e.target.value as AwardSort)} className={selectClass}>
+              <option value="age">{t("compensation.byAge")}</option>
+              <option value="survey_number">{t("compensation.bySurvey")}</option>
+            </select>
+          </div>
+          <div className="ml-auto">
+            <button
+              type="button"
+              disabled={!report || awards.length === 0}
+              onClick={() =>
+                report &&
+                downloadFile(compensationReportFileName(report, filter), compensationReportCSV(awards), "text/csv")
+              }
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t("compensation.downloadCSV")}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && <p className="mb-8 text-sm text-red-600">{error}</p>}
+
+      {/* Summary */}
+      {report && owed.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+          <div className="bg-white border border-gray-200 rounded-lg px-8 py-6">
+            <h3 className="text-sm font-medium text-gray-500 mb-2">{t("compensation.outstanding")}</h3>
+            {currencies.length === 0 ? (
+              <p className="text-gray-900">{t("compensation.noAmounts")}</p>
+            ) : (
+              currencies.map(([currency, amount]) => (
+                <p key={currency} className="text-2xl font-bold text-gray-900">
+                  {formatAmount(amount, currency || undefined)}
+                </p>
+              ))
+            )}
+            <p className="text-sm text-gray-600 mt-1">{plural("compensation.across", owed.length)}</p>
+          </div>
+          <div className="bg-white border border-gray-200 rounded-lg px-8 py-6">
+            <h3 className="text-sm font-medium text-gray-500 mb-3">{t("compensation.awaiting")}</h3>
+            <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm">
+              {AGE_BRACKETS.map((bracket) => (
+                <div key={bracket.id} className="flex justify-between">
+                  <dt className="text-gray-600">{t(`ageBracket.${bracket.id}`)}</dt>
+                  <dd className="font-semibold text-gray-900">
+                    {owed.filter((award) => ageBracket(award) === bracket).length}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        </div>
+      )}
+
+      {/* Awards */}
+      <div className="bg-white border border-gray-200 rounded-lg">
+        <div className="px-8 py-8">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-semibold text-gray-900">{t(`compensationFilter.${filter}`)}</h2>
+            {report && (
+              <span className="text-sm text-gray-500">
+                {t("compensation.asOf", { date: formatTimestamp(report.generated_at) })}
+              </span>
+            )}
+          </div>
+
+          {isLoading ? (
+            <p className="text-gray-600">{t("compensation.loading")}</p>
+          ) : awards.length === 0 ? (
+            <p className="text-gray-600">{t("compensation.none")}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t("compensation.column.property")}
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t("compensation.column.award")}
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t("compensation.column.age")}
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t("compensation.column.awarded")}
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t("compensation.column.paid")}
+                    </th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t("compensation.column.outstanding")}
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t("compensation.column.status")}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {awards.map((award) => (
+                    <tr key={award.entry_id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm">
+                        <div className="text-gray-700">{award.survey_number}</div>
+                        <Link
+                          href={`/property?property_number=${encodeURIComponent(award.property_number)}`}
+                          className="font-medium text-gray-900 underline hover:text-gray-600"
+                        >
+                          {award.property_number}
+                        </Link>
+                        <div className="text-xs text-gray-500">
+                          {t("compensation.owner", { owner: award.owner_id })}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {award.award_number ?? "—"}
+                        {award.award_date && <div className="text-xs text-gray-500">{award.award_date}</div>}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">{plural("compensation.days", award.age_days)}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700 text-right">
+                        {formatAwardAmount(award, award.amount, locale)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700 text-right">
+                        {formatAwardAmount(award, award.paid, locale)}
+                        <div className="text-xs text-gray-500">{plural("compensation.payments", award.payments.length)}</div>
+                      </td>
+                      <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-right">
+                        {formatAwardAmount(award, award.amount === undefined ? undefined : award.outstanding, locale)}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span
+                          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${AWARD_STATUS_STYLES[award.status]}`}
+                        >
+                          {t(`awardStatus.${award.status}`)}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  )
+}
+
+export default function CompensationPage() {
+  const { t } = useI18n()
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-6 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{t("compensation.title")}</h1>
+              <p className="text-gray-600 mt-1">{t("compensation.subtitle")}</p>
+            </div>
+            <div className="flex items-center gap-6">
+              <SessionBadge />
+              <Link
+                href="/"
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+              >
+                ← {t("nav.backHome")}
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-6 py-12">
+        <RequireRole roles={["registrar", "auditor"]}>
+          <CompensationDashboard />
+        </RequireRole>
+      </main>
+    </div>
+  )
+}
@@ -1,5 +1,8 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import I18nProvider from "@/components/I18nProvider";
+import LanguageSwitcher from "@/components/LanguageSwitcher";
+import { getI18n, getRequestLocale } from "@/lib/i18n-server";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -12,23 +15,34 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: "DeLand - Blockchain Land Records",
-  description:
-    "Transparent, immutable, and tamper-proof land registry system using blockchain technology",
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const { t } = await getI18n();
+  return {
+    title: t("layout.title"),
+    description: t("layout.description"),
+  };
+}
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await getRequestLocale();
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <I18nProvider locale={locale}>
+          <div className="border-b border-gray-100 bg-gray-50 print:hidden">
+            <div className="max-w-6xl mx-auto px-6 py-2 flex justify-end">
+              <LanguageSwitcher />
+            </div>
+          </div>
+          {children}
+        </I18nProvider>
       </body>
     </html>
   );
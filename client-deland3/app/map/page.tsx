@@ -0,0 +1,217 @@
+"use client"
+
+import type React from "react"
+
+import { Suspense, useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import ParcelMap from "@/components/ParcelMap"
+import { ApiError, getParcels } from "@/lib/api"
+import { describeBoundary } from "@/lib/geo"
+import { useI18n, useRichText } from "@/lib/i18n-context"
+import type { Parcel } from "@/lib/types"
+
+const propertyHref = (propertyNumber: string) => `/property?property_number=${encodeURIComponent(propertyNumber)}`
+
+function ParcelMapView() {
+  const i18n = useI18n()
+  const { t, formatDate } = i18n
+  const richText = useRichText()
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const requestedSurvey = searchParams.get("survey_number")?.trim() ?? ""
+
+  const [surveyNumber, setSurveyNumber] = useState("")
+  const [parcels, setParcels] = useState<Parcel[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    getParcels({}, { signal: controller.signal })
+      .then(setParcels)
+      .catch((err) => {
+        if (err instanceof ApiError && err.kind === "aborted") return
+        setError(err instanceof ApiError ? err.message : t("map.loadFailed"))
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false)
+      })
+    return () => controller.abort()
+  }, [t])
+
+  useEffect(() => {
+    setSurveyNumber(requestedSurvey)
+  }, [requestedSurvey])
+
+  const selected = parcels.find((parcel) => parcel.survey_number === requestedSurvey)
+  const flagged = parcels.filter((parcel) => parcel.overlaps.length > 0)
+
+  const select = (survey: string) => router.push(`/map?survey_number=${encodeURIComponent(survey)}`)
+
+  // A parcel with a single property opens its history straight away.
+  const handleSelect = (parcel: Parcel) => {
+    if (parcel.property_numbers.length === 1) router.push(propertyHref(parcel.property_numbers[0]))
+    else select(parcel.survey_number)
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const trimmed = surveyNumber.trim()
+    if (!trimmed) return
+    if (!parcels.some((parcel) => parcel.survey_number === trimmed)) {
+      setError(t("map.notRecorded", { survey: trimmed }))
+      return
+    }
+    setError(null)
+    select(trimmed)
+  }
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-6 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{t("map.title")}</h1>
+              <p className="text-gray-600 mt-1">{t("map.subtitle")}</p>
+            </div>
+            <Link
+              href="/"
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+            >
+              ← {t("nav.backHome")}
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-6 py-12">
+        {/* Find Parcel */}
+        <div className="bg-white border border-gray-200 rounded-lg mb-8">
+          <div className="px-8 py-8">
+            <form onSubmit={handleSubmit} className="flex gap-4 mb-6">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">{t("map.surveyNumber")}</label>
+                <input
+                  type="text"
+                  value={surveyNumber}
+                  onChange={(e) => setSurveyNumber(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
+                  placeholder={t("map.placeholder")}
+                />
+              </div>
+              <div className="flex items-end">
+                <button
+                  type="submit"
+                  disabled={isLoading}
+                  className="px-6 py-2 bg-gray-900 text-white font-medium rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  {t("map.show")}
+                </button>
+              </div>
+            </form>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+                <div className="flex">
+                  <div className="text-red-400 mr-3">⚠️</div>
+                  <div className="text-red-700 font-medium">{error}</div>
+                </div>
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="h-[32rem] flex items-center justify-center bg-gray-50 border border-gray-200 rounded-lg">
+                <p className="text-gray-600">{t("map.loading")}</p>
+              </div>
+            ) : (
+              <ParcelMap
+                parcels={parcels}
+                selected={requestedSurvey || undefined}
+                onSelect={handleSelect}
+                heightClass="h-[32rem]"
+              />
+            )}
+            <p className="mt-2 text-xs text-gray-500">{t("map.hint")}</p>
+          </div>
+        </div>
+
+        {/* Selected Parcel */}
+        {selected && (
+          <div className="bg-white border border-gray-200 rounded-lg mb-8">
+            <div className="px-8 py-8">
+              <h3 className="text-xl font-semibold text-gray-900 mb-1">
+                {t("map.selected", { survey: selected.survey_number })}
+              </h3>
+              <p className="text-sm text-gray-600 mb-6">
+                {richText("map.recorded", {
+                  boundary: describeBoundary(selected.boundary, i18n),
+                  date: formatDate(selected.recorded_at),
+                  property: (
+                    <Link href={propertyHref(selected.property_number)} className="underline hover:text-gray-900">
+                      {selected.property_number}
+                    </Link>
+                  ),
+                })}
+              </p>
+              <span className="text-sm font-medium text-gray-500">{t("map.properties")}</span>
+              <ul className="mt-1 flex flex-wrap gap-3">
+                {selected.property_numbers.map((propertyNumber) => (
+                  <li key={propertyNumber}>
+                    <Link
+                      href={propertyHref(propertyNumber)}
+                      className="inline-flex px-3 py-1 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+                    >
+                      {propertyNumber}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+              {selected.overlaps.length > 0 && (
+                <p className="mt-4 text-sm text-red-700">
+                  {t("map.overlaps", { surveys: selected.overlaps.join(", ") })}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Overlaps */}
+        {flagged.length > 0 && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+            <h3 className="text-lg font-semibold text-red-900 mb-2">{t("map.overlapping")}</h3>
+            <ul className="space-y-1 text-sm text-red-800">
+              {flagged.map((parcel) => (
+                <li key={parcel.survey_number}>
+                  {richText("map.parcelOverlaps", {
+                    survey: (
+                      <button
+                        type="button"
+                        onClick={() => select(parcel.survey_number)}
+                        className="font-medium underline hover:text-red-900"
+                      >
+                        {parcel.survey_number}
+                      </button>
+                    ),
+                    surveys: parcel.overlaps.join(", "),
+                  })}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
+
+export default function MapPage() {
+  return (
+    <Suspense>
+      <ParcelMapView />
+    </Suspense>
+  )
+}
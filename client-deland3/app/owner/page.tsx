@@ -0,0 +1,286 @@
+"use client"
+
+import type React from "react"
+
+import { Suspense, useCallback, useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import OwnerDetails from "@/components/OwnerDetails"
+import { ApiError, getOwner, getOwnerPortfolio } from "@/lib/api"
+import { useI18n } from "@/lib/i18n-context"
+import type { Owner, OwnerPortfolio, PropertyHolding } from "@/lib/types"
+
+const HoldingsTable = ({ holdings, former }: { holdings: PropertyHolding[]; former: boolean }) => {
+  const { t, actionLabel, landTypeLabel, formatDate } = useI18n()
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              {t("portfolio.column.property")}
+            </th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              {t("portfolio.column.survey")}
+            </th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              {t("portfolio.column.landType")}
+            </th>
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              {t("portfolio.column.acquired")}
+            </th>
+            {former && (
+              <>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("portfolio.column.released")}
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {t("portfolio.column.nowHeldBy")}
+                </th>
+              </>
+            )}
+            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              {t("portfolio.column.lastAction")}
+            </th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {holdings.map((holding) => (
+            <tr key={holding.property_number} className="hover:bg-gray-50">
+              <td className="px-4 py-3 text-sm font-medium">
+                <Link
+                  href={`/property?property_number=${encodeURIComponent(holding.property_number)}`}
+                  className="text-gray-900 underline hover:text-gray-600"
+                >
+                  {holding.property_number}
+                </Link>
+              </td>
+              <td className="px-4 py-3 text-sm text-gray-700">{holding.survey_number}</td>
+              <td className="px-4 py-3 text-sm text-gray-700">{landTypeLabel(holding.land_type)}</td>
+              <td className="px-4 py-3 text-sm text-gray-700">{formatDate(holding.acquired_at)}</td>
+              {former && (
+                <>
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    {holding.released_at ? formatDate(holding.released_at) : "—"}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">
+                    {/* A subdivided or merged property has no owner of its own. */}
+                    {holding.current_owner_id ? (
+                      <Link
+                        href={`/owner?owner_id=${encodeURIComponent(holding.current_owner_id)}`}
+                        className="hover:underline"
+                      >
+                        {holding.current_owner_id}
+                      </Link>
+                    ) : (
+                      actionLabel(holding.last_action)
+                    )}
+                  </td>
+                </>
+              )}
+              <td className="px-4 py-3 text-sm text-gray-700">
+                {actionLabel(holding.last_action)}
+                <div className="text-xs text-gray-500">{formatDate(holding.last_updated)}</div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function OwnerSearch() {
+  const { t } = useI18n()
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const requestedOwner = searchParams.get("owner_id")?.trim() ?? ""
+
+  const [ownerId, setOwnerId] = useState("")
+  const [portfolio, setPortfolio] = useState<OwnerPortfolio | null>(null)
+  // The owner's registered profile; null for owners recorded before the
+  // registry existed.
+  const [profile, setProfile] = useState<Owner | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const searchController = useRef<AbortController | null>(null)
+
+  const loadPortfolio = useCallback(
+    async (id: string) => {
+      setIsLoading(true)
+      setError(null)
+      setPortfolio(null)
+      setProfile(null)
+
+      searchController.current?.abort()
+      const controller = new AbortController()
+      searchController.current = controller
+
+      try {
+        const [holdings, registered] = await Promise.all([
+          getOwnerPortfolio(id, { signal: controller.signal }),
+          getOwner(id, { signal: controller.signal }).catch((err) => {
+            if (err instanceof ApiError && err.status === 404) return null
+            throw err
+          }),
+        ])
+        setPortfolio(holdings)
+        setProfile(registered)
+      } catch (err) {
+        if (err instanceof ApiError && err.kind === "aborted") return
+        setError(err instanceof ApiError ? err.message : t("portfolio.fetchFailed"))
+      } finally {
+        if (searchController.current === controller) {
+          searchController.current = null
+          setIsLoading(false)
+        }
+      }
+    },
+    [t],
+  )
+
+  useEffect(() => {
+    if (!requestedOwner) return
+    setOwnerId(requestedOwner)
+    loadPortfolio(requestedOwner)
+  }, [requestedOwner, loadPortfolio])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const trimmed = ownerId.trim()
+    if (!trimmed) {
+      setError(t("portfolio.enterOwner"))
+      return
+    }
+
+    if (trimmed === requestedOwner) {
+      loadPortfolio(trimmed)
+    } else {
+      router.push(`/owner?owner_id=${encodeURIComponent(trimmed)}`)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-6 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{t("portfolio.title")}</h1>
+              <p className="text-gray-600 mt-1">{t("portfolio.subtitle")}</p>
+            </div>
+            <Link
+              href="/"
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+            >
+              ← {t("nav.backHome")}
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-6 py-12">
+        {/* Search Form */}
+        <div className="bg-white border border-gray-200 rounded-lg mb-8">
+          <div className="px-8 py-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-6">{t("portfolio.searchTitle")}</h2>
+
+            <form onSubmit={handleSubmit} className="flex gap-4">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">{t("portfolio.ownerId")}</label>
+                <input
+                  type="text"
+                  value={ownerId}
+                  onChange={(e) => setOwnerId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
+                  placeholder={t("portfolio.placeholder")}
+                  required
+                />
+              </div>
+              <div className="flex items-end">
+                <button
+                  type="submit"
+                  disabled={isLoading}
+                  className="px-6 py-2 bg-gray-900 text-white font-medium rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  {isLoading ? t("portfolio.searching") : t("portfolio.search")}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
+            <div className="flex">
+              <div className="text-red-400 mr-3">⚠️</div>
+              <div className="text-red-700 font-medium">{error}</div>
+            </div>
+          </div>
+        )}
+
+        {portfolio && (
+          <>
+            {/* Profile */}
+            {profile && (
+              <div className="bg-white border border-gray-200 rounded-lg mb-8">
+                <div className="px-8 py-8">
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-xl font-semibold text-gray-900">{profile.name}</h3>
+                    <Link
+                      href={`/owners?owner_id=${encodeURIComponent(profile.id)}`}
+                      className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                    >
+                      {t("portfolio.openInRegistry")}
+                    </Link>
+                  </div>
+                  <OwnerDetails owner={profile} />
+                </div>
+              </div>
+            )}
+
+            {/* Current Holdings */}
+            <div className="bg-white border border-gray-200 rounded-lg mb-8">
+              <div className="px-8 py-8">
+                <h3 className="text-xl font-semibold text-gray-900 mb-1">{t("portfolio.current")}</h3>
+                <p className="text-sm text-gray-600 mb-6">
+                  {t("portfolio.currentDescription", { owner: portfolio.owner_id })}
+                </p>
+                {portfolio.current.length > 0 ? (
+                  <HoldingsTable holdings={portfolio.current} former={false} />
+                ) : (
+                  <p className="text-gray-600">{t("portfolio.noCurrent", { owner: portfolio.owner_id })}</p>
+                )}
+              </div>
+            </div>
+
+            {/* Former Holdings */}
+            <div className="bg-white border border-gray-200 rounded-lg">
+              <div className="px-8 py-8">
+                <h3 className="text-xl font-semibold text-gray-900 mb-1">{t("portfolio.former")}</h3>
+                <p className="text-sm text-gray-600 mb-6">{t("portfolio.formerDescription")}</p>
+                {portfolio.former.length > 0 ? (
+                  <HoldingsTable holdings={portfolio.former} former />
+                ) : (
+                  <p className="text-gray-600">{t("portfolio.noFormer")}</p>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
+
+export default function OwnerPage() {
+  return (
+    <Suspense>
+      <OwnerSearch />
+    </Suspense>
+  )
+}
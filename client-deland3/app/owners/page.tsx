@@ -0,0 +1,543 @@
+"use client"
+
+import type React from "react"
+
+import { Suspense, useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import OwnerDetails from "@/components/OwnerDetails"
+import OwnerPicker from "@/components/OwnerPicker"
+import SessionBadge from "@/components/SessionBadge"
+import { ApiError, getOwner, listOwners, registerOwner, updateOwner } from "@/lib/api"
+import { useI18n } from "@/lib/i18n-context"
+import { useSession } from "@/lib/session"
+import type { NewOwnerPayload, Owner } from "@/lib/types"
+
+// Document types offered as suggestions; any other type can be typed in.
+const ID_DOCUMENT_TYPES = ["Aadhaar", "PAN", "Passport", "Voter ID", "Driving Licence"]
+
+interface MemberRow {
+  ownerID: string
+  share: string
+}
+
+const emptyForm = { id: "", name: "", contact: "", idDocumentType: "", idDocumentRef: "" }
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="mt-1 text-sm text-red-600">{message}</p> : null
+
+const ownersHref = (params: Record<string, string>) => `/owners?${new URLSearchParams(params).toString()}`
+
+// Registers a new owner, or edits `editing` when set. Joint owners list at
+// least two registered individuals whose shares add up to 100%.
+const OwnerForm = ({
+  editing,
+  initialID,
+  onSaved,
+  onCancel,
+}: {
+  editing: Owner | null
+  initialID: string
+  onSaved: (owner: Owner) => void
+  onCancel?: () => void
+}) => {
+  const { t, formatNumber } = useI18n()
+  const [form, setForm] = useState(emptyForm)
+  const [joint, setJoint] = useState(false)
+  const [members, setMembers] = useState<MemberRow[]>([])
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    setFieldErrors({})
+    setError(null)
+    if (!editing) {
+      setForm({ ...emptyForm, id: initialID })
+      setJoint(false)
+      setMembers([
+        { ownerID: "", share: "" },
+        { ownerID: "", share: "" },
+      ])
+      return
+    }
+    setForm({
+      id: editing.id,
+      name: editing.name,
+      contact: editing.contact ?? "",
+      idDocumentType: editing.id_document_type ?? "",
+      idDocumentRef: editing.id_document_ref ?? "",
+    })
+    setJoint(Boolean(editing.members?.length))
+    setMembers(
+      editing.members?.length
+        ? editing.members.map((member) => ({ ownerID: member.owner_id, share: String(member.share) }))
+        : [
+            { ownerID: "", share: "" },
+            { ownerID: "", share: "" },
+          ],
+    )
+  }, [editing, initialID])
+
+  const clearFieldError = (field: string) =>
+    setFieldErrors((prev) => {
+      const next = { ...prev }
+      delete next[field]
+      return next
+    })
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const name = e.target.name as keyof typeof emptyForm
+    const { value } = e.target
+    setForm((prev) => ({ ...prev, [name]: value }))
+    clearFieldError(name.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`))
+  }
+
+  const updateMember = (index: number, change: Partial<MemberRow>) => {
+    setMembers((prev) => prev.map((member, i) => (i === index ? { ...member, ...change } : member)))
+    clearFieldError(`members.${index}`)
+    clearFieldError("members")
+  }
+
+  const inputClass = (field: string) =>
+    `w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500 ${
+      fieldErrors[field] ? "border-red-400 bg-red-50" : "border-gray-300"
+    }`
+
+  const shareTotal = members.reduce((total, member) => total + (Number(member.share) || 0), 0)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setFieldErrors({})
+    setError(null)
+    const payload: NewOwnerPayload = {
+      id: form.id,
+      name: form.name,
+      contact: form.contact,
+      id_document_type: joint ? "" : form.idDocumentType,
+      id_document_ref: joint ? "" : form.idDocumentRef,
+      members: joint ? members.map((member) => ({ owner_id: member.ownerID, share: Number(member.share) || 0 })) : [],
+    }
+    try {
+      onSaved(await (editing ? updateOwner(payload) : registerOwner(payload)))
+    } catch (err) {
+      if (err instanceof ApiError && Object.keys(err.fields).length > 0) {
+        setFieldErrors(err.fields)
+        return
+      }
+      setError(err instanceof ApiError ? err.message : t("owners.saveFailed"))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg mb-8">
+      <div className="px-8 py-8">
+        <h2 className="text-xl font-semibold text-gray-900 mb-1">
+          {editing ? t("owners.editTitle", { owner: editing.id }) : t("owners.registerTitle")}
+        </h2>
+        <p className="text-sm text-gray-600 mb-6">{t("owners.registerHint")}</p>
+
+        {error && <p className="mb-6 text-sm text-red-600">{error}</p>}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="flex gap-6 text-sm">
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={!joint} onChange={() => setJoint(false)} />
+              {t("owners.individual")}
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={joint} onChange={() => setJoint(true)} />
+              {t("owners.jointOwners")}
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t("owners.ownerId")} *</label>
+              <input
+                type="text"
+                name="id"
+                value={form.id}
+                onChange={handleChange}
+                readOnly={Boolean(editing)}
+                required
+                className={`${inputClass("id")}${editing ? " bg-gray-50 text-gray-500" : ""}`}
+                placeholder={t("owners.ownerPlaceholder")}
+              />
+              <FieldError message={fieldErrors.id} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {joint ? t("owners.name") : t("owners.fullName")} *
+              </label>
+              <input
+                type="text"
+                name="name"
+                value={form.name}
+                onChange={handleChange}
+                required
+                className={inputClass("name")}
+                placeholder={joint ? t("owners.jointNamePlaceholder") : t("owners.namePlaceholder")}
+              />
+              <FieldError message={fieldErrors.name} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t("owners.contact")}</label>
+              <input
+                type="text"
+                name="contact"
+                value={form.contact}
+                onChange={handleChange}
+                className={inputClass("contact")}
+                placeholder={t("owners.contactPlaceholder")}
+              />
+              <FieldError message={fieldErrors.contact} />
+            </div>
+            {!joint && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t("owners.idDocument")} *</label>
+                  <input
+                    type="text"
+                    name="idDocumentType"
+                    value={form.idDocumentType}
+                    onChange={handleChange}
+                    list="id-document-types"
+                    required
+                    className={inputClass("id_document_type")}
+                    placeholder={t("owners.idDocumentPlaceholder")}
+                  />
+                  <datalist id="id-document-types">
+                    {ID_DOCUMENT_TYPES.map((type) => (
+                      <option key={type} value={type} />
+                    ))}
+                  </datalist>
+                  <FieldError message={fieldErrors.id_document_type} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t("owners.documentNumber")} *</label>
+                  <input
+                    type="text"
+                    name="idDocumentRef"
+                    value={form.idDocumentRef}
+                    onChange={handleChange}
+                    required
+                    className={inputClass("id_document_ref")}
+                  />
+                  <FieldError message={fieldErrors.id_document_ref} />
+                </div>
+              </>
+            )}
+          </div>
+
+          {joint && (
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-2">{t("owners.members")} *</span>
+              <div className="space-y-3">
+                {members.map((member, index) => (
+                  <div key={index} className="flex gap-3 items-start">
+                    <div className="flex-1">
+                      <OwnerPicker
+                        name={`member-${index}`}
+                        value={member.ownerID}
+                        onChange={(ownerID) => updateMember(index, { ownerID })}
+                        required
+                        className={inputClass(`members.${index}`)}
+                        placeholder={t("owners.memberPlaceholder")}
+                      />
+                      <FieldError message={fieldErrors[`members.${index}`]} />
+                    </div>
+                    <div className="w-28">
+                      <input
+                        type="number"
+                        value={member.share}
+                        onChange={(e) => updateMember(index, { share: e.target.value })}
+                        min="0.01"
+                        max="100"
+                        step="0.01"
+                        required
+                        className={inputClass(`members.${index}`)}
+                        placeholder="%"
+                        aria-label={t("owners.share")}
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setMembers((prev) => prev.filter((_, i) => i !== index))}
+                      disabled={members.length <= 2}
+                      className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                      aria-label={t("owners.removeMember")}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="mt-3 flex items-center justify-between text-sm">
+                <button
+                  type="button"
+                  onClick={() => setMembers((prev) => [...prev, { ownerID: "", share: "" }])}
+                  className="font-medium text-gray-700 underline hover:text-gray-900"
+                >
+                  {t("owners.addMember")}
+                </button>
+                <span className={Math.abs(shareTotal - 100) < 0.001 ? "text-gray-600" : "text-amber-700"}>
+                  {t("owners.shareTotal", { total: formatNumber(shareTotal) })}
+                </span>
+              </div>
+              <FieldError message={fieldErrors.members} />
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            {onCancel && (
+              <button
+                type="button"
+                onClick={onCancel}
+                className="px-6 py-2 text-gray-700 font-medium bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                {t("owners.cancel")}
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-6 py-2 bg-gray-900 text-white font-medium rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              {isSubmitting ? t("owners.saving") : editing ? t("owners.saveChanges") : t("owners.register")}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+function OwnerRegistry() {
+  const { t } = useI18n()
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const session = useSession()
+  const requestedOwner = searchParams.get("owner_id")?.trim() ?? ""
+  const registerID = searchParams.get("register")?.trim() ?? ""
+  const isRegistrar = session?.officer.role === "registrar"
+
+  const [query, setQuery] = useState("")
+  const [owners, setOwners] = useState<Owner[]>([])
+  const [selected, setSelected] = useState<Owner | null>(null)
+  const [isEditing, setIsEditing] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const search = useCallback(
+    async (q: string, signal?: AbortSignal) => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        setOwners(await listOwners({ q }, { signal }))
+      } catch (err) {
+        if (err instanceof ApiError && err.kind === "aborted") return
+        setError(err instanceof ApiError ? err.message : t("owners.searchFailed"))
+      } finally {
+        if (!signal?.aborted) setIsLoading(false)
+      }
+    },
+    [t],
+  )
+
+  // Signing in or out changes whether personal fields come back masked.
+  const token = session?.token
+  useEffect(() => {
+    const controller = new AbortController()
+    search("", controller.signal)
+    return () => controller.abort()
+  }, [search, token])
+
+  useEffect(() => {
+    setSelected(null)
+    setIsEditing(false)
+    if (!requestedOwner) return
+    const controller = new AbortController()
+    getOwner(requestedOwner, { signal: controller.signal })
+      .then(setSelected)
+      .catch((err) => {
+        if (err instanceof ApiError && err.kind === "aborted") return
+        setError(err instanceof ApiError ? err.message : t("owners.loadFailed"))
+      })
+    return () => controller.abort()
+  }, [requestedOwner, token, t])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    search(query.trim())
+  }
+
+  const handleSaved = (owner: Owner) => {
+    search(query.trim())
+    if (owner.id === requestedOwner) {
+      getOwner(owner.id)
+        .then(setSelected)
+        .catch(() => {})
+      setIsEditing(false)
+    } else {
+      router.push(ownersHref({ owner_id: owner.id }))
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-6 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{t("owners.title")}</h1>
+              <p className="text-gray-600 mt-1">{t("owners.subtitle")}</p>
+            </div>
+            <div className="flex items-center gap-6">
+              <SessionBadge />
+              <Link
+                href="/"
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+              >
+                ← {t("nav.backHome")}
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-6 py-12">
+        {/* Selected Owner */}
+        {selected &&
+          (isEditing && isRegistrar ? (
+            <OwnerForm
+              editing={selected}
+              initialID=""
+              onSaved={handleSaved}
+              onCancel={() => setIsEditing(false)}
+            />
+          ) : (
+            <div className="bg-white border border-gray-200 rounded-lg mb-8">
+              <div className="px-8 py-8">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-xl font-semibold text-gray-900">{selected.name}</h3>
+                  <div className="flex items-center gap-3">
+                    <Link
+                      href={`/owner?owner_id=${encodeURIComponent(selected.id)}`}
+                      className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                    >
+                      {t("owners.viewPortfolio")}
+                    </Link>
+                    {isRegistrar && (
+                      <button
+                        type="button"
+                        onClick={() => setIsEditing(true)}
+                        className="px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                      >
+                        {t("owners.edit")}
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <OwnerDetails owner={selected} />
+              </div>
+            </div>
+          ))}
+
+        {/* Register */}
+        {isRegistrar && !isEditing && <OwnerForm editing={null} initialID={registerID} onSaved={handleSaved} />}
+
+        {/* Search */}
+        <div className="bg-white border border-gray-200 rounded-lg">
+          <div className="px-8 py-8">
+            <form onSubmit={handleSubmit} className="flex gap-4 mb-6">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">{t("owners.find")}</label>
+                <input
+                  type="text"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
+                  placeholder={session ? t("owners.findPlaceholder") : t("owners.findExactPlaceholder")}
+                />
+              </div>
+              <div className="flex items-end">
+                <button
+                  type="submit"
+                  disabled={isLoading}
+                  className="px-6 py-2 bg-gray-900 text-white font-medium rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  {isLoading ? t("owners.searching") : t("owners.search")}
+                </button>
+              </div>
+            </form>
+
+            {error && <p className="mb-6 text-sm text-red-600">{error}</p>}
+
+            {owners.length === 0 ? (
+              <p className="text-gray-600">{isLoading ? t("owners.loading") : t("owners.noMatches")}</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {t("owners.column.id")}
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {t("owners.column.name")}
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {t("owners.column.identity")}
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {t("owners.column.contact")}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {owners.map((owner) => (
+                      <tr key={owner.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3 text-sm font-medium">
+                          <Link
+                            href={ownersHref({ owner_id: owner.id })}
+                            className="text-gray-900 underline hover:text-gray-600"
+                          >
+                            {owner.id}
+                          </Link>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700">{owner.name}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700">
+                          {owner.members?.length
+                            ? t("owners.jointShares", {
+                                shares: owner.members.map((member) => `${member.owner_id} ${member.share}%`).join(", "),
+                              })
+                            : `${owner.id_document_type} ${owner.id_document_ref}`}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-700">{owner.contact || "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {owners.some((owner) => owner.masked) && <p className="mt-4 text-xs text-gray-500">{t("owners.masked")}</p>}
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
+
+export default function OwnersPage() {
+  return (
+    <Suspense>
+      <OwnerRegistry />
+    </Suspense>
+  )
+}
@@ -1,14 +1,18 @@
 import Link from "next/link"
+import ActivityFeed from "@/components/ActivityFeed"
+import { getI18n } from "@/lib/i18n-server"
+
+export default async function Home() {
+  const { t } = await getI18n()
 
-export default function Home() {
   return (
     <div className="min-h-screen bg-white">
       {/* Header */}
       <header className="border-b border-gray-200">
         <div className="max-w-6xl mx-auto px-6 py-8">
           <div className="text-center">
-            <h1 className="text-4xl font-bold text-gray-900 mb-2">DeLand</h1>
-            <p className="text-lg text-gray-600">Blockchain Land Records System</p>
+            <h1 className="text-4xl font-bold text-gray-900 mb-2">{t("home.title")}</h1>
+            <p className="text-lg text-gray-600">{t("home.subtitle")}</p>
           </div>
         </div>
       </header>
@@ -16,10 +20,8 @@ export default function Home() {
       {/* Main Content */}
       <main className="max-w-4xl mx-auto px-6 py-16">
         <div className="text-center mb-12">
-          <h2 className="text-3xl font-bold text-gray-900 mb-4">Secure Land Registry</h2>
-          <p className="text-xl text-gray-600 max-w-2xl mx-auto">
-            Transparent, immutable, and tamper-proof land registry system using blockchain technology
-          </p>
+          <h2 className="text-3xl font-bold text-gray-900 mb-4">{t("home.heading")}</h2>
+          <p className="text-xl text-gray-600 max-w-2xl mx-auto">{t("home.tagline")}</p>
         </div>
 
         {/* Action Cards */}
@@ -34,8 +36,8 @@ export default function Home() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
                 </svg>
               </div>
-              <h3 className="text-xl font-semibold text-gray-900 mb-2">Add New Entry</h3>
-              <p className="text-gray-600">Register new land records to the blockchain ledger</p>
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">{t("home.addEntry")}</h3>
+              <p className="text-gray-600">{t("home.addEntryText")}</p>
             </div>
           </Link>
 
@@ -54,10 +56,170 @@ export default function Home() {
                   />
                 </svg>
               </div>
-              <h3 className="text-xl font-semibold text-gray-900 mb-2">Search Property</h3>
-              <p className="text-gray-600">View property details and transaction history</p>
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">{t("home.searchProperty")}</h3>
+              <p className="text-gray-600">{t("home.searchPropertyText")}</p>
+            </div>
+          </Link>
+
+          <Link
+            href="/owner"
+            className="group block p-8 border border-gray-200 rounded-lg hover:border-gray-300 hover:shadow-lg transition-all duration-200"
+          >
+            <div className="text-center">
+              <div className="w-16 h-16 bg-gray-100 rounded-lg flex items-center justify-center mx-auto mb-4 group-hover:bg-gray-200 transition-colors">
+                <svg className="w-8 h-8 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z"
+                  />
+                </svg>
+              </div>
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">{t("home.ownerPortfolio")}</h3>
+              <p className="text-gray-600">{t("home.ownerPortfolioText")}</p>
+            </div>
+          </Link>
+
+          <Link
+            href="/owners"
+            className="group block p-8 border border-gray-200 rounded-lg hover:border-gray-300 hover:shadow-lg transition-all duration-200"
+          >
+            <div className="text-center">
+              <div className="w-16 h-16 bg-gray-100 rounded-lg flex items-center justify-center mx-auto mb-4 group-hover:bg-gray-200 transition-colors">
+                <svg className="w-8 h-8 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M10 6H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V8a2 2 0 00-2-2h-5m-4 0V5a2 2 0 114 0v1m-4 0a2 2 0 104 0m-5 8a2 2 0 100-4 2 2 0 000 4zm0 0c1.306 0 2.417.835 2.83 2M9 14a3.001 3.001 0 00-2.83 2M15 11h3m-3 4h2"
+                  />
+                </svg>
+              </div>
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">{t("home.ownerRegistry")}</h3>
+              <p className="text-gray-600">{t("home.ownerRegistryText")}</p>
+            </div>
+          </Link>
+
+          <Link
+            href="/search"
+            className="group block p-8 border border-gray-200 rounded-lg hover:border-gray-300 hover:shadow-lg transition-all duration-200"
+          >
+            <div className="text-center">
+              <div className="w-16 h-16 bg-gray-100 rounded-lg flex items-center justify-center mx-auto mb-4 group-hover:bg-gray-200 transition-colors">
+                <svg className="w-8 h-8 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4h18M6 9h12M9 14h6M11 19h2" />
+                </svg>
+              </div>
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">{t("home.browseLedger")}</h3>
+              <p className="text-gray-600">{t("home.browseLedgerText")}</p>
+            </div>
+          </Link>
+
+          <Link
+            href="/verify-bundle"
+            className="group block p-8 border border-gray-200 rounded-lg hover:border-gray-300 hover:shadow-lg transition-all duration-200"
+          >
+            <div className="text-center">
+              <div className="w-16 h-16 bg-gray-100 rounded-lg flex items-center justify-center mx-auto mb-4 group-hover:bg-gray-200 transition-colors">
+                <svg className="w-8 h-8 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z"
+                  />
+                </svg>
+              </div>
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">{t("home.verifyCertificate")}</h3>
+              <p className="text-gray-600">{t("home.verifyCertificateText")}</p>
+            </div>
+          </Link>
+
+          <Link
+            href="/audit"
+            className="group block p-8 border border-gray-200 rounded-lg hover:border-gray-300 hover:shadow-lg transition-all duration-200"
+          >
+            <div className="text-center">
+              <div className="w-16 h-16 bg-gray-100 rounded-lg flex items-center justify-center mx-auto mb-4 group-hover:bg-gray-200 transition-colors">
+                <svg className="w-8 h-8 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4"
+                  />
+                </svg>
+              </div>
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">{t("home.ledgerAudit")}</h3>
+              <p className="text-gray-600">{t("home.ledgerAuditText")}</p>
+            </div>
+          </Link>
+
+          <Link
+            href="/transfers"
+            className="group block p-8 border border-gray-200 rounded-lg hover:border-gray-300 hover:shadow-lg transition-all duration-200"
+          >
+            <div className="text-center">
+              <div className="w-16 h-16 bg-gray-100 rounded-lg flex items-center justify-center mx-auto mb-4 group-hover:bg-gray-200 transition-colors">
+                <svg className="w-8 h-8 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4"
+                  />
+                </svg>
+              </div>
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">{t("home.transfers")}</h3>
+              <p className="text-gray-600">{t("home.transfersText")}</p>
             </div>
           </Link>
+
+          <Link
+            href="/compensation"
+            className="group block p-8 border border-gray-200 rounded-lg hover:border-gray-300 hover:shadow-lg transition-all duration-200"
+          >
+            <div className="text-center">
+              <div className="w-16 h-16 bg-gray-100 rounded-lg flex items-center justify-center mx-auto mb-4 group-hover:bg-gray-200 transition-colors">
+                <svg className="w-8 h-8 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+                  />
+                </svg>
+              </div>
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">{t("home.compensation")}</h3>
+              <p className="text-gray-600">{t("home.compensationText")}</p>
+            </div>
+          </Link>
+
+          <Link
+            href="/map"
+            className="group block p-8 border border-gray-200 rounded-lg hover:border-gray-300 hover:shadow-lg transition-all duration-200"
+          >
+            <div className="text-center">
+              <div className="w-16 h-16 bg-gray-100 rounded-lg flex items-center justify-center mx-auto mb-4 group-hover:bg-gray-200 transition-colors">
+                <svg className="w-8 h-8 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7"
+                  />
+                </svg>
+              </div>
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">{t("home.parcelMap")}</h3>
+              <p className="text-gray-600">{t("home.parcelMapText")}</p>
+            </div>
+          </Link>
+        </div>
+
+        {/* Recent Activity */}
+        <div className="mb-16">
+          <ActivityFeed />
         </div>
 
         {/* Features */}
@@ -73,8 +235,8 @@ export default function Home() {
                 />
               </svg>
             </div>
-            <h3 className="text-lg font-semibold text-gray-900 mb-2">Secure</h3>
-            <p className="text-gray-600">Blockchain-based security ensures tamper-proof records</p>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">{t("home.secure")}</h3>
+            <p className="text-gray-600">{t("home.secureText")}</p>
           </div>
 
           <div className="text-center">
@@ -94,8 +256,8 @@ export default function Home() {
                 />
               </svg>
             </div>
-            <h3 className="text-lg font-semibold text-gray-900 mb-2">Transparent</h3>
-            <p className="text-gray-600">Full transparency in all land transactions</p>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">{t("home.transparent")}</h3>
+            <p className="text-gray-600">{t("home.transparentText")}</p>
           </div>
 
           <div className="text-center">
@@ -104,8 +266,8 @@ export default function Home() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
               </svg>
             </div>
-            <h3 className="text-lg font-semibold text-gray-900 mb-2">Efficient</h3>
-            <p className="text-gray-600">Quick access to property information</p>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">{t("home.efficient")}</h3>
+            <p className="text-gray-600">{t("home.efficientText")}</p>
           </div>
         </div>
       </main>
@@ -0,0 +1,210 @@
+"use client"
+
+import { Suspense, useEffect, useState } from "react"
+import Link from "next/link"
+import { useSearchParams } from "next/navigation"
+import { ApiError, getPropertyHistory } from "@/lib/api"
+import { bundleFileName, createProofBundle, type ProofBundle } from "@/lib/bundle"
+import { sortChain, verifyChain, type ChainVerification } from "@/lib/chain"
+import { downloadFile } from "@/lib/download"
+import { useI18n } from "@/lib/i18n-context"
+import { describePayload } from "@/lib/payloads"
+import { loadKeyRegistry, verifyEntrySignatures, type SignatureCheck } from "@/lib/signatures"
+
+interface Certificate {
+  bundle: ProofBundle
+  verification: ChainVerification
+  signatures: SignatureCheck[] | null
+}
+
+function PropertyCertificate() {
+  const i18n = useI18n()
+  const { t, actionLabel, landTypeLabel, formatDate, formatTimestamp } = i18n
+  const searchParams = useSearchParams()
+  const propertyNumber = searchParams.get("property_number")?.trim() ?? ""
+
+  const [certificate, setCertificate] = useState<Certificate | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!propertyNumber) {
+      setError(t("certificate.noProperty"))
+      return
+    }
+
+    const controller = new AbortController()
+    const load = async () => {
+      setError(null)
+      setCertificate(null)
+      try {
+        const entries = sortChain(await getPropertyHistory(propertyNumber, { signal: controller.signal }))
+        const registry = await loadKeyRegistry(controller.signal).catch(() => null)
+        const verification = await verifyChain(entries)
+        const signatures = registry ? await verifyEntrySignatures(entries, registry) : null
+        setCertificate({ bundle: createProofBundle(propertyNumber, entries, registry), verification, signatures })
+      } catch (err) {
+        if (err instanceof ApiError && err.kind === "aborted") return
+        setError(err instanceof ApiError ? err.message : t("certificate.loadFailed"))
+      }
+    }
+    load()
+    return () => controller.abort()
+  }, [propertyNumber, t])
+
+  const head = certificate?.bundle.entries[certificate.bundle.entries.length - 1]?.entry
+  const signedCount = certificate?.signatures?.filter((check) => check.status === "valid").length ?? 0
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Toolbar */}
+      <header className="border-b border-gray-200 print:hidden">
+        <div className="max-w-4xl mx-auto px-6 py-4 flex items-center justify-between">
+          <Link
+            href={`/property?property_number=${encodeURIComponent(propertyNumber)}`}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+          >
+            ← {t("certificate.back")}
+          </Link>
+          {certificate && (
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() =>
+                  downloadFile(
+                    bundleFileName(certificate.bundle),
+                    JSON.stringify(certificate.bundle, null, 2),
+                    "application/json",
+                  )
+                }
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+              >
+                {t("certificate.download")}
+              </button>
+              <button
+                type="button"
+                onClick={() => window.print()}
+                className="px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+              >
+                {t("certificate.print")}
+              </button>
+            </div>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-6 py-12 print:py-0">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <div className="flex">
+              <div className="text-red-400 mr-3">⚠️</div>
+              <div className="text-red-700 font-medium">{error}</div>
+            </div>
+          </div>
+        )}
+
+        {!certificate && !error && <p className="text-gray-600">{t("certificate.preparing")}</p>}
+
+        {certificate && head && (
+          <article className="border-2 border-gray-900 rounded-lg px-10 py-10 print:border-0 print:px-0">
+            <div className="text-center border-b border-gray-300 pb-6 mb-8">
+              <div className="text-sm uppercase tracking-widest text-gray-500">{t("certificate.issuer")}</div>
+              <h1 className="text-3xl font-bold text-gray-900 mt-2">{t("certificate.title")}</h1>
+              <p className="text-gray-600 mt-2">
+                {t("certificate.issued", { date: formatTimestamp(certificate.bundle.exported_at) })}
+              </p>
+            </div>
+
+            <dl className="grid grid-cols-2 gap-x-8 gap-y-4 mb-8">
+              <div>
+                <dt className="text-sm font-medium text-gray-500">{t("certificate.propertyNumber")}</dt>
+                <dd className="text-lg font-semibold text-gray-900">{certificate.bundle.property_number}</dd>
+              </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">{t("certificate.surveyNumber")}</dt>
+                <dd className="text-lg font-semibold text-gray-900">{head.survey_number}</dd>
+              </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">{t("certificate.currentOwner")}</dt>
+                <dd className="text-lg font-semibold text-gray-900">{certificate.bundle.current_owner}</dd>
+              </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">{t("certificate.landType")}</dt>
+                <dd className="text-lg font-semibold text-gray-900">{landTypeLabel(head.land_type)}</dd>
+              </div>
+              <div className="col-span-2">
+                <dt className="text-sm font-medium text-gray-500">{t("certificate.chainHead")}</dt>
+                <dd className="font-mono text-sm text-gray-900 break-all">{certificate.bundle.chain_head}</dd>
+              </div>
+            </dl>
+
+            <div
+              className={`rounded-lg border p-4 mb-8 text-sm ${
+                certificate.verification.valid
+                  ? "bg-green-50 border-green-200 text-green-800"
+                  : "bg-red-50 border-red-200 text-red-800"
+              }`}
+            >
+              {certificate.verification.valid
+                ? t("certificate.intact", { count: certificate.verification.checks.length })
+                : t("certificate.broken", { position: (certificate.verification.brokenAt ?? 0) + 1 })}
+              {certificate.signatures &&
+                ` ${t("certificate.signed", { signed: signedCount, total: certificate.signatures.length })}`}
+            </div>
+
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">{t("certificate.history")}</h2>
+            <table className="min-w-full divide-y divide-gray-200 mb-8">
+              <thead>
+                <tr>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">#</th>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t("certificate.column.date")}
+                  </th>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t("certificate.column.action")}
+                  </th>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t("certificate.column.owner")}
+                  </th>
+                  <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t("certificate.column.hash")}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {certificate.bundle.entries.map(({ entry }, index) => (
+                  <tr key={entry.id} className="align-top">
+                    <td className="px-2 py-2 text-sm text-gray-700">{index + 1}</td>
+                    <td className="px-2 py-2 text-sm text-gray-700 whitespace-nowrap">{formatDate(entry.timestamp)}</td>
+                    <td className="px-2 py-2 text-sm text-gray-900">
+                      <div className="font-medium">{actionLabel(entry.action)}</div>
+                      {describePayload(entry.action, entry.payload, i18n).map((field) => (
+                        <div key={field.label} className="text-xs text-gray-600">
+                          {field.label}: {field.value}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="px-2 py-2 text-sm text-gray-700">{entry.owner_id}</td>
+                    <td className="px-2 py-2 font-mono text-xs text-gray-600 break-all">{entry.hash}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="text-xs text-gray-500 border-t border-gray-300 pt-4 space-y-1">
+              <p>{t("certificate.howToCheck", { file: bundleFileName(certificate.bundle) })}</p>
+              <p>{t("certificate.headChanges")}</p>
+            </div>
+          </article>
+        )}
+      </main>
+    </div>
+  )
+}
+
+export default function CertificatePage() {
+  return (
+    <Suspense>
+      <PropertyCertificate />
+    </Suspense>
+  )
+}
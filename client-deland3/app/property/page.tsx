@@ -2,62 +2,101 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { Suspense, useCallback, useEffect, useRef, useState } from "react"
 import Link from "next/link"
-
-interface LedgerEntry {
-  id: string
-  survey_number: string
-  property_number: string
-  owner_id: string
-  land_type: string
-  action: string
-  details: string
-  timestamp: number
-  prev_hash: string
-  hash: string
+import { useRouter, useSearchParams } from "next/navigation"
+import EncumbrancePanel from "@/components/EncumbrancePanel"
+import EntryAttachments from "@/components/EntryAttachments"
+import LineagePanel from "@/components/LineagePanel"
+import ParcelPanel from "@/components/ParcelPanel"
+import PointInTime from "@/components/PointInTime"
+import { amendedHistory, amendmentsByEntry } from "@/lib/amend"
+import { ApiError, getInclusionProof, getPropertyHistory, listOwners } from "@/lib/api"
+import { bundleFileName, createProofBundle } from "@/lib/bundle"
+import { sortChain, verifyChain, type ChainVerification } from "@/lib/chain"
+import { downloadFile } from "@/lib/download"
+import { ledgerEventID, subscribeToLedger } from "@/lib/events"
+import { describeOwner } from "@/lib/format"
+import { useI18n, useRichText } from "@/lib/i18n-context"
+import { verifyAnchor, type AnchorCheck } from "@/lib/merkle"
+import { describePayload } from "@/lib/payloads"
+import { loadKeyRegistry, verifyEntrySignatures, type SignatureCheck, type SignatureStatus } from "@/lib/signatures"
+import { replayState } from "@/lib/state"
+import type { KeyRegistry, LedgerEntry, Owner } from "@/lib/types"
+
+// Icons and colours for each signature status; the text is the catalog's
+// signature.* message, which the checkpoint notice also uses.
+const SIGNATURE_STYLES: Record<SignatureStatus, { icon: string; className: string }> = {
+  valid: { icon: "✓ ", className: "text-green-700" },
+  missing: { icon: "⚠ ", className: "text-yellow-700" },
+  invalid: { icon: "✗ ", className: "text-red-700" },
+  unknown_key: { icon: "⚠ ", className: "text-yellow-700" },
+  revoked: { icon: "✗ ", className: "text-red-700" },
+  unsupported: { icon: "", className: "text-gray-500" },
 }
 
-interface VerificationResult {
-  land_id: string
-  valid: boolean
+// A recorded value, struck through and followed by its correction when one
+// replaced it.
+const AmendedValue = ({ original, amended }: { original: React.ReactNode; amended?: React.ReactNode }) =>
+  amended === undefined || amended === original ? (
+    <>{original}</>
+  ) : (
+    <>
+      <span className="line-through text-gray-400">{original}</span>{" "}
+      <span className="text-orange-800">{amended}</span>
+    </>
+  )
+
+const HashDiff = ({ label, expected, actual }: { label: string; expected: string; actual: string }) => {
+  const { t } = useI18n()
+  return (
+    <div className="mt-3">
+      <div className="text-sm font-medium text-red-800 mb-1">{label}</div>
+      <div className="font-mono text-xs break-all space-y-1">
+        <div>
+          <span className="text-gray-500">{t("hashDiff.expected")} </span>
+          {expected}
+        </div>
+        <div>
+          <span className="text-gray-500">{t("hashDiff.actual")}&nbsp;&nbsp; </span>
+          {actual.split("").map((char, index) => (
+            <span key={index} className={char === expected[index] ? "" : "bg-red-200 text-red-900"}>
+              {char}
+            </span>
+          ))}
+          {actual.length === 0 && <span className="text-red-700">{t("hashDiff.empty")}</span>}
+        </div>
+      </div>
+    </div>
+  )
 }
 
-export default function PropertyPage() {
+function PropertySearch() {
+  const i18n = useI18n()
+  const { t, actionLabel, landTypeLabel, formatTimestamp } = i18n
+  const rich = useRichText()
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const requestedProperty = searchParams.get("property_number")?.trim() ?? ""
+
   const [propertyNumber, setPropertyNumber] = useState("")
   const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>([])
-  const [currentOwner, setCurrentOwner] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [hasSearched, setHasSearched] = useState(false)
-  const [verificationStatus, setVerificationStatus] = useState<{
-    isVerifying: boolean
-    isValid: boolean | null
-    surveyNumbers: string[]
-  }>({
-    isVerifying: false,
-    isValid: null,
-    surveyNumbers: [],
-  })
-
-  const apiUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8080"
-
-  const formatTimestamp = (timestamp: string | number) => {
-    try {
-      const date = typeof timestamp === "string" ? new Date(timestamp) : new Date(timestamp * 1000)
-
-      return date.toLocaleString("en-US", {
-        year: "numeric",
-        month: "long",
-        day: "numeric",
-        hour: "2-digit",
-        minute: "2-digit",
-        second: "2-digit",
-      })
-    } catch {
-      return timestamp.toString()
-    }
-  }
+  const [isVerifying, setIsVerifying] = useState(false)
+  const [verification, setVerification] = useState<ChainVerification | null>(null)
+  const [signatureChecks, setSignatureChecks] = useState<SignatureCheck[] | null>(null)
+  const [signatureError, setSignatureError] = useState<string | null>(null)
+  const [anchor, setAnchor] = useState<AnchorCheck | null>(null)
+  const [anchorError, setAnchorError] = useState<string | null>(null)
+  // Event ID of the loaded chain head; the live stream resumes from it.
+  const [liveFrom, setLiveFrom] = useState<string | null>(null)
+  const [liveEntryIds, setLiveEntryIds] = useState<Set<string>>(new Set())
+  // Registered profiles of the owners on the timeline, by owner ID.
+  const [owners, setOwners] = useState<Map<string, Owner>>(new Map())
+
+  const searchController = useRef<AbortController | null>(null)
 
   const getActionIcon = (action: string) => {
     switch (action) {
@@ -67,6 +106,28 @@ export default function PropertyPage() {
         return "🔄"
       case "Compensated":
         return "💰"
+      case "LandConverted":
+        return "🌱"
+      case "BoundaryRecorded":
+        return "📐"
+      case "Subdivided":
+        return "✂️"
+      case "Merged":
+        return "🔗"
+      case "LienRegistered":
+      case "MortgageRegistered":
+        return "🔒"
+      case "LienReleased":
+      case "MortgageReleased":
+        return "🔓"
+      case "StayOrdered":
+        return "⚖️"
+      case "StayLifted":
+        return "🕊️"
+      case "Correction":
+        return "✏️"
+      case "Reversal":
+        return "↩️"
       default:
         return "📋"
     }
@@ -80,116 +141,211 @@ export default function PropertyPage() {
         return "bg-blue-50 text-blue-800 border-blue-200"
       case "Compensated":
         return "bg-green-50 text-green-800 border-green-200"
+      case "LandConverted":
+        return "bg-purple-50 text-purple-800 border-purple-200"
+      case "BoundaryRecorded":
+        return "bg-teal-50 text-teal-800 border-teal-200"
+      case "Subdivided":
+      case "Merged":
+        return "bg-indigo-50 text-indigo-800 border-indigo-200"
+      case "LienRegistered":
+      case "MortgageRegistered":
+      case "StayOrdered":
+        return "bg-amber-50 text-amber-800 border-amber-200"
+      case "LienReleased":
+      case "MortgageReleased":
+      case "StayLifted":
+        return "bg-emerald-50 text-emerald-800 border-emerald-200"
+      case "Correction":
+        return "bg-orange-50 text-orange-800 border-orange-200"
+      case "Reversal":
+        return "bg-red-50 text-red-800 border-red-200"
       default:
         return "bg-gray-50 text-gray-800 border-gray-200"
     }
   }
 
-  const verifyLedger = async (surveyNumbers: string[]) => {
-    if (surveyNumbers.length === 0) return
+  // Results of a run superseded by a newer timeline are dropped once signal
+  // is aborted.
+  const verifyLedger = useCallback(async (entries: LedgerEntry[], signal: AbortSignal) => {
+    if (entries.length === 0) return
 
-    setVerificationStatus((prev) => ({
-      ...prev,
-      isVerifying: true,
-      isValid: null,
-    }))
+    setIsVerifying(true)
+    setVerification(null)
+    setSignatureChecks(null)
+    setSignatureError(null)
+    setAnchor(null)
+    setAnchorError(null)
 
     try {
-      await new Promise((resolve) => setTimeout(resolve, 1000))
-
-      const uniqueSurveyNumbers = [...new Set(surveyNumbers)]
-
-      const verificationPromises = uniqueSurveyNumbers.map(async (surveyNumber) => {
-        const response = await fetch(`${apiUrl}/verify/${encodeURIComponent(surveyNumber)}`)
-        if (response.ok) {
-          const result: VerificationResult = await response.json()
-          return result.valid
-        }
-        return false
-      })
-
-      const results = await Promise.all(verificationPromises)
-      const allValid = results.every((result) => result === true)
+      const result = await verifyChain(entries)
+      if (signal.aborted) return
+      setVerification(result)
+
+      let registry: KeyRegistry | null = null
+      try {
+        registry = await loadKeyRegistry()
+        const checks = await verifyEntrySignatures(entries, registry)
+        if (signal.aborted) return
+        setSignatureChecks(checks)
+      } catch (_error) {
+        if (signal.aborted) return
+        console.error("Signature verification error:", _error)
+        setSignatureError(t("property.registryFailed"))
+      }
 
-      setVerificationStatus({
-        isVerifying: false,
-        isValid: allValid,
-        surveyNumbers: uniqueSurveyNumbers,
-      })
+      // Every entry of a checkpointed chain shares one proof, so proving the
+      // first entry anchors the chain up to the checkpointed head.
+      try {
+        const check = await verifyAnchor(await getInclusionProof(entries[0].id), entries, registry)
+        if (signal.aborted) return
+        setAnchor(check)
+      } catch (_error) {
+        if (signal.aborted) return
+        setAnchorError(
+          _error instanceof ApiError && (_error.status === 404 || _error.status === 409)
+            ? t("property.notCheckpointed")
+            : t("property.checkpointFailed"),
+        )
+      }
 
-      setTimeout(() => {
-        const verificationElement = document.getElementById("verification-section")
-        if (verificationElement) {
-          verificationElement.scrollIntoView({
-            behavior: "smooth",
-            block: "center",
-          })
-        }
-      }, 100)
+      if (!result.valid && result.brokenAt !== null) {
+        setTimeout(() => {
+          const brokenElement = document.getElementById(`entry-${entries[result.brokenAt as number].id}`)
+          if (brokenElement) {
+            brokenElement.scrollIntoView({
+              behavior: "smooth",
+              block: "center",
+            })
+          }
+        }, 100)
+      }
     } catch (_error) {
+      if (signal.aborted) return
       console.error("Verification error:", _error)
-      setVerificationStatus({
-        isVerifying: false,
-        isValid: false,
-        surveyNumbers: surveyNumbers,
-      })
-    }
-  }
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
-    if (!propertyNumber.trim()) {
-      setError("Please enter a property number")
-      return
+      setVerification(null)
+    } finally {
+      if (!signal.aborted) setIsVerifying(false)
     }
+  }, [t])
 
+  const loadProperty = useCallback(async (number: string) => {
     setIsLoading(true)
     setError(null)
     setHasSearched(true)
-    setVerificationStatus({
-      isVerifying: false,
-      isValid: null,
-      surveyNumbers: [],
-    })
+    setVerification(null)
+    setSignatureChecks(null)
+    setLiveFrom(null)
+    setLiveEntryIds(new Set())
+
+    searchController.current?.abort()
+    const controller = new AbortController()
+    searchController.current = controller
 
     try {
-      const response = await fetch(`${apiUrl}/property/${encodeURIComponent(propertyNumber.trim())}`)
-
-      if (response.ok) {
-        const data = await response.json()
-        if (data && Array.isArray(data) && data.length > 0) {
-          const sortedEntries = [...data].sort(
-            (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime(),
-          )
-          const chronologicalEntries = data.sort(
-            (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
-          )
-
-          setLedgerEntries(chronologicalEntries)
-          setCurrentOwner(sortedEntries[0].owner_id)
-
-          const surveyNumbers = data.map((entry: LedgerEntry) => entry.survey_number)
-          verifyLedger(surveyNumbers)
-        } else {
-          setLedgerEntries([])
-          setCurrentOwner(null)
-        }
-      } else if (response.status === 404) {
-        setError("Property not found")
-        setLedgerEntries([])
-        setCurrentOwner(null)
+      const data = await getPropertyHistory(number, { signal: controller.signal })
+      if (data.length > 0) {
+        const chronologicalEntries = sortChain(data)
+
+        setLedgerEntries(chronologicalEntries)
+        setLiveFrom(ledgerEventID(chronologicalEntries[chronologicalEntries.length - 1]))
       } else {
-        const errorData = await response.json()
-        setError(errorData.message || "Failed to fetch property details")
         setLedgerEntries([])
-        setCurrentOwner(null)
       }
-    } catch {
-      setError("Network error: Unable to connect to server")
+    } catch (err) {
+      if (err instanceof ApiError && err.kind === "aborted") return
+      setError(err instanceof ApiError ? err.message : t("property.fetchFailed"))
       setLedgerEntries([])
-      setCurrentOwner(null)
     } finally {
-      setIsLoading(false)
+      if (searchController.current === controller) {
+        searchController.current = null
+        setIsLoading(false)
+      }
+    }
+  }, [t])
+
+  // Re-verifies whenever the timeline changes, including live appends.
+  useEffect(() => {
+    const controller = new AbortController()
+    verifyLedger(ledgerEntries, controller.signal)
+    return () => controller.abort()
+  }, [ledgerEntries, verifyLedger])
+
+  // Keeps an open timeline current: entries recorded for this property after
+  // it loaded are appended in chain order as they arrive.
+  useEffect(() => {
+    if (!requestedProperty || liveFrom === null) return
+    return subscribeToLedger({
+      propertyNumber: requestedProperty,
+      lastEventId: liveFrom,
+      onEntry: (entry) => {
+        setLedgerEntries((prev) =>
+          prev.some((existing) => existing.id === entry.id) ? prev : sortChain([...prev, entry]),
+        )
+        setLiveEntryIds((prev) => new Set(prev).add(entry.id))
+      },
+      onReset: () => loadProperty(requestedProperty),
+    })
+  }, [requestedProperty, liveFrom, loadProperty])
+
+  // Derived views read the history as amended by its corrections and reversals.
+  const amendedEntries = amendedHistory(ledgerEntries)
+  const amendedByID = new Map(amendedEntries.map((entry) => [entry.id, entry]))
+  const amendments = amendmentsByEntry(ledgerEntries)
+  const positions = new Map(ledgerEntries.map((entry, index) => [entry.id, index + 1]))
+  // Entries that do not change hands, such as a payment, keep the owner on record.
+  const record = replayState(ledgerEntries)
+  const currentOwner = record.owner
+  const surveyNumber = record.surveyNumber
+  const hasLineage = ledgerEntries.some((entry) => entry.action === "Subdivided" || entry.action === "Merged")
+  const ownerIDs = [...new Set([...ledgerEntries, ...amendedEntries].map((entry) => entry.owner_id))].sort().join(",")
+  const currentProfile = currentOwner ? owners.get(currentOwner) : undefined
+
+  // Names the owners on the timeline from the registry. Owners recorded
+  // before it existed simply show their IDs.
+  useEffect(() => {
+    if (!ownerIDs) return
+    const controller = new AbortController()
+    listOwners({ ids: ownerIDs.split(",") }, { signal: controller.signal })
+      .then((profiles) => setOwners(new Map(profiles.map((profile) => [profile.id, profile]))))
+      .catch((err) => {
+        if (err instanceof ApiError && err.kind === "aborted") return
+        console.error("Owner registry error:", err)
+      })
+    return () => controller.abort()
+  }, [ownerIDs])
+
+  useEffect(() => {
+    if (!requestedProperty) return
+    setPropertyNumber(requestedProperty)
+    loadProperty(requestedProperty)
+  }, [requestedProperty, loadProperty])
+
+  // The bundle embeds the signers' public keys when the registry is reachable;
+  // without it the chain itself still verifies offline.
+  const exportBundle = async () => {
+    let registry: KeyRegistry | null = null
+    try {
+      registry = await loadKeyRegistry()
+    } catch (_error) {
+      console.error("Key registry error:", _error)
+    }
+    const bundle = createProofBundle(requestedProperty, ledgerEntries, registry)
+    downloadFile(bundleFileName(bundle), JSON.stringify(bundle, null, 2), "application/json")
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const trimmed = propertyNumber.trim()
+    if (!trimmed) {
+      setError(t("property.enterNumber"))
+      return
+    }
+
+    if (trimmed === requestedProperty) {
+      loadProperty(trimmed)
+    } else {
+      router.push(`/property?property_number=${encodeURIComponent(trimmed)}`)
     }
   }
 
@@ -200,14 +356,14 @@ export default function PropertyPage() {
         <div className="max-w-6xl mx-auto px-6 py-6">
           <div className="flex items-center justify-between">
             <div>
-              <h1 className="text-2xl font-bold text-gray-900">Property Search</h1>
-              <p className="text-gray-600 mt-1">Search for property details and view ledger history</p>
+              <h1 className="text-2xl font-bold text-gray-900">{t("property.title")}</h1>
+              <p className="text-gray-600 mt-1">{t("property.subtitle")}</p>
             </div>
             <Link
               href="/"
               className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
             >
-              ← Back to Home
+              ← {t("nav.backHome")}
             </Link>
           </div>
         </div>
@@ -218,17 +374,17 @@ export default function PropertyPage() {
         {/* Search Form */}
         <div className="bg-white border border-gray-200 rounded-lg mb-8">
           <div className="px-8 py-8">
-            <h2 className="text-xl font-semibold text-gray-900 mb-6">Search Property Records</h2>
+            <h2 className="text-xl font-semibold text-gray-900 mb-6">{t("property.searchTitle")}</h2>
 
             <form onSubmit={handleSubmit} className="flex gap-4">
               <div className="flex-1">
-                <label className="block text-sm font-medium text-gray-700 mb-2">Property Number</label>
+                <label className="block text-sm font-medium text-gray-700 mb-2">{t("property.propertyNumber")}</label>
                 <input
                   type="text"
                   value={propertyNumber}
                   onChange={(e) => setPropertyNumber(e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
-                  placeholder="Enter property number (e.g., PR-001)"
+                  placeholder={t("property.placeholder")}
                   required
                 />
               </div>
@@ -238,7 +394,7 @@ export default function PropertyPage() {
                   disabled={isLoading}
                   className="px-6 py-2 bg-gray-900 text-white font-medium rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
                 >
-                  {isLoading ? "Searching..." : "Search"}
+                  {t(isLoading ? "property.searching" : "property.search")}
                 </button>
               </div>
             </form>
@@ -259,8 +415,8 @@ export default function PropertyPage() {
         {hasSearched && !error && ledgerEntries.length === 0 && !isLoading && (
           <div className="bg-gray-50 border border-gray-200 rounded-lg p-8 text-center">
             <div className="text-gray-400 text-4xl mb-4">🔍</div>
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No Records Found</h3>
-            <p className="text-gray-600">No ledger entries found for property number &quot;{propertyNumber}&quot;</p>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">{t("property.noRecords")}</h3>
+            <p className="text-gray-600">{t("property.noEntries", { property: propertyNumber })}</p>
           </div>
         )}
 
@@ -268,13 +424,38 @@ export default function PropertyPage() {
         {currentOwner && (
           <div className="bg-white border border-gray-200 rounded-lg mb-8">
             <div className="px-8 py-8">
-              <h3 className="text-xl font-semibold text-gray-900 mb-4">Current Owner</h3>
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-xl font-semibold text-gray-900">{t("property.currentOwner")}</h3>
+                <div className="flex items-center gap-3">
+                  <button
+                    type="button"
+                    onClick={exportBundle}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                  >
+                    {t("property.exportBundle")}
+                  </button>
+                  <Link
+                    href={`/property/certificate?property_number=${encodeURIComponent(requestedProperty)}`}
+                    className="px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+                  >
+                    {t("property.certificate")}
+                  </Link>
+                </div>
+              </div>
               <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
                 <div className="flex items-center">
                   <div className="text-2xl mr-3">👤</div>
                   <div>
-                    <div className="text-lg font-semibold text-gray-900">{currentOwner}</div>
-                    <div className="text-sm text-gray-600">Property Number: {propertyNumber}</div>
+                    <div className="text-lg font-semibold text-gray-900">
+                      {currentProfile ? describeOwner(currentProfile, i18n) : currentOwner}
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      {currentProfile && <>{t("property.ownerId", { owner: currentOwner })} · </>}
+                      {t("property.numberLabel", { property: propertyNumber })}
+                    </div>
+                    {currentProfile?.masked && (
+                      <div className="text-xs text-gray-500 mt-1">{t("property.signInForNames")}</div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -282,13 +463,27 @@ export default function PropertyPage() {
           </div>
         )}
 
+        {/* Active Encumbrances */}
+        {ledgerEntries.length > 0 && <EncumbrancePanel entries={ledgerEntries} />}
+
+        {/* Parcel Boundary */}
+        {surveyNumber && <ParcelPanel surveyNumber={surveyNumber} chainLength={ledgerEntries.length} />}
+
+        {/* Lineage */}
+        {hasLineage && (
+          <LineagePanel propertyNumber={ledgerEntries[0].property_number} chainLength={ledgerEntries.length} />
+        )}
+
+        {/* Point-in-Time Record */}
+        {ledgerEntries.length > 0 && <PointInTime entries={ledgerEntries} />}
+
         {/* Blockchain Verification Status */}
         {ledgerEntries.length > 0 && (
           <div id="verification-section" className="bg-white border border-gray-200 rounded-lg mb-8">
             <div className="px-8 py-8">
-              <h3 className="text-xl font-semibold text-gray-900 mb-4">Blockchain Verification</h3>
+              <h3 className="text-xl font-semibold text-gray-900 mb-4">{t("property.verification")}</h3>
 
-              {verificationStatus.isVerifying ? (
+              {isVerifying ? (
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                   <div className="flex items-center">
                     <svg
@@ -312,34 +507,43 @@ export default function PropertyPage() {
                       ></path>
                     </svg>
                     <div>
-                      <div className="text-lg font-semibold text-blue-900">Verifying Blockchain Integrity...</div>
+                      <div className="text-lg font-semibold text-blue-900">{t("property.verifying")}</div>
                       <div className="text-sm text-blue-700">
-                        Checking {verificationStatus.surveyNumbers.length} survey entries
+                        {t("property.recomputing", { count: ledgerEntries.length })}
                       </div>
                     </div>
                   </div>
                 </div>
-              ) : verificationStatus.isValid === true ? (
+              ) : verification?.valid === true ? (
                 <div className="bg-green-50 border border-green-200 rounded-lg p-4">
                   <div className="flex items-center">
                     <div className="text-2xl mr-3">✅</div>
                     <div>
-                      <div className="text-lg font-semibold text-green-900">
-                        Blockchain Verified - Records Authentic
-                      </div>
+                      <div className="text-lg font-semibold text-green-900">{t("property.verified")}</div>
                       <div className="text-sm text-green-700">
-                        All {verificationStatus.surveyNumbers.length} survey entries passed integrity checks
+                        {t("property.verifiedDetail", { count: verification.checks.length })}
                       </div>
                     </div>
                   </div>
                 </div>
-              ) : verificationStatus.isValid === false ? (
+              ) : verification?.valid === false && verification.brokenAt !== null ? (
                 <div className="bg-red-50 border border-red-200 rounded-lg p-4">
                   <div className="flex items-center">
                     <div className="text-2xl mr-3">❌</div>
                     <div>
-                      <div className="text-lg font-semibold text-red-900">Blockchain Integrity Compromised</div>
-                      <div className="text-sm text-red-700">One or more entries have been tampered with</div>
+                      <div className="text-lg font-semibold text-red-900">{t("property.compromised")}</div>
+                      <div className="text-sm text-red-700">
+                        {t("property.breaksAt", {
+                          position: verification.brokenAt + 1,
+                          total: verification.checks.length,
+                        })}{" "}
+                        <a
+                          href={`#entry-${verification.checks[verification.brokenAt].id}`}
+                          className="underline hover:text-red-900"
+                        >
+                          {t("property.jumpToBroken")}
+                        </a>
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -348,12 +552,70 @@ export default function PropertyPage() {
                   <div className="flex items-center">
                     <div className="text-2xl mr-3">⏳</div>
                     <div>
-                      <div className="text-lg font-semibold text-gray-900">Awaiting Verification</div>
-                      <div className="text-sm text-gray-600">Search for a property to verify blockchain integrity</div>
+                      <div className="text-lg font-semibold text-gray-900">{t("property.awaiting")}</div>
+                      <div className="text-sm text-gray-600">{t("property.awaitingDetail")}</div>
                     </div>
                   </div>
                 </div>
               )}
+
+              {signatureChecks && (
+                <div
+                  className={`mt-4 rounded-lg p-4 border text-sm ${
+                    signatureChecks.every((check) => check.status === "valid")
+                      ? "bg-green-50 border-green-200 text-green-800"
+                      : "bg-yellow-50 border-yellow-200 text-yellow-800"
+                  }`}
+                >
+                  <span className="font-semibold">{t("property.signatures")}: </span>
+                  {t("property.signaturesValid", {
+                    valid: signatureChecks.filter((check) => check.status === "valid").length,
+                    total: signatureChecks.length,
+                  })}
+                  {signatureChecks.some((check) => check.status !== "valid") && ` ${t("property.signaturesFlagged")}`}
+                </div>
+              )}
+              {signatureError && (
+                <div className="mt-4 rounded-lg p-4 border bg-yellow-50 border-yellow-200 text-sm text-yellow-800">
+                  {signatureError}
+                </div>
+              )}
+              {anchor && (
+                <div
+                  className={`mt-4 rounded-lg p-4 border text-sm ${
+                    anchor.valid ? "bg-green-50 border-green-200 text-green-800" : "bg-red-50 border-red-200 text-red-800"
+                  }`}
+                >
+                  <span className="font-semibold">
+                    {t("property.checkpoint", { sequence: anchor.checkpoint.sequence })}:{" "}
+                  </span>
+                  {anchor.valid
+                    ? t("property.anchorCovered", {
+                        covered: anchor.headIndex + 1,
+                        total: ledgerEntries.length,
+                        date: formatTimestamp(anchor.checkpoint.timestamp),
+                        chains: anchor.checkpoint.tree_size,
+                      })
+                    : !anchor.checkpointHashMatches
+                      ? t("property.anchorHash")
+                      : anchor.signature !== "valid"
+                        ? t("property.anchorSignature", { status: t(`signature.${anchor.signature}`) })
+                        : !anchor.rootMatches
+                          ? t("property.anchorRoot")
+                          : t("property.anchorHead")}
+                  {anchor.valid &&
+                    anchor.headIndex < ledgerEntries.length - 1 &&
+                    ` ${t("property.anchorLater")}`}
+                  <div className="font-mono text-xs break-all mt-1 opacity-75">
+                    {t("property.root", { root: anchor.checkpoint.root })}
+                  </div>
+                </div>
+              )}
+              {anchorError && (
+                <div className="mt-4 rounded-lg p-4 border bg-gray-50 border-gray-200 text-sm text-gray-700">
+                  {anchorError}
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -362,51 +624,220 @@ export default function PropertyPage() {
         {ledgerEntries.length > 0 && (
           <div className="bg-white border border-gray-200 rounded-lg">
             <div className="px-8 py-8">
-              <h3 className="text-xl font-semibold text-gray-900 mb-6">Property History Timeline</h3>
+              <h3 className="text-xl font-semibold text-gray-900 mb-6">{t("property.timeline")}</h3>
 
               <div className="relative">
                 <div className="absolute left-8 top-0 bottom-0 w-0.5 bg-gray-300"></div>
 
                 <div className="space-y-8">
-                  {ledgerEntries.map((entry) => (
-                    <div key={entry.id} className="relative flex items-start">
-                      <div className="flex-shrink-0 w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center text-2xl border-4 border-white shadow-sm relative z-10">
-                        {getActionIcon(entry.action)}
-                      </div>
-
-                      <div className="ml-6 flex-1 bg-gray-50 rounded-lg p-6">
-                        <div className="flex items-start justify-between mb-4">
-                          <div>
-                            <span
-                              className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium border ${getActionColor(
-                                entry.action,
-                              )}`}
-                            >
-                              {entry.action}
-                            </span>
-                            <h4 className="text-lg font-semibold text-gray-900 mt-2">Owner: {entry.owner_id}</h4>
-                          </div>
-                          <div className="text-sm text-gray-500">{formatTimestamp(entry.timestamp)}</div>
+                  {ledgerEntries.map((entry, index) => {
+                    const check = verification?.checks[index]
+                    const signature = signatureChecks?.[index]
+                    const { corrections = [], reversal = null } = amendments.get(entry.id) ?? {}
+                    const amended = amendedByID.get(entry.id)
+                    const amendedFields = new Map(
+                      describePayload(entry.action, amended?.payload, i18n).map((field) => [field.label, field.value]),
+                    )
+                    const recordedFields = describePayload(entry.action, entry.payload, i18n)
+                    const recordedLabels = new Set(recordedFields.map((field) => field.label))
+                    const target = entry.payload?.amends
+
+                    return (
+                      <div key={entry.id} id={`entry-${entry.id}`} className="relative flex items-start">
+                        <div className="flex-shrink-0 w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center text-2xl border-4 border-white shadow-sm relative z-10">
+                          {getActionIcon(entry.action)}
                         </div>
 
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-                          <div>
-                            <span className="text-sm font-medium text-gray-500">Survey Number:</span>
-                            <div className="text-gray-900">{entry.survey_number}</div>
+                        <div
+                          className={`ml-6 flex-1 rounded-lg p-6 ${
+                            check?.status === "broken" ? "bg-red-50 border-2 border-red-300" : "bg-gray-50"
+                          } ${reversal ? "opacity-75" : ""}`}
+                        >
+                          <div className="flex items-start justify-between mb-4">
+                            <div>
+                              <span
+                                className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium border ${getActionColor(
+                                  entry.action,
+                                )} ${reversal ? "line-through" : ""}`}
+                              >
+                                {actionLabel(entry.action)}
+                              </span>
+                              {liveEntryIds.has(entry.id) && (
+                                <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                                  {t("property.new")}
+                                </span>
+                              )}
+                              <h4 className="text-lg font-semibold text-gray-900 mt-2">
+                                {t("property.owner")}:{" "}
+                                <Link
+                                  href={`/owner?owner_id=${encodeURIComponent(entry.owner_id)}`}
+                                  className="hover:underline"
+                                >
+                                  <AmendedValue original={entry.owner_id} amended={amended?.owner_id} />
+                                </Link>
+                                {owners.has(amended?.owner_id ?? entry.owner_id) && (
+                                  <span className="ml-2 font-normal text-gray-600">
+                                    {owners.get(amended?.owner_id ?? entry.owner_id)?.name}
+                                  </span>
+                                )}
+                              </h4>
+                            </div>
+                            <div className="text-right">
+                              <div className="text-sm text-gray-500">{formatTimestamp(entry.timestamp)}</div>
+                              {check && (
+                                <div
+                                  className={`text-xs font-medium mt-1 ${
+                                    check.status === "valid"
+                                      ? "text-green-700"
+                                      : check.status === "broken"
+                                        ? "text-red-700"
+                                        : "text-gray-500"
+                                  }`}
+                                >
+                                  {check.status === "valid"
+                                    ? `✓ ${t("property.hashVerified")}`
+                                    : check.status === "broken"
+                                      ? `✗ ${t("property.chainBreaks")}`
+                                      : t("property.afterBreak")}
+                                </div>
+                              )}
+                              {signature && (
+                                <div
+                                  className={`text-xs font-medium mt-1 ${SIGNATURE_STYLES[signature.status].className}`}
+                                  title={
+                                    signature.key ? t("property.key", { key: signature.key.key_id }) : entry.key_id
+                                  }
+                                >
+                                  {SIGNATURE_STYLES[signature.status].icon}
+                                  {t(`signature.${signature.status}`)}
+                                  {signature.status === "valid" && signature.key && ` (${signature.key.officer})`}
+                                </div>
+                              )}
+                            </div>
                           </div>
-                          <div>
-                            <span className="text-sm font-medium text-gray-500">Land Type:</span>
-                            <div className="text-gray-900">{entry.land_type}</div>
+
+                          {reversal && (
+                            <div className="mb-4 bg-red-50 border border-red-200 rounded-md px-4 py-2 text-sm text-red-800">
+                              {rich("property.reversedBy", {
+                                entry: (
+                                  <a href={`#entry-${reversal.id}`} className="underline hover:text-red-900">
+                                    {t("property.entry", { position: positions.get(reversal.id) ?? "" })}
+                                  </a>
+                                ),
+                                date: formatTimestamp(reversal.timestamp),
+                                reason: reversal.details,
+                              })}
+                            </div>
+                          )}
+                          {corrections.length > 0 && (
+                            <div className="mb-4 bg-orange-50 border border-orange-200 rounded-md px-4 py-2 text-sm text-orange-800">
+                              {t("property.correctedBy")}{" "}
+                              {corrections.map((correction, position) => (
+                                <span key={correction.id}>
+                                  {position > 0 && ", "}
+                                  <a href={`#entry-${correction.id}`} className="underline hover:text-orange-900">
+                                    {t("property.entry", { position: positions.get(correction.id) ?? "" })}
+                                  </a>
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                          {target && (
+                            <div className="mb-4 text-sm text-gray-700">
+                              {t(entry.action === "Reversal" ? "property.reverses" : "property.corrects")}{" "}
+                              {positions.has(target) ? (
+                                <a href={`#entry-${target}`} className="underline hover:text-gray-900">
+                                  {t("property.entry", { position: positions.get(target) ?? "" })}
+                                </a>
+                              ) : (
+                                <span className="font-mono">{target}</span>
+                              )}
+                            </div>
+                          )}
+
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                            <div>
+                              <span className="text-sm font-medium text-gray-500">{t("property.surveyNumber")}:</span>
+                              <div className="text-gray-900">
+                                <AmendedValue original={entry.survey_number} amended={amended?.survey_number} />
+                              </div>
+                            </div>
+                            <div>
+                              <span className="text-sm font-medium text-gray-500">{t("property.landType")}:</span>
+                              <div className="text-gray-900">
+                                <AmendedValue
+                                  original={landTypeLabel(entry.land_type)}
+                                  amended={amended && landTypeLabel(amended.land_type)}
+                                />
+                              </div>
+                            </div>
+                            {recordedFields.map((field) => (
+                              <div key={field.label}>
+                                <span className="text-sm font-medium text-gray-500">{field.label}:</span>
+                                <div className="text-gray-900">
+                                  <AmendedValue original={field.value} amended={amendedFields.get(field.label)} />
+                                </div>
+                              </div>
+                            ))}
+                            {/* Fields a correction added to an entry recorded without them */}
+                            {[...amendedFields]
+                              .filter(([label]) => !recordedLabels.has(label))
+                              .map(([label, value]) => (
+                                <div key={label}>
+                                  <span className="text-sm font-medium text-gray-500">{label}:</span>
+                                  <div className="text-orange-800">{value}</div>
+                                </div>
+                              ))}
                           </div>
-                        </div>
 
-                        <div>
-                          <span className="text-sm font-medium text-gray-500">Details:</span>
-                          <div className="text-gray-900 mt-1">{entry.details}</div>
+                          {entry.details && (
+                            <div>
+                              <span className="text-sm font-medium text-gray-500">
+                                {t(entry.payload ? "property.remarks" : "property.details")}:
+                              </span>
+                              <div className="text-gray-900 mt-1">
+                                <AmendedValue original={entry.details} amended={amended?.details} />
+                              </div>
+                            </div>
+                          )}
+
+                          {entry.attachments && entry.attachments.length > 0 && (
+                            <EntryAttachments attachments={entry.attachments} />
+                          )}
+
+                          {entry.recorded_by && (
+                            <div className="mt-4 text-sm text-gray-500">
+                              {t("property.recordedBy", { officer: entry.recorded_by })}
+                            </div>
+                          )}
+
+                          {check?.status === "broken" && (
+                            <div className="mt-4 border-t border-red-200 pt-2">
+                              {!check.hashMatches && (
+                                <HashDiff
+                                  label={t("property.hashMismatch")}
+                                  expected={check.expectedHash}
+                                  actual={check.actualHash}
+                                />
+                              )}
+                              {!check.linkMatches && (
+                                <HashDiff
+                                  label={t("property.linkMismatch")}
+                                  expected={check.expectedPrevHash}
+                                  actual={check.actualPrevHash}
+                                />
+                              )}
+                              {!check.sequenceMatches && (
+                                <div className="mt-3 text-sm font-medium text-red-800">
+                                  {t("property.sequenceMismatch", { sequence: entry.sequence ?? "", position: index + 1 })}
+                                </div>
+                              )}
+                            </div>
+                          )}
                         </div>
                       </div>
-                    </div>
-                  ))}
+                    )
+                  })}
                 </div>
               </div>
             </div>
@@ -416,3 +847,11 @@ export default function PropertyPage() {
     </div>
   )
 }
+
+export default function PropertyPage() {
+  return (
+    <Suspense>
+      <PropertySearch />
+    </Suspense>
+  )
+}
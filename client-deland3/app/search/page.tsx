@@ -0,0 +1,400 @@
+"use client"
+
+import type React from "react"
+
+import { Suspense, useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import { ApiError, searchLedger } from "@/lib/api"
+import type { MessageKey } from "@/lib/i18n"
+import { useI18n } from "@/lib/i18n-context"
+import { ACTIONS, LAND_TYPES, type SearchResponse, type SearchSortField } from "@/lib/types"
+
+interface FilterForm {
+  surveyNumber: string
+  ownerID: string
+  landType: string
+  action: string
+  q: string
+  from: string
+  to: string
+}
+
+const PAGE_SIZE = 20
+
+const emptyFilters: FilterForm = {
+  surveyNumber: "",
+  ownerID: "",
+  landType: "",
+  action: "",
+  q: "",
+  from: "",
+  to: "",
+}
+
+const SORT_COLUMNS: { field: SearchSortField; label: MessageKey }[] = [
+  { field: "timestamp", label: "search.column.recorded" },
+  { field: "property_number", label: "search.column.property" },
+  { field: "survey_number", label: "search.column.survey" },
+  { field: "owner_id", label: "search.column.owner" },
+  { field: "land_type", label: "search.column.landType" },
+  { field: "action", label: "search.column.action" },
+]
+
+const isSortField = (value: string | null): value is SearchSortField =>
+  SORT_COLUMNS.some((column) => column.field === value)
+
+// Date inputs hold local yyyy-mm-dd strings; the API filters on Unix seconds.
+const startOfDay = (date: string) => (date ? Math.floor(new Date(`${date}T00:00:00`).getTime() / 1000) : undefined)
+const endOfDay = (date: string) => (date ? Math.floor(new Date(`${date}T23:59:59`).getTime() / 1000) : undefined)
+
+const filtersFromParams = (params: URLSearchParams): FilterForm => ({
+  surveyNumber: params.get("survey_number") ?? "",
+  ownerID: params.get("owner_id") ?? "",
+  landType: params.get("land_type") ?? "",
+  action: params.get("action") ?? "",
+  q: params.get("q") ?? "",
+  from: params.get("from") ?? "",
+  to: params.get("to") ?? "",
+})
+
+function LedgerSearch() {
+  const { t, plural, actionLabel, landTypeLabel, formatTimestamp, formatNumber } = useI18n()
+  const searchParams = useSearchParams()
+  const router = useRouter()
+
+  const [filters, setFilters] = useState<FilterForm>(emptyFilters)
+  const [response, setResponse] = useState<SearchResponse | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const paramsKey = searchParams.toString()
+  const sortParam = searchParams.get("sort")
+  const sort: SearchSortField = isSortField(sortParam) ? sortParam : "timestamp"
+  const order = searchParams.get("order") === "asc" ? "asc" : "desc"
+  const page = Math.max(1, Number(searchParams.get("page")) || 1)
+
+  useEffect(() => {
+    const params = new URLSearchParams(paramsKey)
+    const applied = filtersFromParams(params)
+    setFilters(applied)
+
+    const controller = new AbortController()
+    setIsLoading(true)
+    setError(null)
+
+    searchLedger(
+      {
+        survey_number: applied.surveyNumber.trim(),
+        owner_id: applied.ownerID.trim(),
+        land_type: applied.landType,
+        action: applied.action,
+        q: applied.q.trim(),
+        from: startOfDay(applied.from),
+        to: endOfDay(applied.to),
+        page,
+        page_size: PAGE_SIZE,
+        sort,
+        order,
+      },
+      { signal: controller.signal },
+    )
+      .then(setResponse)
+      .catch((err) => {
+        if (err instanceof ApiError && err.kind === "aborted") return
+        setError(err instanceof ApiError ? err.message : t("search.failed"))
+        setResponse(null)
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [paramsKey, page, sort, order, t])
+
+  const navigate = (next: FilterForm, overrides: Record<string, string>) => {
+    const params = new URLSearchParams()
+    const fields: [string, string][] = [
+      ["survey_number", next.surveyNumber.trim()],
+      ["owner_id", next.ownerID.trim()],
+      ["land_type", next.landType],
+      ["action", next.action],
+      ["q", next.q.trim()],
+      ["from", next.from],
+      ["to", next.to],
+      ["sort", sort],
+      ["order", order],
+      ["page", String(page)],
+    ]
+    for (const [key, value] of fields) {
+      if (value) params.set(key, value)
+    }
+    for (const [key, value] of Object.entries(overrides)) {
+      params.set(key, value)
+    }
+    router.push(`/search?${params.toString()}`)
+  }
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target
+    setFilters((prev) => ({
+      ...prev,
+      [name]: value,
+    }))
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (filters.from && filters.to && filters.from > filters.to) {
+      setError(t("search.dateRange"))
+      return
+    }
+    navigate(filters, { page: "1" })
+  }
+
+  const handleSort = (field: SearchSortField) => {
+    const nextOrder = field === sort && order === "desc" ? "asc" : "desc"
+    navigate(filtersFromParams(searchParams), { sort: field, order: nextOrder, page: "1" })
+  }
+
+  const goToPage = (nextPage: number) => {
+    navigate(filtersFromParams(searchParams), { page: String(nextPage) })
+  }
+
+  const totalPages = response ? Math.max(1, Math.ceil(response.total / response.page_size)) : 1
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-6 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{t("search.title")}</h1>
+              <p className="text-gray-600 mt-1">{t("search.subtitle")}</p>
+            </div>
+            <Link
+              href="/"
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+            >
+              ← {t("nav.backHome")}
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-6 py-12">
+        {/* Filters */}
+        <div className="bg-white border border-gray-200 rounded-lg mb-8">
+          <div className="px-8 py-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-6">{t("search.filters")}</h2>
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t("search.surveyNumber")}</label>
+                  <input
+                    type="text"
+                    name="surveyNumber"
+                    value={filters.surveyNumber}
+                    onChange={handleInputChange}
+                    className={inputClass}
+                    placeholder={t("search.surveyPlaceholder")}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t("search.ownerId")}</label>
+                  <input
+                    type="text"
+                    name="ownerID"
+                    value={filters.ownerID}
+                    onChange={handleInputChange}
+                    className={inputClass}
+                    placeholder={t("search.ownerPlaceholder")}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t("search.detailsContain")}</label>
+                  <input
+                    type="text"
+                    name="q"
+                    value={filters.q}
+                    onChange={handleInputChange}
+                    className={inputClass}
+                    placeholder={t("search.freeText")}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t("search.landType")}</label>
+                  <select name="landType" value={filters.landType} onChange={handleInputChange} className={inputClass}>
+                    <option value="">{t("search.any")}</option>
+                    {LAND_TYPES.map((landType) => (
+                      <option key={landType} value={landType}>
+                        {landTypeLabel(landType)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{t("search.action")}</label>
+                  <select name="action" value={filters.action} onChange={handleInputChange} className={inputClass}>
+                    <option value="">{t("search.any")}</option>
+                    {ACTIONS.map((action) => (
+                      <option key={action} value={action}>
+                        {actionLabel(action)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">{t("search.from")}</label>
+                    <input type="date" name="from" value={filters.from} onChange={handleInputChange} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">{t("search.to")}</label>
+                    <input type="date" name="to" value={filters.to} onChange={handleInputChange} className={inputClass} />
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => setFilters(emptyFilters)}
+                  className="px-6 py-2 text-gray-700 font-medium border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  {t("search.clear")}
+                </button>
+                <button
+                  type="submit"
+                  disabled={isLoading}
+                  className="px-6 py-2 bg-gray-900 text-white font-medium rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                >
+                  {isLoading ? t("search.searching") : t("search.search")}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
+            <div className="flex">
+              <div className="text-red-400 mr-3">⚠️</div>
+              <div className="text-red-700 font-medium">{error}</div>
+            </div>
+          </div>
+        )}
+
+        {/* Results */}
+        {response && (
+          <div className="bg-white border border-gray-200 rounded-lg">
+            <div className="px-8 py-8">
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-xl font-semibold text-gray-900">{t("search.results")}</h3>
+                <span className="text-sm text-gray-600">{plural("search.entries", response.total)}</span>
+              </div>
+
+              {response.results.length === 0 ? (
+                <div className="bg-gray-50 border border-gray-200 rounded-lg p-8 text-center">
+                  <div className="text-gray-400 text-4xl mb-4">🔍</div>
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">{t("search.noRecords")}</h3>
+                  <p className="text-gray-600">{t("search.noMatches")}</p>
+                </div>
+              ) : (
+                <>
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          {SORT_COLUMNS.map((column) => (
+                            <th
+                              key={column.field}
+                              className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                            >
+                              <button
+                                type="button"
+                                onClick={() => handleSort(column.field)}
+                                className="inline-flex items-center gap-1 uppercase hover:text-gray-900"
+                              >
+                                {t(column.label)}
+                                {sort === column.field && <span>{order === "asc" ? "▲" : "▼"}</span>}
+                              </button>
+                            </th>
+                          ))}
+                          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            {t("search.column.details")}
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {response.results.map((entry) => (
+                          <tr key={entry.id} className="hover:bg-gray-50 align-top">
+                            <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                              {formatTimestamp(entry.timestamp)}
+                            </td>
+                            <td className="px-4 py-3 text-sm font-medium">
+                              <Link
+                                href={`/property?property_number=${encodeURIComponent(entry.property_number)}`}
+                                className="text-gray-900 underline hover:text-gray-600"
+                              >
+                                {entry.property_number}
+                              </Link>
+                            </td>
+                            <td className="px-4 py-3 text-sm text-gray-700">{entry.survey_number}</td>
+                            <td className="px-4 py-3 text-sm text-gray-700">{entry.owner_id}</td>
+                            <td className="px-4 py-3 text-sm text-gray-700">{landTypeLabel(entry.land_type)}</td>
+                            <td className="px-4 py-3 text-sm text-gray-700">{actionLabel(entry.action)}</td>
+                            <td className="px-4 py-3 text-sm text-gray-700 max-w-xs truncate" title={entry.details}>
+                              {entry.details}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {/* Pagination */}
+                  <div className="flex items-center justify-between mt-6">
+                    <button
+                      type="button"
+                      onClick={() => goToPage(page - 1)}
+                      disabled={page <= 1 || isLoading}
+                      className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      ← {t("search.previous")}
+                    </button>
+                    <span className="text-sm text-gray-600">
+                      {t("search.page", { page: formatNumber(response.page), total: formatNumber(totalPages) })}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => goToPage(page + 1)}
+                      disabled={page >= totalPages || isLoading}
+                      className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {t("search.next")} →
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
+
+export default function SearchPage() {
+  return (
+    <Suspense>
+      <LedgerSearch />
+    </Suspense>
+  )
+}
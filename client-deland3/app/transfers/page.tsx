@@ -0,0 +1,331 @@
+"use client"
+
+import type React from "react"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import OwnerPicker from "@/components/OwnerPicker"
+import RequireRole from "@/components/RequireRole"
+import SessionBadge from "@/components/SessionBadge"
+import { ApiError, createTransfer, listTransfers } from "@/lib/api"
+import { useI18n } from "@/lib/i18n-context"
+import { useSession } from "@/lib/session"
+import { TRANSFER_STATUS_STYLES, transferLink } from "@/lib/transfers"
+import { TRANSFER_STATUSES, type Transfer, type TransferStatus } from "@/lib/types"
+
+const emptyDraft = { propertyNumber: "", buyer: "", deedReference: "", details: "", expiresInDays: "14" }
+
+// Maps draft inputs to the field names the server reports errors under.
+const FIELD_NAMES: Record<keyof typeof emptyDraft, string> = {
+  propertyNumber: "property_number",
+  buyer: "buyer",
+  deedReference: "deed_reference",
+  details: "details",
+  expiresInDays: "expires_in_days",
+}
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="mt-1 text-sm text-red-600">{message}</p> : null
+
+const DraftForm = ({ onCreated }: { onCreated: (transfer: Transfer) => void }) => {
+  const { t } = useI18n()
+  const [draft, setDraft] = useState(emptyDraft)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const name = e.target.name as keyof typeof emptyDraft
+    const { value } = e.target
+    setDraft((prev) => ({ ...prev, [name]: value }))
+    setFieldErrors((prev) => {
+      const next = { ...prev }
+      delete next[FIELD_NAMES[name]]
+      return next
+    })
+  }
+
+  const inputClass = (field: string) =>
+    `w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500 ${
+      fieldErrors[field] ? "border-red-400 bg-red-50" : "border-gray-300"
+    }`
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setFieldErrors({})
+    setError(null)
+    try {
+      const view = await createTransfer({
+        property_number: draft.propertyNumber,
+        buyer: draft.buyer,
+        deed_reference: draft.deedReference,
+        details: draft.details,
+        expires_in_days: Number(draft.expiresInDays) || undefined,
+      })
+      setDraft(emptyDraft)
+      onCreated(view.transfer)
+    } catch (err) {
+      if (err instanceof ApiError && Object.keys(err.fields).length > 0) {
+        setFieldErrors(err.fields)
+        return
+      }
+      setError(err instanceof ApiError ? err.message : t("transfers.draftFailed"))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg mb-8">
+      <div className="px-8 py-8">
+        <h2 className="text-xl font-semibold text-gray-900 mb-1">{t("transfers.draftTitle")}</h2>
+        <p className="text-sm text-gray-600 mb-6">{t("transfers.draftHint")}</p>
+
+        {error && <p className="mb-6 text-sm text-red-600">{error}</p>}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t("transfers.propertyNumber")} *</label>
+              <input
+                type="text"
+                name="propertyNumber"
+                value={draft.propertyNumber}
+                onChange={handleChange}
+                required
+                className={inputClass("property_number")}
+                placeholder={t("transfers.propertyPlaceholder")}
+              />
+              <FieldError message={fieldErrors.property_number} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t("transfers.buyer")} *</label>
+              <OwnerPicker
+                name="buyer"
+                value={draft.buyer}
+                onChange={(buyer) => {
+                  setDraft((prev) => ({ ...prev, buyer }))
+                  setFieldErrors((prev) => {
+                    const next = { ...prev }
+                    delete next.buyer
+                    return next
+                  })
+                }}
+                required
+                className={inputClass("buyer")}
+                placeholder={t("transfers.buyerPlaceholder")}
+              />
+              <FieldError message={fieldErrors.buyer} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t("transfers.deedReference")} *</label>
+              <input
+                type="text"
+                name="deedReference"
+                value={draft.deedReference}
+                onChange={handleChange}
+                required
+                className={inputClass("deed_reference")}
+                placeholder={t("transfers.deedPlaceholder")}
+              />
+              <FieldError message={fieldErrors.deed_reference} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">{t("transfers.expiresAfter")}</label>
+              <input
+                type="number"
+                name="expiresInDays"
+                value={draft.expiresInDays}
+                onChange={handleChange}
+                min="1"
+                max="90"
+                className={inputClass("expires_in_days")}
+              />
+              <FieldError message={fieldErrors.expires_in_days} />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t("transfers.remarks")}</label>
+            <textarea
+              name="details"
+              value={draft.details}
+              onChange={handleChange}
+              rows={3}
+              className={inputClass("details")}
+              placeholder={t("transfers.remarksPlaceholder")}
+            />
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-6 py-2 bg-gray-900 text-white font-medium rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+            >
+              {isSubmitting ? t("transfers.drafting") : t("transfers.draft")}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
+
+function TransferList() {
+  const { t, formatDate } = useI18n()
+  const router = useRouter()
+  const session = useSession()
+  const [status, setStatus] = useState<TransferStatus | "">("")
+  const [transfers, setTransfers] = useState<Transfer[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(
+    async (filter: TransferStatus | "", signal?: AbortSignal) => {
+      setIsLoading(true)
+      setError(null)
+      try {
+        setTransfers(await listTransfers({ status: filter || undefined }, { signal }))
+      } catch (err) {
+        if (err instanceof ApiError && err.kind === "aborted") return
+        setError(err instanceof ApiError ? err.message : t("transfers.loadFailed"))
+      } finally {
+        if (!signal?.aborted) setIsLoading(false)
+      }
+    },
+    [t],
+  )
+
+  useEffect(() => {
+    const controller = new AbortController()
+    load(status, controller.signal)
+    return () => controller.abort()
+  }, [status, load])
+
+  return (
+    <>
+      {session?.officer.role === "registrar" && (
+        <DraftForm onCreated={(transfer) => router.push(transferLink("registrar", transfer.id))} />
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-lg">
+        <div className="px-8 py-8">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-semibold text-gray-900">{t("transfers.listTitle")}</h2>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as TransferStatus | "")}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-gray-500"
+            >
+              <option value="">{t("transfers.allStatuses")}</option>
+              {TRANSFER_STATUSES.map((value) => (
+                <option key={value} value={value}>
+                  {t(`transferStatus.${value}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && <p className="mb-6 text-sm text-red-600">{error}</p>}
+
+          {isLoading ? (
+            <p className="text-gray-600">{t("transfers.loading")}</p>
+          ) : transfers.length === 0 ? (
+            <p className="text-gray-600">{t("transfers.none")}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t("transfers.column.property")}
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t("transfers.column.parties")}
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t("transfers.column.status")}
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t("transfers.column.drafted")}
+                    </th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {t("transfers.column.expires")}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {transfers.map((transfer) => (
+                    <tr key={transfer.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm font-medium">
+                        <Link
+                          href={transferLink("registrar", transfer.id)}
+                          className="text-gray-900 underline hover:text-gray-600"
+                        >
+                          {transfer.property_number}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {transfer.seller} → {transfer.buyer}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span
+                          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${TRANSFER_STATUS_STYLES[transfer.status]}`}
+                        >
+                          {t(`transferStatus.${transfer.status}`)}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {formatDate(transfer.created_at)}
+                        <div className="text-xs text-gray-500">
+                          {t("transfers.by", { officer: transfer.created_by })}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">{formatDate(transfer.expires_at)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  )
+}
+
+export default function TransfersPage() {
+  const { t } = useI18n()
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-6 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{t("transfers.title")}</h1>
+              <p className="text-gray-600 mt-1">{t("transfers.subtitle")}</p>
+            </div>
+            <div className="flex items-center gap-6">
+              <SessionBadge />
+              <Link
+                href="/"
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+              >
+                ← {t("nav.backHome")}
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-6 py-12">
+        <RequireRole roles={["registrar", "auditor"]}>
+          <TransferList />
+        </RequireRole>
+      </main>
+    </div>
+  )
+}
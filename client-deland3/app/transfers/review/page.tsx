@@ -0,0 +1,257 @@
+"use client"
+
+import { Suspense, useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { useSearchParams } from "next/navigation"
+import RequireRole from "@/components/RequireRole"
+import SessionBadge from "@/components/SessionBadge"
+import TransferSummary from "@/components/TransferSummary"
+import { ApiError, cancelTransfer, finalizeTransfer, getTransfer } from "@/lib/api"
+import { useI18n } from "@/lib/i18n-context"
+import { isOpenTransfer, transferLink } from "@/lib/transfers"
+import type { TransferView } from "@/lib/types"
+
+const ShareLink = ({ label, href }: { label: string; href: string }) => {
+  const { t } = useI18n()
+  const [copied, setCopied] = useState(false)
+  // The origin is only known in the browser; read it after hydration.
+  const [origin, setOrigin] = useState("")
+  useEffect(() => setOrigin(window.location.origin), [])
+  const url = `${origin}${href}`
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(url)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          readOnly
+          value={url}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md bg-gray-50 text-sm text-gray-600 font-mono"
+        />
+        <button
+          type="button"
+          onClick={copy}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          {copied ? t("transferReview.copied") : t("transferReview.copy")}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function TransferReview() {
+  const { t } = useI18n()
+  const searchParams = useSearchParams()
+  const id = searchParams.get("id") ?? ""
+
+  const [view, setView] = useState<TransferView | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [ruleErrors, setRuleErrors] = useState<string[]>([])
+  const [reason, setReason] = useState("")
+  // Asked for once finalizing is refused because a stay or lien is active.
+  const [needsOverride, setNeedsOverride] = useState(false)
+  const [overrideReason, setOverrideReason] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const load = useCallback(
+    async (signal?: AbortSignal) => {
+      try {
+        setView(await getTransfer(id, undefined, { signal }))
+      } catch (err) {
+        if (err instanceof ApiError && err.kind === "aborted") return
+        setError(err instanceof ApiError ? err.message : t("transferReview.loadFailed"))
+      }
+    },
+    [id, t],
+  )
+
+  useEffect(() => {
+    if (!id) return
+    const controller = new AbortController()
+    load(controller.signal)
+    return () => controller.abort()
+  }, [id, load])
+
+  const run = async (action: () => Promise<TransferView>) => {
+    setIsSubmitting(true)
+    setError(null)
+    setRuleErrors([])
+    try {
+      setView(await action())
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : t("transferReview.requestFailed"))
+      if (err instanceof ApiError) {
+        setRuleErrors(Object.values(err.fields))
+        if (err.fields["payload.override_reason"]) setNeedsOverride(true)
+        if (err.status === 409) load()
+      }
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const finalize = () => run(async () => (await finalizeTransfer(id, { overrideReason })).transfer)
+  const cancel = () => run(() => cancelTransfer(id, { reason }))
+
+  if (!id) {
+    return <p className="text-gray-600">{t("transferReview.noneSelected")}</p>
+  }
+
+  const transfer = view?.transfer
+  const isRegistrar = view?.party === "registrar"
+
+  return (
+    <>
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
+          <div className="flex">
+            <div className="text-red-400 mr-3">⚠️</div>
+            <div className="text-red-700 font-medium">
+              {error}
+              {ruleErrors.length > 0 && (
+                <ul className="mt-2 list-disc list-inside text-sm font-normal">
+                  {ruleErrors.map((message) => (
+                    <li key={message}>{message}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {transfer && (
+        <>
+          <TransferSummary transfer={transfer} />
+
+          {isRegistrar && isOpenTransfer(transfer.status) && (
+            <div className="bg-white border border-gray-200 rounded-lg mb-8">
+              <div className="px-8 py-8 space-y-6">
+                <div>
+                  <h3 className="text-xl font-semibold text-gray-900 mb-1">{t("transferReview.linksTitle")}</h3>
+                  <p className="text-sm text-gray-600">{t("transferReview.linksHint")}</p>
+                </div>
+                {view.seller_token && (
+                  <ShareLink
+                    label={t("transferReview.sellerLink", { owner: transfer.seller })}
+                    href={transferLink("seller", transfer.id, view.seller_token)}
+                  />
+                )}
+                {view.buyer_token && (
+                  <ShareLink
+                    label={t("transferReview.buyerLink", { owner: transfer.buyer })}
+                    href={transferLink("buyer", transfer.id, view.buyer_token)}
+                  />
+                )}
+              </div>
+            </div>
+          )}
+
+          {isRegistrar && isOpenTransfer(transfer.status) && (
+            <div className="bg-white border border-gray-200 rounded-lg">
+              <div className="px-8 py-8">
+                <h3 className="text-xl font-semibold text-gray-900 mb-1">{t("transferReview.decisionTitle")}</h3>
+                <p className="text-sm text-gray-600 mb-6">
+                  {transfer.status === "buyer_accepted"
+                    ? t("transferReview.finalizeHint", { buyer: transfer.buyer })
+                    : t("transferReview.awaitingApprovals")}
+                </p>
+                {needsOverride && (
+                  <>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {t("transferReview.overrideReason")}
+                    </label>
+                    <input
+                      type="text"
+                      value={overrideReason}
+                      onChange={(e) => setOverrideReason(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500 mb-1"
+                      placeholder={t("transferReview.overridePlaceholder")}
+                    />
+                    <p className="text-xs text-gray-500 mb-6">{t("transferReview.overrideHint")}</p>
+                  </>
+                )}
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {t("transferReview.cancelReason")}
+                </label>
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500 mb-6"
+                  placeholder={t("transferReview.cancelReasonPlaceholder")}
+                />
+                <div className="flex justify-end gap-4">
+                  <button
+                    type="button"
+                    onClick={cancel}
+                    disabled={isSubmitting}
+                    className="px-6 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {t("transferReview.cancel")}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={finalize}
+                    disabled={isSubmitting || transfer.status !== "buyer_accepted"}
+                    className="px-6 py-2 bg-gray-900 text-white font-medium rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                  >
+                    {isSubmitting ? t("transferReview.saving") : t("transferReview.finalize")}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </>
+  )
+}
+
+export default function TransferReviewPage() {
+  const { t } = useI18n()
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-6 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{t("transferReview.title")}</h1>
+              <p className="text-gray-600 mt-1">{t("transferReview.subtitle")}</p>
+            </div>
+            <div className="flex items-center gap-6">
+              <SessionBadge />
+              <Link href="/transfers" className="text-sm font-medium text-gray-700 underline hover:text-gray-900">
+                {t("transferReview.allTransfers")}
+              </Link>
+              <Link
+                href="/"
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+              >
+                ← {t("nav.backHome")}
+              </Link>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-6 py-12">
+        <RequireRole roles={["registrar", "auditor"]}>
+          <Suspense>
+            <TransferReview />
+          </Suspense>
+        </RequireRole>
+      </main>
+    </div>
+  )
+}
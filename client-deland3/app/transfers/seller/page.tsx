@@ -0,0 +1,38 @@
+"use client"
+
+import { Suspense } from "react"
+import Link from "next/link"
+import PartyTransfer from "@/components/PartyTransfer"
+import { useI18n } from "@/lib/i18n-context"
+
+export default function SellerTransferPage() {
+  const { t } = useI18n()
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-6 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{t("transfers.seller.title")}</h1>
+              <p className="text-gray-600 mt-1">{t("transfers.seller.subtitle")}</p>
+            </div>
+            <Link
+              href="/"
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+            >
+              ← {t("nav.backHome")}
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-6 py-12">
+        <Suspense>
+          <PartyTransfer party="seller" />
+        </Suspense>
+      </main>
+    </div>
+  )
+}
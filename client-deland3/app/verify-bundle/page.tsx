@@ -0,0 +1,279 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import Link from "next/link"
+import {
+  parseProofBundle,
+  VERIFICATION_RECIPE,
+  verifyProofBundle,
+  type BundleVerification,
+  type ProofBundle,
+} from "@/lib/bundle"
+import { DecodeError } from "@/lib/decode"
+import { useI18n } from "@/lib/i18n-context"
+import type { SignatureStatus } from "@/lib/signatures"
+
+// Icons and colours for each signature status; the text is the catalog's
+// verifyBundle.signature.* message.
+const SIGNATURE_STYLES: Record<SignatureStatus, { icon: string; className: string }> = {
+  valid: { icon: "✓ ", className: "text-green-700" },
+  missing: { icon: "⚠ ", className: "text-yellow-700" },
+  invalid: { icon: "✗ ", className: "text-red-700" },
+  unknown_key: { icon: "⚠ ", className: "text-yellow-700" },
+  revoked: { icon: "✗ ", className: "text-red-700" },
+  unsupported: { icon: "", className: "text-gray-500" },
+}
+
+const Check = ({ ok }: { ok: boolean }) =>
+  ok ? <span className="text-green-700">✓</span> : <span className="text-red-700 font-semibold">✗</span>
+
+export default function VerifyBundlePage() {
+  const { t, actionLabel, formatTimestamp } = useI18n()
+  const [fileName, setFileName] = useState("")
+  const [bundle, setBundle] = useState<ProofBundle | null>(null)
+  const [result, setResult] = useState<BundleVerification | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isDragging, setIsDragging] = useState(false)
+  const [isVerifying, setIsVerifying] = useState(false)
+
+  const checkFile = async (file: File) => {
+    setFileName(file.name)
+    setBundle(null)
+    setResult(null)
+    setError(null)
+    setIsVerifying(true)
+    try {
+      const parsed = parseProofBundle(await file.text())
+      setBundle(parsed)
+      setResult(await verifyProofBundle(parsed))
+    } catch (err) {
+      setError(
+        err instanceof DecodeError
+          ? t("verifyBundle.notBundle", { reason: err.message })
+          : t("verifyBundle.readFailed"),
+      )
+    } finally {
+      setIsVerifying(false)
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragging(false)
+    const file = e.dataTransfer.files[0]
+    if (file) checkFile(file)
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) checkFile(file)
+  }
+
+  return (
+    <div className="min-h-screen bg-white">
+      {/* Header */}
+      <header className="border-b border-gray-200">
+        <div className="max-w-6xl mx-auto px-6 py-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{t("verifyBundle.title")}</h1>
+              <p className="text-gray-600 mt-1">{t("verifyBundle.subtitle")}</p>
+            </div>
+            <Link
+              href="/"
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+            >
+              ← {t("nav.backHome")}
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-6 py-12">
+        {/* Drop Zone */}
+        <label
+          onDragOver={(e) => {
+            e.preventDefault()
+            setIsDragging(true)
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`block border-2 border-dashed rounded-lg px-8 py-12 mb-8 text-center cursor-pointer transition-colors duration-200 ${
+            isDragging ? "border-gray-900 bg-gray-50" : "border-gray-300 hover:border-gray-400"
+          }`}
+        >
+          <div className="text-4xl mb-4">📄</div>
+          <div className="text-lg font-medium text-gray-900">{t("verifyBundle.drop")}</div>
+          <p className="text-sm text-gray-600 mt-2">{t("verifyBundle.dropHint")}</p>
+          <input type="file" accept=".json,application/json" onChange={handleFileChange} className="sr-only" />
+        </label>
+
+        {isVerifying && <p className="text-gray-600 mb-8">{t("verifyBundle.verifying", { file: fileName })}</p>}
+
+        {/* Error Message */}
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
+            <div className="flex">
+              <div className="text-red-400 mr-3">⚠️</div>
+              <div className="text-red-700 font-medium">{error}</div>
+            </div>
+          </div>
+        )}
+
+        {bundle && result && (
+          <>
+            {/* Verdict */}
+            <div
+              className={`border rounded-lg p-6 mb-8 ${
+                result.valid ? "bg-green-50 border-green-200" : "bg-red-50 border-red-200"
+              }`}
+            >
+              <div className="flex items-center">
+                <div className="text-2xl mr-3">{result.valid ? "✅" : "❌"}</div>
+                <div>
+                  <div className={`text-lg font-semibold ${result.valid ? "text-green-900" : "text-red-900"}`}>
+                    {result.valid ? t("verifyBundle.verified") : t("verifyBundle.notVerified")}
+                  </div>
+                  <div className={`text-sm ${result.valid ? "text-green-700" : "text-red-700"}`}>
+                    {result.valid
+                      ? t("verifyBundle.verifiedDetail", { count: result.chain.checks.length })
+                      : result.chain.brokenAt !== null
+                        ? t("verifyBundle.breaksAt", {
+                            position: result.chain.brokenAt + 1,
+                            total: result.chain.checks.length,
+                          })
+                        : !result.chainHeadMatches
+                          ? t("verifyBundle.headMismatch")
+                          : t("verifyBundle.inputMismatch")}
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Summary */}
+            <div className="bg-white border border-gray-200 rounded-lg mb-8">
+              <div className="px-8 py-8">
+                <h3 className="text-xl font-semibold text-gray-900 mb-4">{t("verifyBundle.contents")}</h3>
+                <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <dt className="font-medium text-gray-500">{t("verifyBundle.propertyNumber")}</dt>
+                    <dd className="text-gray-900">{bundle.property_number}</dd>
+                  </div>
+                  <div>
+                    <dt className="font-medium text-gray-500">{t("verifyBundle.currentOwner")}</dt>
+                    <dd className="text-gray-900">{bundle.current_owner}</dd>
+                  </div>
+                  <div>
+                    <dt className="font-medium text-gray-500">{t("verifyBundle.exported")}</dt>
+                    <dd className="text-gray-900">{formatTimestamp(bundle.exported_at)}</dd>
+                  </div>
+                  <div>
+                    <dt className="font-medium text-gray-500">{t("verifyBundle.keys")}</dt>
+                    <dd className="text-gray-900">
+                      {bundle.key_registry.keys.length === 0
+                        ? t("verifyBundle.noKeys")
+                        : bundle.key_registry.keys.map((key) => `${key.key_id} (${key.officer})`).join(", ")}
+                    </dd>
+                    <p className="text-xs text-gray-500 mt-1">{t("verifyBundle.keysHint")}</p>
+                  </div>
+                  <div className="md:col-span-2">
+                    <dt className="font-medium text-gray-500">{t("verifyBundle.chainHead")}</dt>
+                    <dd className="font-mono text-xs text-gray-900 break-all">
+                      {bundle.chain_head} <Check ok={result.chainHeadMatches} />
+                    </dd>
+                  </div>
+                </dl>
+              </div>
+            </div>
+
+            {/* Entries */}
+            <div className="bg-white border border-gray-200 rounded-lg">
+              <div className="px-8 py-8">
+                <h3 className="text-xl font-semibold text-gray-900 mb-6">{t("verifyBundle.entries")}</h3>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          #
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {t("verifyBundle.column.action")}
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {t("verifyBundle.column.recorded")}
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {t("verifyBundle.column.hashInput")}
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {t("verifyBundle.column.hash")}
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {t("verifyBundle.column.link")}
+                        </th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {t("verifyBundle.column.signature")}
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {bundle.entries.map(({ entry }, index) => {
+                        const check = result.chain.checks[index]
+                        const status = result.signatures[index].status
+                        return (
+                          <tr key={entry.id} className={check.status === "broken" ? "bg-red-50" : undefined}>
+                            <td className="px-4 py-3 text-sm text-gray-700">{index + 1}</td>
+                            <td className="px-4 py-3 text-sm text-gray-900">
+                              {actionLabel(entry.action)}
+                              <div className="text-xs text-gray-500">{entry.owner_id}</div>
+                            </td>
+                            <td className="px-4 py-3 text-sm text-gray-700">{formatTimestamp(entry.timestamp)}</td>
+                            <td className="px-4 py-3 text-sm">
+                              <Check ok={result.hashInputMatches[index]} />
+                            </td>
+                            <td className="px-4 py-3 text-sm">
+                              {check.status === "unverified" ? (
+                                <span className="text-gray-500">{t("verifyBundle.afterBreak")}</span>
+                              ) : (
+                                <Check ok={check.hashMatches} />
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-sm">
+                              {check.status === "unverified" ? (
+                                <span className="text-gray-500">{t("verifyBundle.afterBreak")}</span>
+                              ) : (
+                                <Check ok={check.linkMatches} />
+                              )}
+                            </td>
+                            <td className={`px-4 py-3 text-sm font-medium ${SIGNATURE_STYLES[status].className}`}>
+                              {SIGNATURE_STYLES[status].icon}
+                              {t(`verifyBundle.signature.${status}`)}
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+
+                <details className="mt-6 text-sm text-gray-700">
+                  <summary className="cursor-pointer font-medium text-gray-900">{t("verifyBundle.recipe")}</summary>
+                  {/* The recipe is the one the bundle itself carries, and stays as written there. */}
+                  <ol className="list-decimal ml-6 mt-3 space-y-2">
+                    {VERIFICATION_RECIPE.map((step) => (
+                      <li key={step}>{step}</li>
+                    ))}
+                  </ol>
+                </details>
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
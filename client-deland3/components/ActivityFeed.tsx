@@ -0,0 +1,102 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { searchLedger } from "@/lib/api"
+import { ledgerEventID, subscribeToLedger, type StreamStatus } from "@/lib/events"
+import { useI18n } from "@/lib/i18n-context"
+import type { LedgerEntry } from "@/lib/types"
+
+const STATUS_STYLES: Record<StreamStatus, string> = {
+  connecting: "bg-gray-400",
+  live: "bg-green-500",
+  reconnecting: "bg-yellow-500",
+}
+
+// The newest ledger entries, kept current over the /events stream.
+export default function ActivityFeed({ limit = 8 }: { limit?: number }) {
+  const { t, actionLabel, formatTimestamp } = useI18n()
+  const [entries, setEntries] = useState<LedgerEntry[]>([])
+  const [status, setStatus] = useState<StreamStatus>("connecting")
+
+  useEffect(() => {
+    const controller = new AbortController()
+    let unsubscribe: (() => void) | undefined
+
+    const start = async () => {
+      let lastEventId: string | undefined
+      try {
+        const { results } = await searchLedger(
+          { page_size: limit, sort: "timestamp", order: "desc" },
+          { signal: controller.signal },
+        )
+        setEntries(results)
+        lastEventId = results[0] && ledgerEventID(results[0])
+      } catch (_error) {
+        if (controller.signal.aborted) return
+        console.error("Recent activity error:", _error)
+      }
+      // Streaming from the newest listed entry covers anything recorded while
+      // the list was loading.
+      unsubscribe = subscribeToLedger({
+        lastEventId,
+        onStatus: setStatus,
+        onEntry: (entry) =>
+          setEntries((prev) =>
+            prev.some((existing) => existing.id === entry.id) ? prev : [entry, ...prev].slice(0, limit),
+          ),
+        onReset: () => {
+          unsubscribe = undefined
+          start()
+        },
+      })
+    }
+    start()
+
+    return () => {
+      controller.abort()
+      unsubscribe?.()
+    }
+  }, [limit])
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg">
+      <div className="px-8 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-semibold text-gray-900">{t("activity.title")}</h3>
+          <span className="inline-flex items-center gap-2 text-sm text-gray-600">
+            <span className={`w-2 h-2 rounded-full ${STATUS_STYLES[status]}`} />
+            {t(`activity.status.${status}`)}
+          </span>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-gray-600">{t("activity.empty")}</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {entries.map((entry) => (
+              <li key={entry.id} className="py-3 flex items-start justify-between gap-4">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">
+                    {actionLabel(entry.action)} ·{" "}
+                    <Link
+                      href={`/property?property_number=${encodeURIComponent(entry.property_number)}`}
+                      className="underline hover:text-gray-700"
+                    >
+                      {entry.property_number}
+                    </Link>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {t("activity.owner", { owner: entry.owner_id })}
+                    {entry.recorded_by && ` · ${t("activity.recordedBy", { officer: entry.recorded_by })}`}
+                  </div>
+                </div>
+                <div className="text-xs text-gray-500 whitespace-nowrap">{formatTimestamp(entry.timestamp)}</div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
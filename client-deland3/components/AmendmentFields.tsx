@@ -0,0 +1,150 @@
+import { useI18n } from "@/lib/i18n-context"
+import { CORRECTED_ENTRY_FIELDS, isKnownAction, PAYLOAD_FIELDS } from "@/lib/payloads"
+import { LAND_TYPES, type LedgerEntry } from "@/lib/types"
+
+interface AmendmentFieldsProps {
+  action: "Correction" | "Reversal"
+  // The property's entries that may still be amended, as currently amended;
+  // null until the property has been loaded.
+  amendable: LedgerEntry[] | null
+  // Chain positions by entry ID, for labelling.
+  positions: Map<string, number>
+  amends: string
+  onAmendsChange: (id: string) => void
+  // Correction values keyed as correctionValues (lib/amend.ts) keys them.
+  corrected: Record<string, string>
+  onCorrectedChange: (name: string, value: string) => void
+  fieldErrors: Record<string, string>
+}
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="mt-1 text-sm text-red-600">{message}</p> : null
+
+// The admin form section for a Correction or Reversal: which entry it amends
+// and, for a Correction, the values that entry should have recorded.
+export default function AmendmentFields({
+  action,
+  amendable,
+  positions,
+  amends,
+  onAmendsChange,
+  corrected,
+  onCorrectedChange,
+  fieldErrors,
+}: AmendmentFieldsProps) {
+  const { t, actionLabel, landTypeLabel, fieldLabel, fieldPlaceholder, formatTimestamp } = useI18n()
+  const inputClass = (field: string) =>
+    `w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500 ${
+      fieldErrors[field] ? "border-red-400 bg-red-50" : "border-gray-300"
+    }`
+  const target = amendable?.find((entry) => entry.id === amends)
+  const payloadSpecs = target && isKnownAction(target.action) ? PAYLOAD_FIELDS[target.action] : []
+
+  return (
+    <fieldset className="border border-gray-200 rounded-md px-6 py-5">
+      <legend className="px-2 text-sm font-semibold text-gray-900">{actionLabel(action)}</legend>
+      <div className="space-y-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {t(action === "Reversal" ? "amend.entryToReverse" : "amend.entryToCorrect")} *
+          </label>
+          <select
+            value={amends}
+            onChange={(e) => onAmendsChange(e.target.value)}
+            required
+            disabled={!amendable}
+            className={inputClass("payload.amends")}
+          >
+            <option value="">{t(amendable ? "amend.choose" : "amend.propertyFirst")}</option>
+            {amendable?.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                #{positions.get(entry.id)} {actionLabel(entry.action)} · {entry.owner_id} ·{" "}
+                {formatTimestamp(entry.timestamp)}
+              </option>
+            ))}
+          </select>
+          <FieldError message={fieldErrors["payload.amends"]} />
+          <p className="mt-1 text-xs text-gray-500">
+            {t(action === "Reversal" ? "amend.hintReversal" : "amend.hintCorrection")}
+          </p>
+        </div>
+
+        {action === "Correction" && target && (
+          <div>
+            <p className="text-sm text-gray-600 mb-4">{t("amend.changeOnly")}</p>
+            <FieldError message={fieldErrors["payload.corrected"]} />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {CORRECTED_ENTRY_FIELDS.map((field) => {
+                const errorKey = `payload.corrected.${field.name}`
+                return (
+                  <div key={field.name} className={field.name === "details" ? "md:col-span-2" : undefined}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">{fieldLabel("", field)}</label>
+                    {field.name === "land_type" ? (
+                      <select
+                        value={corrected[field.name] ?? ""}
+                        onChange={(e) => onCorrectedChange(field.name, e.target.value)}
+                        className={inputClass(errorKey)}
+                      >
+                        {LAND_TYPES.map((landType) => (
+                          <option key={landType} value={landType}>
+                            {landTypeLabel(landType)}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        type="text"
+                        value={corrected[field.name] ?? ""}
+                        onChange={(e) => onCorrectedChange(field.name, e.target.value)}
+                        className={inputClass(errorKey)}
+                      />
+                    )}
+                    <FieldError message={fieldErrors[errorKey]} />
+                  </div>
+                )
+              })}
+              {payloadSpecs.map((spec) => {
+                const name = `payload.${spec.name}`
+                const errorKey = `payload.corrected.${name}`
+                if (spec.kind === "geojson") {
+                  return (
+                    <div key={spec.name} className="md:col-span-2">
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        {fieldLabel(target.action, spec)}
+                      </label>
+                      <textarea
+                        value={corrected[name] ?? ""}
+                        onChange={(e) => onCorrectedChange(name, e.target.value)}
+                        rows={6}
+                        className={`${inputClass(errorKey)} font-mono text-xs`}
+                      />
+                      <FieldError message={fieldErrors[errorKey]} />
+                    </div>
+                  )
+                }
+                return (
+                  <div key={spec.name}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {fieldLabel(target.action, spec)}
+                    </label>
+                    <input
+                      type={spec.kind === "date" ? "date" : spec.kind === "amount" ? "number" : "text"}
+                      value={corrected[name] ?? ""}
+                      onChange={(e) => onCorrectedChange(name, e.target.value)}
+                      min={spec.kind === "amount" ? "0.01" : undefined}
+                      step={spec.kind === "amount" ? "0.01" : undefined}
+                      maxLength={spec.kind === "currency" ? 3 : undefined}
+                      className={inputClass(errorKey)}
+                      placeholder={fieldPlaceholder(target.action, spec)}
+                    />
+                    <FieldError message={fieldErrors[errorKey]} />
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </fieldset>
+  )
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { uploadAttachment } from "@/lib/api"
+import { hashFile, MAX_ATTACHMENT_SIZE, MAX_ENTRY_ATTACHMENTS, shortDigest } from "@/lib/attachments"
+import { formatBytes } from "@/lib/format"
+import { useI18n } from "@/lib/i18n-context"
+import type { Attachment } from "@/lib/types"
+
+interface AttachmentUploadProps {
+  attachments: Attachment[]
+  onChange: (attachments: Attachment[]) => void
+  // Reports while files are being uploaded, so the form can hold off submitting.
+  onBusyChange: (busy: boolean) => void
+  fieldErrors: Record<string, string>
+}
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="mt-1 text-sm text-red-600">{message}</p> : null
+
+// The admin form section that uploads documents for the entry being recorded.
+// Each file is hashed in the browser before it is sent, and the upload is
+// refused if the server stored it under a different digest.
+export default function AttachmentUpload({ attachments, onChange, onBusyChange, fieldErrors }: AttachmentUploadProps) {
+  const { t } = useI18n()
+  const [isUploading, setIsUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = ""
+    if (files.length === 0) return
+    if (attachments.length + files.length > MAX_ENTRY_ATTACHMENTS) {
+      setError(t("upload.tooMany", { max: MAX_ENTRY_ATTACHMENTS }))
+      return
+    }
+    const tooLarge = files.find((file) => file.size > MAX_ATTACHMENT_SIZE)
+    if (tooLarge) {
+      setError(t("upload.tooLarge", { name: tooLarge.name, size: formatBytes(MAX_ATTACHMENT_SIZE) }))
+      return
+    }
+
+    setError(null)
+    setIsUploading(true)
+    onBusyChange(true)
+    const uploaded = [...attachments]
+    try {
+      for (const file of files) {
+        const digest = await hashFile(file)
+        if (uploaded.some((attachment) => attachment.sha256 === digest)) continue
+        const attachment = await uploadAttachment(file)
+        if (attachment.sha256 !== digest) {
+          throw new Error(t("upload.digestMismatch", { name: file.name }))
+        }
+        uploaded.push(attachment)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("upload.failed"))
+    } finally {
+      onChange(uploaded)
+      setIsUploading(false)
+      onBusyChange(false)
+    }
+  }
+
+  const remove = (sha256: string) => onChange(attachments.filter((attachment) => attachment.sha256 !== sha256))
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">{t("attachments.title")}</label>
+      {attachments.length > 0 && (
+        <ul className="mb-3 divide-y divide-gray-100 border border-gray-200 rounded-md">
+          {attachments.map((attachment, index) => (
+            <li key={attachment.sha256} className="px-3 py-2 text-sm">
+              <div className="flex items-center gap-4">
+                <span className="font-medium text-gray-900">📎 {attachment.name}</span>
+                <span className="text-gray-500">{formatBytes(attachment.size)}</span>
+                <span className="font-mono text-xs text-gray-500" title={attachment.sha256}>
+                  SHA-256 {shortDigest(attachment.sha256)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => remove(attachment.sha256)}
+                  className="ml-auto text-gray-700 underline hover:text-gray-900"
+                >
+                  {t("upload.remove")}
+                </button>
+              </div>
+              <FieldError message={fieldErrors[`attachments.${index}`]} />
+            </li>
+          ))}
+        </ul>
+      )}
+      <input
+        type="file"
+        multiple
+        onChange={handleFiles}
+        disabled={isUploading || attachments.length >= MAX_ENTRY_ATTACHMENTS}
+        className="block w-full text-sm text-gray-700 file:mr-4 file:px-4 file:py-2 file:border file:border-gray-300 file:rounded-md file:bg-white file:text-sm file:font-medium file:text-gray-700 hover:file:bg-gray-50"
+      />
+      <p className="mt-1 text-xs text-gray-500">
+        {isUploading ? t("upload.uploading") : t("upload.hint", { size: formatBytes(MAX_ATTACHMENT_SIZE) })}
+      </p>
+      <FieldError message={error ?? fieldErrors.attachments} />
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+import { useI18n } from "@/lib/i18n-context"
+import { blocksTransfer, replayState, type EncumbranceKind } from "@/lib/state"
+import type { LedgerEntry } from "@/lib/types"
+
+const KIND_STYLES: Record<EncumbranceKind, string> = {
+  Lien: "bg-red-50 text-red-800 border-red-200",
+  Mortgage: "bg-blue-50 text-blue-800 border-blue-200",
+  Stay: "bg-amber-50 text-amber-800 border-amber-200",
+}
+
+// The liens, mortgages and court stays the property's chain has registered
+// and not yet released, replayed from the entries themselves.
+export default function EncumbrancePanel({ entries }: { entries: LedgerEntry[] }) {
+  const { t, formatAmount, formatDate } = useI18n()
+  const { encumbrances } = replayState(entries)
+  const blocked = encumbrances.some(blocksTransfer)
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg mb-8">
+      <div className="px-8 py-8">
+        <h3 className="text-xl font-semibold text-gray-900">{t("encumbrances.title")}</h3>
+        <p className="text-sm text-gray-600 mt-1 mb-6">{t("encumbrances.description")}</p>
+        {encumbrances.length === 0 ? (
+          <p className="text-sm text-gray-500">{t("encumbrances.none")}</p>
+        ) : (
+          <ul className="space-y-3">
+            {encumbrances.map((item) => (
+              <li
+                key={`${item.kind}-${item.reference}`}
+                className="flex flex-wrap items-center gap-x-4 gap-y-1 border border-gray-200 rounded-lg p-4 text-sm"
+              >
+                <span className={`px-2 py-0.5 text-xs font-medium border rounded-full ${KIND_STYLES[item.kind]}`}>
+                  {t(`encumbrance.${item.kind}`)}
+                </span>
+                <span className="font-mono text-gray-900">{item.reference}</span>
+                <span className="text-gray-600">{item.holder}</span>
+                {item.amount !== undefined && (
+                  <span className="text-gray-900">{formatAmount(item.amount, item.currency)}</span>
+                )}
+                <span className="text-gray-500">
+                  {item.orderDate
+                    ? t("encumbrances.ordered", { date: item.orderDate })
+                    : t("encumbrances.since", { date: formatDate(item.since) })}{" "}
+                  ·{" "}
+                  <a href={`#entry-${item.entryId}`} className="underline hover:text-gray-900">
+                    {t("encumbrances.viewEntry")}
+                  </a>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {blocked && <p className="mt-4 text-xs text-gray-500">{t("encumbrances.blocked")}</p>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+"use client"
+
+import { useState } from "react"
+import { attachmentURL } from "@/lib/api"
+import { checkAttachment, shortDigest, type AttachmentCheck } from "@/lib/attachments"
+import { formatBytes } from "@/lib/format"
+import { useI18n } from "@/lib/i18n-context"
+import type { Attachment } from "@/lib/types"
+
+const CHECK_STYLES: Record<AttachmentCheck, string> = {
+  checking: "text-gray-500",
+  match: "text-green-700",
+  mismatch: "text-red-700",
+  error: "text-red-700",
+}
+
+// The documents attached to a timeline entry, each with a download link and
+// a check that re-hashes the downloaded file against the recorded digest.
+export default function EntryAttachments({ attachments }: { attachments: Attachment[] }) {
+  const { t } = useI18n()
+  const [checks, setChecks] = useState<Record<string, AttachmentCheck>>({})
+
+  const check = async (attachment: Attachment) => {
+    setChecks((prev) => ({ ...prev, [attachment.sha256]: "checking" }))
+    let result: AttachmentCheck
+    try {
+      result = (await checkAttachment(attachment)) ? "match" : "mismatch"
+    } catch {
+      result = "error"
+    }
+    setChecks((prev) => ({ ...prev, [attachment.sha256]: result }))
+  }
+
+  return (
+    <div className="mt-4">
+      <span className="text-sm font-medium text-gray-500">{t("attachments.title")}:</span>
+      <ul className="mt-1 divide-y divide-gray-100 border border-gray-200 rounded-md">
+        {attachments.map((attachment) => {
+          const status = checks[attachment.sha256]
+          return (
+            <li key={attachment.sha256} className="flex flex-wrap items-center gap-x-4 gap-y-1 px-3 py-2 text-sm">
+              <a
+                href={attachmentURL(attachment)}
+                className="font-medium text-gray-900 underline hover:text-gray-600"
+                download={attachment.name}
+              >
+                📎 {attachment.name}
+              </a>
+              <span className="text-gray-500">{formatBytes(attachment.size)}</span>
+              <span className="font-mono text-xs text-gray-500" title={attachment.sha256}>
+                SHA-256 {shortDigest(attachment.sha256)}
+              </span>
+              <span className="ml-auto">
+                {status && status !== "checking" ? (
+                  <span className={`font-medium ${CHECK_STYLES[status]}`}>{t(`attachments.check.${status}`)}</span>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => check(attachment)}
+                    disabled={status === "checking"}
+                    className="text-gray-700 underline hover:text-gray-900 disabled:opacity-50"
+                  >
+                    {status ? t(`attachments.check.${status}`) : t("attachments.checkHash")}
+                  </button>
+                )}
+              </span>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,13 @@
+"use client"
+
+import type React from "react"
+
+import { useMemo } from "react"
+import { createI18n } from "@/lib/i18n"
+import { I18nContext } from "@/lib/i18n-context"
+
+// Provides the locale the root layout resolved to every client component.
+export default function I18nProvider({ locale, children }: { locale: string; children: React.ReactNode }) {
+  const i18n = useMemo(() => createI18n(locale), [locale])
+  return <I18nContext.Provider value={i18n}>{children}</I18nContext.Provider>
+}
@@ -0,0 +1,32 @@
+"use client"
+
+import { LANGUAGES, splitLocalePath } from "@/lib/i18n"
+import { useI18n } from "@/lib/i18n-context"
+
+// Reloads the current page under the chosen locale's prefix, which also
+// makes it the remembered locale (middleware.ts).
+export default function LanguageSwitcher() {
+  const { locale, t } = useI18n()
+
+  const switchTo = (next: string) => {
+    const { path } = splitLocalePath(window.location.pathname)
+    window.location.assign(`/${next}${path === "/" ? "" : path}${window.location.search}${window.location.hash}`)
+  }
+
+  return (
+    <label className="inline-flex items-center gap-2 text-sm text-gray-600">
+      <span>{t("layout.language")}</span>
+      <select
+        value={locale}
+        onChange={(e) => switchTo(e.target.value)}
+        className="px-2 py-1 border border-gray-300 rounded-md bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500"
+      >
+        {LANGUAGES.map((language) => (
+          <option key={language.locale} value={language.locale} lang={language.locale}>
+            {language.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
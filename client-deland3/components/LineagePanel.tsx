@@ -0,0 +1,166 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { ApiError, getLineage } from "@/lib/api"
+import { useI18n } from "@/lib/i18n-context"
+import type { Lineage, LineageNode } from "@/lib/types"
+
+interface LineagePanelProps {
+  propertyNumber: string
+  // Changes whenever the property's chain does, so a new subdivision shows.
+  chainLength: number
+}
+
+const BOX_WIDTH = 150
+const BOX_HEIGHT = 48
+const COLUMN_GAP = 24
+const ROW_GAP = 56
+
+const propertyHref = (propertyNumber: string) => `/property?property_number=${encodeURIComponent(propertyNumber)}`
+
+// Places each generation on its own row, ancestors above and descendants
+// below, with every row centred.
+const layout = (nodes: LineageNode[]) => {
+  const rows = new Map<number, LineageNode[]>()
+  for (const node of nodes) rows.set(node.generation, [...(rows.get(node.generation) ?? []), node])
+  const generations = [...rows.keys()].sort((a, b) => a - b)
+  const widest = Math.max(...[...rows.values()].map((row) => row.length))
+  const width = widest * BOX_WIDTH + (widest - 1) * COLUMN_GAP
+  const positions = new Map<string, { x: number; y: number }>()
+  generations.forEach((generation, rowIndex) => {
+    const row = rows.get(generation) ?? []
+    const rowWidth = row.length * BOX_WIDTH + (row.length - 1) * COLUMN_GAP
+    row.forEach((node, index) => {
+      positions.set(node.property_number, {
+        x: (width - rowWidth) / 2 + index * (BOX_WIDTH + COLUMN_GAP),
+        y: rowIndex * (BOX_HEIGHT + ROW_GAP),
+      })
+    })
+  })
+  return { positions, width, height: generations.length * (BOX_HEIGHT + ROW_GAP) - ROW_GAP }
+}
+
+// The property page's graph of the properties this one was subdivided or
+// merged from and into. Clicking a property opens its history, so the graph
+// can be walked up to the original plot and down to today's.
+export default function LineagePanel({ propertyNumber, chainLength }: LineagePanelProps) {
+  const router = useRouter()
+  const { t, actionLabel } = useI18n()
+  const [lineage, setLineage] = useState<Lineage | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    setError(null)
+    getLineage(propertyNumber, { signal: controller.signal })
+      .then(setLineage)
+      .catch((err) => {
+        if (err instanceof ApiError && err.kind === "aborted") return
+        setError(t("lineage.loadFailed"))
+      })
+    return () => controller.abort()
+  }, [propertyNumber, chainLength, t])
+
+  const graph = lineage && lineage.property_number === propertyNumber ? lineage : null
+  const { positions, width, height } = layout(graph?.nodes ?? [])
+  const unverified = graph?.edges.filter((edge) => !edge.verified) ?? []
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg mb-8">
+      <div className="px-8 py-8">
+        <h3 className="text-xl font-semibold text-gray-900">{t("lineage.title")}</h3>
+        <p className="text-sm text-gray-600 mt-1 mb-6">{t("lineage.description")}</p>
+        {error && <p className="text-sm text-red-700">{error}</p>}
+        {graph && (
+          <div className="overflow-x-auto">
+            <svg
+              width={width}
+              height={height}
+              viewBox={`0 0 ${width} ${height}`}
+              className="mx-auto block"
+              role="img"
+              aria-label={t("lineage.label", { property: propertyNumber })}
+            >
+              {graph.edges.map((edge) => {
+                const parent = positions.get(edge.parent)
+                const child = positions.get(edge.child)
+                if (!parent || !child) return null
+                return (
+                  <line
+                    key={`${edge.parent}>${edge.child}`}
+                    x1={parent.x + BOX_WIDTH / 2}
+                    y1={parent.y + BOX_HEIGHT}
+                    x2={child.x + BOX_WIDTH / 2}
+                    y2={child.y}
+                    stroke={edge.verified ? "#6b7280" : "#dc2626"}
+                    strokeWidth={1.5}
+                    strokeDasharray={edge.verified ? undefined : "6 3"}
+                  >
+                    <title>
+                      {t("lineage.edge", { parent: edge.parent, action: actionLabel(edge.action), child: edge.child })}
+                      {edge.verified ? "" : ` ${t("lineage.unverifiedEdge")}`}
+                    </title>
+                  </line>
+                )
+              })}
+              {graph.nodes.map((node) => {
+                const position = positions.get(node.property_number)
+                if (!position) return null
+                const isCurrent = node.property_number === propertyNumber
+                return (
+                  <g
+                    key={node.property_number}
+                    transform={`translate(${position.x} ${position.y})`}
+                    className={isCurrent ? undefined : "cursor-pointer"}
+                    onClick={isCurrent ? undefined : () => router.push(propertyHref(node.property_number))}
+                  >
+                    <rect
+                      width={BOX_WIDTH}
+                      height={BOX_HEIGHT}
+                      rx={6}
+                      fill={isCurrent ? "#111827" : node.closed_by ? "#f3f4f6" : "#ffffff"}
+                      stroke={isCurrent ? "#111827" : "#9ca3af"}
+                      className={isCurrent ? undefined : "hover:fill-gray-100"}
+                    />
+                    <text
+                      x={BOX_WIDTH / 2}
+                      y={20}
+                      textAnchor="middle"
+                      fontSize={13}
+                      fontWeight={600}
+                      fill={isCurrent ? "#ffffff" : "#111827"}
+                      pointerEvents="none"
+                    >
+                      {node.property_number}
+                    </text>
+                    <text
+                      x={BOX_WIDTH / 2}
+                      y={37}
+                      textAnchor="middle"
+                      fontSize={11}
+                      fill={isCurrent ? "#d1d5db" : "#6b7280"}
+                      pointerEvents="none"
+                    >
+                      {node.closed_by ? actionLabel(node.closed_by) : (node.survey_number ?? t("lineage.notRecorded"))}
+                    </text>
+                  </g>
+                )
+              })}
+            </svg>
+          </div>
+        )}
+        {unverified.length > 0 && (
+          <p className="mt-4 text-sm text-red-700">
+            {t("lineage.unverified", {
+              links: unverified.map((edge) => `${edge.parent} → ${edge.child}`).join(", "),
+            })}
+          </p>
+        )}
+        {graph?.truncated && (
+          <p className="mt-2 text-xs text-gray-500">{t("lineage.truncated", { count: graph.nodes.length })}</p>
+        )}
+      </div>
+    </div>
+  )
+}
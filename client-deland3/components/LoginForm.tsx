@@ -0,0 +1,78 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { ApiError, login } from "@/lib/api"
+import { useI18n } from "@/lib/i18n-context"
+import { saveSession } from "@/lib/session"
+
+export default function LoginForm({ title }: { title?: string }) {
+  const { t } = useI18n()
+  const [username, setUsername] = useState("")
+  const [password, setPassword] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      saveSession(await login(username.trim(), password))
+      setPassword("")
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : t("login.failed"))
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="max-w-md mx-auto bg-white border border-gray-200 rounded-lg">
+      <div className="px-8 py-8">
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">{title ?? t("login.title")}</h2>
+        <p className="text-sm text-gray-600 mb-6">{t("login.officersOnly")}</p>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-6 text-sm font-medium text-red-700">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t("login.username")}</label>
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="username"
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t("login.password")}</label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full px-6 py-2 bg-gray-900 text-white font-medium rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            {isSubmitting ? t("login.signingIn") : t("login.signIn")}
+          </button>
+        </form>
+      </div>
+    </div>
+  )
+}
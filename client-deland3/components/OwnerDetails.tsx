@@ -0,0 +1,64 @@
+import Link from "next/link"
+import { useI18n } from "@/lib/i18n-context"
+import type { Owner } from "@/lib/types"
+
+const ownerHref = (ownerId: string) => `/owner?owner_id=${encodeURIComponent(ownerId)}`
+
+// A registered owner's profile: identity document and contact for an
+// individual, members and shares for a joint owner.
+export default function OwnerDetails({ owner }: { owner: Owner }) {
+  const { t, formatDate } = useI18n()
+
+  return (
+    <>
+      <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3 text-sm">
+        <div>
+          <dt className="font-medium text-gray-500">{t("owner.id")}</dt>
+          <dd className="text-gray-900">
+            <Link href={ownerHref(owner.id)} className="hover:underline">
+              {owner.id}
+            </Link>
+          </dd>
+        </div>
+        <div>
+          <dt className="font-medium text-gray-500">{t("owner.contact")}</dt>
+          <dd className="text-gray-900">{owner.contact || "—"}</dd>
+        </div>
+        {!owner.members?.length && (
+          <div>
+            <dt className="font-medium text-gray-500">{t("owner.idDocument")}</dt>
+            <dd className="text-gray-900">
+              {owner.id_document_type} {owner.id_document_ref}
+            </dd>
+          </div>
+        )}
+        <div>
+          <dt className="font-medium text-gray-500">{t("owner.registered")}</dt>
+          <dd className="text-gray-900">
+            {formatDate(owner.created_at)}
+            {owner.updated_at !== owner.created_at && `, ${t("owner.updated", { date: formatDate(owner.updated_at) })}`}
+            {owner.recorded_by && (
+              <span className="text-gray-500"> {t("owner.recordedBy", { officer: owner.recorded_by })}</span>
+            )}
+          </dd>
+        </div>
+      </dl>
+      {owner.members && owner.members.length > 0 && (
+        <div className="mt-6">
+          <span className="text-sm font-medium text-gray-500">{t("owner.jointOwners")}:</span>
+          <ul className="mt-2 space-y-1 text-sm text-gray-900">
+            {owner.members.map((member) => (
+              <li key={member.owner_id}>
+                <Link href={ownerHref(member.owner_id)} className="hover:underline">
+                  {member.name || member.owner_id}
+                </Link>{" "}
+                <span className="text-gray-500">({member.owner_id})</span> — {member.share}%
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {owner.masked && <p className="mt-4 text-xs text-gray-500">{t("owner.masked")}</p>}
+    </>
+  )
+}
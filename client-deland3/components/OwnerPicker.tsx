@@ -0,0 +1,107 @@
+"use client"
+
+import { useEffect, useId, useState } from "react"
+import Link from "next/link"
+import { ApiError, listOwners } from "@/lib/api"
+import { describeOwner } from "@/lib/format"
+import { useI18n, useRichText } from "@/lib/i18n-context"
+import type { Owner } from "@/lib/types"
+
+interface OwnerPickerProps {
+  name: string
+  value: string
+  onChange: (value: string) => void
+  className: string
+  placeholder?: string
+  required?: boolean
+}
+
+const LOOKUP_DELAY_MS = 300
+const SUGGESTION_LIMIT = 8
+
+type Lookup =
+  | { status: "idle" | "checking" | "missing" | "failed" }
+  | { status: "found"; owner: Owner }
+
+// An owner ID input that suggests registered owners by ID or name as the
+// registrar types, and says whether the entered ID is registered. The server
+// makes the final check when the entry is submitted.
+export default function OwnerPicker({ name, value, onChange, className, placeholder, required }: OwnerPickerProps) {
+  const i18n = useI18n()
+  const rich = useRichText()
+  const listId = useId()
+  const [suggestions, setSuggestions] = useState<Owner[]>([])
+  const [lookup, setLookup] = useState<Lookup>({ status: "idle" })
+
+  useEffect(() => {
+    const query = value.trim()
+    if (!query) {
+      setSuggestions([])
+      setLookup({ status: "idle" })
+      return
+    }
+    const controller = new AbortController()
+    setLookup({ status: "checking" })
+    const timer = setTimeout(() => {
+      listOwners({ q: query, limit: SUGGESTION_LIMIT }, { signal: controller.signal })
+        .then((owners) => {
+          setSuggestions(owners)
+          const match = owners.find((owner) => owner.id === query)
+          if (match) {
+            setLookup({ status: "found", owner: match })
+            return
+          }
+          // The ID may be registered but crowded out of the suggestions.
+          return listOwners({ ids: [query] }, { signal: controller.signal }).then(([owner]) =>
+            setLookup(owner ? { status: "found", owner } : { status: "missing" }),
+          )
+        })
+        .catch((err) => {
+          if (err instanceof ApiError && err.kind === "aborted") return
+          setLookup({ status: "failed" })
+        })
+    }, LOOKUP_DELAY_MS)
+    return () => {
+      clearTimeout(timer)
+      controller.abort()
+    }
+  }, [value])
+
+  return (
+    <>
+      <input
+        type="text"
+        name={name}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        list={listId}
+        autoComplete="off"
+        required={required}
+        className={className}
+        placeholder={placeholder}
+      />
+      <datalist id={listId}>
+        {suggestions.map((owner) => (
+          <option key={owner.id} value={owner.id}>
+            {owner.name}
+          </option>
+        ))}
+      </datalist>
+      {lookup.status === "found" && (
+        <p className="mt-1 text-xs text-green-700">✓ {describeOwner(lookup.owner, i18n)}</p>
+      )}
+      {lookup.status === "missing" && (
+        <p className="mt-1 text-xs text-amber-700">
+          {rich("ownerPicker.missing", {
+            register: (
+              <Link href={`/owners?register=${encodeURIComponent(value.trim())}`} className="underline">
+                {i18n.t("ownerPicker.register")}
+              </Link>
+            ),
+          })}
+        </p>
+      )}
+      {lookup.status === "failed" && <p className="mt-1 text-xs text-gray-500">{i18n.t("ownerPicker.failed")}</p>}
+    </>
+  )
+}
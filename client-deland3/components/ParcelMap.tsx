@@ -0,0 +1,319 @@
+"use client"
+
+import type React from "react"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import {
+  boundaryPath,
+  boundsOf,
+  gridStep,
+  linesPath,
+  loadBaseLayer,
+  projectionFor,
+  type BaseFeature,
+  type Bounds,
+} from "@/lib/geo"
+import { useI18n } from "@/lib/i18n-context"
+import type { Parcel } from "@/lib/types"
+
+interface ParcelMapProps {
+  parcels: Parcel[]
+  // The survey number to highlight; the map opens framed on it.
+  selected?: string
+  onSelect?: (parcel: Parcel) => void
+  heightClass?: string
+}
+
+interface ViewBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Fraction of the framed parcels' extent left as margin around them.
+const PADDING = 0.2
+const ZOOM_STEP = 1.5
+
+// Draws parcel boundaries over a graticule and the self-hosted base layer
+// (lib/geo.ts). Everything is drawn as SVG from data the app already has, so
+// the map needs no tile server and keeps working offline. Parcels that overlap
+// another are outlined in red.
+export default function ParcelMap({ parcels, selected, onSelect, heightClass = "h-96" }: ParcelMapProps) {
+  const { t } = useI18n()
+  const [baseLayer, setBaseLayer] = useState<BaseFeature[]>([])
+  const [view, setView] = useState<ViewBox | null>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+  const drag = useRef<{ x: number; y: number; view: ViewBox } | null>(null)
+
+  // Bounds are memoized by value, so a parent passing an equal list of parcels
+  // does not reset the view the user has panned and zoomed to.
+  const framed = parcels.filter((parcel) => parcel.survey_number === selected)
+  const allKey = JSON.stringify(boundsOf(parcels.map((parcel) => parcel.boundary)))
+  const initialKey = JSON.stringify(boundsOf((framed.length > 0 ? framed : parcels).map((parcel) => parcel.boundary)))
+  const projection = useMemo(() => {
+    const allBounds: Bounds | null = JSON.parse(allKey)
+    return allBounds ? projectionFor(allBounds) : null
+  }, [allKey])
+  const initialBounds = useMemo<Bounds | null>(() => JSON.parse(initialKey), [initialKey])
+
+  const frame = useCallback(
+    (bounds: Bounds): ViewBox | null => {
+      if (!projection) return null
+      const [x0, y0] = projection.project([bounds.west, bounds.north])
+      const [x1, y1] = projection.project([bounds.east, bounds.south])
+      const margin = Math.max(x1 - x0, y1 - y0, 1e-6) * PADDING
+      return { x: x0 - margin, y: y0 - margin, width: x1 - x0 + 2 * margin, height: y1 - y0 + 2 * margin }
+    },
+    [projection],
+  )
+
+  // Reframes when the parcels being framed, or the projection, change.
+  useEffect(() => {
+    setView(initialBounds ? frame(initialBounds) : null)
+  }, [initialBounds, frame])
+
+  useEffect(() => {
+    const controller = new AbortController()
+    loadBaseLayer(controller.signal)
+      .then(setBaseLayer)
+      .catch((_error) => {
+        if (!controller.signal.aborted) console.error("Base layer error:", _error)
+      })
+    return () => controller.abort()
+  }, [])
+
+  // Converts a pointer position to map units.
+  const toMap = useCallback((clientX: number, clientY: number, box: ViewBox) => {
+    const rect = svgRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0 || rect.height === 0) return { x: box.x + box.width / 2, y: box.y + box.height / 2 }
+    // preserveAspectRatio="xMidYMid meet" scales by the tighter dimension.
+    const scale = Math.max(box.width / rect.width, box.height / rect.height)
+    return {
+      x: box.x + box.width / 2 + (clientX - rect.left - rect.width / 2) * scale,
+      y: box.y + box.height / 2 + (clientY - rect.top - rect.height / 2) * scale,
+    }
+  }, [])
+
+  // Zooms around the pointer when one is given, else around the centre.
+  const zoom = useCallback(
+    (factor: number, pointer?: { clientX: number; clientY: number }) =>
+      setView((box) => {
+        if (!box) return box
+        const center = pointer
+          ? toMap(pointer.clientX, pointer.clientY, box)
+          : { x: box.x + box.width / 2, y: box.y + box.height / 2 }
+        return {
+          x: center.x - (center.x - box.x) / factor,
+          y: center.y - (center.y - box.y) / factor,
+          width: box.width / factor,
+          height: box.height / factor,
+        }
+      }),
+    [toMap],
+  )
+
+  // React registers wheel handlers as passive, which cannot stop the page
+  // from scrolling while the map zooms. The svg only exists once there is
+  // something to draw.
+  const hasMap = projection !== null && view !== null
+  useEffect(() => {
+    const svg = svgRef.current
+    if (!hasMap || !svg) return
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      zoom(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e)
+    }
+    svg.addEventListener("wheel", onWheel, { passive: false })
+    return () => svg.removeEventListener("wheel", onWheel)
+  }, [hasMap, zoom])
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!view) return
+    drag.current = { x: e.clientX, y: e.clientY, view }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const start = drag.current
+    if (!start) return
+    if (e.buttons === 0) {
+      drag.current = null
+      return
+    }
+    const from = toMap(start.x, start.y, start.view)
+    const to = toMap(e.clientX, e.clientY, start.view)
+    if (Math.abs(e.clientX - start.x) + Math.abs(e.clientY - start.y) > 3) {
+      e.currentTarget.setPointerCapture(e.pointerId)
+    }
+    setView({ ...start.view, x: start.view.x - (to.x - from.x), y: start.view.y - (to.y - from.y) })
+  }
+
+  // A drag that moved the map is not a click on the parcel under the pointer.
+  const handleParcelClick = (e: React.MouseEvent, parcel: Parcel) => {
+    const start = drag.current
+    drag.current = null
+    if (start && Math.abs(e.clientX - start.x) + Math.abs(e.clientY - start.y) > 3) return
+    onSelect?.(parcel)
+  }
+
+  if (!projection || !view) {
+    return (
+      <div className={`${heightClass} flex items-center justify-center bg-gray-50 border border-gray-200 rounded-lg`}>
+        <p className="text-gray-600">{t("map.empty")}</p>
+      </div>
+    )
+  }
+
+  // Graticule lines across the visible area, in whole steps of longitude and latitude.
+  const [west, north] = projection.unproject(view.x, view.y)
+  const [east, south] = projection.unproject(view.x + view.width, view.y + view.height)
+  const step = gridStep(Math.max(east - west, north - south))
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)))
+  const meridians: number[] = []
+  for (let lon = Math.ceil(west / step) * step; lon <= east; lon += step) meridians.push(lon)
+  const parallels: number[] = []
+  for (let lat = Math.ceil(south / step) * step; lat <= north; lat += step) parallels.push(lat)
+  const fontSize = Math.min(view.width, view.height) / 40
+
+  return (
+    <div className={`relative ${heightClass} bg-gray-50 border border-gray-200 rounded-lg overflow-hidden`}>
+      <svg
+        ref={svgRef}
+        viewBox={`${view.x} ${view.y} ${view.width} ${view.height}`}
+        preserveAspectRatio="xMidYMid meet"
+        className="w-full h-full touch-none cursor-grab active:cursor-grabbing select-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setTimeout(() => (drag.current = null))}
+      >
+        <g stroke="#e5e7eb" strokeWidth={1}>
+          {meridians.map((lon) => {
+            const [x] = projection.project([lon, 0])
+            return (
+              <line
+                key={`m${lon}`}
+                x1={x}
+                x2={x}
+                y1={view.y}
+                y2={view.y + view.height}
+                vectorEffect="non-scaling-stroke"
+              />
+            )
+          })}
+          {parallels.map((lat) => {
+            const [, y] = projection.project([0, lat])
+            return (
+              <line
+                key={`p${lat}`}
+                x1={view.x}
+                x2={view.x + view.width}
+                y1={y}
+                y2={y}
+                vectorEffect="non-scaling-stroke"
+              />
+            )
+          })}
+        </g>
+        <g fill="#9ca3af" fontSize={fontSize}>
+          {meridians.map((lon) => (
+            <text
+              key={`m${lon}`}
+              x={projection.project([lon, 0])[0] + fontSize / 4}
+              y={view.y + view.height - fontSize / 2}
+            >
+              {lon.toFixed(decimals)}°
+            </text>
+          ))}
+          {parallels.map((lat) => (
+            <text key={`p${lat}`} x={view.x + fontSize / 4} y={projection.project([0, lat])[1] - fontSize / 4}>
+              {lat.toFixed(decimals)}°
+            </text>
+          ))}
+        </g>
+
+        <g fill="none" stroke="#9ca3af" strokeWidth={1}>
+          {baseLayer.map((feature, index) => (
+            <path
+              key={index}
+              d={linesPath(feature.lines, feature.closed, projection)}
+              fill={feature.closed ? "#f3f4f6" : "none"}
+              fillRule="evenodd"
+              vectorEffect="non-scaling-stroke"
+            >
+              {feature.name && <title>{feature.name}</title>}
+            </path>
+          ))}
+        </g>
+
+        {parcels.map((parcel) => {
+          const isSelected = parcel.survey_number === selected
+          const flagged = parcel.overlaps.length > 0
+          // Labels sit at the centre of the parcel's extent.
+          const extent = boundsOf([parcel.boundary]) as Bounds
+          const [x0, y0] = projection.project([extent.west, extent.north])
+          const [x1, y1] = projection.project([extent.east, extent.south])
+          return (
+            <g key={parcel.survey_number} className={onSelect ? "cursor-pointer" : undefined}>
+              <path
+                d={boundaryPath(parcel.boundary, projection)}
+                fill={isSelected ? "#bfdbfe" : "#e5e7eb"}
+                fillOpacity={0.7}
+                fillRule="evenodd"
+                stroke={flagged ? "#dc2626" : isSelected ? "#1d4ed8" : "#374151"}
+                strokeWidth={isSelected ? 2.5 : 1.5}
+                strokeDasharray={flagged ? "6 3" : undefined}
+                vectorEffect="non-scaling-stroke"
+                onClick={(e) => handleParcelClick(e, parcel)}
+                className={onSelect ? "hover:fill-blue-100" : undefined}
+              >
+                <title>
+                  {flagged
+                    ? t("map.parcelOverlaps", { survey: parcel.survey_number, surveys: parcel.overlaps.join(", ") })
+                    : parcel.survey_number}
+                </title>
+              </path>
+              <text
+                x={(x0 + x1) / 2}
+                y={(y0 + y1) / 2}
+                fontSize={fontSize}
+                textAnchor="middle"
+                dominantBaseline="middle"
+                fill="#111827"
+                pointerEvents="none"
+              >
+                {parcel.survey_number}
+              </text>
+            </g>
+          )
+        })}
+      </svg>
+
+      <div className="absolute top-3 right-3 flex flex-col bg-white border border-gray-300 rounded-md shadow-sm">
+        <button
+          type="button"
+          onClick={() => zoom(ZOOM_STEP)}
+          className="px-3 py-1 text-gray-700 hover:bg-gray-50"
+          aria-label={t("map.zoomIn")}
+        >
+          +
+        </button>
+        <button
+          type="button"
+          onClick={() => zoom(1 / ZOOM_STEP)}
+          className="px-3 py-1 text-gray-700 border-t border-gray-300 hover:bg-gray-50"
+          aria-label={t("map.zoomOut")}
+        >
+          −
+        </button>
+        <button
+          type="button"
+          onClick={() => initialBounds && setView(frame(initialBounds))}
+          className="px-3 py-1 text-xs text-gray-700 border-t border-gray-300 hover:bg-gray-50"
+          aria-label={t("map.resetView")}
+        >
+          ⟲
+        </button>
+      </div>
+    </div>
+  )
+}
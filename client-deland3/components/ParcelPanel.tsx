@@ -0,0 +1,75 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import ParcelMap from "@/components/ParcelMap"
+import { ApiError, getParcels } from "@/lib/api"
+import { describeBoundary } from "@/lib/geo"
+import { useI18n } from "@/lib/i18n-context"
+import type { Parcel } from "@/lib/types"
+
+interface ParcelPanelProps {
+  surveyNumber: string
+  // Changes whenever the property's chain does, so a newly recorded boundary shows.
+  chainLength: number
+}
+
+// The property page's map of its survey number's recorded boundary. The
+// boundary may have been recorded on another property under the same survey
+// number, so it is read from /parcels rather than from this chain.
+export default function ParcelPanel({ surveyNumber, chainLength }: ParcelPanelProps) {
+  const i18n = useI18n()
+  const { t, formatDate } = i18n
+  const [parcel, setParcel] = useState<Parcel | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    setError(null)
+    getParcels({ survey_number: surveyNumber }, { signal: controller.signal })
+      .then((parcels) => setParcel(parcels[0] ?? null))
+      .catch((err) => {
+        if (err instanceof ApiError && err.kind === "aborted") return
+        setError(t("parcel.loadFailed"))
+      })
+    return () => controller.abort()
+  }, [surveyNumber, chainLength, t])
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg mb-8">
+      <div className="px-8 py-8">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">{t("parcel.title")}</h3>
+            <p className="text-sm text-gray-600 mt-1">
+              {parcel
+                ? t("parcel.recorded", {
+                    survey: surveyNumber,
+                    boundary: describeBoundary(parcel.boundary, i18n),
+                    date: formatDate(parcel.recorded_at),
+                  })
+                : t("parcel.none", { survey: surveyNumber })}
+            </p>
+          </div>
+          <Link
+            href={`/map?survey_number=${encodeURIComponent(surveyNumber)}`}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
+          >
+            {t("parcel.openMap")}
+          </Link>
+        </div>
+        {error && <p className="text-sm text-red-700">{error}</p>}
+        {parcel && (
+          <>
+            <ParcelMap parcels={[parcel]} selected={parcel.survey_number} heightClass="h-72" />
+            {parcel.overlaps.length > 0 && (
+              <p className="mt-2 text-sm text-red-700">
+                {t("parcel.overlaps", { surveys: parcel.overlaps.join(", ") })}
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useSearchParams } from "next/navigation"
+import TransferSummary from "@/components/TransferSummary"
+import { ApiError, approveTransfer, cancelTransfer, getTransfer } from "@/lib/api"
+import { useI18n } from "@/lib/i18n-context"
+import type { Transfer } from "@/lib/types"
+
+// The status each party acts on; partyTransfer.<party>.* says what acting
+// means for them.
+const PARTY_STATUS = {
+  seller: "draft",
+  buyer: "seller_approved",
+} as const
+
+// The seller's or buyer's view of a transfer, opened from the link a registrar
+// shared with them. The token in that link is their only credential.
+export default function PartyTransfer({ party }: { party: "seller" | "buyer" }) {
+  const { t } = useI18n()
+  const searchParams = useSearchParams()
+  const id = searchParams.get("id") ?? ""
+  const token = searchParams.get("token") ?? ""
+
+  const [transfer, setTransfer] = useState<Transfer | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [reason, setReason] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const load = useCallback(
+    async (signal?: AbortSignal) => {
+      setError(null)
+      try {
+        const view = await getTransfer(id, token, { signal })
+        if (view.party !== party) {
+          setError(t(`partyTransfer.${party}.wrongLink`))
+          return
+        }
+        setTransfer(view.transfer)
+      } catch (err) {
+        if (err instanceof ApiError && err.kind === "aborted") return
+        setError(err instanceof ApiError ? err.message : t("partyTransfer.loadFailed"))
+      }
+    },
+    [id, token, party, t],
+  )
+
+  useEffect(() => {
+    if (!id || !token) {
+      setError(t("partyTransfer.incomplete"))
+      return
+    }
+    const controller = new AbortController()
+    load(controller.signal)
+    return () => controller.abort()
+  }, [id, token, load, t])
+
+  const act = async (decline: boolean) => {
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const view = decline ? await cancelTransfer(id, { token, reason }) : await approveTransfer(id, token)
+      setTransfer(view.transfer)
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : t("partyTransfer.saveFailed"))
+      if (err instanceof ApiError && err.status === 409) load()
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const canAct = transfer?.status === PARTY_STATUS[party]
+  const canDecline =
+    transfer?.status === "draft" || transfer?.status === "seller_approved" || transfer?.status === "buyer_accepted"
+
+  return (
+    <>
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
+          <div className="flex">
+            <div className="text-red-400 mr-3">⚠️</div>
+            <div className="text-red-700 font-medium">{error}</div>
+          </div>
+        </div>
+      )}
+
+      {transfer && (
+        <>
+          <TransferSummary transfer={transfer} />
+
+          {canDecline && (
+            <div className="bg-white border border-gray-200 rounded-lg">
+              <div className="px-8 py-8">
+                <p className="text-gray-700 mb-6">
+                  {canAct
+                    ? t(`partyTransfer.${party}.prompt`, {
+                        property: transfer.property_number,
+                        seller: transfer.seller,
+                        buyer: transfer.buyer,
+                      })
+                    : t("partyTransfer.waiting")}
+                </p>
+                <label className="block text-sm font-medium text-gray-700 mb-2">{t("partyTransfer.reason")}</label>
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500 mb-6"
+                  placeholder={t("partyTransfer.reasonPlaceholder")}
+                />
+                <div className="flex justify-end gap-4">
+                  <button
+                    type="button"
+                    onClick={() => act(true)}
+                    disabled={isSubmitting}
+                    className="px-6 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {t("partyTransfer.decline")}
+                  </button>
+                  {canAct && (
+                    <button
+                      type="button"
+                      onClick={() => act(false)}
+                      disabled={isSubmitting}
+                      className="px-6 py-2 bg-gray-900 text-white font-medium rounded-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+                    >
+                      {isSubmitting ? t("partyTransfer.saving") : t(`partyTransfer.${party}.action`)}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,173 @@
+"use client"
+
+import { useState } from "react"
+import { useI18n } from "@/lib/i18n-context"
+import {
+  compareStates,
+  describeState,
+  effectiveTime,
+  parseDateTimeInput,
+  stateAsOf,
+  toDateTimeInput,
+} from "@/lib/state"
+import type { LedgerEntry } from "@/lib/types"
+
+const selectClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
+
+// Reconstructs a property's record at a chosen date and compares it between
+// two points of its timeline. entries must be in chain order.
+export default function PointInTime({ entries }: { entries: LedgerEntry[] }) {
+  const i18n = useI18n()
+  const { t, plural, actionLabel, formatTimestamp } = i18n
+  const [asOfInput, setAsOfInput] = useState("")
+  // Points count the entries recorded by then; null follows the latest entry.
+  const [fromPoint, setFromPoint] = useState(0)
+  const [toPoint, setToPoint] = useState<number | null>(null)
+
+  const latest = entries[entries.length - 1]
+  const asOf = parseDateTimeInput(asOfInput) ?? latest.timestamp
+  const state = stateAsOf(entries, asOf)
+  const comparison = compareStates(entries, Math.min(fromPoint, entries.length), toPoint ?? entries.length, i18n)
+
+  const pointLabel = (point: number) =>
+    point === 0
+      ? t("pointInTime.beforeFirst")
+      : t("pointInTime.after", {
+          position: point,
+          action: actionLabel(entries[point - 1].action),
+          date: formatTimestamp(entries[point - 1].timestamp),
+        })
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg mb-8">
+      <div className="px-8 py-8">
+        {/* As Of */}
+        <div className="flex items-end justify-between gap-4 mb-6">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900">{t("pointInTime.title")}</h3>
+            <p className="text-sm text-gray-600 mt-1">
+              {state.lastEntry
+                ? t("pointInTime.replays", {
+                    count: state.entryCount,
+                    total: entries.length,
+                    date: formatTimestamp(effectiveTime(state.lastEntry)),
+                  })
+                : t("pointInTime.nothingYet")}
+            </p>
+          </div>
+          <div className="flex items-end gap-2">
+            <input
+              type="datetime-local"
+              value={asOfInput || toDateTimeInput(latest.timestamp)}
+              onChange={(e) => setAsOfInput(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 focus:border-gray-500"
+            />
+            <button
+              type="button"
+              onClick={() => setAsOfInput("")}
+              disabled={!asOfInput}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t("pointInTime.latest")}
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-10">
+          {describeState(state, i18n).map((row) => (
+            <div key={row.key} className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+              <div className="text-sm font-medium text-gray-500">{row.label}</div>
+              <div className="text-gray-900 font-semibold mt-1">{row.value}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Compare */}
+        <h3 className="text-xl font-semibold text-gray-900 mb-4">{t("pointInTime.compare")}</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t("pointInTime.from")}</label>
+            <select
+              value={Math.min(fromPoint, entries.length)}
+              onChange={(e) => setFromPoint(Number(e.target.value))}
+              className={selectClass}
+            >
+              {Array.from({ length: entries.length + 1 }, (_, point) => (
+                <option key={point} value={point}>
+                  {pointLabel(point)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t("pointInTime.to")}</label>
+            <select
+              value={toPoint ?? entries.length}
+              onChange={(e) => {
+                const point = Number(e.target.value)
+                setToPoint(point === entries.length ? null : point)
+              }}
+              className={selectClass}
+            >
+              {Array.from({ length: entries.length + 1 }, (_, point) => (
+                <option key={point} value={point}>
+                  {point === entries.length
+                    ? t("pointInTime.latestPoint", { point: pointLabel(point) })
+                    : pointLabel(point)}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {comparison.changes.length === 0 ? (
+          <p className="text-gray-600">{t("pointInTime.same")}</p>
+        ) : (
+          <div className="overflow-x-auto mb-4">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t("pointInTime.field")}
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t("pointInTime.before")}
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t("pointInTime.afterColumn")}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {comparison.changes.map((change) => (
+                  <tr key={change.key}>
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{change.label}</td>
+                    <td className="px-4 py-3 text-sm text-red-700 line-through">{change.before}</td>
+                    <td className="px-4 py-3 text-sm text-green-700 font-medium">{change.after}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {comparison.entries.length > 0 && (
+          <div className="text-sm text-gray-600 mt-4">
+            <span className="font-medium text-gray-700">
+              {plural("pointInTime.between", comparison.entries.length)}
+            </span>{" "}
+            {comparison.entries.map((entry, index) => (
+              <span key={entry.id}>
+                {index > 0 && ", "}
+                <a href={`#entry-${entry.id}`} className="underline hover:text-gray-900">
+                  {actionLabel(entry.action)} ({formatTimestamp(entry.timestamp)})
+                </a>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
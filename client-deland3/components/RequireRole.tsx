@@ -0,0 +1,50 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect } from "react"
+import LoginForm from "@/components/LoginForm"
+import { getCurrentOfficer } from "@/lib/api"
+import { useI18n } from "@/lib/i18n-context"
+import { clearSession, useSession } from "@/lib/session"
+import type { Role } from "@/lib/types"
+
+// Renders children only for a signed-in officer holding one of `roles`;
+// otherwise shows the sign-in form or an access-denied notice.
+export default function RequireRole({ roles, children }: { roles: Role[]; children: React.ReactNode }) {
+  const { t } = useI18n()
+  const session = useSession()
+  const token = session?.token
+
+  // Confirm the stored token with the server; a 401 clears it via the API client.
+  useEffect(() => {
+    if (!token) return
+    const controller = new AbortController()
+    getCurrentOfficer({ signal: controller.signal }).catch(() => {})
+    return () => controller.abort()
+  }, [token])
+
+  if (!session) {
+    return <LoginForm />
+  }
+
+  if (!roles.includes(session.officer.role)) {
+    return (
+      <div className="max-w-md mx-auto bg-red-50 border border-red-200 rounded-lg p-6 text-center">
+        <h2 className="text-lg font-semibold text-red-900 mb-2">{t("access.denied")}</h2>
+        <p className="text-sm text-red-700 mb-4">
+          {t("access.requires", {
+            name: session.officer.name,
+            role: t(`role.${session.officer.role}`),
+            roles: roles.map((role) => t(`role.${role}`)).join(t("access.or")),
+          })}
+        </p>
+        <button onClick={clearSession} className="text-sm font-medium text-red-800 underline hover:text-red-900">
+          {t("access.switch")}
+        </button>
+      </div>
+    )
+  }
+
+  return <>{children}</>
+}
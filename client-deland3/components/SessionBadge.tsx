@@ -0,0 +1,21 @@
+"use client"
+
+import { useI18n } from "@/lib/i18n-context"
+import { clearSession, useSession } from "@/lib/session"
+
+export default function SessionBadge() {
+  const { t } = useI18n()
+  const session = useSession()
+  if (!session) return null
+
+  return (
+    <div className="flex items-center gap-3 text-sm text-gray-600">
+      <span>
+        {session.officer.name} <span className="text-gray-400">({t(`role.${session.officer.role}`)})</span>
+      </span>
+      <button onClick={clearSession} className="font-medium text-gray-700 underline hover:text-gray-900">
+        {t("session.signOut")}
+      </button>
+    </div>
+  )
+}
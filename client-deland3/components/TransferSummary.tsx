@@ -0,0 +1,115 @@
+import Link from "next/link"
+import { useI18n, useRichText } from "@/lib/i18n-context"
+import { TRANSFER_STATUS_STYLES, TRANSFER_STEPS } from "@/lib/transfers"
+import type { Transfer } from "@/lib/types"
+
+// What a transfer will record and which approvals it has collected so far.
+export default function TransferSummary({ transfer }: { transfer: Transfer }) {
+  const { t, landTypeLabel, formatDate, formatTimestamp } = useI18n()
+  const richText = useRichText()
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg mb-8">
+      <div className="px-8 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {t("transferSummary.title", { property: transfer.property_number })}
+          </h2>
+          <span
+            className={`inline-flex px-3 py-1 text-sm font-semibold rounded-full ${TRANSFER_STATUS_STYLES[transfer.status]}`}
+          >
+            {t(`transferStatus.${transfer.status}`)}
+          </span>
+        </div>
+
+        <div className="grid md:grid-cols-3 gap-6 mb-8">
+          <div>
+            <label className="block text-sm font-medium text-gray-500 mb-1">{t("transferSummary.seller")}</label>
+            <p className="text-lg font-semibold text-gray-900">{transfer.seller}</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-500 mb-1">{t("transferSummary.buyer")}</label>
+            <p className="text-lg font-semibold text-gray-900">{transfer.buyer}</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-500 mb-1">{t("transferSummary.deedReference")}</label>
+            <p className="text-lg font-semibold text-gray-900">{transfer.deed_reference}</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-500 mb-1">{t("transferSummary.surveyNumber")}</label>
+            <p className="text-gray-900">{transfer.survey_number}</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-500 mb-1">{t("transferSummary.landType")}</label>
+            <p className="text-gray-900">{landTypeLabel(transfer.land_type)}</p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-500 mb-1">
+              {transfer.status === "expired" ? t("transferSummary.expired") : t("transferSummary.expires")}
+            </label>
+            <p className="text-gray-900">{formatDate(transfer.expires_at)}</p>
+          </div>
+        </div>
+
+        {transfer.details && (
+          <div className="mb-8">
+            <label className="block text-sm font-medium text-gray-500 mb-1">{t("transferSummary.remarks")}</label>
+            <p className="text-gray-900">{transfer.details}</p>
+          </div>
+        )}
+
+        {/* Approval Trail */}
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">{t("transferSummary.approvals")}</h3>
+        <ol className="space-y-3">
+          {TRANSFER_STEPS.map((party) => {
+            const approval = transfer.approvals.find((item) => item.party === party)
+            return (
+              <li key={party} className="flex items-start gap-3">
+                <span
+                  className={`mt-1 w-3 h-3 rounded-full flex-shrink-0 ${approval ? "bg-green-500" : "bg-gray-300"}`}
+                />
+                <div className="text-sm">
+                  <div className={approval ? "font-medium text-gray-900" : "text-gray-500"}>
+                    {t(`transferStep.${party}`)}
+                  </div>
+                  {approval && (
+                    <div className="text-xs text-gray-500">
+                      {approval.by} · {formatTimestamp(approval.at)}
+                    </div>
+                  )}
+                </div>
+              </li>
+            )
+          })}
+        </ol>
+
+        {transfer.cancelled_by && (
+          <div className="mt-6 bg-red-50 border border-red-200 rounded-md p-4 text-sm text-red-800">
+            {t(transfer.cancel_reason ? "transferSummary.cancelledBecause" : "transferSummary.cancelled", {
+              party: t(`party.${transfer.cancelled_by.party}`).toLowerCase(),
+              officer: transfer.cancelled_by.by,
+              date: formatTimestamp(transfer.cancelled_by.at),
+              reason: transfer.cancel_reason ?? "",
+            })}
+          </div>
+        )}
+
+        {transfer.entry_id && (
+          <div className="mt-6 bg-green-50 border border-green-200 rounded-md p-4 text-sm text-green-800">
+            {richText("transferSummary.recorded", {
+              entry: <span className="font-mono">{transfer.entry_id}</span>,
+              link: (
+                <Link
+                  href={`/property?property_number=${encodeURIComponent(transfer.property_number)}`}
+                  className="underline hover:text-green-900"
+                >
+                  {t("transferSummary.viewHistory")}
+                </Link>
+              ),
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
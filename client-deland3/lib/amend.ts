@@ -0,0 +1,97 @@
+// Corrections and reversals, mirroring server/amend.go. Both are appended like
+// any other entry and name the entry they amend in payload.amends; the
+// original stays on the chain, and only derived views read the amended history.
+
+import { canonicalJSON } from "./canonical"
+import { buildPayload, CORRECTED_ENTRY_FIELDS, isKnownAction, PAYLOAD_FIELDS, type PayloadFieldName } from "./payloads"
+import type { ActionPayload, CorrectedFields, LedgerEntry } from "./types"
+
+export const isAmendment = (action: string) => action === "Correction" || action === "Reversal"
+
+// Decoded payloads carry every field, unset ones as undefined; only set
+// fields replace recorded ones.
+const setFields = (payload: ActionPayload): ActionPayload =>
+  Object.fromEntries(Object.entries(payload).filter(([, value]) => value !== undefined))
+
+// The entry with the corrected fields in place of the recorded ones.
+export const applyCorrection = (entry: LedgerEntry, corrected: CorrectedFields): LedgerEntry => ({
+  ...entry,
+  survey_number: corrected.survey_number || entry.survey_number,
+  owner_id: corrected.owner_id || entry.owner_id,
+  land_type: corrected.land_type || entry.land_type,
+  details: corrected.details || entry.details,
+  payload: corrected.payload ? { ...entry.payload, ...setFields(corrected.payload) } : entry.payload,
+})
+
+export interface Amendments {
+  // In chain order; later corrections win field by field.
+  corrections: LedgerEntry[]
+  reversal: LedgerEntry | null
+}
+
+// Groups the amendments in a chain by the ID of the entry they amend.
+export const amendmentsByEntry = (entries: LedgerEntry[]) => {
+  const byEntry = new Map<string, Amendments>()
+  for (const entry of entries) {
+    const target = entry.payload?.amends
+    if (!isAmendment(entry.action) || !target) continue
+    const amendments = byEntry.get(target) ?? { corrections: [], reversal: null }
+    if (entry.action === "Reversal") amendments.reversal = entry
+    else amendments.corrections.push(entry)
+    byEntry.set(target, amendments)
+  }
+  return byEntry
+}
+
+// The history as it should have been recorded: corrections applied to the
+// entries they name, reversed entries dropped and the amendments left out.
+export const amendedHistory = (entries: LedgerEntry[]): LedgerEntry[] => {
+  const byEntry = amendmentsByEntry(entries)
+  return entries
+    .filter((entry) => !isAmendment(entry.action) && !byEntry.get(entry.id)?.reversal)
+    .map((entry) =>
+      (byEntry.get(entry.id)?.corrections ?? []).reduce(
+        (amended, correction) =>
+          correction.payload?.corrected ? applyCorrection(amended, correction.payload.corrected) : amended,
+        entry,
+      ),
+    )
+}
+
+// Form values for correcting an entry, keyed by the corrected field names
+// ("owner_id", "payload.amount", ...), prefilled with the entry's values.
+// Boundaries are prefilled as GeoJSON text.
+export const correctionValues = (entry: LedgerEntry): Record<string, string> => {
+  const values: Record<string, string> = {}
+  for (const field of CORRECTED_ENTRY_FIELDS) values[field.name] = entry[field.name]
+  if (isKnownAction(entry.action)) {
+    for (const spec of PAYLOAD_FIELDS[entry.action]) {
+      const value = entry.payload?.[spec.name]
+      values[`payload.${spec.name}`] =
+        value === undefined ? "" : typeof value === "object" ? JSON.stringify(value) : String(value)
+    }
+  }
+  return values
+}
+
+// The fields of the form values that differ from the entry, or undefined when
+// nothing was changed.
+export const buildCorrection = (entry: LedgerEntry, values: Record<string, string>): CorrectedFields | undefined => {
+  const corrected: CorrectedFields = {}
+  for (const field of CORRECTED_ENTRY_FIELDS) {
+    const value = values[field.name]?.trim()
+    if (value && value !== entry[field.name]) corrected[field.name] = value
+  }
+  if (isKnownAction(entry.action)) {
+    const payloadValues: Partial<Record<PayloadFieldName, string>> = {}
+    for (const spec of PAYLOAD_FIELDS[entry.action]) payloadValues[spec.name] = values[`payload.${spec.name}`]
+    const payload = buildPayload(entry.action, payloadValues) ?? {}
+    const changed = Object.fromEntries(
+      Object.entries(payload).filter(
+        ([name, value]) => canonicalJSON(value) !== canonicalJSON(entry.payload?.[name as PayloadFieldName]),
+      ),
+    )
+    if (Object.keys(changed).length > 0) corrected.payload = changed
+  }
+  return Object.keys(corrected).length > 0 ? corrected : undefined
+}
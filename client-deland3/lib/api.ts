@@ -0,0 +1,778 @@
+// Typed client for the DeLand Go server. Every route goes through `request`,
+// which applies a timeout, honours caller abort signals, retries idempotent
+// GETs on transient failures and validates the response body at runtime.
+
+import { array, boolean, number, object, optional, record, string, DecodeError, type Decoder } from "./decode"
+import { clearSession, getSession } from "./session"
+import type {
+  ActionPayload,
+  Attachment,
+  AuditFinding,
+  AuditFindingKind,
+  AuditScanResponse,
+  Award,
+  AwardPayment,
+  AwardStatus,
+  BatchResponse,
+  BatchRowResult,
+  BatchRowStatus,
+  Checkpoint,
+  CompensationFilter,
+  CompensationReport,
+  CorrectedFields,
+  InclusionProof,
+  LedgerEntry,
+  Lineage,
+  LineageEdge,
+  LineageLink,
+  LineageNode,
+  NewEntryPayload,
+  NewOwnerPayload,
+  NewTransferPayload,
+  Officer,
+  Owner,
+  OwnerPortfolio,
+  OwnerShare,
+  Parcel,
+  ParcelBoundary,
+  PropertyHolding,
+  ProofStep,
+  Role,
+  SearchFilters,
+  SearchResponse,
+  Session,
+  Transfer,
+  TransferApproval,
+  TransferParty,
+  TransferStatus,
+  TransferView,
+  VerificationResult,
+} from "./types"
+
+export const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8080"
+
+const DEFAULT_TIMEOUT_MS = 10_000
+const DEFAULT_GET_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 300
+
+export type ApiErrorKind = "http" | "network" | "timeout" | "aborted" | "invalid_response"
+
+// ApiError carries the server's `{"error": ...}` message when there is one,
+// plus any per-field rule violations keyed by payload field name.
+// `status` is 0 for failures that never produced an HTTP response.
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly kind: ApiErrorKind,
+    readonly status = 0,
+    readonly fields: Record<string, string> = {},
+  ) {
+    super(message)
+    this.name = "ApiError"
+  }
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal
+  timeoutMs?: number
+  // Only honoured for GET requests; writes are never retried.
+  retries?: number
+}
+
+const transferParty: Decoder<TransferParty> = (value, path) => {
+  const decoded = string(value, path)
+  if (decoded !== "seller" && decoded !== "buyer" && decoded !== "registrar") {
+    throw new DecodeError(path ?? "$", "transfer party")
+  }
+  return decoded
+}
+
+const transferApproval = object<TransferApproval>({
+  party: transferParty,
+  by: string,
+  at: number,
+})
+
+const parcelBoundary = object<ParcelBoundary>({
+  type: (value, path) => {
+    if (value !== "Polygon") throw new DecodeError(path ?? "$", "Polygon")
+    return value
+  },
+  coordinates: array(array(array(number))),
+})
+
+const lineageLink = object<LineageLink>({
+  property_number: string,
+  head: optional(string),
+})
+
+const actionPayload: Decoder<ActionPayload> = object<ActionPayload>({
+  award_number: optional(string),
+  award_date: optional(string),
+  amount: optional(number),
+  currency: optional(string),
+  payment_reference: optional(string),
+  previous_owner: optional(string),
+  new_owner: optional(string),
+  deed_reference: optional(string),
+  transfer_id: optional(string),
+  approvals: optional(array(transferApproval)),
+  override_reason: optional(string),
+  conversion_order: optional(string),
+  boundary: optional(parcelBoundary),
+  holder: optional(string),
+  charge_reference: optional(string),
+  court: optional(string),
+  case_number: optional(string),
+  order_date: optional(string),
+  children: optional(array(string)),
+  parents: optional(array(lineageLink)),
+  amends: optional(string),
+  // Corrections nest the payload fields they correct.
+  corrected: optional((value, path) => correctedFields(value, path)),
+  effective_date: optional(string),
+})
+
+const correctedFields: Decoder<CorrectedFields> = object<CorrectedFields>({
+  survey_number: optional(string),
+  owner_id: optional(string),
+  land_type: optional(string),
+  details: optional(string),
+  payload: optional(actionPayload),
+})
+
+const attachment = object<Attachment>({
+  sha256: string,
+  name: string,
+  content_type: string,
+  size: number,
+})
+
+// Also used to read entries back out of exported proof bundles.
+export const ledgerEntry: Decoder<LedgerEntry> = object<LedgerEntry>({
+  id: string,
+  survey_number: string,
+  property_number: string,
+  sequence: optional(number),
+  owner_id: string,
+  land_type: string,
+  action: string,
+  details: string,
+  payload: optional(actionPayload),
+  attachments: optional(array(attachment)),
+  timestamp: number,
+  prev_hash: string,
+  hash: string,
+  hash_version: optional(number),
+  recorded_by: optional(string),
+  key_id: optional(string),
+  signature: optional(string),
+})
+
+const fileContents: Decoder<ArrayBuffer> = (value, path = "$") => {
+  if (!(value instanceof ArrayBuffer)) throw new DecodeError(path, "file contents")
+  return value
+}
+
+const addEntryResponse = object<{ status: string; entry: LedgerEntry }>({
+  status: string,
+  entry: ledgerEntry,
+})
+
+const batchRowStatus: Decoder<BatchRowStatus> = (value, path) => {
+  const decoded = string(value, path)
+  if (decoded !== "created" && decoded !== "failed" && decoded !== "skipped") {
+    throw new DecodeError(path ?? "$", "batch row status")
+  }
+  return decoded
+}
+
+const stringRecord: Decoder<Record<string, string>> = (value, path = "$") => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) throw new DecodeError(path, "object")
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, string(item, `${path}.${key}`)]))
+}
+
+const batchRowResult = object<BatchRowResult>({
+  index: number,
+  status: batchRowStatus,
+  entry: optional(ledgerEntry),
+  error: optional(string),
+  fields: optional(stringRecord),
+})
+
+const batchResponse = object<BatchResponse>({
+  created: number,
+  failed: number,
+  skipped: number,
+  results: array(batchRowResult),
+})
+
+const verificationResult = object<VerificationResult>({
+  land_id: string,
+  valid: boolean,
+})
+
+const propertyHolding = object<PropertyHolding>({
+  property_number: string,
+  survey_number: string,
+  land_type: string,
+  current_owner_id: string,
+  last_action: string,
+  acquired_at: number,
+  released_at: optional(number),
+  last_updated: number,
+})
+
+const ownerPortfolio = object<OwnerPortfolio>({
+  owner_id: string,
+  current: array(propertyHolding),
+  former: array(propertyHolding),
+})
+
+const searchResponse = object<SearchResponse>({
+  results: array(ledgerEntry),
+  total: number,
+  page: number,
+  page_size: number,
+})
+
+const checkpoint = object<Checkpoint>({
+  sequence: number,
+  root: string,
+  tree_size: number,
+  timestamp: number,
+  prev_hash: string,
+  hash: string,
+  key_id: string,
+  signature: string,
+})
+
+const proofPosition: Decoder<ProofStep["position"]> = (value, path) => {
+  const decoded = string(value, path)
+  if (decoded !== "left" && decoded !== "right") throw new DecodeError(path ?? "$", "left or right")
+  return decoded
+}
+
+const inclusionProof = object<InclusionProof>({
+  entry_id: string,
+  property_number: string,
+  head_hash: string,
+  leaf_index: number,
+  siblings: array(object<ProofStep>({ hash: string, position: proofPosition })),
+  checkpoint,
+})
+
+const auditFindingKind: Decoder<AuditFindingKind> = (value, path) => {
+  const decoded = string(value, path)
+  switch (decoded) {
+    case "broken_link":
+    case "hash_mismatch":
+    case "orphan":
+    case "duplicate_id":
+    case "survey_mismatch":
+      return decoded
+  }
+  throw new DecodeError(path ?? "$", "audit finding kind")
+}
+
+const auditScanResponse = object<AuditScanResponse>({
+  total_properties: number,
+  properties: number,
+  entries: number,
+  findings: array(
+    object<AuditFinding>({
+      kind: auditFindingKind,
+      property_number: string,
+      entry_id: optional(string),
+      position: optional(number),
+      detail: string,
+    }),
+  ),
+  next_cursor: string,
+})
+
+const transferStatus: Decoder<TransferStatus> = (value, path) => {
+  const decoded = string(value, path)
+  switch (decoded) {
+    case "draft":
+    case "seller_approved":
+    case "buyer_accepted":
+    case "finalizing":
+    case "finalized":
+    case "cancelled":
+    case "expired":
+      return decoded
+  }
+  throw new DecodeError(path ?? "$", "transfer status")
+}
+
+const transfer = object<Transfer>({
+  id: string,
+  property_number: string,
+  survey_number: string,
+  land_type: string,
+  seller: string,
+  buyer: string,
+  deed_reference: string,
+  details: string,
+  status: transferStatus,
+  approvals: array(transferApproval),
+  created_by: string,
+  created_at: number,
+  expires_at: number,
+  cancelled_by: optional(transferApproval),
+  cancel_reason: optional(string),
+  entry_id: optional(string),
+})
+
+const transferViewer: Decoder<TransferView["party"]> = (value, path) => {
+  const decoded = string(value, path)
+  return decoded === "auditor" ? decoded : transferParty(decoded, path)
+}
+
+const transferView = object<TransferView>({
+  transfer,
+  party: transferViewer,
+  seller_token: optional(string),
+  buyer_token: optional(string),
+})
+
+const transferResponse = object<{ status: string; transfer: TransferView }>({
+  status: string,
+  transfer: transferView,
+})
+
+const awardStatus: Decoder<AwardStatus> = (value, path) => {
+  const decoded = string(value, path)
+  if (decoded !== "pending" && decoded !== "partial" && decoded !== "paid") {
+    throw new DecodeError(path ?? "$", "award status")
+  }
+  return decoded
+}
+
+const award = object<Award>({
+  property_number: string,
+  survey_number: string,
+  owner_id: string,
+  entry_id: string,
+  award_number: optional(string),
+  award_date: optional(string),
+  declared_at: number,
+  amount: optional(number),
+  currency: optional(string),
+  paid: number,
+  outstanding: number,
+  status: awardStatus,
+  payments: array(
+    object<AwardPayment>({
+      entry_id: string,
+      amount: optional(number),
+      currency: optional(string),
+      payment_reference: optional(string),
+      timestamp: number,
+    }),
+  ),
+  age_days: number,
+})
+
+const compensationReport = object<CompensationReport>({
+  awards: array(award),
+  outstanding: record(number),
+  generated_at: number,
+})
+
+const parcel = object<Parcel>({
+  survey_number: string,
+  property_numbers: array(string),
+  property_number: string,
+  entry_id: string,
+  recorded_at: number,
+  boundary: parcelBoundary,
+  overlaps: array(string),
+})
+
+const lineageAction: Decoder<LineageEdge["action"]> = (value, path) => {
+  const decoded = string(value, path)
+  if (decoded !== "Subdivided" && decoded !== "Merged") {
+    throw new DecodeError(path ?? "$", "lineage action")
+  }
+  return decoded
+}
+
+const lineageNode = object<LineageNode>({
+  property_number: string,
+  survey_number: optional(string),
+  generation: number,
+  closed_by: optional(lineageAction),
+})
+
+const lineageEdge = object<LineageEdge>({
+  parent: string,
+  child: string,
+  action: lineageAction,
+  verified: boolean,
+})
+
+const lineage = object<Lineage>({
+  property_number: string,
+  nodes: array(lineageNode),
+  edges: array(lineageEdge),
+  truncated: optional(boolean),
+})
+
+const owner = object<Owner>({
+  id: string,
+  name: string,
+  contact: optional(string),
+  id_document_type: optional(string),
+  id_document_ref: optional(string),
+  members: optional(
+    array(
+      object<OwnerShare>({
+        owner_id: string,
+        share: number,
+        name: optional(string),
+      }),
+    ),
+  ),
+  created_at: number,
+  updated_at: number,
+  recorded_by: string,
+  masked: optional(boolean),
+})
+
+const ownerResponse = object<{ status: string; owner: Owner }>({
+  status: string,
+  owner,
+})
+
+const role: Decoder<Role> = (value, path) => {
+  const decoded = string(value, path)
+  if (decoded !== "registrar" && decoded !== "auditor" && decoded !== "viewer") throw new DecodeError(path ?? "$", "role")
+  return decoded
+}
+
+const officer = object<Officer>({
+  username: string,
+  name: string,
+  role,
+})
+
+const session = object<Session>({
+  token: string,
+  officer,
+  expires_at: number,
+})
+
+// GET /auth/me echoes the signed session claims rather than the officer record.
+const sessionClaims = object<{ sub: string; name: string; role: Role }>({
+  sub: string,
+  name: string,
+  role,
+})
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer)
+        reject(new ApiError("Request was cancelled", "aborted"))
+      },
+      { once: true },
+    )
+  })
+
+const readError = async (response: Response): Promise<ApiError> => {
+  let message = response.statusText || `Request failed with status ${response.status}`
+  const fields: Record<string, string> = {}
+  try {
+    const body: unknown = await response.json()
+    if (body && typeof body === "object") {
+      if ("error" in body && typeof body.error === "string") message = body.error
+      if ("fields" in body && body.fields && typeof body.fields === "object") {
+        for (const [name, value] of Object.entries(body.fields)) {
+          if (typeof value === "string") fields[name] = value
+        }
+      }
+    }
+  } catch {
+    // Non-JSON error bodies fall back to the status text.
+  }
+  return new ApiError(message, "http", response.status, fields)
+}
+
+// Reads a successful response's body for its decoder; JSON unless the route
+// serves files.
+type BodyReader = (response: Response) => Promise<unknown>
+
+const readJSON: BodyReader = (response) => response.json()
+
+const isRetryable = (error: ApiError) =>
+  error.kind === "network" || error.kind === "timeout" || error.status === 429 || error.status >= 500
+
+const attempt = async <T>(
+  path: string,
+  init: RequestInit,
+  decode: Decoder<T>,
+  { signal, timeoutMs = DEFAULT_TIMEOUT_MS }: RequestOptions,
+  read: BodyReader,
+): Promise<T> => {
+  const controller = new AbortController()
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeoutMs)
+  const onAbort = () => controller.abort()
+  signal?.addEventListener("abort", onAbort, { once: true })
+
+  const token = getSession()?.token
+  const headers = new Headers(init.headers)
+  if (token) headers.set("Authorization", `Bearer ${token}`)
+
+  try {
+    let response: Response
+    try {
+      response = await fetch(`${API_URL}${path}`, { ...init, headers, signal: controller.signal })
+    } catch {
+      if (timedOut) throw new ApiError("The server took too long to respond", "timeout")
+      if (signal?.aborted) throw new ApiError("Request was cancelled", "aborted")
+      throw new ApiError("Network error: Unable to connect to server", "network")
+    }
+
+    if (!response.ok) {
+      // A rejected token means the session expired or the secret rotated.
+      if (response.status === 401 && token) clearSession()
+      throw await readError(response)
+    }
+
+    try {
+      return decode(await read(response))
+    } catch (error) {
+      const detail = error instanceof DecodeError ? ` (${error.message})` : ""
+      throw new ApiError(`Unexpected response from server${detail}`, "invalid_response", response.status)
+    }
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener("abort", onAbort)
+  }
+}
+
+const request = async <T>(
+  path: string,
+  init: RequestInit,
+  decode: Decoder<T>,
+  options: RequestOptions = {},
+  read: BodyReader = readJSON,
+): Promise<T> => {
+  const method = (init.method ?? "GET").toUpperCase()
+  const retries = method === "GET" ? (options.retries ?? DEFAULT_GET_RETRIES) : 0
+
+  for (let tryNumber = 0; ; tryNumber++) {
+    try {
+      return await attempt(path, init, decode, options, read)
+    } catch (error) {
+      if (!(error instanceof ApiError) || tryNumber >= retries || !isRetryable(error)) throw error
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** tryNumber, options.signal)
+    }
+  }
+}
+
+const queryString = (params: object) => {
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== "") search.set(key, String(value))
+  }
+  const encoded = search.toString()
+  return encoded ? `?${encoded}` : ""
+}
+
+const jsonBody = (body: unknown): RequestInit => ({
+  method: "POST",
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body),
+})
+
+export const addEntry = async (payload: NewEntryPayload, options?: RequestOptions): Promise<LedgerEntry> => {
+  const response = await request("/add_entry", jsonBody(payload), addEntryResponse, options)
+  return response.entry
+}
+
+// The server caps a batch at this many rows; bulk imports send several batches.
+export const MAX_BATCH_SIZE = 500
+
+// Appends the entries in order. Rule violations come back per row in the
+// response rather than as an ApiError.
+export const addEntries = (entries: NewEntryPayload[], options?: RequestOptions): Promise<BatchResponse> =>
+  request("/add_entries", jsonBody({ entries }), batchResponse, { timeoutMs: 120_000, ...options })
+
+// Stores a document on the server and returns the attachment to record on an
+// entry. Uploading the same file again returns the same digest.
+export const uploadAttachment = async (file: File, options?: RequestOptions): Promise<Attachment> => {
+  const body = new FormData()
+  body.append("file", file)
+  const response = await request(
+    "/attachments",
+    { method: "POST", body },
+    object({ status: string, attachment }),
+    { timeoutMs: 120_000, ...options },
+  )
+  return response.attachment
+}
+
+// A download link that saves the file under the name it was attached with.
+export const attachmentURL = (attachment: Attachment) =>
+  `${API_URL}/attachments/${attachment.sha256}${queryString({ name: attachment.name })}`
+
+export const fetchAttachment = (sha256: string, options?: RequestOptions): Promise<ArrayBuffer> =>
+  request(
+    `/attachments/${encodeURIComponent(sha256)}`,
+    {},
+    fileContents,
+    { timeoutMs: 120_000, ...options },
+    (response) => response.arrayBuffer(),
+  )
+
+export const getPropertyHistory = (propertyNumber: string, options?: RequestOptions): Promise<LedgerEntry[]> =>
+  request(`/property/${encodeURIComponent(propertyNumber)}`, {}, array(ledgerEntry), options)
+
+// The properties a property was subdivided or merged from and into, as far
+// as the links reach in both directions.
+export const getLineage = (propertyNumber: string, options?: RequestOptions): Promise<Lineage> =>
+  request(`/lineage/${encodeURIComponent(propertyNumber)}`, {}, lineage, options)
+
+export const verify = (landId: string, options?: RequestOptions): Promise<VerificationResult> =>
+  request(`/verify/${encodeURIComponent(landId)}`, {}, verificationResult, options)
+
+export const getOwnerPortfolio = (ownerId: string, options?: RequestOptions): Promise<OwnerPortfolio> =>
+  request(`/owner/${encodeURIComponent(ownerId)}`, {}, ownerPortfolio, options)
+
+// Searches the owner registry by ID or name, or looks up the given IDs.
+// Personal fields come back masked unless an officer is signed in.
+export const listOwners = (
+  filters: { q?: string; ids?: string[]; limit?: number },
+  options?: RequestOptions,
+): Promise<Owner[]> =>
+  request(`/owners${queryString({ ...filters, ids: filters.ids?.join(",") })}`, {}, array(owner), options)
+
+// Fails with a 404 ApiError when no owner with the ID is registered.
+export const getOwner = (ownerId: string, options?: RequestOptions): Promise<Owner> =>
+  request(`/owners/${encodeURIComponent(ownerId)}`, {}, owner, options)
+
+// Fails with a 409 ApiError when the owner ID is already registered.
+export const registerOwner = async (payload: NewOwnerPayload, options?: RequestOptions): Promise<Owner> => {
+  const response = await request("/owners", jsonBody(payload), ownerResponse, options)
+  return response.owner
+}
+
+export const updateOwner = async (payload: NewOwnerPayload, options?: RequestOptions): Promise<Owner> => {
+  const response = await request(
+    `/owners/${encodeURIComponent(payload.id)}`,
+    { ...jsonBody(payload), method: "PUT" },
+    ownerResponse,
+    options,
+  )
+  return response.owner
+}
+
+export const searchLedger = (filters: SearchFilters, options?: RequestOptions): Promise<SearchResponse> =>
+  request(`/search${queryString(filters)}`, {}, searchResponse, options)
+
+// Lists parcel boundaries, all of them or only the survey number's.
+export const getParcels = (filters: { survey_number?: string }, options?: RequestOptions): Promise<Parcel[]> =>
+  request(`/parcels${queryString(filters)}`, {}, array(parcel), options)
+
+export const getLatestCheckpoint = (options?: RequestOptions): Promise<Checkpoint> =>
+  request("/checkpoints/latest", {}, checkpoint, options)
+
+export const listCheckpoints = (limit?: number, options?: RequestOptions): Promise<Checkpoint[]> =>
+  request(`/checkpoints${queryString({ limit })}`, {}, array(checkpoint), options)
+
+export const createCheckpoint = (options?: RequestOptions): Promise<{ checkpoint: Checkpoint; created: boolean }> =>
+  request("/checkpoints", { method: "POST" }, object({ checkpoint, created: boolean }), options)
+
+// Fails with a 409 ApiError when the entry is newer than the latest checkpoint
+// and a 404 when no checkpoint exists yet.
+export const getInclusionProof = (entryId: string, options?: RequestOptions): Promise<InclusionProof> =>
+  request(`/proof/${encodeURIComponent(entryId)}`, {}, inclusionProof, options)
+
+// Audits the next `limit` properties after the `after` cursor; a long scan
+// can take a while on large chains, hence the longer timeout.
+export const scanLedger = (
+  after: string,
+  limit?: number,
+  options?: RequestOptions,
+): Promise<AuditScanResponse> =>
+  request(`/audit/scan${queryString({ after, limit })}`, {}, auditScanResponse, { timeoutMs: 60_000, ...options })
+
+// Lists awards oldest first; filter defaults to those still owed.
+export const getCompensationReport = (
+  filters: { status?: CompensationFilter; survey_number?: string },
+  options?: RequestOptions,
+): Promise<CompensationReport> =>
+  request(`/compensation${queryString(filters)}`, {}, compensationReport, options)
+
+export const createTransfer = async (payload: NewTransferPayload, options?: RequestOptions): Promise<TransferView> => {
+  const response = await request("/transfers", jsonBody(payload), transferResponse, options)
+  return response.transfer
+}
+
+export const listTransfers = (
+  filters: { property_number?: string; status?: TransferStatus },
+  options?: RequestOptions,
+): Promise<Transfer[]> => request(`/transfers${queryString(filters)}`, {}, array(transfer), options)
+
+// Sellers and buyers pass the token from their link; officers are recognised
+// by their session.
+export const getTransfer = (id: string, token?: string, options?: RequestOptions): Promise<TransferView> =>
+  request(`/transfers/${encodeURIComponent(id)}${queryString({ token })}`, {}, transferView, options)
+
+// Records the seller's approval or the buyer's acceptance, whichever the token
+// belongs to.
+export const approveTransfer = async (id: string, token: string, options?: RequestOptions): Promise<TransferView> => {
+  const path = `/transfers/${encodeURIComponent(id)}/approve`
+  const response = await request(path, jsonBody({ token }), transferResponse, options)
+  return response.transfer
+}
+
+export const cancelTransfer = async (
+  id: string,
+  { token, reason }: { token?: string; reason?: string },
+  options?: RequestOptions,
+): Promise<TransferView> => {
+  const response = await request(
+    `/transfers/${encodeURIComponent(id)}/cancel`,
+    jsonBody({ token, reason }),
+    transferResponse,
+    options,
+  )
+  return response.transfer
+}
+
+// Appends the OwnershipUpdated entry. Fails with a 422 ApiError carrying the
+// ledger rule violations when the seller no longer owns the property, or
+// under payload.override_reason when a stay or lien blocks the change and no
+// override reason was given.
+export const finalizeTransfer = async (
+  id: string,
+  { prevHash, overrideReason }: { prevHash?: string; overrideReason?: string } = {},
+  options?: RequestOptions,
+): Promise<{ transfer: TransferView; entry: LedgerEntry }> => {
+  const response = await request(
+    `/transfers/${encodeURIComponent(id)}/finalize`,
+    jsonBody({ prev_hash: prevHash, override_reason: overrideReason }),
+    object({ status: string, transfer: transferView, entry: ledgerEntry }),
+    options,
+  )
+  return { transfer: response.transfer, entry: response.entry }
+}
+
+export const login = (username: string, password: string, options?: RequestOptions): Promise<Session> =>
+  request("/auth/login", jsonBody({ username, password }), session, options)
+
+export const getCurrentOfficer = async (options?: RequestOptions): Promise<Officer> => {
+  const claims = await request("/auth/me", {}, sessionClaims, options)
+  return { username: claims.sub, name: claims.name, role: claims.role }
+}
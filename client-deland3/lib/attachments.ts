@@ -0,0 +1,21 @@
+// Documents attached to entries. The entry hash covers each attachment's
+// SHA-256, so re-hashing the downloaded bytes in the browser shows whether the
+// file the server hands out is the one that was recorded.
+
+import { fetchAttachment, type RequestOptions } from "./api"
+import { sha256Hex } from "./chain"
+import type { Attachment } from "./types"
+
+// Limits enforced by server/attachments.go.
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024
+export const MAX_ENTRY_ATTACHMENTS = 10
+
+export type AttachmentCheck = "checking" | "match" | "mismatch" | "error"
+
+export const hashFile = async (file: Blob): Promise<string> => sha256Hex(await file.arrayBuffer())
+
+// Downloads the attachment and compares its digest with the recorded one.
+export const checkAttachment = async (attachment: Attachment, options?: RequestOptions): Promise<boolean> =>
+  (await sha256Hex(await fetchAttachment(attachment.sha256, options))) === attachment.sha256
+
+export const shortDigest = (sha256: string) => `${sha256.slice(0, 12)}…`
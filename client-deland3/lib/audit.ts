@@ -0,0 +1,88 @@
+// Client side of the full-ledger audit on /audit. The scan runs in batches of
+// properties; progress is kept in localStorage after every batch so a scan
+// interrupted by a reload or a network failure resumes where it stopped.
+
+import { toCSV } from "./import"
+import { AUDIT_FINDING_KINDS, type AuditFinding, type AuditFindingKind, type AuditScanResponse } from "./types"
+
+const STORAGE_KEY = "deland.audit-scan"
+
+export const AUDIT_BATCH_SIZE = 100
+
+export interface AuditScan {
+  // Unix seconds.
+  started_at: number
+  finished_at?: number
+  // Last property number scanned; "" before the first batch.
+  cursor: string
+  total_properties: number
+  properties: number
+  entries: number
+  findings: AuditFinding[]
+}
+
+export const newAuditScan = (): AuditScan => ({
+  started_at: Math.floor(Date.now() / 1000),
+  cursor: "",
+  total_properties: 0,
+  properties: 0,
+  entries: 0,
+  findings: [],
+})
+
+// Folds one batch into the running scan.
+export const applyScanBatch = (scan: AuditScan, batch: AuditScanResponse): AuditScan => ({
+  ...scan,
+  cursor: batch.next_cursor,
+  total_properties: batch.total_properties,
+  properties: scan.properties + batch.properties,
+  entries: scan.entries + batch.entries,
+  findings: [...scan.findings, ...batch.findings],
+  finished_at: batch.next_cursor === "" ? Math.floor(Date.now() / 1000) : undefined,
+})
+
+export const loadAuditScan = (): AuditScan | null => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as AuditScan) : null
+  } catch {
+    return null
+  }
+}
+
+export const saveAuditScan = (scan: AuditScan) => window.localStorage.setItem(STORAGE_KEY, JSON.stringify(scan))
+
+export const clearAuditScan = () => window.localStorage.removeItem(STORAGE_KEY)
+
+export const countFindings = (findings: AuditFinding[]): Record<AuditFindingKind, number> => {
+  const counts = Object.fromEntries(AUDIT_FINDING_KINDS.map((kind) => [kind, 0])) as Record<AuditFindingKind, number>
+  for (const finding of findings) counts[finding.kind]++
+  return counts
+}
+
+// Properties with at least one finding, each with its findings in scan order.
+export const groupByProperty = (findings: AuditFinding[]): Map<string, AuditFinding[]> => {
+  const groups = new Map<string, AuditFinding[]>()
+  for (const finding of findings) {
+    groups.set(finding.property_number, [...(groups.get(finding.property_number) ?? []), finding])
+  }
+  return groups
+}
+
+export const auditReportCSV = (scan: AuditScan): string =>
+  toCSV(
+    ["kind", "property_number", "entry_id", "position", "detail"],
+    scan.findings.map((finding) => [
+      finding.kind,
+      finding.property_number,
+      finding.entry_id ?? "",
+      finding.position === undefined ? "" : String(finding.position),
+      finding.detail,
+    ]),
+  )
+
+export const auditReportJSON = (scan: AuditScan): string =>
+  JSON.stringify({ ...scan, counts: countFindings(scan.findings) }, null, 2)
+
+export const auditReportFileName = (scan: AuditScan, extension: "csv" | "json") =>
+  `ledger-audit-${new Date(scan.started_at * 1000).toISOString().slice(0, 10)}.${extension}`
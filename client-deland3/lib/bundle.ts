@@ -0,0 +1,121 @@
+// Self-contained proof bundles for a property's chain. A bundle carries every
+// entry, the exact string each hash was computed over, the public keys that
+// signed them and a plain-language recipe, so it can be re-checked on
+// /verify-bundle (or by hand) without contacting the server.
+
+import { ledgerEntry } from "./api"
+import { GENESIS_HASH, hashInput, verifyChain, type ChainVerification } from "./chain"
+import { array, number, object, string, DecodeError, type Decoder } from "./decode"
+import { keyRegistry, verifyEntrySignatures, type SignatureCheck } from "./signatures"
+import type { KeyRegistry, LedgerEntry } from "./types"
+
+export const BUNDLE_FORMAT = "deland-proof-bundle"
+export const BUNDLE_VERSION = 1
+
+export const VERIFICATION_RECIPE = [
+  "Entries are listed in chain order. Where an entry has a sequence number, it must equal the entry's 1-based position in the list.",
+  "For an entry with hash_version 1, hash_input must equal the canonical JSON (keys sorted, no whitespace) of an object holding its hash_version, id, sequence, survey_number, property_number, owner_id, land_type, action, details, timestamp, recorded_by and prev_hash, plus payload when the entry has one.",
+  "For an entry without a hash_version, hash_input must equal the concatenation of id, survey_number, property_number, owner_id, land_type, action, details, the canonical JSON of payload (keys sorted, omitted when there is no payload), the Unicode character whose code point is timestamp truncated to 32 bits (U+FFFD when that is not a valid code point), recorded_by and prev_hash.",
+  "The lowercase hex SHA-256 digest of the UTF-8 bytes of hash_input must equal the entry's hash.",
+  `The first entry's prev_hash must be "${GENESIS_HASH}", or, when it is a Subdivided or Merged entry listing parents, the head of its first parent; every later prev_hash must equal the hash of the entry before it.`,
+  "chain_head must equal the hash of the last entry.",
+  "Where an entry has a signature, it is a base64 Ed25519 signature over the UTF-8 bytes of the entry's hex hash, made with the key in key_registry whose key_id matches the entry's key_id.",
+]
+
+export interface BundledEntry {
+  entry: LedgerEntry
+  hash_input: string
+}
+
+export interface ProofBundle {
+  format: string
+  version: number
+  property_number: string
+  // Unix seconds.
+  exported_at: number
+  current_owner: string
+  chain_head: string
+  entries: BundledEntry[]
+  key_registry: KeyRegistry
+  recipe: string[]
+}
+
+export interface BundleVerification {
+  chain: ChainVerification
+  // Per entry: whether the bundled hash_input matches the one rebuilt from the entry fields.
+  hashInputMatches: boolean[]
+  chainHeadMatches: boolean
+  signatures: SignatureCheck[]
+  valid: boolean
+}
+
+export const createProofBundle = (
+  propertyNumber: string,
+  entries: LedgerEntry[],
+  registry: KeyRegistry | null,
+): ProofBundle => {
+  const usedKeys = new Set(entries.map((entry) => entry.key_id))
+  const head = entries[entries.length - 1]
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    property_number: propertyNumber,
+    exported_at: Math.floor(Date.now() / 1000),
+    current_owner: head?.owner_id ?? "",
+    chain_head: head?.hash ?? GENESIS_HASH,
+    entries: entries.map((entry) => ({ entry, hash_input: hashInput(entry) })),
+    key_registry: { keys: registry?.keys.filter((key) => usedKeys.has(key.key_id)) ?? [] },
+    recipe: VERIFICATION_RECIPE,
+  }
+}
+
+const proofBundle: Decoder<ProofBundle> = object<ProofBundle>({
+  format: (value, path) => {
+    if (value !== BUNDLE_FORMAT) throw new DecodeError(path ?? "$", `"${BUNDLE_FORMAT}"`)
+    return BUNDLE_FORMAT
+  },
+  version: (value, path) => {
+    if (value !== BUNDLE_VERSION) throw new DecodeError(path ?? "$", `version ${BUNDLE_VERSION}`)
+    return BUNDLE_VERSION
+  },
+  property_number: string,
+  exported_at: number,
+  current_owner: string,
+  chain_head: string,
+  entries: array(object<BundledEntry>({ entry: ledgerEntry, hash_input: string })),
+  key_registry: keyRegistry,
+  recipe: array(string),
+})
+
+// Parses a bundle file, throwing a DecodeError naming the first field that
+// does not have the expected shape.
+export const parseProofBundle = (text: string): ProofBundle => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new DecodeError("$", "a JSON document")
+  }
+  return proofBundle(data)
+}
+
+// Re-checks a bundle using only its own contents: the chain links and hashes,
+// the recorded hash inputs, the chain head and the signatures against the
+// bundled keys.
+export const verifyProofBundle = async (bundle: ProofBundle): Promise<BundleVerification> => {
+  const entries = bundle.entries.map((bundled) => bundled.entry)
+  const chain = await verifyChain(entries)
+  const hashInputMatches = bundle.entries.map((bundled) => bundled.hash_input === hashInput(bundled.entry))
+  const chainHeadMatches = bundle.chain_head === (entries[entries.length - 1]?.hash ?? GENESIS_HASH)
+  const signatures = await verifyEntrySignatures(entries, bundle.key_registry)
+  return {
+    chain,
+    hashInputMatches,
+    chainHeadMatches,
+    signatures,
+    valid: chain.valid && chainHeadMatches && hashInputMatches.every(Boolean),
+  }
+}
+
+export const bundleFileName = (bundle: ProofBundle) =>
+  `${bundle.property_number.replace(/[^A-Za-z0-9_-]+/g, "_")}-proof.json`
@@ -0,0 +1,19 @@
+// Canonical JSON matching canonicalJSON in server/payload.go: object keys are
+// sorted at every level, nothing is HTML-escaped, and U+2028/U+2029 are
+// escaped the way Go's encoder always does.
+
+const escapeLineSeparators = (json: string) => json.replace(/\u2028/g, "\\u2028").replace(/\u2029/g, "\\u2029")
+
+export const canonicalJSON = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJSON(item === undefined ? null : item)).join(",")}]`
+  }
+  if (value !== null && typeof value === "object") {
+    const record = value as Record<string, unknown>
+    const keys = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+    return `{${keys.map((key) => `${canonicalJSON(key)}:${canonicalJSON(record[key])}`).join(",")}}`
+  }
+  return escapeLineSeparators(JSON.stringify(value ?? null))
+}
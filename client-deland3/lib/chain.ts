@@ -0,0 +1,152 @@
+// Client-side re-implementation of the ledger hash chain kept by server/main.go.
+// Every hash is recomputed in the browser so a viewer does not have to trust the
+// server's own verdict about the records it stores.
+
+import { canonicalJSON } from "./canonical"
+import type { ActionPayload, LedgerEntry } from "./types"
+
+export const GENESIS_HASH = "genesis"
+
+// The prev_hash a chain's first entry must carry: genesis, or for a property
+// opened by a subdivision or merger, its first parent's closing entry.
+// Mirrors openingPrevHash in server/lineage.go.
+export const openingPrevHash = (entry: LedgerEntry) =>
+  (entry.action === "Subdivided" || entry.action === "Merged") && entry.payload?.parents?.length
+    ? (entry.payload.parents[0].head ?? "")
+    : GENESIS_HASH
+
+export type EntryCheckStatus = "valid" | "broken" | "unverified"
+
+export interface EntryCheck {
+  id: string
+  status: EntryCheckStatus
+  expectedHash: string
+  actualHash: string
+  expectedPrevHash: string
+  actualPrevHash: string
+  hashMatches: boolean
+  linkMatches: boolean
+  // False when a numbered entry sits at a different position than its sequence.
+  sequenceMatches: boolean
+}
+
+export interface ChainVerification {
+  valid: boolean
+  brokenAt: number | null
+  checks: EntryCheck[]
+}
+
+// Go's string(rune(timestamp)) truncates the int64 to an int32 and encodes it as
+// a single code point, falling back to U+FFFD for anything that is not a valid
+// scalar value (which is the case for every realistic Unix timestamp).
+const goRuneString = (value: number): string => {
+  const rune = value | 0
+  if (rune < 0 || rune > 0x10ffff || (rune >= 0xd800 && rune <= 0xdfff)) {
+    return "\uFFFD"
+  }
+  return String.fromCodePoint(rune)
+}
+
+// Mirrors payloadHashInput in server/payload.go: an empty payload adds nothing.
+const payloadHashInput = (payload?: ActionPayload) =>
+  payload && Object.values(payload).some((value) => value !== undefined) ? canonicalJSON(payload) : ""
+
+// Mirrors legacyHashInput in server/chain.go, including its field order.
+const legacyHashInput = (entry: LedgerEntry): string =>
+  entry.id +
+  entry.survey_number +
+  entry.property_number +
+  entry.owner_id +
+  entry.land_type +
+  entry.action +
+  entry.details +
+  payloadHashInput(entry.payload) +
+  goRuneString(entry.timestamp) +
+  (entry.recorded_by ?? "") +
+  entry.prev_hash
+
+// Mirrors canonicalHashInput in server/chain.go.
+const canonicalHashInput = (entry: LedgerEntry): string =>
+  canonicalJSON({
+    hash_version: entry.hash_version,
+    id: entry.id,
+    sequence: entry.sequence ?? 0,
+    survey_number: entry.survey_number,
+    property_number: entry.property_number,
+    owner_id: entry.owner_id,
+    land_type: entry.land_type,
+    action: entry.action,
+    details: entry.details,
+    payload: payloadHashInput(entry.payload) ? entry.payload : undefined,
+    attachments: entry.attachments?.length ? entry.attachments : undefined,
+    timestamp: entry.timestamp,
+    recorded_by: entry.recorded_by ?? "",
+    prev_hash: entry.prev_hash,
+  })
+
+export const LEGACY_HASH_VERSION = 0
+export const CANONICAL_HASH_VERSION = 1
+
+// Mirrors entryHashInput in server/chain.go: the entry's hash version picks
+// the encoding.
+export const hashInput = (entry: LedgerEntry): string =>
+  (entry.hash_version ?? LEGACY_HASH_VERSION) === LEGACY_HASH_VERSION
+    ? legacyHashInput(entry)
+    : canonicalHashInput(entry)
+
+// Chain order as the server reads it: by sequence number, with timestamps
+// only ordering legacy entries that have not been numbered yet.
+export const sortChain = (entries: LedgerEntry[]): LedgerEntry[] =>
+  [...entries].sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0) || a.timestamp - b.timestamp)
+
+// Hashes text as UTF-8, or raw bytes such as a downloaded attachment.
+export const sha256Hex = async (data: string | ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", typeof data === "string" ? new TextEncoder().encode(data) : data)
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+}
+
+export const computeEntryHash = (entry: LedgerEntry): Promise<string> => sha256Hex(hashInput(entry))
+
+// Walks the entries in chain order, recomputing each hash and checking that
+// every prev_hash points at the entry before it and every sequence number
+// matches its position. Entries after the first
+// break cannot be trusted and are reported as unverified.
+export const verifyChain = async (entries: LedgerEntry[]): Promise<ChainVerification> => {
+  const checks: EntryCheck[] = []
+  let brokenAt: number | null = null
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i]
+    const expectedHash = await computeEntryHash(entry)
+    const expectedPrevHash = i === 0 ? openingPrevHash(entry) : entries[i - 1].hash
+    const version = entry.hash_version ?? LEGACY_HASH_VERSION
+    const knownVersion = version === LEGACY_HASH_VERSION || version === CANONICAL_HASH_VERSION
+    const hashMatches = knownVersion && expectedHash === entry.hash
+    const linkMatches = expectedPrevHash === entry.prev_hash
+    const sequenceMatches = !entry.sequence || entry.sequence === i + 1
+
+    let status: EntryCheckStatus = "valid"
+    if (brokenAt !== null) {
+      status = "unverified"
+    } else if (!hashMatches || !linkMatches || !sequenceMatches) {
+      status = "broken"
+      brokenAt = i
+    }
+
+    checks.push({
+      id: entry.id,
+      status,
+      expectedHash,
+      actualHash: entry.hash,
+      expectedPrevHash,
+      actualPrevHash: entry.prev_hash,
+      hashMatches,
+      linkMatches,
+      sequenceMatches,
+    })
+  }
+
+  return { valid: brokenAt === null, brokenAt, checks }
+}
@@ -0,0 +1,82 @@
+// Display helpers and CSV export for the compensation report on /compensation
+// (server/compensation.go). An award is pending until its first payment,
+// partial while a balance remains and paid once it is settled.
+
+import { formatAmount } from "./format"
+import { toCSV } from "./import"
+import type { Award, AwardStatus, CompensationFilter, CompensationReport } from "./types"
+
+export const AWARD_STATUS_STYLES: Record<AwardStatus, string> = {
+  pending: "bg-red-100 text-red-800",
+  partial: "bg-yellow-100 text-yellow-800",
+  paid: "bg-green-100 text-green-800",
+}
+
+// The report's status filters, as offered on the page.
+export const COMPENSATION_FILTERS: CompensationFilter[] = ["outstanding", "paid", "all"]
+
+// Age brackets for chasing payouts, oldest last; each is labelled by its
+// ageBracket.<id> message.
+export const AGE_BRACKETS = [
+  { id: "under90", maxDays: 89 },
+  { id: "to180", maxDays: 180 },
+  { id: "to365", maxDays: 365 },
+  { id: "overYear", maxDays: Infinity },
+] as const
+
+export const ageBracket = (award: Award) => AGE_BRACKETS.find((bracket) => award.age_days <= bracket.maxDays)!
+
+export type AwardSort = "age" | "survey_number"
+
+// The server lists awards oldest first; survey order groups a village's parcels.
+export const sortAwards = (awards: Award[], sort: AwardSort) =>
+  sort === "age"
+    ? awards
+    : [...awards].sort(
+        (a, b) => a.survey_number.localeCompare(b.survey_number) || a.property_number.localeCompare(b.property_number),
+      )
+
+export const formatAwardAmount = (award: Award, amount: number | undefined, locale: string) =>
+  amount === undefined ? "—" : formatAmount(amount, award.currency, locale)
+
+const csvAmount = (amount: number | undefined) => (amount === undefined ? "" : amount.toFixed(2))
+
+export const compensationReportCSV = (awards: Award[]): string =>
+  toCSV(
+    [
+      "survey_number",
+      "property_number",
+      "owner_id",
+      "award_number",
+      "award_date",
+      "age_days",
+      "currency",
+      "amount",
+      "paid",
+      "outstanding",
+      "status",
+      "payments",
+      "last_payment",
+    ],
+    awards.map((award) => {
+      const last = award.payments[award.payments.length - 1]
+      return [
+        award.survey_number,
+        award.property_number,
+        award.owner_id,
+        award.award_number ?? "",
+        award.award_date ?? "",
+        String(award.age_days),
+        award.currency ?? "",
+        csvAmount(award.amount),
+        csvAmount(award.paid),
+        award.amount === undefined ? "" : csvAmount(award.outstanding),
+        award.status,
+        String(award.payments.length),
+        last ? new Date(last.timestamp * 1000).toISOString() : "",
+      ]
+    }),
+  )
+
+export const compensationReportFileName = (report: CompensationReport, filter: CompensationFilter) =>
+  `compensation-${filter}-${new Date(report.generated_at * 1000).toISOString().slice(0, 10)}.csv`
@@ -0,0 +1,71 @@
+// Minimal runtime decoders for JSON coming from the network. Each decoder either
+// returns a value of the declared type or throws a DecodeError naming the path
+// that did not match.
+
+export class DecodeError extends Error {
+  constructor(
+    readonly path: string,
+    readonly expected: string,
+  ) {
+    super(`Expected ${expected} at ${path}`)
+    this.name = "DecodeError"
+  }
+}
+
+export type Decoder<T> = (value: unknown, path?: string) => T
+
+export const string: Decoder<string> = (value, path = "$") => {
+  if (typeof value !== "string") throw new DecodeError(path, "string")
+  return value
+}
+
+export const number: Decoder<number> = (value, path = "$") => {
+  if (typeof value !== "number" || !Number.isFinite(value)) throw new DecodeError(path, "number")
+  return value
+}
+
+export const boolean: Decoder<boolean> = (value, path = "$") => {
+  if (typeof value !== "boolean") throw new DecodeError(path, "boolean")
+  return value
+}
+
+export const array =
+  <T>(item: Decoder<T>): Decoder<T[]> =>
+  (value, path = "$") => {
+    if (!Array.isArray(value)) throw new DecodeError(path, "array")
+    return value.map((element, index) => item(element, `${path}[${index}]`))
+  }
+
+export const object =
+  <T>(fields: { [K in keyof T]: Decoder<T[K]> }): Decoder<T> =>
+  (value, path = "$") => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new DecodeError(path, "object")
+    }
+    const record = value as Record<string, unknown>
+    const result = {} as T
+    for (const key of Object.keys(fields) as (keyof T & string)[]) {
+      result[key] = fields[key](record[key], `${path}.${key}`)
+    }
+    return result
+  }
+
+// An object used as a map: any keys, every value decoded by item.
+export const record =
+  <T>(item: Decoder<T>): Decoder<Record<string, T>> =>
+  (value, path = "$") => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new DecodeError(path, "object")
+    }
+    const result: Record<string, T> = {}
+    for (const [key, element] of Object.entries(value)) {
+      result[key] = item(element, `${path}.${key}`)
+    }
+    return result
+  }
+
+// Accepts a missing or null value as undefined; anything else must match.
+export const optional =
+  <T>(decoder: Decoder<T>): Decoder<T | undefined> =>
+  (value, path = "$") =>
+    value === undefined || value === null ? undefined : decoder(value, path)
@@ -0,0 +1,10 @@
+// Saves generated content (reports, proof bundles) as a file in the browser.
+
+export const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
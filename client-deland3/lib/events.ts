@@ -0,0 +1,75 @@
+// Live ledger updates from GET /events (Server-Sent Events). The browser's
+// EventSource reconnects on its own and sends the last event ID so the server
+// replays what was missed; when the server ends the stream for good, a fresh
+// one is opened with that ID as last_event_id. When more was missed than the
+// server replays, it sends a "reset" event instead and the caller reloads.
+
+import { API_URL, ledgerEntry } from "./api"
+import type { LedgerEntry } from "./types"
+
+const RECONNECT_DELAY_MS = 5_000
+
+export type StreamStatus = "connecting" | "live" | "reconnecting"
+
+export interface LedgerStreamOptions {
+  // Only stream entries for this property.
+  propertyNumber?: string
+  // Replay entries created after the one with this event ID.
+  lastEventId?: string
+  onEntry: (entry: LedgerEntry) => void
+  onStatus?: (status: StreamStatus) => void
+  // Called once the stream has closed because entries were missed that the
+  // server would not replay; reload and subscribe again from the newest entry.
+  onReset: () => void
+}
+
+// Matches ledgerEventID in server/events.go.
+export const ledgerEventID = (entry: LedgerEntry) => `${entry.timestamp}:${entry.id}`
+
+// Opens the stream and returns a function that closes it. Entries may arrive
+// more than once around a reconnect; callers keep the first copy by ID.
+export const subscribeToLedger = ({
+  propertyNumber,
+  lastEventId,
+  onEntry,
+  onStatus,
+  onReset,
+}: LedgerStreamOptions): (() => void) => {
+  let source: EventSource | null = null
+  let retryTimer: ReturnType<typeof setTimeout> | undefined
+  let lastSeen = lastEventId
+
+  const connect = () => {
+    const params = new URLSearchParams()
+    if (propertyNumber) params.set("property_number", propertyNumber)
+    if (lastSeen) params.set("last_event_id", lastSeen)
+    const query = params.toString()
+
+    onStatus?.(source ? "reconnecting" : "connecting")
+    source = new EventSource(`${API_URL}/events${query ? `?${query}` : ""}`)
+    source.addEventListener("open", () => onStatus?.("live"))
+    source.addEventListener("entry", (event) => {
+      const message = event as MessageEvent<string>
+      if (message.lastEventId) lastSeen = message.lastEventId
+      try {
+        onEntry(ledgerEntry(JSON.parse(message.data)))
+      } catch (error) {
+        console.error("Ignoring malformed ledger event:", error)
+      }
+    })
+    source.addEventListener("reset", () => {
+      source?.close()
+      onReset()
+    })
+    source.addEventListener("error", () => {
+      onStatus?.("reconnecting")
+      if (source?.readyState === EventSource.CLOSED) retryTimer = setTimeout(connect, RECONNECT_DELAY_MS)
+    })
+  }
+
+  connect()
+  return () => {
+    clearTimeout(retryTimer)
+    source?.close()
+  }
+}
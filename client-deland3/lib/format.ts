@@ -0,0 +1,51 @@
+// Display helpers shared by the pages. Ledger timestamps are Unix seconds.
+// Dates and numbers are formatted for the viewer's locale (lib/i18n.ts).
+
+import type { I18n } from "./i18n"
+import type { Owner } from "./types"
+
+export const formatTimestamp = (timestamp: string | number, locale: string) => {
+  try {
+    const date = typeof timestamp === "string" ? new Date(timestamp) : new Date(timestamp * 1000)
+
+    return date.toLocaleString(locale, {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+  } catch {
+    return timestamp.toString()
+  }
+}
+
+export const formatDate = (timestamp: number, locale: string) =>
+  new Date(timestamp * 1000).toLocaleDateString(locale, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  })
+
+// Formats a file size in bytes, KB or MB.
+export const formatBytes = (size: number) => {
+  if (size < 1024) return `${size} B`
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export const formatNumber = (value: number, locale: string, options?: Intl.NumberFormatOptions) =>
+  value.toLocaleString(locale, options)
+
+// Formats a payload amount, in its currency when one is known.
+export const formatAmount = (amount: number, currency: string | undefined, locale: string) =>
+  currency ? amount.toLocaleString(locale, { style: "currency", currency }) : amount.toLocaleString(locale)
+
+// Summarises an owner profile, e.g. "Ravi Kumar" or "Kumar family (joint:
+// Ravi Kumar 50%, Asha Kumar 50%)".
+export const describeOwner = (owner: Owner, { t }: I18n) => {
+  if (!owner.members?.length) return owner.name
+  const shares = owner.members.map((member) => `${member.name || member.owner_id} ${member.share}%`)
+  return t("owner.joint", { name: owner.name, shares: shares.join(", ") })
+}
@@ -0,0 +1,179 @@
+// Parcel boundaries: reading pasted GeoJSON, measuring a boundary and
+// projecting boundaries onto the SVG map (components/ParcelMap.tsx). The
+// server checks rings and overlaps (server/parcel.go); this only makes sure
+// what is sent is a polygon.
+
+import { formatNumber } from "./format"
+import type { I18n } from "./i18n"
+import type { ParcelBoundary } from "./types"
+
+const isPosition = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.length >= 2 && value.every((item) => typeof item === "number" && Number.isFinite(item))
+
+const isRing = (value: unknown): value is number[][] => Array.isArray(value) && value.every(isPosition)
+
+// Reads a GeoJSON Polygon, a single-polygon MultiPolygon, or a Feature or
+// one-feature FeatureCollection wrapping either, as exported by most GIS
+// tools. Altitudes are dropped. Returns null when the text is not one polygon.
+export const parseBoundary = (text: string): ParcelBoundary | null => {
+  let value: unknown
+  try {
+    value = JSON.parse(text)
+  } catch {
+    return null
+  }
+  for (;;) {
+    if (typeof value !== "object" || value === null) return null
+    const geojson = value as { type?: unknown; features?: unknown; geometry?: unknown; coordinates?: unknown }
+    if (geojson.type === "FeatureCollection") {
+      if (!Array.isArray(geojson.features) || geojson.features.length !== 1) return null
+      value = geojson.features[0]
+    } else if (geojson.type === "Feature") {
+      value = geojson.geometry
+    } else if (geojson.type === "MultiPolygon") {
+      if (!Array.isArray(geojson.coordinates) || geojson.coordinates.length !== 1) return null
+      value = { type: "Polygon", coordinates: geojson.coordinates[0] }
+    } else if (geojson.type === "Polygon") {
+      const rings = geojson.coordinates
+      if (!Array.isArray(rings) || rings.length === 0 || !rings.every(isRing)) return null
+      return { type: "Polygon", coordinates: rings.map((ring) => ring.map(([lon, lat]) => [lon, lat])) }
+    } else {
+      return null
+    }
+  }
+}
+
+export const vertexCount = (boundary: ParcelBoundary) =>
+  boundary.coordinates.reduce((count, ring) => count + Math.max(ring.length - 1, 0), 0)
+
+const METERS_PER_DEGREE = 111_320
+
+// Area in square metres, treating the parcel as flat around its first corner.
+export const boundaryArea = (boundary: ParcelBoundary) => {
+  const [lon0, lat0] = boundary.coordinates[0]?.[0] ?? [0, 0]
+  const scaleX = METERS_PER_DEGREE * Math.cos((lat0 * Math.PI) / 180)
+  const ringArea = (ring: number[][]) => {
+    let area = 0
+    for (let i = 0; i + 1 < ring.length; i++) {
+      const [x1, y1] = [(ring[i][0] - lon0) * scaleX, ring[i][1] * METERS_PER_DEGREE]
+      const [x2, y2] = [(ring[i + 1][0] - lon0) * scaleX, ring[i + 1][1] * METERS_PER_DEGREE]
+      area += x1 * y2 - x2 * y1
+    }
+    return Math.abs(area / 2)
+  }
+  const [outer, ...holes] = boundary.coordinates
+  return Math.max(ringArea(outer ?? []) - holes.reduce((total, hole) => total + ringArea(hole), 0), 0)
+}
+
+// Formats an area in square metres, or hectares for anything larger.
+export const formatArea = (squareMeters: number, locale: string) =>
+  squareMeters < 10_000
+    ? `${formatNumber(Math.round(squareMeters), locale)} m²`
+    : `${formatNumber(squareMeters / 10_000, locale, { maximumFractionDigits: 2 })} ha`
+
+export const describeBoundary = (boundary: ParcelBoundary, { locale, plural }: I18n) => {
+  const holes = boundary.coordinates.length - 1
+  const parts = [formatArea(boundaryArea(boundary), locale), plural("geo.corners", vertexCount(boundary))]
+  if (holes > 0) parts.push(plural("geo.holes", holes))
+  return parts.join(", ")
+}
+
+export interface Bounds {
+  west: number
+  south: number
+  east: number
+  north: number
+}
+
+export const boundsOf = (boundaries: ParcelBoundary[]): Bounds | null => {
+  const positions = boundaries.flatMap((boundary) => boundary.coordinates[0] ?? [])
+  if (positions.length === 0) return null
+  return {
+    west: Math.min(...positions.map(([lon]) => lon)),
+    south: Math.min(...positions.map(([, lat]) => lat)),
+    east: Math.max(...positions.map(([lon]) => lon)),
+    north: Math.max(...positions.map(([, lat]) => lat)),
+  }
+}
+
+// Map units: longitude scaled by the cosine of the centre latitude so shapes
+// keep their proportions, and latitude flipped because SVG y grows downwards.
+export interface Projection {
+  project: (position: number[]) => [number, number]
+  unproject: (x: number, y: number) => [number, number]
+}
+
+export const projectionFor = (bounds: Bounds): Projection => {
+  const scale = Math.cos((((bounds.south + bounds.north) / 2) * Math.PI) / 180)
+  return {
+    project: ([lon, lat]) => [lon * scale, -lat],
+    unproject: (x, y) => [x / scale, -y],
+  }
+}
+
+// An SVG path for the boundary's rings; holes cut out under the evenodd rule.
+export const boundaryPath = (boundary: ParcelBoundary, projection: Projection) =>
+  linesPath(boundary.coordinates, true, projection)
+
+// A round grid spacing, in degrees, giving a handful of lines across span.
+export const gridStep = (span: number) => {
+  const raw = span / 5
+  const magnitude = 10 ** Math.floor(Math.log10(raw))
+  return [1, 2, 5, 10].map((step) => step * magnitude).find((step) => step >= raw) ?? magnitude * 10
+}
+
+// The map's base layer is served with the app rather than from a tile server,
+// so the map works offline. Replace public/basemap.geojson with the district's
+// roads, village limits or other reference features in longitude/latitude.
+export const BASE_LAYER_URL = "/basemap.geojson"
+
+// A base layer feature as SVG-ready lines: polygon rings are closed, lines
+// are not.
+export interface BaseFeature {
+  name?: string
+  closed: boolean
+  lines: number[][][]
+}
+
+const baseFeature = (geometry: unknown, name?: string): BaseFeature | null => {
+  if (typeof geometry !== "object" || geometry === null) return null
+  const { type, coordinates } = geometry as { type?: unknown; coordinates?: unknown }
+  if (!Array.isArray(coordinates)) return null
+  const lines: unknown[] =
+    type === "LineString"
+      ? [coordinates]
+      : type === "MultiLineString" || type === "Polygon"
+        ? coordinates
+        : type === "MultiPolygon"
+          ? coordinates.flat()
+          : []
+  if (lines.length === 0 || !lines.every(isRing)) return null
+  return { name, closed: type === "Polygon" || type === "MultiPolygon", lines: lines as number[][][] }
+}
+
+// Features the base layer holds that are not lines or areas are skipped.
+export const loadBaseLayer = async (signal?: AbortSignal): Promise<BaseFeature[]> => {
+  const response = await fetch(BASE_LAYER_URL, { signal })
+  if (!response.ok) throw new Error(`Base layer unavailable (${response.status})`)
+  const collection: unknown = await response.json()
+  const features = (collection as { features?: unknown }).features
+  if (!Array.isArray(features)) return []
+  return features.flatMap((feature) => {
+    const { geometry, properties } = (feature ?? {}) as { geometry?: unknown; properties?: { name?: unknown } }
+    const parsed = baseFeature(geometry, typeof properties?.name === "string" ? properties.name : undefined)
+    return parsed ? [parsed] : []
+  })
+}
+
+export const linesPath = (lines: number[][][], closed: boolean, projection: Projection) =>
+  lines
+    .map(
+      (line) =>
+        line
+          .map((position, index) => {
+            const [x, y] = projection.project(position)
+            return `${index === 0 ? "M" : "L"}${x} ${y}`
+          })
+          .join(" ") + (closed ? " Z" : ""),
+    )
+    .join(" ")
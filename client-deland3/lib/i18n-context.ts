@@ -0,0 +1,23 @@
+// The viewer's locale for client components. The root layout resolves it on
+// the server (lib/i18n-server.ts) and provides it through I18nProvider, so
+// pages render in the same language on the server and in the browser.
+
+import { createContext, createElement, Fragment, useContext, type ReactNode } from "react"
+import { createI18n, DEFAULT_LOCALE, type I18n, type MessageKey } from "./i18n"
+
+export const I18nContext = createContext<I18n>(createI18n(DEFAULT_LOCALE))
+
+export const useI18n = () => useContext(I18nContext)
+
+// Translates a message whose {placeholders} are filled with elements, such as
+// a link inside a sentence, so each language can place them where it needs.
+export const useRichText = () => {
+  const { t } = useI18n()
+  return (key: MessageKey, nodes: Record<string, ReactNode>) =>
+    t(key)
+      .split(/(\{\w+\})/)
+      .map((part, index) => {
+        const name = part.match(/^\{(\w+)\}$/)?.[1]
+        return createElement(Fragment, { key: index }, name !== undefined && name in nodes ? nodes[name] : part)
+      })
+}
@@ -0,0 +1,17 @@
+// The locale of the request being rendered, for the root layout and server
+// components: a URL prefix routed by middleware.ts wins, then the locale the
+// viewer last chose, then their browser's preference.
+
+import { cookies, headers } from "next/headers"
+import { createI18n, isLocale, LOCALE_COOKIE, LOCALE_HEADER, negotiateLocale } from "./i18n"
+
+export const getRequestLocale = async () => {
+  const requestHeaders = await headers()
+  const routed = requestHeaders.get(LOCALE_HEADER)
+  if (isLocale(routed)) return routed
+  const saved = (await cookies()).get(LOCALE_COOKIE)?.value
+  if (isLocale(saved)) return saved
+  return negotiateLocale(requestHeaders.get("accept-language"))
+}
+
+export const getI18n = async () => createI18n(await getRequestLocale())
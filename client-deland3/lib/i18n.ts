@@ -0,0 +1,122 @@
+// Message catalogs and locale-aware formatting. English is the reference
+// catalog: every key is defined there, and another catalog that lacks a key
+// falls back to it. A catalog's locale is also the URL prefix that selects it
+// (/hi/property), so adding a locale means adding its catalog to messages/
+// and listing it in CATALOGS.
+
+import { formatAmount, formatDate, formatNumber, formatTimestamp } from "./format"
+import en from "./messages/en"
+import hi from "./messages/hi"
+
+export type MessageKey = keyof typeof en.messages
+// Messages that vary with a count have a key per plural category, e.g.
+// "geo.holes.one" and "geo.holes.other"; PluralKey is the shared prefix.
+type PluralPrefix<Key> = Key extends `${infer Prefix}.other` ? Prefix : never
+export type PluralKey = PluralPrefix<MessageKey>
+export type MessageValues = Record<string, string | number>
+
+export interface Catalog {
+  // A BCP 47 language tag, passed to Intl for formatting.
+  locale: string
+  // The language's name in itself, for the language switcher.
+  name: string
+  messages: Partial<Record<MessageKey, string>>
+}
+
+const CATALOGS: Catalog[] = [en, hi]
+
+export const LANGUAGES = CATALOGS.map(({ locale, name }) => ({ locale, name }))
+export const DEFAULT_LOCALE = en.locale
+
+// The cookie remembering the last locale chosen through a URL prefix, and the
+// request header the middleware passes the routed locale on in.
+export const LOCALE_COOKIE = "deland.locale"
+export const LOCALE_HEADER = "x-deland-locale"
+
+export const isLocale = (value: string | null | undefined): value is string =>
+  !!value && CATALOGS.some((catalog) => catalog.locale === value)
+
+// Splits a locale prefix off a path: "/hi/property" is the property page in
+// Hindi. locale is null when the path has no prefix.
+export const splitLocalePath = (path: string) => {
+  const [, prefix, ...rest] = path.split("/")
+  return isLocale(prefix) ? { locale: prefix, path: `/${rest.join("/")}` } : { locale: null, path }
+}
+
+// Picks the catalog best matching an Accept-Language header such as
+// "hi-IN,hi;q=0.9,en;q=0.8", matching a regional tag to its language.
+export const negotiateLocale = (acceptLanguage: string | null) => {
+  const ranges = (acceptLanguage ?? "")
+    .split(",")
+    .map((range) => {
+      const [tag, ...params] = range.trim().split(";")
+      const quality = params.map((param) => param.trim()).find((param) => param.startsWith("q="))
+      return { tag: tag.toLowerCase(), quality: quality ? Number(quality.slice(2)) : 1 }
+    })
+    .filter((range) => range.tag && range.quality > 0)
+    .sort((a, b) => b.quality - a.quality)
+  for (const { tag } of ranges) {
+    const match =
+      CATALOGS.find((catalog) => catalog.locale.toLowerCase() === tag) ??
+      CATALOGS.find((catalog) => catalog.locale.toLowerCase() === tag.split("-")[0])
+    if (match) return match.locale
+  }
+  return DEFAULT_LOCALE
+}
+
+const interpolate = (message: string, values?: MessageValues) =>
+  values
+    ? message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        name in values ? String(values[name]) : placeholder,
+      )
+    : message
+
+export interface I18n {
+  locale: string
+  // Translates a message, filling in its {placeholders} from values.
+  t: (key: MessageKey, values?: MessageValues) => string
+  // Translates the form of a message for count, which fills in {count}.
+  plural: (key: PluralKey, count: number, values?: MessageValues) => string
+  // Translates a key built at runtime, e.g. from an action name; undefined
+  // when no catalog defines it.
+  lookup: (key: string, values?: MessageValues) => string | undefined
+  // Labels for ledger values, falling back to the value itself.
+  actionLabel: (action: string) => string
+  landTypeLabel: (landType: string) => string
+  // The label and placeholder of an action's payload field, falling back to
+  // the English ones in lib/payloads.ts.
+  fieldLabel: (action: string, spec: { name: string; label: string }) => string
+  fieldPlaceholder: (action: string, spec: { name: string; placeholder?: string }) => string | undefined
+  formatTimestamp: (timestamp: string | number) => string
+  formatDate: (timestamp: number) => string
+  formatAmount: (amount: number, currency?: string) => string
+  formatNumber: (value: number) => string
+}
+
+export const createI18n = (locale: string): I18n => {
+  const catalog = CATALOGS.find((candidate) => candidate.locale === locale) ?? en
+  const messages: Partial<Record<string, string>> = catalog.messages
+  const fallback: Partial<Record<string, string>> = en.messages
+  const lookup = (key: string, values?: MessageValues) => {
+    const message = messages[key] ?? fallback[key]
+    return message === undefined ? undefined : interpolate(message, values)
+  }
+  const pluralRules = new Intl.PluralRules(catalog.locale)
+  return {
+    locale: catalog.locale,
+    t: (key, values) => lookup(key, values) ?? key,
+    plural: (key, count, values) => {
+      const filled = { ...values, count: formatNumber(count, catalog.locale) }
+      return lookup(`${key}.${pluralRules.select(count)}`, filled) ?? lookup(`${key}.other`, filled) ?? key
+    },
+    lookup,
+    actionLabel: (action) => lookup(`action.${action}`) ?? action,
+    landTypeLabel: (landType) => lookup(`landType.${landType}`) ?? landType,
+    fieldLabel: (action, spec) => lookup(`field.${action}.${spec.name}`) ?? lookup(`field.${spec.name}`) ?? spec.label,
+    fieldPlaceholder: (action, spec) => lookup(`placeholder.${action}.${spec.name}`) ?? spec.placeholder,
+    formatTimestamp: (timestamp) => formatTimestamp(timestamp, catalog.locale),
+    formatDate: (timestamp) => formatDate(timestamp, catalog.locale),
+    formatAmount: (amount, currency) => formatAmount(amount, currency, catalog.locale),
+    formatNumber: (value) => formatNumber(value, catalog.locale),
+  }
+}
@@ -0,0 +1,297 @@
+// Parsing, column mapping and row validation for bulk imports on /admin/import.
+// Rows are checked here against every rule that does not depend on what is
+// already on a property's chain; the server re-validates each row on append.
+
+import { parseBoundary } from "./geo"
+import type { MessageKey, MessageValues } from "./i18n"
+import { EFFECTIVE_DATE_FIELD, PAYLOAD_FIELDS, buildPayload, type PayloadFieldName } from "./payloads"
+import { ACTIONS, LAND_TYPES, type Action, type LandType, type NewEntryPayload } from "./types"
+
+export type EntryFieldName = "survey_number" | "property_number" | "owner_id" | "land_type" | "action" | "details"
+export type ImportFieldName = EntryFieldName | `payload.${PayloadFieldName}`
+
+export interface ImportField {
+  name: ImportFieldName
+  label: string
+  // Required on every row, regardless of action.
+  required: boolean
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { name: "survey_number", label: "Survey Number", required: true },
+  { name: "property_number", label: "Property Number", required: true },
+  { name: "owner_id", label: "Owner ID", required: true },
+  { name: "land_type", label: "Land Type", required: true },
+  { name: "action", label: "Action", required: true },
+  { name: "details", label: "Details", required: false },
+  // The date a migrated record took effect; rows are otherwise dated when appended.
+  { name: "payload.effective_date", label: EFFECTIVE_DATE_FIELD.label, required: false },
+  // Awards and payments share some fields; each gets one column.
+  ...Object.values(PAYLOAD_FIELDS)
+    .flat()
+    .filter((spec, index, specs) => specs.findIndex((other) => other.name === spec.name) === index)
+    .map((spec) => ({ name: `payload.${spec.name}` as ImportFieldName, label: spec.label, required: false })),
+]
+
+// Maps each import field to the source column it is read from.
+export type ColumnMapping = Partial<Record<ImportFieldName, string>>
+
+export type SourceRecord = Record<string, string>
+
+export interface ParsedFile {
+  columns: string[]
+  records: SourceRecord[]
+}
+
+// A problem with a file or row, as a catalog key for the page to translate.
+export interface ImportMessage {
+  key: MessageKey
+  values?: MessageValues
+}
+
+export interface ValidatedRow {
+  // 1-based position in the source file, as shown to the user.
+  rowNumber: number
+  entry: NewEntryPayload | null
+  errors: Record<string, ImportMessage>
+}
+
+export class ImportParseError extends Error {
+  constructor(
+    readonly key: MessageKey,
+    readonly values?: MessageValues,
+  ) {
+    super(key)
+    this.name = "ImportParseError"
+  }
+}
+
+// RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines.
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+      continue
+    }
+    if (char === '"' && field === "") {
+      quoted = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  if (quoted) throw new ImportParseError("import.error.fileEndsInQuote")
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""))
+}
+
+const cellText = (value: unknown) =>
+  value === undefined || value === null ? "" : typeof value === "object" ? JSON.stringify(value) : String(value)
+
+// JSON imports are an array of objects (or {"entries": [...]}); a nested
+// "payload" object is flattened into payload.<field> columns.
+const parseJSONRecords = (text: string): ParsedFile => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new ImportParseError("import.error.invalidJSON")
+  }
+  if (data && typeof data === "object" && !Array.isArray(data) && "entries" in data) data = data.entries
+  if (!Array.isArray(data)) throw new ImportParseError("import.error.notArray")
+
+  const columns: string[] = []
+  const records = data.map((item, index) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      throw new ImportParseError("import.error.notObject", { row: index + 1 })
+    }
+    const record: SourceRecord = {}
+    for (const [key, value] of Object.entries(item)) {
+      if (key === "payload" && value && typeof value === "object" && !Array.isArray(value)) {
+        for (const [name, nested] of Object.entries(value)) record[`payload.${name}`] = cellText(nested)
+      } else {
+        record[key] = cellText(value)
+      }
+    }
+    for (const key of Object.keys(record)) if (!columns.includes(key)) columns.push(key)
+    return record
+  })
+  return { columns, records }
+}
+
+const parseCSVRecords = (text: string): ParsedFile => {
+  const [header, ...rows] = parseCSV(text.replace(/^\uFEFF/, ""))
+  if (!header) throw new ImportParseError("import.error.empty")
+  const columns = header.map((column) => column.trim())
+  const records = rows.map((cells, index) => {
+    if (cells.length > columns.length) {
+      throw new ImportParseError("import.error.tooManyCells", {
+        row: index + 1,
+        cells: cells.length,
+        columns: columns.length,
+      })
+    }
+    return Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ""]))
+  })
+  return { columns, records }
+}
+
+export const parseImportFile = (fileName: string, text: string): ParsedFile => {
+  const looksLikeJSON = fileName.toLowerCase().endsWith(".json") || /^\s*[[{]/.test(text)
+  const parsed = looksLikeJSON ? parseJSONRecords(text) : parseCSVRecords(text)
+  if (parsed.records.length === 0) throw new ImportParseError("import.error.noRows")
+  return parsed
+}
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, "")
+
+// Picks a source column for each field whose name or label matches a column
+// header, ignoring case, spacing and punctuation ("Survey Number",
+// "survey_number" and "SurveyNumber" all match survey_number).
+export const guessMapping = (columns: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {}
+  for (const field of IMPORT_FIELDS) {
+    const bare = field.name.replace(/^payload\./, "")
+    const candidates = [field.name, bare, field.label].map(normalize)
+    const column = columns.find((name) => candidates.includes(normalize(name)))
+    if (column) mapping[field.name] = column
+  }
+  return mapping
+}
+
+// Accepts an action or land type by its identifier or its spaced label, e.g.
+// "AwardDeclared" or "award declared".
+const matchOption = <T extends string>(options: T[], value: string) =>
+  options.find((option) => normalize(option) === normalize(value))
+
+// Parses a YYYY-MM-DD calendar date, rejecting impossible days like 2024-02-30.
+const parseCalendarDate = (date: string) => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return null
+  const parsed = new Date(`${date}T00:00:00Z`)
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date) ? parsed : null
+}
+
+// Mirrors the state-independent checks in validateEntry (server/rules.go) and
+// validatePayload (server/payload.go), keyed by the same field names.
+export const validateRecord = (record: SourceRecord, mapping: ColumnMapping, rowNumber: number): ValidatedRow => {
+  const read = (name: ImportFieldName) => {
+    const column = mapping[name]
+    return column ? (record[column] ?? "").trim() : ""
+  }
+  const errors: Record<string, ImportMessage> = {}
+
+  for (const field of IMPORT_FIELDS) {
+    if (field.required && !read(field.name)) errors[field.name] = { key: "import.error.required" }
+  }
+
+  const landType = matchOption<LandType>(LAND_TYPES, read("land_type"))
+  if (read("land_type") && !landType) errors.land_type = { key: "import.error.landType" }
+  const action = matchOption<Action>(ACTIONS, read("action"))
+  if (read("action") && !action) {
+    errors.action = { key: "import.error.unknownAction", values: { action: read("action") } }
+  }
+  if (!landType || !action) return { rowNumber, entry: null, errors }
+
+  const ownerID = read("owner_id")
+  const details = read("details")
+  if (action === "Other" && !details) errors.details = { key: "import.error.otherDetails" }
+  if (action === "Correction") errors.action = { key: "import.error.correction" }
+  if (action === "Reversal" && !details) errors.details = { key: "import.error.reversalDetails" }
+
+  const values: Partial<Record<PayloadFieldName, string>> = {}
+  for (const field of IMPORT_FIELDS) {
+    if (!field.name.startsWith("payload.")) continue
+    const name = field.name.slice("payload.".length) as PayloadFieldName
+    const value = read(field.name)
+    if (!value || name === EFFECTIVE_DATE_FIELD.name) continue
+    if (!PAYLOAD_FIELDS[action].some((spec) => spec.name === name)) {
+      errors[field.name] = { key: "import.error.notCarried", values: { action } }
+    }
+    values[name] = value
+  }
+  // The new owner defaults to the row's owner ID, as on the single-entry form.
+  if (action === "OwnershipUpdated" && !values.new_owner) values.new_owner = ownerID
+
+  for (const spec of PAYLOAD_FIELDS[action]) {
+    if (!spec.optional && !values[spec.name]) errors[`payload.${spec.name}`] = { key: "import.error.required" }
+  }
+
+  const effectiveDate = read("payload.effective_date")
+  const payload = effectiveDate
+    ? { ...buildPayload(action, values), effective_date: effectiveDate }
+    : buildPayload(action, values)
+  for (const name of ["award_date", "order_date", "effective_date"] as const) {
+    const value = payload?.[name]
+    if (value === undefined) continue
+    const date = parseCalendarDate(value)
+    if (!date) {
+      errors[`payload.${name}`] = { key: "import.error.dateFormat" }
+    } else if (date.getTime() > Date.now()) {
+      errors[`payload.${name}`] = { key: "import.error.futureDate" }
+    }
+  }
+  if (payload?.amount !== undefined && payload.amount >= 1e15) {
+    errors["payload.amount"] = { key: "import.error.amountTooLarge", values: { max: 1e15 } }
+  } else if (payload?.amount !== undefined && !(payload.amount >= 0.01)) {
+    errors["payload.amount"] = { key: "import.error.amount" }
+  }
+  if (payload?.currency !== undefined && !/^[A-Z]{3}$/.test(payload.currency)) {
+    errors["payload.currency"] = { key: "import.error.currency" }
+  }
+  if (values.boundary && !parseBoundary(values.boundary)) {
+    errors["payload.boundary"] = { key: "import.error.boundary" }
+  }
+  if (payload?.new_owner !== undefined && payload.new_owner !== ownerID) {
+    errors["payload.new_owner"] = { key: "import.error.newOwnerMismatch" }
+  }
+  if (payload?.previous_owner !== undefined && payload.previous_owner === payload.new_owner) {
+    errors["payload.new_owner"] = { key: "import.error.sameOwner" }
+  }
+
+  if (Object.keys(errors).length > 0) return { rowNumber, entry: null, errors }
+  return {
+    rowNumber,
+    entry: {
+      survey_number: read("survey_number"),
+      property_number: read("property_number"),
+      owner_id: ownerID,
+      land_type: landType,
+      action,
+      details,
+      payload,
+    },
+    errors,
+  }
+}
+
+export const validateRecords = (records: SourceRecord[], mapping: ColumnMapping): ValidatedRow[] =>
+  records.map((record, index) => validateRecord(record, mapping, index + 1))
+
+const csvCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+
+export const toCSV = (header: string[], rows: string[][]): string =>
+  [header, ...rows].map((cells) => cells.map(csvCell).join(",")).join("\r\n") + "\r\n"
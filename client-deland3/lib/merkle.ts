@@ -0,0 +1,89 @@
+// Browser-side checks for checkpoint inclusion proofs, mirroring server/merkle.go
+// and checkpointHashInput in server/checkpoint.go.
+
+import { canonicalJSON } from "./canonical"
+import { sha256Hex } from "./chain"
+import { verifySignature, type SignatureStatus } from "./signatures"
+import type { Checkpoint, InclusionProof, KeyRegistry, LedgerEntry } from "./types"
+
+export interface AnchorCheck {
+  checkpoint: Checkpoint
+  // The checkpoint's hash recomputes from its published fields.
+  checkpointHashMatches: boolean
+  signature: SignatureStatus
+  // The proof path from this property's leaf leads to the checkpoint root.
+  rootMatches: boolean
+  // Position of the checkpointed head in the local chain, or -1 when the
+  // chain no longer contains it (history was rewritten after the checkpoint).
+  headIndex: number
+  valid: boolean
+}
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+
+const fromHex = (hex: string) => {
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+  return bytes
+}
+
+const digest = async (prefix: number, ...parts: Uint8Array[]) => {
+  const data = new Uint8Array(1 + parts.reduce((total, part) => total + part.length, 0))
+  data[0] = prefix
+  let offset = 1
+  for (const part of parts) {
+    data.set(part, offset)
+    offset += part.length
+  }
+  return toHex(await crypto.subtle.digest("SHA-256", data))
+}
+
+export const merkleLeafHash = (propertyNumber: string, headHash: string) =>
+  digest(0x00, new TextEncoder().encode(canonicalJSON([propertyNumber, headHash])))
+
+const merkleNodeHash = (left: string, right: string) => digest(0x01, fromHex(left), fromHex(right))
+
+export const rootFromProof = async (proof: InclusionProof) => {
+  let hash = await merkleLeafHash(proof.property_number, proof.head_hash)
+  for (const step of proof.siblings) {
+    hash = step.position === "left" ? await merkleNodeHash(step.hash, hash) : await merkleNodeHash(hash, step.hash)
+  }
+  return hash
+}
+
+export const checkpointHash = (checkpoint: Checkpoint) =>
+  sha256Hex(
+    canonicalJSON({
+      sequence: checkpoint.sequence,
+      root: checkpoint.root,
+      tree_size: checkpoint.tree_size,
+      timestamp: checkpoint.timestamp,
+      prev_hash: checkpoint.prev_hash,
+    }),
+  )
+
+// Checks a proof against the property's locally verified chain: the
+// checkpoint must be authentic, its root must commit to the proven head, and
+// that head must be one of the entries on screen. Entries up to headIndex are
+// anchored; later ones wait for the next checkpoint.
+export const verifyAnchor = async (
+  proof: InclusionProof,
+  entries: LedgerEntry[],
+  registry: KeyRegistry | null,
+): Promise<AnchorCheck> => {
+  const checkpointHashMatches = (await checkpointHash(proof.checkpoint)) === proof.checkpoint.hash
+  const signature = registry ? (await verifySignature(proof.checkpoint, registry)).status : "unknown_key"
+  const rootMatches = (await rootFromProof(proof)) === proof.checkpoint.root
+  const headIndex = entries.findIndex((entry) => entry.hash === proof.head_hash)
+  return {
+    checkpoint: proof.checkpoint,
+    checkpointHashMatches,
+    signature,
+    rootMatches,
+    headIndex,
+    valid: checkpointHashMatches && signature === "valid" && rootMatches && headIndex >= 0,
+  }
+}
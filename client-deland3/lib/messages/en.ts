@@ -0,0 +1,834 @@
+// The reference catalog: every message key is defined here, and its type is
+// the MessageKey other catalogs are checked against (lib/i18n.ts).
+
+const en = {
+  locale: "en",
+  name: "English",
+  messages: {
+    "layout.title": "DeLand - Blockchain Land Records",
+    "layout.description": "Secure, transparent land registry using blockchain technology",
+    "layout.language": "Language",
+    "nav.backHome": "Back to Home",
+    "nav.backAdmin": "Back to Admin",
+
+    // Ledger values
+    "action.AwardDeclared": "Award Declared",
+    "action.Compensated": "Compensated",
+    "action.OwnershipUpdated": "Ownership Updated",
+    "action.LandConverted": "Land Converted",
+    "action.BoundaryRecorded": "Boundary Recorded",
+    "action.Subdivided": "Subdivided",
+    "action.Merged": "Merged",
+    "action.LienRegistered": "Lien Registered",
+    "action.LienReleased": "Lien Released",
+    "action.MortgageRegistered": "Mortgage Registered",
+    "action.MortgageReleased": "Mortgage Released",
+    "action.StayOrdered": "Court Stay Ordered",
+    "action.StayLifted": "Court Stay Lifted",
+    "action.Other": "Other",
+    "action.Correction": "Correction",
+    "action.Reversal": "Reversal",
+    "landType.Agricultural": "Agricultural",
+    "landType.Non-Agricultural": "Non-Agricultural",
+    "acquisition.unregistered": "Not yet recorded",
+    "acquisition.registered": "Registered",
+    "acquisition.awarded": "Awarded (compensation pending)",
+    "acquisition.compensated": "Compensated",
+    "encumbrance.Lien": "Lien",
+    "encumbrance.Mortgage": "Mortgage",
+    "encumbrance.Stay": "Court Stay",
+    "party.seller": "Seller",
+    "party.buyer": "Buyer",
+    "party.registrar": "Registrar",
+    "transferStatus.draft": "Awaiting seller",
+    "transferStatus.seller_approved": "Awaiting buyer",
+    "transferStatus.buyer_accepted": "Awaiting registrar",
+    "transferStatus.finalizing": "Finalizing",
+    "transferStatus.finalized": "Finalized",
+    "transferStatus.cancelled": "Cancelled",
+    "transferStatus.expired": "Expired",
+    "transferStep.seller": "Seller approves",
+    "transferStep.buyer": "Buyer accepts",
+    "transferStep.registrar": "Registrar finalizes",
+    "role.registrar": "registrar",
+    "role.auditor": "auditor",
+    "role.viewer": "viewer",
+    "signature.valid": "Signature valid",
+    "signature.missing": "Signature missing",
+    "signature.invalid": "Signature invalid",
+    "signature.unknown_key": "Unknown signing key",
+    "signature.revoked": "Signed with a revoked key",
+    "signature.unsupported": "Signature not checked (browser lacks Ed25519)",
+
+    // Payload fields (lib/payloads.ts). field.<name> labels a field under any
+    // action; field.<action>.<name> overrides it for one action.
+    "section.AwardDeclared": "Award Details",
+    "section.Compensated": "Payment Details",
+    "section.OwnershipUpdated": "Transfer Details",
+    "section.LandConverted": "Conversion Details",
+    "section.BoundaryRecorded": "Parcel Boundary",
+    "section.Subdivided": "Subdivision",
+    "section.Merged": "Merger",
+    "section.LienRegistered": "Lien",
+    "section.LienReleased": "Lien Release",
+    "section.MortgageRegistered": "Mortgage",
+    "section.MortgageReleased": "Mortgage Release",
+    "section.StayOrdered": "Court Stay",
+    "section.StayLifted": "Stay Lifted",
+    "section.Correction": "Correction",
+    "section.Reversal": "Reversal",
+    "field.award_number": "Award Number",
+    "field.award_date": "Award Date",
+    "field.amount": "Amount",
+    "field.currency": "Currency",
+    "field.payment_reference": "Payment Reference",
+    "field.previous_owner": "Previous Owner",
+    "field.new_owner": "New Owner",
+    "field.deed_reference": "Deed Reference",
+    "field.override_reason": "Override Reason",
+    "field.conversion_order": "Conversion Order",
+    "field.boundary": "Boundary",
+    "field.children": "New Properties",
+    "field.parents": "Merged From",
+    "field.holder": "Holder",
+    "field.charge_reference": "Charge Reference",
+    "field.court": "Court",
+    "field.case_number": "Case Number",
+    "field.order_date": "Order Date",
+    "field.amends": "Amends Entry",
+    "field.effective_date": "Effective Date",
+    "field.owner_id": "Owner ID",
+    "field.land_type": "Land Type",
+    "field.survey_number": "Survey Number",
+    "field.details": "Details",
+    "field.property_number": "Property Number",
+    "field.action": "Action",
+    "field.LienRegistered.holder": "Lien Holder",
+    "field.LienRegistered.amount": "Amount Secured",
+    "field.MortgageRegistered.holder": "Lender",
+    "field.MortgageRegistered.amount": "Amount Secured",
+    "field.Reversal.amends": "Reverses Entry",
+    "placeholder.Compensated.award_number": "The award this payment is against",
+    "placeholder.Compensated.payment_reference": "e.g., UTR or cheque number",
+    "placeholder.OwnershipUpdated.override_reason": "Only when recording despite an active stay or lien",
+    "placeholder.Subdivided.override_reason": "Only when recording despite an active stay or lien",
+    "placeholder.Merged.override_reason": "Only when recording despite an active stay or lien",
+    "placeholder.LienRegistered.holder": "e.g., the creditor or tax authority",
+    "placeholder.LienReleased.charge_reference": "The lien being discharged",
+    "placeholder.MortgageRegistered.holder": "e.g., State Bank, Main Branch",
+    "placeholder.MortgageReleased.charge_reference": "The mortgage being released",
+    "placeholder.StayOrdered.court": "e.g., District Court, Pune",
+    "placeholder.StayLifted.case_number": "The case whose stay is lifted",
+    "payload.corrected": "Corrected {field}",
+    "payload.transfer": "Transfer",
+    "payload.approval": "{party} Approval",
+    "payload.approvedOn": "{officer} on {date}",
+    "payload.mergedInto": "Merged Into",
+    "payload.subdividedInto": "Subdivided Into",
+    "payload.mergedFrom": "Merged From",
+    "payload.subdividedFrom": "Subdivided From",
+
+    // Parcels (lib/geo.ts)
+    "geo.corners.one": "{count} corner",
+    "geo.corners.other": "{count} corners",
+    "geo.holes.one": "{count} hole",
+    "geo.holes.other": "{count} holes",
+
+    // Replayed state (lib/state.ts)
+    "state.owner": "Owner",
+    "state.noOwner": "None on record",
+    "state.landType": "Land Type",
+    "state.surveyNumber": "Survey Number",
+    "state.awardStatus": "Award Status",
+    "state.award": "Award",
+    "state.awardDatedFor": "{award} dated {date} for {amount}",
+    "state.awardDated": "{award} dated {date}",
+    "state.awardFor": "{award} for {amount}",
+    "state.compensationPaid": "Compensation Paid",
+    "state.payments.one": "{count} payment",
+    "state.payments.other": "{count} payments",
+    "state.outstanding": "Outstanding",
+    "state.encumbrances": "Encumbrances",
+    "state.encumbrance": "{kind} {reference}",
+    "state.succeededBy": "Succeeded By",
+    "state.succession": "{action} into {properties}",
+    "state.lastEntry": "Last Entry",
+    "state.entryOn": "{action} on {date}",
+    "state.none": "None",
+
+    "owner.joint": "{name} (joint: {shares})",
+    "owner.id": "Owner ID",
+    "owner.contact": "Contact",
+    "owner.idDocument": "Identity Document",
+    "owner.registered": "Registered",
+    "owner.updated": "updated {date}",
+    "owner.recordedBy": "by {officer}",
+    "owner.jointOwners": "Joint Owners",
+    "owner.masked": "Personal details are partly hidden. Sign in as an officer to see them in full.",
+
+    // Home
+    "home.title": "DeLand",
+    "home.subtitle": "Blockchain Land Records System",
+    "home.heading": "Secure Land Registry",
+    "home.tagline": "Transparent, immutable, and tamper-proof land registry system using blockchain technology",
+    "home.addEntry": "Add New Entry",
+    "home.addEntryText": "Register new land records to the blockchain ledger",
+    "home.searchProperty": "Search Property",
+    "home.searchPropertyText": "View property details and transaction history",
+    "home.ownerPortfolio": "Owner Portfolio",
+    "home.ownerPortfolioText": "See every property an owner holds or used to hold",
+    "home.ownerRegistry": "Owner Registry",
+    "home.ownerRegistryText": "Register owners, their identity documents and joint shares",
+    "home.browseLedger": "Browse Ledger",
+    "home.browseLedgerText": "Filter entries by survey number, land type, action or date",
+    "home.verifyCertificate": "Verify a Certificate",
+    "home.verifyCertificateText": "Re-check an exported proof bundle offline, without the server",
+    "home.ledgerAudit": "Ledger Audit",
+    "home.ledgerAuditText": "Scan every property chain for breaks, tampering and inconsistencies",
+    "home.transfers": "Ownership Transfers",
+    "home.transfersText": "Draft transfers and track seller, buyer and registrar approvals",
+    "home.compensation": "Compensation",
+    "home.compensationText": "Track award payments and chase the parcels still awaiting payout",
+    "home.parcelMap": "Parcel Map",
+    "home.parcelMapText": "See recorded survey boundaries and open any parcel's history",
+    "home.secure": "Secure",
+    "home.secureText": "Blockchain-based security ensures tamper-proof records",
+    "home.transparent": "Transparent",
+    "home.transparentText": "Full transparency in all land transactions",
+    "home.efficient": "Efficient",
+    "home.efficientText": "Quick access to property information",
+
+    // Admin
+    "admin.title": "Admin Panel",
+    "admin.subtitle": "Add new land ledger entries",
+    "admin.bulkImport": "Bulk Import",
+    "admin.transfers": "Transfers",
+    "admin.publishCheckpoint": "Publish Checkpoint",
+    "admin.checkpointPublished": "Checkpoint #{sequence} published over {chains} property chains",
+    "admin.checkpointUnchanged": "No chain has changed since checkpoint #{sequence}",
+    "admin.checkpointFailed": "Failed to publish checkpoint",
+    "admin.formTitle": "Add New Land Entry",
+    "admin.surveyNumber": "Survey Number",
+    "admin.surveyPlaceholder": "e.g., SY-001",
+    "admin.propertyNumber": "Property Number",
+    "admin.propertyPlaceholder": "e.g., PR-001",
+    "admin.newChain": "New property: this entry starts its chain",
+    "admin.appends": "Appends as entry #{position} after {hash}",
+    "admin.ownerId": "Owner ID",
+    "admin.ownerPlaceholder": "ID or name, e.g., OWN-001",
+    "admin.fromAmended": "Filled in from the amended record",
+    "admin.landType": "Land Type",
+    "admin.action": "Action",
+    "admin.hint.OwnershipUpdated":
+      "Only for a property with no owner on record. Ownership of an owned property passes through a {transfer} approved by the seller, the buyer and a registrar.",
+    "admin.hint.transfer": "transfer",
+    "admin.hint.Subdivided":
+      "Recorded on the property being split. It is closed, and each new property opens its own chain from this entry with the same survey number, owner and land type.",
+    "admin.hint.Merged":
+      "Recorded on the new property. Each property merged into it is closed, and the new chain opens from their final entries. The merged properties must share the owner and land type given here.",
+    "admin.hint.charge":
+      "The charge reference identifies the claim until it is released. An active lien blocks ownership changes, subdivisions and mergers; a mortgage travels with the land.",
+    "admin.hint.StayOrdered":
+      "Ownership changes, subdivisions and mergers are blocked until the stay is lifted under the same case number.",
+    "admin.paysAward": "Pays award {award}.",
+    "admin.paysAwardOutstanding": "Pays award {award}, with {outstanding} outstanding.",
+    "admin.acceptCorrectedOverlap":
+      "Record the corrected boundary even if it overlaps another survey number's boundary",
+    "admin.acceptOverlap": "Record it even if it overlaps another survey number's boundary",
+    "admin.boundaryReads": "Reads as {boundary}.",
+    "admin.boundaryHint": "A GeoJSON Polygon in longitude and latitude, or a Feature holding one.",
+    "admin.boundaryInvalid": "Paste the boundary as a GeoJSON Polygon or a Feature holding one",
+    "admin.sameAsOwner": "Same as Owner ID",
+    "admin.details": "Details",
+    "admin.reason": "Reason",
+    "admin.remarks": "Remarks",
+    "admin.detailsPlaceholder": "Describe the event being recorded...",
+    "admin.reasonPlaceholder": "Why the entry is being amended...",
+    "admin.remarksPlaceholder": "Optional notes that do not fit the fields above...",
+    "admin.adding": "Adding Entry...",
+    "admin.submit": "Add Land Entry",
+    "admin.added": "Land entry added successfully!",
+    "admin.conflict": "This property changed since you loaded it. Review its latest entries and submit again.",
+    "admin.fixFields": "Please fix the highlighted fields",
+    "admin.addFailed": "Failed to add land entry",
+    "amend.entryToCorrect": "Entry to Correct",
+    "amend.entryToReverse": "Entry to Reverse",
+    "amend.choose": "Choose an entry...",
+    "amend.propertyFirst": "Enter the property number first",
+    "amend.hintCorrection":
+      "The original entry stays on the chain; the timeline shows it struck through and linked to this correction.",
+    "amend.hintReversal":
+      "The original entry stays on the chain; the timeline shows it struck through and linked to this reversal.",
+    "amend.changeOnly": "Change only the values that were recorded wrongly.",
+
+    // Property
+    "property.title": "Property Search",
+    "property.subtitle": "Search for property details and view ledger history",
+    "property.searchTitle": "Search Property Records",
+    "property.propertyNumber": "Property Number",
+    "property.placeholder": "Enter property number (e.g., PR-001)",
+    "property.search": "Search",
+    "property.searching": "Searching...",
+    "property.enterNumber": "Please enter a property number",
+    "property.fetchFailed": "Failed to fetch property details",
+    "property.noRecords": "No Records Found",
+    "property.noEntries": 'No ledger entries found for property number "{property}"',
+    "property.currentOwner": "Current Owner",
+    "property.exportBundle": "Export Proof Bundle",
+    "property.certificate": "Printable Certificate",
+    "property.ownerId": "Owner ID: {owner}",
+    "property.numberLabel": "Property Number: {property}",
+    "property.signInForNames": "Sign in to see owners' full names",
+    "property.verification": "Blockchain Verification",
+    "property.verifying": "Verifying Blockchain Integrity...",
+    "property.recomputing": "Recomputing {count} entry hashes in your browser",
+    "property.verified": "Blockchain Verified - Records Authentic",
+    "property.verifiedDetail": "All {count} entry hashes and chain links were recomputed locally and match",
+    "property.compromised": "Blockchain Integrity Compromised",
+    "property.breaksAt": "The chain breaks at entry {position} of {total}.",
+    "property.jumpToBroken": "Jump to the first broken entry",
+    "property.awaiting": "Awaiting Verification",
+    "property.awaitingDetail": "Search for a property to verify blockchain integrity",
+    "property.signatures": "Officer signatures",
+    "property.signaturesValid":
+      "{valid} of {total} entries carry a valid signature from a key in the published registry.",
+    "property.signaturesFlagged": "Flagged entries are marked in the timeline below.",
+    "property.registryFailed": "The public key registry could not be loaded, so signatures were not checked",
+    "property.checkpoint": "Checkpoint #{sequence}",
+    "property.anchorCovered":
+      "{covered} of {total} entries are covered by the signed Merkle root published {date} over {chains} property chains.",
+    "property.anchorHash": "The checkpoint's hash does not match its contents.",
+    "property.anchorSignature": "The checkpoint signature could not be confirmed ({status}).",
+    "property.anchorRoot": "The inclusion proof does not lead to the checkpoint's root.",
+    "property.anchorHead":
+      "The checkpointed chain head is missing from this history, so entries were altered after the checkpoint.",
+    "property.anchorLater": "Later entries will be covered by the next checkpoint.",
+    "property.root": "root {root}",
+    "property.notCheckpointed": "This property has not been included in a published checkpoint yet",
+    "property.checkpointFailed": "The latest checkpoint could not be checked",
+    "property.timeline": "Property History Timeline",
+    "property.new": "New",
+    "property.owner": "Owner",
+    "property.hashVerified": "Hash verified",
+    "property.chainBreaks": "Chain breaks here",
+    "property.afterBreak": "Not verifiable (after break)",
+    "property.key": "Key {key}",
+    "property.entry": "entry #{position}",
+    "property.reversedBy": "Reversed by {entry} on {date}: {reason}",
+    "property.correctedBy": "Corrected by",
+    "property.reverses": "Reverses",
+    "property.corrects": "Corrects",
+    "property.surveyNumber": "Survey Number",
+    "property.landType": "Land Type",
+    "property.remarks": "Remarks",
+    "property.details": "Details",
+    "property.recordedBy": "Recorded by {officer}",
+    "property.hashMismatch": "Hash mismatch",
+    "property.linkMismatch": "Previous-hash link mismatch",
+    "property.sequenceMismatch": "Sequence mismatch: recorded as #{sequence} but found at position {position}",
+    "hashDiff.expected": "expected",
+    "hashDiff.actual": "actual",
+    "hashDiff.empty": "(empty)",
+
+    // Property panels
+    "encumbrances.title": "Active Encumbrances",
+    "encumbrances.description": "Claims registered on this property's chain and not yet released.",
+    "encumbrances.none": "No liens, mortgages or court stays are active.",
+    "encumbrances.ordered": "Ordered {date}",
+    "encumbrances.since": "Since {date}",
+    "encumbrances.viewEntry": "View entry",
+    "encumbrances.blocked":
+      "Ownership cannot change, and the property cannot be subdivided or merged, while a court stay or lien is active unless the entry gives an override reason.",
+    "parcel.title": "Parcel Boundary",
+    "parcel.loadFailed": "The parcel boundary could not be loaded",
+    "parcel.recorded": "Survey number {survey}: {boundary}, recorded {date}",
+    "parcel.none": "No boundary has been recorded for survey number {survey}.",
+    "parcel.openMap": "Open Map",
+    "parcel.overlaps": "This boundary overlaps the recorded boundary of {surveys}.",
+    "lineage.title": "Lineage",
+    "lineage.description":
+      "Properties this one was subdivided or merged from and into. Click a property to open its history.",
+    "lineage.loadFailed": "The property's lineage could not be loaded",
+    "lineage.label": "Lineage of {property}",
+    "lineage.edge": "{parent} {action} into {child}",
+    "lineage.unverifiedEdge": "(link does not verify)",
+    "lineage.notRecorded": "Not yet recorded",
+    "lineage.unverified": "{links}: the child's opening entry does not match the parent's closing entry.",
+    "lineage.truncated": "Only the nearest {count} properties are shown.",
+    "pointInTime.title": "Record As Of",
+    "pointInTime.beforeFirst": "Before the first entry",
+    "pointInTime.after": "After #{position} {action} · {date}",
+    "pointInTime.replays": "Replays {count} of {total} entries, the last recorded {date}.",
+    "pointInTime.nothingYet": "Nothing had been recorded for this property yet.",
+    "pointInTime.latest": "Latest",
+    "pointInTime.latestPoint": "{point} (latest)",
+    "pointInTime.compare": "Compare Two Points",
+    "pointInTime.from": "From",
+    "pointInTime.to": "To",
+    "pointInTime.same": "The record is the same at both points.",
+    "pointInTime.field": "Field",
+    "pointInTime.before": "Before",
+    "pointInTime.afterColumn": "After",
+    "pointInTime.between.one": "{count} entry in between:",
+    "pointInTime.between.other": "{count} entries in between:",
+    "attachments.title": "Attachments",
+    "attachments.checkHash": "Check hash",
+    "attachments.check.checking": "Checking...",
+    "attachments.check.match": "✓ Hash matches",
+    "attachments.check.mismatch": "✗ Hash mismatch",
+    "attachments.check.error": "Could not download",
+    "upload.tooMany": "An entry may carry at most {max} attachments",
+    "upload.tooLarge": "{name} is larger than {size}",
+    "upload.digestMismatch": "The server stored {name} under a different SHA-256; upload it again",
+    "upload.failed": "Failed to upload the file",
+    "upload.remove": "Remove",
+    "upload.uploading": "Uploading...",
+    "upload.hint":
+      "Deeds, award orders or receipts, up to {size} each. Each file's SHA-256 is recorded in the entry's hash.",
+
+    // Ledger search
+    "search.title": "Ledger Search",
+    "search.subtitle": "Browse ledger entries by survey number, owner, action and more",
+    "search.filters": "Filters",
+    "search.surveyNumber": "Survey Number",
+    "search.surveyPlaceholder": "e.g., SY-001",
+    "search.ownerId": "Owner ID",
+    "search.ownerPlaceholder": "e.g., OWN-001",
+    "search.detailsContain": "Details Contain",
+    "search.freeText": "Free-text search",
+    "search.landType": "Land Type",
+    "search.action": "Action",
+    "search.any": "Any",
+    "search.from": "From",
+    "search.to": "To",
+    "search.clear": "Clear",
+    "search.search": "Search",
+    "search.searching": "Searching...",
+    "search.dateRange": "The start date must be on or before the end date",
+    "search.failed": "Failed to search the ledger",
+    "search.results": "Results",
+    "search.entries.one": "{count} entry",
+    "search.entries.other": "{count} entries",
+    "search.noRecords": "No Records Found",
+    "search.noMatches": "No ledger entries match these filters",
+    "search.column.recorded": "Recorded",
+    "search.column.property": "Property",
+    "search.column.survey": "Survey",
+    "search.column.owner": "Owner",
+    "search.column.landType": "Land Type",
+    "search.column.action": "Action",
+    "search.column.details": "Details",
+    "search.previous": "Previous",
+    "search.next": "Next",
+    "search.page": "Page {page} of {total}",
+
+    // Owner registry
+    "owners.title": "Owner Registry",
+    "owners.subtitle": "Who each owner ID on the ledger refers to",
+    "owners.registerTitle": "Register an Owner",
+    "owners.editTitle": "Edit {owner}",
+    "owners.registerHint":
+      "Check the owner's identity document before registering them. Owners must be registered before a ledger entry or transfer names them as a new owner.",
+    "owners.individual": "Individual",
+    "owners.jointOwners": "Joint owners",
+    "owners.ownerId": "Owner ID",
+    "owners.ownerPlaceholder": "e.g., OWN-001",
+    "owners.name": "Name",
+    "owners.fullName": "Full Name",
+    "owners.jointNamePlaceholder": "e.g., Kumar family",
+    "owners.namePlaceholder": "As on the identity document",
+    "owners.contact": "Contact",
+    "owners.contactPlaceholder": "Phone number or email",
+    "owners.idDocument": "Identity Document",
+    "owners.idDocumentPlaceholder": "e.g., Aadhaar",
+    "owners.documentNumber": "Document Number",
+    "owners.members": "Members and Shares",
+    "owners.memberPlaceholder": "Registered owner ID or name",
+    "owners.share": "Share (%)",
+    "owners.removeMember": "Remove member",
+    "owners.addMember": "Add member",
+    "owners.shareTotal": "Total: {total}%",
+    "owners.cancel": "Cancel",
+    "owners.saving": "Saving...",
+    "owners.saveChanges": "Save Changes",
+    "owners.register": "Register Owner",
+    "owners.saveFailed": "Failed to save the owner",
+    "owners.viewPortfolio": "View Portfolio",
+    "owners.edit": "Edit",
+    "owners.find": "Find an Owner",
+    "owners.findPlaceholder": "Owner ID or name",
+    "owners.findExactPlaceholder": "Exact owner ID",
+    "owners.search": "Search",
+    "owners.searching": "Searching...",
+    "owners.searchFailed": "Failed to search the owner registry",
+    "owners.loadFailed": "Failed to load the owner",
+    "owners.loading": "Loading owners...",
+    "owners.noMatches": "No registered owners match.",
+    "owners.column.id": "Owner ID",
+    "owners.column.name": "Name",
+    "owners.column.identity": "Identity",
+    "owners.column.contact": "Contact",
+    "owners.jointShares": "Joint: {shares}",
+    "owners.masked": "Names and identity details are partly hidden. Sign in as an officer to see them in full.",
+
+    // Owner portfolio
+    "portfolio.title": "Owner Portfolio",
+    "portfolio.subtitle": "See which properties an owner holds today and held in the past",
+    "portfolio.searchTitle": "Search by Owner",
+    "portfolio.ownerId": "Owner ID",
+    "portfolio.placeholder": "Enter owner ID (e.g., OWN-001)",
+    "portfolio.search": "Search",
+    "portfolio.searching": "Searching...",
+    "portfolio.enterOwner": "Please enter an owner ID",
+    "portfolio.fetchFailed": "Failed to fetch owner portfolio",
+    "portfolio.openInRegistry": "Open in Registry",
+    "portfolio.current": "Currently Held",
+    "portfolio.currentDescription": "Properties whose latest award or ownership entry names {owner}",
+    "portfolio.noCurrent": "{owner} does not currently hold any property.",
+    "portfolio.former": "Previously Held",
+    "portfolio.formerDescription": "Properties that have since passed to another owner",
+    "portfolio.noFormer": "No earlier holdings on record.",
+    "portfolio.column.property": "Property",
+    "portfolio.column.survey": "Survey",
+    "portfolio.column.landType": "Land Type",
+    "portfolio.column.acquired": "Acquired",
+    "portfolio.column.released": "Released",
+    "portfolio.column.nowHeldBy": "Now Held By",
+    "portfolio.column.lastAction": "Last Action",
+
+    // Ledger audit (lib/audit.ts)
+    "audit.title": "Ledger Audit",
+    "audit.subtitle": "Check every property chain for tampering and inconsistencies",
+    "audit.scanTitle": "Integrity Scan",
+    "audit.scanDescription": "Re-verifies every property chain on the server, {batch} properties at a time.",
+    "audit.started": "Started {started}",
+    "audit.paused": "Started {started} — paused",
+    "audit.finished": "Started {started}, finished {finished}",
+    "audit.pause": "Pause",
+    "audit.resume": "Resume Scan",
+    "audit.start": "Start Scan",
+    "audit.startNew": "Start New Scan",
+    "audit.scanFailed": "The scan failed",
+    "audit.resumeAfter": "{error}. Resume to continue from where it stopped.",
+    "audit.progress": "{properties} of {total} properties · {entries} entries",
+    "audit.percent": "{percent}%",
+    "audit.allFindings": "All Findings",
+    "audit.affected.one": "{count} property affected",
+    "audit.affected.other": "{count} properties affected",
+    "audit.downloadCSV": "Download CSV",
+    "audit.downloadJSON": "Download JSON",
+    "audit.clean": "No problems were found.",
+    "audit.cleanSoFar": "No problems found in the properties scanned so far.",
+    "audit.entry": "Entry #{position}",
+    "audit.more.one": "…and {count} more property. Download the report for the full list.",
+    "audit.more.other": "…and {count} more properties. Download the report for the full list.",
+    "finding.broken_link.title": "Broken Links",
+    "finding.broken_link.description": "An entry's prev_hash or sequence number does not follow the entry before it",
+    "finding.hash_mismatch.title": "Hash Mismatches",
+    "finding.hash_mismatch.description": "An entry's stored hash does not match its recomputed contents",
+    "finding.orphan.title": "Orphan Entries",
+    "finding.orphan.description": "An entry links to a hash that is not on its property's chain",
+    "finding.duplicate_id.title": "Duplicate IDs",
+    "finding.duplicate_id.description": "More than one entry in the ledger carries the same ID",
+    "finding.survey_mismatch.title": "Survey Disagreements",
+    "finding.survey_mismatch.description": "Entries on one property record different survey numbers",
+
+    // Compensation (lib/compensation.ts)
+    "compensation.title": "Compensation",
+    "compensation.subtitle": "Declared awards and what remains to be paid on them",
+    "compensation.awards": "Awards",
+    "compensation.surveyNumber": "Survey Number",
+    "compensation.allSurveys": "All survey numbers",
+    "compensation.apply": "Apply",
+    "compensation.orderBy": "Order By",
+    "compensation.byAge": "Age (oldest first)",
+    "compensation.bySurvey": "Survey number",
+    "compensation.downloadCSV": "Download CSV",
+    "compensation.loadFailed": "Failed to load the compensation report",
+    "compensation.outstanding": "Outstanding",
+    "compensation.noAmounts": "No award amounts on record",
+    "compensation.across.one": "across {count} award",
+    "compensation.across.other": "across {count} awards",
+    "compensation.awaiting": "Awaiting Payment",
+    "compensation.asOf": "As of {date}",
+    "compensation.loading": "Loading awards...",
+    "compensation.none": "No awards found.",
+    "compensation.column.property": "Survey / Property",
+    "compensation.column.award": "Award",
+    "compensation.column.age": "Age",
+    "compensation.column.awarded": "Awarded",
+    "compensation.column.paid": "Paid",
+    "compensation.column.outstanding": "Outstanding",
+    "compensation.column.status": "Status",
+    "compensation.owner": "Owner {owner}",
+    "compensation.days.one": "{count} day",
+    "compensation.days.other": "{count} days",
+    "compensation.payments.one": "{count} payment",
+    "compensation.payments.other": "{count} payments",
+    "compensationFilter.outstanding": "Outstanding",
+    "compensationFilter.paid": "Paid in full",
+    "compensationFilter.all": "All awards",
+    "awardStatus.pending": "Unpaid",
+    "awardStatus.partial": "Partly paid",
+    "awardStatus.paid": "Paid",
+    "ageBracket.under90": "Under 90 days",
+    "ageBracket.to180": "90–180 days",
+    "ageBracket.to365": "181–365 days",
+    "ageBracket.overYear": "Over a year",
+
+    // Parcel map (components/ParcelMap.tsx)
+    "map.title": "Parcel Map",
+    "map.subtitle": "Recorded survey boundaries; click a parcel to open its history",
+    "map.surveyNumber": "Survey Number",
+    "map.placeholder": "Find a parcel (e.g., SY-001)",
+    "map.show": "Show",
+    "map.loadFailed": "Failed to load parcel boundaries",
+    "map.notRecorded": "No boundary has been recorded for survey number {survey}",
+    "map.loading": "Loading parcel boundaries...",
+    "map.empty": "No parcel boundaries have been recorded yet.",
+    "map.hint":
+      "Scroll or use the buttons to zoom and drag to pan. Boundaries outlined in dashed red overlap another parcel.",
+    "map.zoomIn": "Zoom in",
+    "map.zoomOut": "Zoom out",
+    "map.resetView": "Reset view",
+    "map.selected": "Survey Number {survey}",
+    "map.recorded": "{boundary}. Recorded {date} on {property}.",
+    "map.properties": "Properties:",
+    "map.overlaps": "Overlaps {surveys}",
+    "map.overlapping": "Overlapping Boundaries",
+    "map.parcelOverlaps": "{survey} overlaps {surveys}",
+
+    // Transfers (lib/transfers.ts)
+    "transfers.title": "Ownership Transfers",
+    "transfers.subtitle": "Seller approval, buyer acceptance and registrar sign-off",
+    "transfers.draftTitle": "Draft a Transfer",
+    "transfers.draftHint":
+      "The property's current owner is the seller. Once drafted, send the seller and buyer their links.",
+    "transfers.propertyNumber": "Property Number",
+    "transfers.propertyPlaceholder": "e.g., PR-001",
+    "transfers.buyer": "Buyer (Owner ID)",
+    "transfers.buyerPlaceholder": "ID or name, e.g., OWN-002",
+    "transfers.deedReference": "Deed Reference",
+    "transfers.deedPlaceholder": "e.g., DEED-2024-0042",
+    "transfers.expiresAfter": "Expires After (days)",
+    "transfers.remarks": "Remarks",
+    "transfers.remarksPlaceholder": "Optional notes recorded on the ownership entry...",
+    "transfers.drafting": "Drafting...",
+    "transfers.draft": "Draft Transfer",
+    "transfers.draftFailed": "Failed to draft the transfer",
+    "transfers.listTitle": "Transfers",
+    "transfers.allStatuses": "All statuses",
+    "transfers.loading": "Loading transfers...",
+    "transfers.loadFailed": "Failed to load transfers",
+    "transfers.none": "No transfers found.",
+    "transfers.column.property": "Property",
+    "transfers.column.parties": "Seller → Buyer",
+    "transfers.column.status": "Status",
+    "transfers.column.drafted": "Drafted",
+    "transfers.column.expires": "Expires",
+    "transfers.by": "by {officer}",
+    "transfers.seller.title": "Approve a Transfer",
+    "transfers.seller.subtitle": "Review and approve the sale of your property",
+    "transfers.buyer.title": "Accept a Transfer",
+    "transfers.buyer.subtitle": "Review and accept a property being transferred to you",
+    "transferReview.title": "Review Transfer",
+    "transferReview.subtitle": "Share the party links, then finalize once both have approved",
+    "transferReview.allTransfers": "All Transfers",
+    "transferReview.noneSelected": "No transfer selected.",
+    "transferReview.loadFailed": "Failed to load the transfer",
+    "transferReview.requestFailed": "The request failed",
+    "transferReview.linksTitle": "Party Links",
+    "transferReview.linksHint": "Send each link only to that party; anyone holding it can act for them.",
+    "transferReview.sellerLink": "Seller ({owner})",
+    "transferReview.buyerLink": "Buyer ({owner})",
+    "transferReview.copy": "Copy",
+    "transferReview.copied": "Copied",
+    "transferReview.decisionTitle": "Registrar Decision",
+    "transferReview.finalizeHint": "Finalizing appends an ownership entry naming {buyer}, with every approval above.",
+    "transferReview.awaitingApprovals":
+      "The transfer can be finalized once both the seller and the buyer have approved it.",
+    "transferReview.overrideReason": "Override Reason",
+    "transferReview.overridePlaceholder": "Why the ownership change is recorded despite the active stay or lien",
+    "transferReview.overrideHint": "The reason is recorded on the ownership entry.",
+    "transferReview.cancelReason": "Reason (if cancelling)",
+    "transferReview.cancelReasonPlaceholder": "Optional",
+    "transferReview.cancel": "Cancel Transfer",
+    "transferReview.finalize": "Finalize Transfer",
+    "transferReview.saving": "Saving...",
+    "transferSummary.title": "Transfer of {property}",
+    "transferSummary.seller": "From (Seller)",
+    "transferSummary.buyer": "To (Buyer)",
+    "transferSummary.deedReference": "Deed Reference",
+    "transferSummary.surveyNumber": "Survey Number",
+    "transferSummary.landType": "Land Type",
+    "transferSummary.expires": "Expires",
+    "transferSummary.expired": "Expired",
+    "transferSummary.remarks": "Remarks",
+    "transferSummary.approvals": "Approvals",
+    "transferSummary.cancelled": "Cancelled by the {party} ({officer}) on {date}",
+    "transferSummary.cancelledBecause": "Cancelled by the {party} ({officer}) on {date}: {reason}",
+    "transferSummary.recorded": "Recorded on the ledger as entry {entry}. {link}",
+    "transferSummary.viewHistory": "View the property history",
+    "partyTransfer.seller.prompt": "You are recorded as the owner of {property}. Approve handing it to {buyer}?",
+    "partyTransfer.seller.action": "Approve Transfer",
+    "partyTransfer.seller.wrongLink": "This link is not the seller's link for this transfer.",
+    "partyTransfer.buyer.prompt": "{seller} has approved transferring {property} to you. Do you accept it?",
+    "partyTransfer.buyer.action": "Accept Transfer",
+    "partyTransfer.buyer.wrongLink": "This link is not the buyer's link for this transfer.",
+    "partyTransfer.incomplete": "This link is incomplete. Ask the registrar to send it again.",
+    "partyTransfer.loadFailed": "Failed to load the transfer",
+    "partyTransfer.saveFailed": "Failed to record your decision",
+    "partyTransfer.waiting": "Nothing is needed from you right now. You can still withdraw from this transfer.",
+    "partyTransfer.reason": "Reason (if declining)",
+    "partyTransfer.reasonPlaceholder": "Optional",
+    "partyTransfer.decline": "Decline",
+    "partyTransfer.saving": "Saving...",
+
+    // Proof bundle verification
+    "verifyBundle.title": "Verify a Proof Bundle",
+    "verifyBundle.subtitle": "Re-check an exported property record entirely in your browser",
+    "verifyBundle.drop": "Drop a proof bundle here or click to choose one",
+    "verifyBundle.dropHint":
+      "Nothing is uploaded: hashes, chain links and signatures are recomputed on this device using only the bundle's contents.",
+    "verifyBundle.verifying": "Verifying {file}...",
+    "verifyBundle.notBundle": "This is not a DeLand proof bundle ({reason})",
+    "verifyBundle.readFailed": "Failed to read the file",
+    "verifyBundle.verified": "Bundle Verified",
+    "verifyBundle.notVerified": "Bundle Does Not Verify",
+    "verifyBundle.verifiedDetail": "All {count} entries recompute to their recorded hashes and link back to genesis.",
+    "verifyBundle.breaksAt": "The chain breaks at entry {position} of {total}.",
+    "verifyBundle.headMismatch": "The bundle's chain_head does not match its last entry.",
+    "verifyBundle.inputMismatch": "Some recorded hash inputs do not match their entries.",
+    "verifyBundle.contents": "Bundle Contents",
+    "verifyBundle.propertyNumber": "Property Number",
+    "verifyBundle.currentOwner": "Current Owner",
+    "verifyBundle.exported": "Exported",
+    "verifyBundle.keys": "Signing Keys Included",
+    "verifyBundle.noKeys": "None",
+    "verifyBundle.keysHint":
+      "Signatures are checked against these bundled keys; compare the key IDs with the published registry to confirm which officers hold them.",
+    "verifyBundle.chainHead": "Chain-Head Hash",
+    "verifyBundle.entries": "Entries",
+    "verifyBundle.column.action": "Action",
+    "verifyBundle.column.recorded": "Recorded",
+    "verifyBundle.column.hashInput": "Hash Input",
+    "verifyBundle.column.hash": "Hash",
+    "verifyBundle.column.link": "Link",
+    "verifyBundle.column.signature": "Signature",
+    "verifyBundle.afterBreak": "After break",
+    "verifyBundle.signature.valid": "Valid",
+    "verifyBundle.signature.missing": "Missing",
+    "verifyBundle.signature.invalid": "Invalid",
+    "verifyBundle.signature.unknown_key": "Key not in bundle",
+    "verifyBundle.signature.revoked": "Revoked key",
+    "verifyBundle.signature.unsupported": "Not checked (browser lacks Ed25519)",
+    "verifyBundle.recipe": "How this bundle is verified",
+    "certificate.back": "Back to Property",
+    "certificate.download": "Download Proof Bundle",
+    "certificate.print": "Print / Save as PDF",
+    "certificate.noProperty": "No property number was given",
+    "certificate.loadFailed": "Failed to load the property record",
+    "certificate.preparing": "Preparing certificate...",
+    "certificate.issuer": "DeLand Land Records",
+    "certificate.title": "Certificate of Land Record",
+    "certificate.issued": "Issued {date}",
+    "certificate.propertyNumber": "Property Number",
+    "certificate.surveyNumber": "Survey Number",
+    "certificate.currentOwner": "Current Owner",
+    "certificate.landType": "Land Type",
+    "certificate.chainHead": "Chain-Head Hash",
+    "certificate.intact":
+      "All {count} entry hashes and chain links were recomputed when this certificate was issued and match.",
+    "certificate.broken": "The chain breaks at entry {position}; this record cannot be certified as intact.",
+    "certificate.signed": "{signed} of {total} entries carry a valid officer signature.",
+    "certificate.history": "Record History",
+    "certificate.column.date": "Date",
+    "certificate.column.action": "Action",
+    "certificate.column.owner": "Owner",
+    "certificate.column.hash": "Hash",
+    "certificate.howToCheck":
+      "This certificate summarises the hash-chained ledger for the property above. To check it independently, load its proof bundle ({file}) on the DeLand /verify-bundle page, which works offline, or follow the recipe inside the bundle by hand.",
+    "certificate.headChanges": "The chain-head hash changes whenever a new entry is recorded for this property.",
+
+    // Bulk import (lib/import.ts)
+    "import.title": "Bulk Import",
+    "import.subtitle": "Append historical land records from a CSV or JSON file",
+    "import.chooseTitle": "1. Choose a File",
+    "import.chooseHint":
+      "CSV files need a header row. JSON files hold an array of entries shaped like the single-entry form, with action fields under {payload}. Rows are appended in file order and dated when they are appended; map an Effective Date column to keep each record's original date.",
+    "import.readFailed": "Failed to read the file",
+    "import.parsed": "{file}: {rows} rows, {columns} columns",
+    "import.mapTitle": "2. Map Columns",
+    "import.mapHint":
+      "Columns whose headers match a field were mapped automatically. Action fields only need mapping if the file contains that action.",
+    "import.notMapped": "— Not mapped —",
+    "import.checkTitle": "3. Check and Import",
+    "import.ready": "{ready} of {total} rows are ready",
+    "import.readyWithInvalid": "{ready} of {total} rows are ready; fix the {invalid} invalid rows before importing",
+    "import.importing": "Importing {done} / {total}...",
+    "import.submit": "Import {count} Rows",
+    "import.column.row": "Row",
+    "import.column.problems": "Problems",
+    "import.column.property": "Property",
+    "import.column.status": "Status",
+    "import.column.message": "Message",
+    "import.moreInvalid": "…and {count} more invalid rows.",
+    "import.reportTitle": "Import Report",
+    "import.summary": "{created} appended, {failed} rejected, {skipped} skipped",
+    "import.download": "Download Report (CSV)",
+    "import.appended": "Appended",
+    "import.failed": "Import failed",
+    "import.notSent": "{error}. Rows from {row} onward were not sent.",
+    "import.status.created": "created",
+    "import.status.failed": "failed",
+    "import.status.skipped": "skipped",
+    "import.error.fileEndsInQuote": "The file ends inside a quoted field",
+    "import.error.invalidJSON": "The file is not valid JSON",
+    "import.error.notArray": "Expected a JSON array of entries",
+    "import.error.notObject": "Row {row} is not a JSON object",
+    "import.error.empty": "The file is empty",
+    "import.error.tooManyCells": "Row {row} has {cells} cells but the header has {columns}",
+    "import.error.noRows": "The file has no data rows",
+    "import.error.required": "This field is required",
+    "import.error.landType": "Land type must be Agricultural or Non-Agricultural",
+    "import.error.unknownAction": 'Unknown action "{action}"',
+    "import.error.otherDetails": "Describe the event when using Other",
+    "import.error.correction": "Corrections are recorded one at a time on the admin form",
+    "import.error.reversalDetails": "Give the reason for the reversal",
+    "import.error.notCarried": "{action} entries do not carry this field",
+    "import.error.dateFormat": "Use the YYYY-MM-DD format",
+    "import.error.futureDate": "The date cannot be in the future",
+    "import.error.amount": "The amount must be at least 0.01",
+    "import.error.amountTooLarge": "The amount must be less than {max}",
+    "import.error.currency": "Use a three-letter ISO currency code such as INR",
+    "import.error.boundary": "Give the boundary as a GeoJSON Polygon",
+    "import.error.newOwnerMismatch": "The new owner must match the entry's owner ID",
+    "import.error.sameOwner": "The new owner must differ from the previous owner",
+
+    // Shared components
+    "activity.title": "Recent Activity",
+    "activity.status.connecting": "Connecting",
+    "activity.status.live": "Live",
+    "activity.status.reconnecting": "Reconnecting",
+    "activity.empty": "No entries have been recorded yet.",
+    "activity.owner": "Owner {owner}",
+    "activity.recordedBy": "recorded by {officer}",
+    "ownerPicker.missing": "No owner with this ID is registered. {register} before recording them as a new owner.",
+    "ownerPicker.register": "Register them",
+    "ownerPicker.failed": "The owner registry could not be checked",
+    "login.title": "Officer Sign In",
+    "login.officersOnly": "Only registry officers can access this area.",
+    "login.username": "Username",
+    "login.password": "Password",
+    "login.signIn": "Sign In",
+    "login.signingIn": "Signing in...",
+    "login.failed": "Failed to sign in",
+    "session.signOut": "Sign out",
+    "access.denied": "Access Denied",
+    "access.requires": "Signed in as {name} ({role}). This area requires the {roles} role.",
+    "access.or": " or ",
+    "access.switch": "Sign in as someone else",
+  },
+}
+
+export default en
@@ -0,0 +1,839 @@
+import type { Catalog } from "../i18n"
+
+const hi: Catalog = {
+  locale: "hi",
+  name: "हिन्दी",
+  messages: {
+    "layout.title": "डीलैंड - ब्लॉकचेन भूमि अभिलेख",
+    "layout.description": "ब्लॉकचेन तकनीक पर आधारित सुरक्षित और पारदर्शी भूमि रजिस्ट्री",
+    "layout.language": "भाषा",
+    "nav.backHome": "मुखपृष्ठ पर लौटें",
+    "nav.backAdmin": "प्रशासन पैनल पर लौटें",
+
+    // Ledger values
+    "action.AwardDeclared": "अवार्ड घोषित",
+    "action.Compensated": "मुआवज़ा भुगतान",
+    "action.OwnershipUpdated": "स्वामित्व अद्यतन",
+    "action.LandConverted": "भूमि परिवर्तित",
+    "action.BoundaryRecorded": "सीमा दर्ज",
+    "action.Subdivided": "उपविभाजित",
+    "action.Merged": "विलयित",
+    "action.LienRegistered": "धारणाधिकार दर्ज",
+    "action.LienReleased": "धारणाधिकार मुक्त",
+    "action.MortgageRegistered": "बंधक दर्ज",
+    "action.MortgageReleased": "बंधक मुक्त",
+    "action.StayOrdered": "न्यायालय स्थगन आदेश",
+    "action.StayLifted": "न्यायालय स्थगन हटा",
+    "action.Other": "अन्य",
+    "action.Correction": "संशोधन",
+    "action.Reversal": "निरस्तीकरण",
+    "landType.Agricultural": "कृषि",
+    "landType.Non-Agricultural": "गैर-कृषि",
+    "acquisition.unregistered": "अभी दर्ज नहीं",
+    "acquisition.registered": "पंजीकृत",
+    "acquisition.awarded": "अवार्ड घोषित (मुआवज़ा बाकी)",
+    "acquisition.compensated": "मुआवज़ा दिया गया",
+    "encumbrance.Lien": "धारणाधिकार",
+    "encumbrance.Mortgage": "बंधक",
+    "encumbrance.Stay": "न्यायालय स्थगन",
+    "party.seller": "विक्रेता",
+    "party.buyer": "क्रेता",
+    "party.registrar": "रजिस्ट्रार",
+    "transferStatus.draft": "विक्रेता की प्रतीक्षा",
+    "transferStatus.seller_approved": "क्रेता की प्रतीक्षा",
+    "transferStatus.buyer_accepted": "रजिस्ट्रार की प्रतीक्षा",
+    "transferStatus.finalizing": "पूर्ण हो रहा है",
+    "transferStatus.finalized": "पूर्ण",
+    "transferStatus.cancelled": "रद्द",
+    "transferStatus.expired": "समाप्त",
+    "transferStep.seller": "विक्रेता स्वीकृति देता है",
+    "transferStep.buyer": "क्रेता स्वीकार करता है",
+    "transferStep.registrar": "रजिस्ट्रार पूर्ण करता है",
+    "role.registrar": "रजिस्ट्रार",
+    "role.auditor": "लेखा परीक्षक",
+    "role.viewer": "दर्शक",
+    "signature.valid": "हस्ताक्षर मान्य",
+    "signature.missing": "हस्ताक्षर अनुपस्थित",
+    "signature.invalid": "हस्ताक्षर अमान्य",
+    "signature.unknown_key": "अज्ञात हस्ताक्षर कुंजी",
+    "signature.revoked": "रद्द की गई कुंजी से हस्ताक्षरित",
+    "signature.unsupported": "हस्ताक्षर जाँचा नहीं गया (ब्राउज़र में Ed25519 नहीं)",
+
+    // Payload fields
+    "section.AwardDeclared": "अवार्ड विवरण",
+    "section.Compensated": "भुगतान विवरण",
+    "section.OwnershipUpdated": "हस्तांतरण विवरण",
+    "section.LandConverted": "परिवर्तन विवरण",
+    "section.BoundaryRecorded": "भूखंड सीमा",
+    "section.Subdivided": "उपविभाजन",
+    "section.Merged": "विलय",
+    "section.LienRegistered": "धारणाधिकार",
+    "section.LienReleased": "धारणाधिकार मुक्ति",
+    "section.MortgageRegistered": "बंधक",
+    "section.MortgageReleased": "बंधक मुक्ति",
+    "section.StayOrdered": "न्यायालय स्थगन",
+    "section.StayLifted": "स्थगन हटाया गया",
+    "section.Correction": "संशोधन",
+    "section.Reversal": "निरस्तीकरण",
+    "field.award_number": "अवार्ड संख्या",
+    "field.award_date": "अवार्ड तिथि",
+    "field.amount": "राशि",
+    "field.currency": "मुद्रा",
+    "field.payment_reference": "भुगतान संदर्भ",
+    "field.previous_owner": "पूर्व स्वामी",
+    "field.new_owner": "नया स्वामी",
+    "field.deed_reference": "विलेख संदर्भ",
+    "field.override_reason": "अपवाद का कारण",
+    "field.conversion_order": "परिवर्तन आदेश",
+    "field.boundary": "सीमा",
+    "field.children": "नई संपत्तियाँ",
+    "field.parents": "जिनसे विलय हुआ",
+    "field.holder": "धारक",
+    "field.charge_reference": "प्रभार संदर्भ",
+    "field.court": "न्यायालय",
+    "field.case_number": "वाद संख्या",
+    "field.order_date": "आदेश तिथि",
+    "field.effective_date": "प्रभावी तिथि",
+    "field.amends": "संशोधित प्रविष्टि",
+    "field.owner_id": "स्वामी आईडी",
+    "field.land_type": "भूमि प्रकार",
+    "field.survey_number": "सर्वे संख्या",
+    "field.details": "विवरण",
+    "field.property_number": "संपत्ति संख्या",
+    "field.action": "कार्रवाई",
+    "field.LienRegistered.holder": "धारणाधिकार धारक",
+    "field.LienRegistered.amount": "सुरक्षित राशि",
+    "field.MortgageRegistered.holder": "ऋणदाता",
+    "field.MortgageRegistered.amount": "सुरक्षित राशि",
+    "field.Reversal.amends": "निरस्त प्रविष्टि",
+    "placeholder.Compensated.award_number": "जिस अवार्ड के विरुद्ध यह भुगतान है",
+    "placeholder.Compensated.payment_reference": "उदा., यूटीआर या चेक संख्या",
+    "placeholder.OwnershipUpdated.override_reason": "केवल सक्रिय स्थगन या धारणाधिकार के बावजूद दर्ज करते समय",
+    "placeholder.Subdivided.override_reason": "केवल सक्रिय स्थगन या धारणाधिकार के बावजूद दर्ज करते समय",
+    "placeholder.Merged.override_reason": "केवल सक्रिय स्थगन या धारणाधिकार के बावजूद दर्ज करते समय",
+    "placeholder.LienRegistered.holder": "उदा., लेनदार या कर प्राधिकरण",
+    "placeholder.LienReleased.charge_reference": "जिस धारणाधिकार का निर्वहन हो रहा है",
+    "placeholder.MortgageRegistered.holder": "उदा., स्टेट बैंक, मुख्य शाखा",
+    "placeholder.MortgageReleased.charge_reference": "जो बंधक मुक्त हो रहा है",
+    "placeholder.StayOrdered.court": "उदा., जिला न्यायालय, पुणे",
+    "placeholder.StayLifted.case_number": "वह वाद जिसका स्थगन हटाया गया",
+    "payload.corrected": "संशोधित {field}",
+    "payload.transfer": "हस्तांतरण",
+    "payload.approval": "{party} की स्वीकृति",
+    "payload.approvedOn": "{officer}, {date}",
+    "payload.mergedInto": "जिसमें विलय हुआ",
+    "payload.subdividedInto": "जिनमें उपविभाजित",
+    "payload.mergedFrom": "जिनसे विलय हुआ",
+    "payload.subdividedFrom": "जिससे उपविभाजित",
+
+    // Parcels
+    "geo.corners.one": "{count} कोना",
+    "geo.corners.other": "{count} कोने",
+    "geo.holes.one": "{count} रिक्त भाग",
+    "geo.holes.other": "{count} रिक्त भाग",
+
+    // Replayed state
+    "state.owner": "स्वामी",
+    "state.noOwner": "कोई दर्ज नहीं",
+    "state.landType": "भूमि प्रकार",
+    "state.surveyNumber": "सर्वे संख्या",
+    "state.awardStatus": "अवार्ड स्थिति",
+    "state.award": "अवार्ड",
+    "state.awardDatedFor": "{award}, दिनांक {date}, राशि {amount}",
+    "state.awardDated": "{award}, दिनांक {date}",
+    "state.awardFor": "{award}, राशि {amount}",
+    "state.compensationPaid": "भुगतान किया गया मुआवज़ा",
+    "state.payments.one": "{count} भुगतान",
+    "state.payments.other": "{count} भुगतान",
+    "state.outstanding": "बकाया",
+    "state.encumbrances": "भार",
+    "state.encumbrance": "{kind} {reference}",
+    "state.succeededBy": "उत्तराधिकारी",
+    "state.succession": "{action}: {properties}",
+    "state.lastEntry": "अंतिम प्रविष्टि",
+    "state.entryOn": "{action}, {date}",
+    "state.none": "कोई नहीं",
+
+    "owner.joint": "{name} (संयुक्त: {shares})",
+    "owner.id": "स्वामी आईडी",
+    "owner.contact": "संपर्क",
+    "owner.idDocument": "पहचान दस्तावेज़",
+    "owner.registered": "पंजीकृत",
+    "owner.updated": "अद्यतन {date}",
+    "owner.recordedBy": "द्वारा {officer}",
+    "owner.jointOwners": "संयुक्त स्वामी",
+    "owner.masked": "व्यक्तिगत विवरण आंशिक रूप से छिपे हैं। पूरा देखने के लिए अधिकारी के रूप में साइन इन करें।",
+
+    // Home
+    "home.title": "डीलैंड",
+    "home.subtitle": "ब्लॉकचेन भूमि अभिलेख प्रणाली",
+    "home.heading": "सुरक्षित भूमि रजिस्ट्री",
+    "home.tagline": "ब्लॉकचेन तकनीक पर आधारित पारदर्शी, अपरिवर्तनीय और छेड़छाड़-रोधी भूमि रजिस्ट्री प्रणाली",
+    "home.addEntry": "नई प्रविष्टि जोड़ें",
+    "home.addEntryText": "ब्लॉकचेन खाता-बही में नए भूमि अभिलेख दर्ज करें",
+    "home.searchProperty": "संपत्ति खोजें",
+    "home.searchPropertyText": "संपत्ति का विवरण और लेन-देन इतिहास देखें",
+    "home.ownerPortfolio": "स्वामी पोर्टफ़ोलियो",
+    "home.ownerPortfolioText": "किसी स्वामी की वर्तमान और पूर्व सभी संपत्तियाँ देखें",
+    "home.ownerRegistry": "स्वामी रजिस्ट्री",
+    "home.ownerRegistryText": "स्वामियों, उनके पहचान दस्तावेज़ों और संयुक्त हिस्सों को पंजीकृत करें",
+    "home.browseLedger": "खाता-बही देखें",
+    "home.browseLedgerText": "सर्वे संख्या, भूमि प्रकार, कार्रवाई या तिथि से प्रविष्टियाँ छाँटें",
+    "home.verifyCertificate": "प्रमाणपत्र सत्यापित करें",
+    "home.verifyCertificateText": "निर्यात किए गए प्रमाण बंडल को सर्वर के बिना ऑफ़लाइन दोबारा जाँचें",
+    "home.ledgerAudit": "खाता-बही ऑडिट",
+    "home.ledgerAuditText": "हर संपत्ति श्रृंखला में टूट, छेड़छाड़ और विसंगतियों की जाँच करें",
+    "home.transfers": "स्वामित्व हस्तांतरण",
+    "home.transfersText": "हस्तांतरण का मसौदा बनाएँ और विक्रेता, क्रेता व रजिस्ट्रार की स्वीकृतियाँ देखें",
+    "home.compensation": "मुआवज़ा",
+    "home.compensationText": "अवार्ड भुगतानों पर नज़र रखें और भुगतान की प्रतीक्षा वाले भूखंडों को देखें",
+    "home.parcelMap": "भूखंड मानचित्र",
+    "home.parcelMapText": "दर्ज सर्वे सीमाएँ देखें और किसी भी भूखंड का इतिहास खोलें",
+    "home.secure": "सुरक्षित",
+    "home.secureText": "ब्लॉकचेन आधारित सुरक्षा अभिलेखों को छेड़छाड़ से बचाती है",
+    "home.transparent": "पारदर्शी",
+    "home.transparentText": "सभी भूमि लेन-देन में पूर्ण पारदर्शिता",
+    "home.efficient": "कुशल",
+    "home.efficientText": "संपत्ति की जानकारी तक त्वरित पहुँच",
+
+    // Admin
+    "admin.title": "प्रशासन पैनल",
+    "admin.subtitle": "नई भूमि खाता-बही प्रविष्टियाँ जोड़ें",
+    "admin.bulkImport": "थोक आयात",
+    "admin.transfers": "हस्तांतरण",
+    "admin.publishCheckpoint": "चेकपॉइंट प्रकाशित करें",
+    "admin.checkpointPublished": "चेकपॉइंट #{sequence} {chains} संपत्ति श्रृंखलाओं पर प्रकाशित हुआ",
+    "admin.checkpointUnchanged": "चेकपॉइंट #{sequence} के बाद कोई श्रृंखला नहीं बदली",
+    "admin.checkpointFailed": "चेकपॉइंट प्रकाशित नहीं हो सका",
+    "admin.formTitle": "नई भूमि प्रविष्टि जोड़ें",
+    "admin.surveyNumber": "सर्वे संख्या",
+    "admin.surveyPlaceholder": "उदा., SY-001",
+    "admin.propertyNumber": "संपत्ति संख्या",
+    "admin.propertyPlaceholder": "उदा., PR-001",
+    "admin.newChain": "नई संपत्ति: यह प्रविष्टि इसकी श्रृंखला शुरू करती है",
+    "admin.appends": "{hash} के बाद प्रविष्टि #{position} के रूप में जुड़ेगी",
+    "admin.ownerId": "स्वामी आईडी",
+    "admin.ownerPlaceholder": "आईडी या नाम, उदा., OWN-001",
+    "admin.fromAmended": "संशोधित अभिलेख से भरा गया",
+    "admin.landType": "भूमि प्रकार",
+    "admin.action": "कार्रवाई",
+    "admin.hint.OwnershipUpdated":
+      "केवल उस संपत्ति के लिए जिसका कोई स्वामी दर्ज नहीं है। स्वामित्व वाली संपत्ति का स्वामित्व विक्रेता, क्रेता और रजिस्ट्रार द्वारा स्वीकृत {transfer} से बदलता है।",
+    "admin.hint.transfer": "हस्तांतरण",
+    "admin.hint.Subdivided":
+      "विभाजित हो रही संपत्ति पर दर्ज होता है। वह बंद हो जाती है, और हर नई संपत्ति इसी सर्वे संख्या, स्वामी और भूमि प्रकार के साथ इस प्रविष्टि से अपनी श्रृंखला शुरू करती है।",
+    "admin.hint.Merged":
+      "नई संपत्ति पर दर्ज होता है। इसमें विलय होने वाली हर संपत्ति बंद हो जाती है, और नई श्रृंखला उनकी अंतिम प्रविष्टियों से शुरू होती है। विलय होने वाली संपत्तियों का स्वामी और भूमि प्रकार यहाँ दिए गए के समान होना चाहिए।",
+    "admin.hint.charge":
+      "प्रभार संदर्भ दावे की पहचान तब तक करता है जब तक वह मुक्त न हो। सक्रिय धारणाधिकार स्वामित्व परिवर्तन, उपविभाजन और विलय रोकता है; बंधक भूमि के साथ चलता है।",
+    "admin.hint.StayOrdered": "उसी वाद संख्या के अंतर्गत स्थगन हटने तक स्वामित्व परिवर्तन, उपविभाजन और विलय रुके रहेंगे।",
+    "admin.paysAward": "अवार्ड {award} का भुगतान।",
+    "admin.paysAwardOutstanding": "अवार्ड {award} का भुगतान, {outstanding} बकाया।",
+    "admin.acceptCorrectedOverlap": "संशोधित सीमा दर्ज करें, भले ही वह किसी अन्य सर्वे संख्या की सीमा से टकराए",
+    "admin.acceptOverlap": "दर्ज करें, भले ही यह किसी अन्य सर्वे संख्या की सीमा से टकराए",
+    "admin.boundaryReads": "पढ़ी गई सीमा: {boundary}।",
+    "admin.boundaryHint": "देशांतर और अक्षांश में GeoJSON Polygon, या उसे रखने वाला Feature।",
+    "admin.boundaryInvalid": "सीमा को GeoJSON Polygon या उसे रखने वाले Feature के रूप में चिपकाएँ",
+    "admin.sameAsOwner": "स्वामी आईडी के समान",
+    "admin.details": "विवरण",
+    "admin.reason": "कारण",
+    "admin.remarks": "टिप्पणी",
+    "admin.detailsPlaceholder": "दर्ज की जा रही घटना का वर्णन करें...",
+    "admin.reasonPlaceholder": "प्रविष्टि में संशोधन क्यों हो रहा है...",
+    "admin.remarksPlaceholder": "ऊपर के क्षेत्रों में न आने वाली वैकल्पिक टिप्पणियाँ...",
+    "admin.adding": "प्रविष्टि जोड़ी जा रही है...",
+    "admin.submit": "भूमि प्रविष्टि जोड़ें",
+    "admin.added": "भूमि प्रविष्टि सफलतापूर्वक जोड़ी गई!",
+    "admin.conflict":
+      "लोड करने के बाद यह संपत्ति बदल गई है। इसकी नवीनतम प्रविष्टियाँ देखें और फिर से सबमिट करें।",
+    "admin.fixFields": "कृपया चिह्नित क्षेत्रों को ठीक करें",
+    "admin.addFailed": "भूमि प्रविष्टि नहीं जोड़ी जा सकी",
+    "amend.entryToCorrect": "संशोधित की जाने वाली प्रविष्टि",
+    "amend.entryToReverse": "निरस्त की जाने वाली प्रविष्टि",
+    "amend.choose": "प्रविष्टि चुनें...",
+    "amend.propertyFirst": "पहले संपत्ति संख्या दर्ज करें",
+    "amend.hintCorrection":
+      "मूल प्रविष्टि श्रृंखला पर बनी रहती है; समयरेखा उसे काटकर इस संशोधन से जुड़ा दिखाती है।",
+    "amend.hintReversal":
+      "मूल प्रविष्टि श्रृंखला पर बनी रहती है; समयरेखा उसे काटकर इस निरस्तीकरण से जुड़ा दिखाती है।",
+    "amend.changeOnly": "केवल वे मान बदलें जो गलत दर्ज हुए थे।",
+
+    // Property
+    "property.title": "संपत्ति खोज",
+    "property.subtitle": "संपत्ति का विवरण खोजें और खाता-बही इतिहास देखें",
+    "property.searchTitle": "संपत्ति अभिलेख खोजें",
+    "property.propertyNumber": "संपत्ति संख्या",
+    "property.placeholder": "संपत्ति संख्या दर्ज करें (उदा., PR-001)",
+    "property.search": "खोजें",
+    "property.searching": "खोज जारी है...",
+    "property.enterNumber": "कृपया संपत्ति संख्या दर्ज करें",
+    "property.fetchFailed": "संपत्ति का विवरण प्राप्त नहीं हो सका",
+    "property.noRecords": "कोई अभिलेख नहीं मिला",
+    "property.noEntries": "संपत्ति संख्या \"{property}\" के लिए कोई खाता-बही प्रविष्टि नहीं मिली",
+    "property.currentOwner": "वर्तमान स्वामी",
+    "property.exportBundle": "प्रमाण बंडल निर्यात करें",
+    "property.certificate": "मुद्रण योग्य प्रमाणपत्र",
+    "property.ownerId": "स्वामी आईडी: {owner}",
+    "property.numberLabel": "संपत्ति संख्या: {property}",
+    "property.signInForNames": "स्वामियों के पूरे नाम देखने के लिए साइन इन करें",
+    "property.verification": "ब्लॉकचेन सत्यापन",
+    "property.verifying": "ब्लॉकचेन की अखंडता सत्यापित हो रही है...",
+    "property.recomputing": "आपके ब्राउज़र में {count} प्रविष्टि हैश फिर से गणना किए जा रहे हैं",
+    "property.verified": "ब्लॉकचेन सत्यापित - अभिलेख प्रामाणिक",
+    "property.verifiedDetail":
+      "सभी {count} प्रविष्टि हैश और श्रृंखला कड़ियाँ स्थानीय रूप से दोबारा गणना कर मिलान की गईं",
+    "property.compromised": "ब्लॉकचेन की अखंडता भंग",
+    "property.breaksAt": "श्रृंखला {total} में से प्रविष्टि {position} पर टूटती है।",
+    "property.jumpToBroken": "पहली टूटी प्रविष्टि पर जाएँ",
+    "property.awaiting": "सत्यापन की प्रतीक्षा",
+    "property.awaitingDetail": "ब्लॉकचेन की अखंडता सत्यापित करने के लिए संपत्ति खोजें",
+    "property.signatures": "अधिकारी हस्ताक्षर",
+    "property.signaturesValid":
+      "{total} में से {valid} प्रविष्टियों पर प्रकाशित रजिस्ट्री की कुंजी से मान्य हस्ताक्षर है।",
+    "property.signaturesFlagged": "चिह्नित प्रविष्टियाँ नीचे समयरेखा में दिखाई गई हैं।",
+    "property.registryFailed": "सार्वजनिक कुंजी रजिस्ट्री लोड नहीं हो सकी, इसलिए हस्ताक्षर नहीं जाँचे गए",
+    "property.checkpoint": "चेकपॉइंट #{sequence}",
+    "property.anchorCovered":
+      "{total} में से {covered} प्रविष्टियाँ {date} को {chains} संपत्ति श्रृंखलाओं पर प्रकाशित हस्ताक्षरित मर्कल रूट में शामिल हैं।",
+    "property.anchorHash": "चेकपॉइंट का हैश उसकी सामग्री से मेल नहीं खाता।",
+    "property.anchorSignature": "चेकपॉइंट के हस्ताक्षर की पुष्टि नहीं हो सकी ({status})।",
+    "property.anchorRoot": "समावेशन प्रमाण चेकपॉइंट के रूट तक नहीं पहुँचता।",
+    "property.anchorHead":
+      "चेकपॉइंट में दर्ज श्रृंखला शीर्ष इस इतिहास में नहीं है, अर्थात चेकपॉइंट के बाद प्रविष्टियाँ बदली गईं।",
+    "property.anchorLater": "बाद की प्रविष्टियाँ अगले चेकपॉइंट में शामिल होंगी।",
+    "property.root": "रूट {root}",
+    "property.notCheckpointed": "यह संपत्ति अभी किसी प्रकाशित चेकपॉइंट में शामिल नहीं है",
+    "property.checkpointFailed": "नवीनतम चेकपॉइंट नहीं जाँचा जा सका",
+    "property.timeline": "संपत्ति इतिहास समयरेखा",
+    "property.new": "नया",
+    "property.owner": "स्वामी",
+    "property.hashVerified": "हैश सत्यापित",
+    "property.chainBreaks": "श्रृंखला यहाँ टूटती है",
+    "property.afterBreak": "सत्यापन योग्य नहीं (टूट के बाद)",
+    "property.key": "कुंजी {key}",
+    "property.entry": "प्रविष्टि #{position}",
+    "property.reversedBy": "{entry} द्वारा {date} को निरस्त: {reason}",
+    "property.correctedBy": "संशोधित करने वाली प्रविष्टियाँ:",
+    "property.reverses": "निरस्त करती है",
+    "property.corrects": "संशोधित करती है",
+    "property.surveyNumber": "सर्वे संख्या",
+    "property.landType": "भूमि प्रकार",
+    "property.remarks": "टिप्पणी",
+    "property.details": "विवरण",
+    "property.recordedBy": "{officer} द्वारा दर्ज",
+    "property.hashMismatch": "हैश मेल नहीं खाता",
+    "property.linkMismatch": "पिछले हैश की कड़ी मेल नहीं खाती",
+    "property.sequenceMismatch": "क्रम मेल नहीं खाता: #{sequence} के रूप में दर्ज, पर स्थान {position} पर मिली",
+    "hashDiff.expected": "अपेक्षित",
+    "hashDiff.actual": "वास्तविक",
+    "hashDiff.empty": "(रिक्त)",
+
+    // Property panels
+    "encumbrances.title": "सक्रिय भार",
+    "encumbrances.description": "इस संपत्ति की श्रृंखला पर दर्ज दावे जो अभी मुक्त नहीं हुए हैं।",
+    "encumbrances.none": "कोई धारणाधिकार, बंधक या न्यायालय स्थगन सक्रिय नहीं है।",
+    "encumbrances.ordered": "आदेश {date}",
+    "encumbrances.since": "{date} से",
+    "encumbrances.viewEntry": "प्रविष्टि देखें",
+    "encumbrances.blocked":
+      "न्यायालय स्थगन या धारणाधिकार सक्रिय रहते न स्वामित्व बदल सकता है, न संपत्ति का उपविभाजन या विलय हो सकता है, जब तक प्रविष्टि में अपवाद का कारण न दिया जाए।",
+    "parcel.title": "भूखंड सीमा",
+    "parcel.loadFailed": "भूखंड सीमा लोड नहीं हो सकी",
+    "parcel.recorded": "सर्वे संख्या {survey}: {boundary}, {date} को दर्ज",
+    "parcel.none": "सर्वे संख्या {survey} के लिए कोई सीमा दर्ज नहीं है।",
+    "parcel.openMap": "मानचित्र खोलें",
+    "parcel.overlaps": "यह सीमा {surveys} की दर्ज सीमा से टकराती है।",
+    "lineage.title": "वंशावली",
+    "lineage.description":
+      "वे संपत्तियाँ जिनसे और जिनमें यह संपत्ति उपविभाजित या विलयित हुई। इतिहास खोलने के लिए किसी संपत्ति पर क्लिक करें।",
+    "lineage.loadFailed": "संपत्ति की वंशावली लोड नहीं हो सकी",
+    "lineage.label": "{property} की वंशावली",
+    "lineage.edge": "{parent} → {child} ({action})",
+    "lineage.unverifiedEdge": "(कड़ी सत्यापित नहीं होती)",
+    "lineage.notRecorded": "अभी दर्ज नहीं",
+    "lineage.unverified": "{links}: उप-संपत्ति की आरंभिक प्रविष्टि मूल संपत्ति की अंतिम प्रविष्टि से मेल नहीं खाती।",
+    "lineage.truncated": "केवल निकटतम {count} संपत्तियाँ दिखाई गई हैं।",
+    "pointInTime.title": "इस समय का अभिलेख",
+    "pointInTime.beforeFirst": "पहली प्रविष्टि से पहले",
+    "pointInTime.after": "#{position} {action} के बाद · {date}",
+    "pointInTime.replays": "{total} में से {count} प्रविष्टियाँ दोहराई गईं, अंतिम {date} को दर्ज।",
+    "pointInTime.nothingYet": "तब तक इस संपत्ति के लिए कुछ दर्ज नहीं हुआ था।",
+    "pointInTime.latest": "नवीनतम",
+    "pointInTime.latestPoint": "{point} (नवीनतम)",
+    "pointInTime.compare": "दो बिंदुओं की तुलना करें",
+    "pointInTime.from": "से",
+    "pointInTime.to": "तक",
+    "pointInTime.same": "दोनों बिंदुओं पर अभिलेख समान है।",
+    "pointInTime.field": "क्षेत्र",
+    "pointInTime.before": "पहले",
+    "pointInTime.afterColumn": "बाद में",
+    "pointInTime.between.one": "बीच में {count} प्रविष्टि:",
+    "pointInTime.between.other": "बीच में {count} प्रविष्टियाँ:",
+    "attachments.title": "संलग्नक",
+    "attachments.checkHash": "हैश जाँचें",
+    "attachments.check.checking": "जाँच जारी है...",
+    "attachments.check.match": "✓ हैश मेल खाता है",
+    "attachments.check.mismatch": "✗ हैश मेल नहीं खाता",
+    "attachments.check.error": "डाउनलोड नहीं हो सका",
+    "upload.tooMany": "एक प्रविष्टि में अधिकतम {max} संलग्नक हो सकते हैं",
+    "upload.tooLarge": "{name} {size} से बड़ी है",
+    "upload.digestMismatch": "सर्वर ने {name} को भिन्न SHA-256 के साथ सहेजा; इसे फिर से अपलोड करें",
+    "upload.failed": "फ़ाइल अपलोड नहीं हो सकी",
+    "upload.remove": "हटाएँ",
+    "upload.uploading": "अपलोड हो रहा है...",
+    "upload.hint":
+      "विलेख, अवार्ड आदेश या रसीदें, प्रत्येक {size} तक। हर फ़ाइल का SHA-256 प्रविष्टि के हैश में दर्ज होता है।",
+
+    // Ledger search
+    "search.title": "खाता-बही खोज",
+    "search.subtitle": "सर्वे संख्या, स्वामी, कार्रवाई आदि के आधार पर खाता-बही प्रविष्टियाँ देखें",
+    "search.filters": "फ़िल्टर",
+    "search.surveyNumber": "सर्वे संख्या",
+    "search.surveyPlaceholder": "उदा., SY-001",
+    "search.ownerId": "स्वामी आईडी",
+    "search.ownerPlaceholder": "उदा., OWN-001",
+    "search.detailsContain": "विवरण में शामिल",
+    "search.freeText": "मुक्त पाठ खोज",
+    "search.landType": "भूमि प्रकार",
+    "search.action": "कार्रवाई",
+    "search.any": "कोई भी",
+    "search.from": "से",
+    "search.to": "तक",
+    "search.clear": "साफ़ करें",
+    "search.search": "खोजें",
+    "search.searching": "खोज जारी है...",
+    "search.dateRange": "आरंभ तिथि अंतिम तिथि से पहले या उसी दिन होनी चाहिए",
+    "search.failed": "खाता-बही खोजी नहीं जा सकी",
+    "search.results": "परिणाम",
+    "search.entries.one": "{count} प्रविष्टि",
+    "search.entries.other": "{count} प्रविष्टियाँ",
+    "search.noRecords": "कोई अभिलेख नहीं मिला",
+    "search.noMatches": "इन फ़िल्टरों से कोई खाता-बही प्रविष्टि मेल नहीं खाती",
+    "search.column.recorded": "दर्ज",
+    "search.column.property": "संपत्ति",
+    "search.column.survey": "सर्वे",
+    "search.column.owner": "स्वामी",
+    "search.column.landType": "भूमि प्रकार",
+    "search.column.action": "कार्रवाई",
+    "search.column.details": "विवरण",
+    "search.previous": "पिछला",
+    "search.next": "अगला",
+    "search.page": "पृष्ठ {page} / {total}",
+
+    // Owner registry
+    "owners.title": "स्वामी रजिस्ट्री",
+    "owners.subtitle": "खाता-बही की प्रत्येक स्वामी आईडी किसे दर्शाती है",
+    "owners.registerTitle": "स्वामी पंजीकृत करें",
+    "owners.editTitle": "{owner} संपादित करें",
+    "owners.registerHint":
+      "पंजीकरण से पहले स्वामी का पहचान दस्तावेज़ जाँचें। किसी खाता-बही प्रविष्टि या हस्तांतरण में नए स्वामी के रूप में नाम आने से पहले स्वामी का पंजीकृत होना आवश्यक है।",
+    "owners.individual": "व्यक्तिगत",
+    "owners.jointOwners": "संयुक्त स्वामी",
+    "owners.ownerId": "स्वामी आईडी",
+    "owners.ownerPlaceholder": "उदा., OWN-001",
+    "owners.name": "नाम",
+    "owners.fullName": "पूरा नाम",
+    "owners.jointNamePlaceholder": "उदा., कुमार परिवार",
+    "owners.namePlaceholder": "पहचान दस्तावेज़ के अनुसार",
+    "owners.contact": "संपर्क",
+    "owners.contactPlaceholder": "फ़ोन नंबर या ईमेल",
+    "owners.idDocument": "पहचान दस्तावेज़",
+    "owners.idDocumentPlaceholder": "उदा., आधार",
+    "owners.documentNumber": "दस्तावेज़ संख्या",
+    "owners.members": "सदस्य और हिस्से",
+    "owners.memberPlaceholder": "पंजीकृत स्वामी आईडी या नाम",
+    "owners.share": "हिस्सा (%)",
+    "owners.removeMember": "सदस्य हटाएँ",
+    "owners.addMember": "सदस्य जोड़ें",
+    "owners.shareTotal": "कुल: {total}%",
+    "owners.cancel": "रद्द करें",
+    "owners.saving": "सहेजा जा रहा है...",
+    "owners.saveChanges": "परिवर्तन सहेजें",
+    "owners.register": "स्वामी पंजीकृत करें",
+    "owners.saveFailed": "स्वामी सहेजा नहीं जा सका",
+    "owners.viewPortfolio": "पोर्टफ़ोलियो देखें",
+    "owners.edit": "संपादित करें",
+    "owners.find": "स्वामी खोजें",
+    "owners.findPlaceholder": "स्वामी आईडी या नाम",
+    "owners.findExactPlaceholder": "सटीक स्वामी आईडी",
+    "owners.search": "खोजें",
+    "owners.searching": "खोज जारी है...",
+    "owners.searchFailed": "स्वामी रजिस्ट्री खोजी नहीं जा सकी",
+    "owners.loadFailed": "स्वामी लोड नहीं हो सका",
+    "owners.loading": "स्वामी लोड हो रहे हैं...",
+    "owners.noMatches": "कोई पंजीकृत स्वामी मेल नहीं खाता।",
+    "owners.column.id": "स्वामी आईडी",
+    "owners.column.name": "नाम",
+    "owners.column.identity": "पहचान",
+    "owners.column.contact": "संपर्क",
+    "owners.jointShares": "संयुक्त: {shares}",
+    "owners.masked": "नाम और पहचान विवरण आंशिक रूप से छिपे हैं। पूरा देखने के लिए अधिकारी के रूप में साइन इन करें।",
+
+    // Owner portfolio
+    "portfolio.title": "स्वामी पोर्टफ़ोलियो",
+    "portfolio.subtitle": "देखें कि किसी स्वामी के पास आज कौन सी संपत्तियाँ हैं और पहले कौन सी थीं",
+    "portfolio.searchTitle": "स्वामी से खोजें",
+    "portfolio.ownerId": "स्वामी आईडी",
+    "portfolio.placeholder": "स्वामी आईडी दर्ज करें (उदा., OWN-001)",
+    "portfolio.search": "खोजें",
+    "portfolio.searching": "खोज जारी है...",
+    "portfolio.enterOwner": "कृपया स्वामी आईडी दर्ज करें",
+    "portfolio.fetchFailed": "स्वामी पोर्टफ़ोलियो प्राप्त नहीं हो सका",
+    "portfolio.openInRegistry": "रजिस्ट्री में खोलें",
+    "portfolio.current": "वर्तमान में धारित",
+    "portfolio.currentDescription": "वे संपत्तियाँ जिनकी नवीनतम अवार्ड या स्वामित्व प्रविष्टि में {owner} का नाम है",
+    "portfolio.noCurrent": "{owner} के पास वर्तमान में कोई संपत्ति नहीं है।",
+    "portfolio.former": "पहले धारित",
+    "portfolio.formerDescription": "वे संपत्तियाँ जो तब से किसी अन्य स्वामी को चली गई हैं",
+    "portfolio.noFormer": "पहले की कोई धारिता दर्ज नहीं है।",
+    "portfolio.column.property": "संपत्ति",
+    "portfolio.column.survey": "सर्वे",
+    "portfolio.column.landType": "भूमि प्रकार",
+    "portfolio.column.acquired": "प्राप्त",
+    "portfolio.column.released": "छोड़ी गई",
+    "portfolio.column.nowHeldBy": "अब धारक",
+    "portfolio.column.lastAction": "अंतिम कार्रवाई",
+
+    // Ledger audit (lib/audit.ts)
+    "audit.title": "खाता-बही ऑडिट",
+    "audit.subtitle": "हर संपत्ति श्रृंखला में छेड़छाड़ और विसंगतियों की जाँच करें",
+    "audit.scanTitle": "अखंडता स्कैन",
+    "audit.scanDescription":
+      "सर्वर पर हर संपत्ति श्रृंखला को एक बार में {batch} संपत्तियों के हिसाब से फिर से सत्यापित करता है।",
+    "audit.started": "{started} को आरंभ",
+    "audit.paused": "{started} को आरंभ — रुका हुआ",
+    "audit.finished": "{started} को आरंभ, {finished} को पूर्ण",
+    "audit.pause": "रोकें",
+    "audit.resume": "स्कैन फिर से शुरू करें",
+    "audit.start": "स्कैन शुरू करें",
+    "audit.startNew": "नया स्कैन शुरू करें",
+    "audit.scanFailed": "स्कैन विफल रहा",
+    "audit.resumeAfter": "{error}। जहाँ रुका था वहीं से जारी रखने के लिए फिर से शुरू करें।",
+    "audit.progress": "{total} में से {properties} संपत्तियाँ · {entries} प्रविष्टियाँ",
+    "audit.percent": "{percent}%",
+    "audit.allFindings": "सभी निष्कर्ष",
+    "audit.affected.one": "{count} संपत्ति प्रभावित",
+    "audit.affected.other": "{count} संपत्तियाँ प्रभावित",
+    "audit.downloadCSV": "CSV डाउनलोड करें",
+    "audit.downloadJSON": "JSON डाउनलोड करें",
+    "audit.clean": "कोई समस्या नहीं मिली।",
+    "audit.cleanSoFar": "अब तक स्कैन की गई संपत्तियों में कोई समस्या नहीं मिली।",
+    "audit.entry": "प्रविष्टि #{position}",
+    "audit.more.one": "…और {count} संपत्ति। पूरी सूची के लिए रिपोर्ट डाउनलोड करें।",
+    "audit.more.other": "…और {count} संपत्तियाँ। पूरी सूची के लिए रिपोर्ट डाउनलोड करें।",
+    "finding.broken_link.title": "टूटी कड़ियाँ",
+    "finding.broken_link.description":
+      "किसी प्रविष्टि का prev_hash या क्रम संख्या उससे पहले की प्रविष्टि के अनुरूप नहीं है",
+    "finding.hash_mismatch.title": "हैश बेमेल",
+    "finding.hash_mismatch.description": "किसी प्रविष्टि का संग्रहीत हैश उसकी पुनर्गणित सामग्री से मेल नहीं खाता",
+    "finding.orphan.title": "अनाथ प्रविष्टियाँ",
+    "finding.orphan.description": "कोई प्रविष्टि ऐसे हैश से जुड़ी है जो उसकी संपत्ति की श्रृंखला में नहीं है",
+    "finding.duplicate_id.title": "दोहरी आईडी",
+    "finding.duplicate_id.description": "खाता-बही में एक से अधिक प्रविष्टियों की आईडी एक ही है",
+    "finding.survey_mismatch.title": "सर्वे असहमति",
+    "finding.survey_mismatch.description": "एक ही संपत्ति की प्रविष्टियों में अलग-अलग सर्वे संख्याएँ दर्ज हैं",
+
+    // Compensation (lib/compensation.ts)
+    "compensation.title": "मुआवज़ा",
+    "compensation.subtitle": "घोषित अवार्ड और उन पर शेष भुगतान",
+    "compensation.awards": "अवार्ड",
+    "compensation.surveyNumber": "सर्वे संख्या",
+    "compensation.allSurveys": "सभी सर्वे संख्याएँ",
+    "compensation.apply": "लागू करें",
+    "compensation.orderBy": "क्रम",
+    "compensation.byAge": "अवधि (सबसे पुराने पहले)",
+    "compensation.bySurvey": "सर्वे संख्या",
+    "compensation.downloadCSV": "CSV डाउनलोड करें",
+    "compensation.loadFailed": "मुआवज़ा रिपोर्ट लोड नहीं हो सकी",
+    "compensation.outstanding": "बकाया",
+    "compensation.noAmounts": "कोई अवार्ड राशि दर्ज नहीं है",
+    "compensation.across.one": "{count} अवार्ड पर",
+    "compensation.across.other": "{count} अवार्डों पर",
+    "compensation.awaiting": "भुगतान की प्रतीक्षा",
+    "compensation.asOf": "{date} तक",
+    "compensation.loading": "अवार्ड लोड हो रहे हैं...",
+    "compensation.none": "कोई अवार्ड नहीं मिला।",
+    "compensation.column.property": "सर्वे / संपत्ति",
+    "compensation.column.award": "अवार्ड",
+    "compensation.column.age": "अवधि",
+    "compensation.column.awarded": "अवार्ड राशि",
+    "compensation.column.paid": "भुगतान",
+    "compensation.column.outstanding": "बकाया",
+    "compensation.column.status": "स्थिति",
+    "compensation.owner": "स्वामी {owner}",
+    "compensation.days.one": "{count} दिन",
+    "compensation.days.other": "{count} दिन",
+    "compensation.payments.one": "{count} भुगतान",
+    "compensation.payments.other": "{count} भुगतान",
+    "compensationFilter.outstanding": "बकाया",
+    "compensationFilter.paid": "पूर्ण भुगतान",
+    "compensationFilter.all": "सभी अवार्ड",
+    "awardStatus.pending": "अदत्त",
+    "awardStatus.partial": "आंशिक भुगतान",
+    "awardStatus.paid": "भुगतान पूर्ण",
+    "ageBracket.under90": "90 दिन से कम",
+    "ageBracket.to180": "90–180 दिन",
+    "ageBracket.to365": "181–365 दिन",
+    "ageBracket.overYear": "एक वर्ष से अधिक",
+
+    // Parcel map (components/ParcelMap.tsx)
+    "map.title": "भूखंड मानचित्र",
+    "map.subtitle": "दर्ज सर्वे सीमाएँ; किसी भूखंड का इतिहास खोलने के लिए उस पर क्लिक करें",
+    "map.surveyNumber": "सर्वे संख्या",
+    "map.placeholder": "भूखंड खोजें (उदा., SY-001)",
+    "map.show": "दिखाएँ",
+    "map.loadFailed": "भूखंड सीमाएँ लोड नहीं हो सकीं",
+    "map.notRecorded": "सर्वे संख्या {survey} के लिए कोई सीमा दर्ज नहीं की गई है",
+    "map.loading": "भूखंड सीमाएँ लोड हो रही हैं...",
+    "map.empty": "अभी तक कोई भूखंड सीमा दर्ज नहीं की गई है।",
+    "map.hint":
+      "ज़ूम करने के लिए स्क्रॉल करें या बटन का उपयोग करें और खिसकाने के लिए खींचें। लाल धराशायी रेखा वाली सीमाएँ किसी अन्य भूखंड से टकराती हैं।",
+    "map.zoomIn": "ज़ूम इन",
+    "map.zoomOut": "ज़ूम आउट",
+    "map.resetView": "दृश्य रीसेट करें",
+    "map.selected": "सर्वे संख्या {survey}",
+    "map.recorded": "{boundary}। {date} को {property} पर दर्ज।",
+    "map.properties": "संपत्तियाँ:",
+    "map.overlaps": "{surveys} से टकराती है",
+    "map.overlapping": "टकराती सीमाएँ",
+    "map.parcelOverlaps": "{survey} की सीमा {surveys} से टकराती है",
+
+    // Transfers (lib/transfers.ts)
+    "transfers.title": "स्वामित्व हस्तांतरण",
+    "transfers.subtitle": "विक्रेता की स्वीकृति, क्रेता की सहमति और रजिस्ट्रार का अनुमोदन",
+    "transfers.draftTitle": "हस्तांतरण का मसौदा बनाएँ",
+    "transfers.draftHint":
+      "संपत्ति का वर्तमान स्वामी विक्रेता है। मसौदा बनने के बाद विक्रेता और क्रेता को उनके लिंक भेजें।",
+    "transfers.propertyNumber": "संपत्ति संख्या",
+    "transfers.propertyPlaceholder": "उदा., PR-001",
+    "transfers.buyer": "क्रेता (स्वामी आईडी)",
+    "transfers.buyerPlaceholder": "आईडी या नाम, उदा., OWN-002",
+    "transfers.deedReference": "विलेख संदर्भ",
+    "transfers.deedPlaceholder": "उदा., DEED-2024-0042",
+    "transfers.expiresAfter": "समाप्ति (दिनों में)",
+    "transfers.remarks": "टिप्पणी",
+    "transfers.remarksPlaceholder": "स्वामित्व प्रविष्टि पर दर्ज होने वाली वैकल्पिक टिप्पणियाँ...",
+    "transfers.drafting": "मसौदा बन रहा है...",
+    "transfers.draft": "मसौदा बनाएँ",
+    "transfers.draftFailed": "हस्तांतरण का मसौदा नहीं बन सका",
+    "transfers.listTitle": "हस्तांतरण",
+    "transfers.allStatuses": "सभी स्थितियाँ",
+    "transfers.loading": "हस्तांतरण लोड हो रहे हैं...",
+    "transfers.loadFailed": "हस्तांतरण लोड नहीं हो सके",
+    "transfers.none": "कोई हस्तांतरण नहीं मिला।",
+    "transfers.column.property": "संपत्ति",
+    "transfers.column.parties": "विक्रेता → क्रेता",
+    "transfers.column.status": "स्थिति",
+    "transfers.column.drafted": "मसौदा तिथि",
+    "transfers.column.expires": "समाप्ति",
+    "transfers.by": "{officer} द्वारा",
+    "transfers.seller.title": "हस्तांतरण स्वीकृत करें",
+    "transfers.seller.subtitle": "अपनी संपत्ति की बिक्री की समीक्षा करें और स्वीकृति दें",
+    "transfers.buyer.title": "हस्तांतरण स्वीकार करें",
+    "transfers.buyer.subtitle": "आपको हस्तांतरित की जा रही संपत्ति की समीक्षा करें और उसे स्वीकार करें",
+    "transferReview.title": "हस्तांतरण की समीक्षा",
+    "transferReview.subtitle": "पक्षों के लिंक साझा करें, फिर दोनों की स्वीकृति के बाद पूर्ण करें",
+    "transferReview.allTransfers": "सभी हस्तांतरण",
+    "transferReview.noneSelected": "कोई हस्तांतरण चयनित नहीं है।",
+    "transferReview.loadFailed": "हस्तांतरण लोड नहीं हो सका",
+    "transferReview.requestFailed": "अनुरोध विफल रहा",
+    "transferReview.linksTitle": "पक्षों के लिंक",
+    "transferReview.linksHint": "हर लिंक केवल उसी पक्ष को भेजें; जिसके पास लिंक है वह उनकी ओर से कार्य कर सकता है।",
+    "transferReview.sellerLink": "विक्रेता ({owner})",
+    "transferReview.buyerLink": "क्रेता ({owner})",
+    "transferReview.copy": "कॉपी करें",
+    "transferReview.copied": "कॉपी हो गया",
+    "transferReview.decisionTitle": "रजिस्ट्रार का निर्णय",
+    "transferReview.finalizeHint":
+      "पूर्ण करने पर ऊपर की सभी स्वीकृतियों सहित {buyer} के नाम की स्वामित्व प्रविष्टि जुड़ जाती है।",
+    "transferReview.awaitingApprovals":
+      "विक्रेता और क्रेता दोनों की स्वीकृति के बाद ही हस्तांतरण पूर्ण किया जा सकता है।",
+    "transferReview.overrideReason": "अपवाद का कारण",
+    "transferReview.overridePlaceholder": "सक्रिय स्थगन या धारणाधिकार के बावजूद स्वामित्व परिवर्तन दर्ज करने का कारण",
+    "transferReview.overrideHint": "कारण स्वामित्व प्रविष्टि पर दर्ज होता है।",
+    "transferReview.cancelReason": "कारण (रद्द करने पर)",
+    "transferReview.cancelReasonPlaceholder": "वैकल्पिक",
+    "transferReview.cancel": "हस्तांतरण रद्द करें",
+    "transferReview.finalize": "हस्तांतरण पूर्ण करें",
+    "transferReview.saving": "सहेजा जा रहा है...",
+    "transferSummary.title": "{property} का हस्तांतरण",
+    "transferSummary.seller": "से (विक्रेता)",
+    "transferSummary.buyer": "को (क्रेता)",
+    "transferSummary.deedReference": "विलेख संदर्भ",
+    "transferSummary.surveyNumber": "सर्वे संख्या",
+    "transferSummary.landType": "भूमि प्रकार",
+    "transferSummary.expires": "समाप्ति",
+    "transferSummary.expired": "समाप्त",
+    "transferSummary.remarks": "टिप्पणी",
+    "transferSummary.approvals": "स्वीकृतियाँ",
+    "transferSummary.cancelled": "{party} ({officer}) द्वारा {date} को रद्द किया गया",
+    "transferSummary.cancelledBecause": "{party} ({officer}) द्वारा {date} को रद्द किया गया: {reason}",
+    "transferSummary.recorded": "खाता-बही में प्रविष्टि {entry} के रूप में दर्ज। {link}",
+    "transferSummary.viewHistory": "संपत्ति का इतिहास देखें",
+    "partyTransfer.seller.prompt":
+      "आप {property} के स्वामी के रूप में दर्ज हैं। क्या इसे {buyer} को सौंपने की स्वीकृति देते हैं?",
+    "partyTransfer.seller.action": "हस्तांतरण स्वीकृत करें",
+    "partyTransfer.seller.wrongLink": "यह लिंक इस हस्तांतरण के विक्रेता का लिंक नहीं है।",
+    "partyTransfer.buyer.prompt":
+      "{seller} ने {property} को आपको हस्तांतरित करने की स्वीकृति दी है। क्या आप इसे स्वीकार करते हैं?",
+    "partyTransfer.buyer.action": "हस्तांतरण स्वीकार करें",
+    "partyTransfer.buyer.wrongLink": "यह लिंक इस हस्तांतरण के क्रेता का लिंक नहीं है।",
+    "partyTransfer.incomplete": "यह लिंक अधूरा है। रजिस्ट्रार से इसे फिर से भेजने को कहें।",
+    "partyTransfer.loadFailed": "हस्तांतरण लोड नहीं हो सका",
+    "partyTransfer.saveFailed": "आपका निर्णय दर्ज नहीं हो सका",
+    "partyTransfer.waiting": "अभी आपसे कुछ अपेक्षित नहीं है। आप अब भी इस हस्तांतरण से हट सकते हैं।",
+    "partyTransfer.reason": "कारण (अस्वीकार करने पर)",
+    "partyTransfer.reasonPlaceholder": "वैकल्पिक",
+    "partyTransfer.decline": "अस्वीकार करें",
+    "partyTransfer.saving": "सहेजा जा रहा है...",
+
+    // Proof bundle verification
+    "verifyBundle.title": "प्रमाण बंडल सत्यापित करें",
+    "verifyBundle.subtitle": "निर्यात किए गए संपत्ति अभिलेख को पूरी तरह अपने ब्राउज़र में दोबारा जाँचें",
+    "verifyBundle.drop": "प्रमाण बंडल यहाँ छोड़ें या चुनने के लिए क्लिक करें",
+    "verifyBundle.dropHint":
+      "कुछ भी अपलोड नहीं होता: हैश, श्रृंखला कड़ियाँ और हस्ताक्षर केवल बंडल की सामग्री से इसी डिवाइस पर दोबारा गणना किए जाते हैं।",
+    "verifyBundle.verifying": "{file} सत्यापित हो रहा है...",
+    "verifyBundle.notBundle": "यह डीलैंड प्रमाण बंडल नहीं है ({reason})",
+    "verifyBundle.readFailed": "फ़ाइल पढ़ी नहीं जा सकी",
+    "verifyBundle.verified": "बंडल सत्यापित",
+    "verifyBundle.notVerified": "बंडल सत्यापित नहीं होता",
+    "verifyBundle.verifiedDetail": "सभी {count} प्रविष्टियाँ अपने दर्ज हैश से मेल खाती हैं और उत्पत्ति तक जुड़ती हैं।",
+    "verifyBundle.breaksAt": "श्रृंखला {total} में से प्रविष्टि {position} पर टूटती है।",
+    "verifyBundle.headMismatch": "बंडल का chain_head उसकी अंतिम प्रविष्टि से मेल नहीं खाता।",
+    "verifyBundle.inputMismatch": "कुछ दर्ज हैश इनपुट अपनी प्रविष्टियों से मेल नहीं खाते।",
+    "verifyBundle.contents": "बंडल की सामग्री",
+    "verifyBundle.propertyNumber": "संपत्ति संख्या",
+    "verifyBundle.currentOwner": "वर्तमान स्वामी",
+    "verifyBundle.exported": "निर्यात",
+    "verifyBundle.keys": "शामिल हस्ताक्षर कुंजियाँ",
+    "verifyBundle.noKeys": "कोई नहीं",
+    "verifyBundle.keysHint":
+      "हस्ताक्षर इन्हीं बंडल की कुंजियों से जाँचे जाते हैं; कौन-से अधिकारी इन्हें रखते हैं, यह पुष्टि करने के लिए कुंजी आईडी की तुलना प्रकाशित रजिस्ट्री से करें।",
+    "verifyBundle.chainHead": "श्रृंखला-शीर्ष हैश",
+    "verifyBundle.entries": "प्रविष्टियाँ",
+    "verifyBundle.column.action": "कार्रवाई",
+    "verifyBundle.column.recorded": "दर्ज",
+    "verifyBundle.column.hashInput": "हैश इनपुट",
+    "verifyBundle.column.hash": "हैश",
+    "verifyBundle.column.link": "कड़ी",
+    "verifyBundle.column.signature": "हस्ताक्षर",
+    "verifyBundle.afterBreak": "टूट के बाद",
+    "verifyBundle.signature.valid": "मान्य",
+    "verifyBundle.signature.missing": "अनुपस्थित",
+    "verifyBundle.signature.invalid": "अमान्य",
+    "verifyBundle.signature.unknown_key": "कुंजी बंडल में नहीं",
+    "verifyBundle.signature.revoked": "रद्द की गई कुंजी",
+    "verifyBundle.signature.unsupported": "जाँचा नहीं गया (ब्राउज़र में Ed25519 नहीं)",
+    "verifyBundle.recipe": "यह बंडल कैसे सत्यापित होता है",
+    "certificate.back": "संपत्ति पर लौटें",
+    "certificate.download": "प्रमाण बंडल डाउनलोड करें",
+    "certificate.print": "प्रिंट करें / PDF के रूप में सहेजें",
+    "certificate.noProperty": "कोई संपत्ति संख्या नहीं दी गई",
+    "certificate.loadFailed": "संपत्ति अभिलेख लोड नहीं हो सका",
+    "certificate.preparing": "प्रमाणपत्र तैयार हो रहा है...",
+    "certificate.issuer": "डीलैंड भूमि अभिलेख",
+    "certificate.title": "भूमि अभिलेख प्रमाणपत्र",
+    "certificate.issued": "जारी: {date}",
+    "certificate.propertyNumber": "संपत्ति संख्या",
+    "certificate.surveyNumber": "सर्वे संख्या",
+    "certificate.currentOwner": "वर्तमान स्वामी",
+    "certificate.landType": "भूमि प्रकार",
+    "certificate.chainHead": "श्रृंखला-शीर्ष हैश",
+    "certificate.intact":
+      "यह प्रमाणपत्र जारी होते समय सभी {count} प्रविष्टि हैश और श्रृंखला कड़ियाँ दोबारा गणना की गईं और मेल खाती हैं।",
+    "certificate.broken":
+      "श्रृंखला प्रविष्टि {position} पर टूटती है; इस अभिलेख को अक्षुण्ण प्रमाणित नहीं किया जा सकता।",
+    "certificate.signed": "{total} में से {signed} प्रविष्टियों पर मान्य अधिकारी हस्ताक्षर हैं।",
+    "certificate.history": "अभिलेख इतिहास",
+    "certificate.column.date": "तिथि",
+    "certificate.column.action": "कार्रवाई",
+    "certificate.column.owner": "स्वामी",
+    "certificate.column.hash": "हैश",
+    "certificate.howToCheck":
+      "यह प्रमाणपत्र ऊपर दी गई संपत्ति की हैश-श्रृंखलित खाता-बही का सार है। इसे स्वतंत्र रूप से जाँचने के लिए इसका प्रमाण बंडल ({file}) डीलैंड के /verify-bundle पृष्ठ पर लोड करें, जो ऑफ़लाइन भी काम करता है, या बंडल में दी गई विधि का स्वयं पालन करें।",
+    "certificate.headChanges": "इस संपत्ति के लिए हर नई प्रविष्टि दर्ज होने पर श्रृंखला-शीर्ष हैश बदल जाता है।",
+
+    // Bulk import (lib/import.ts)
+    "import.title": "थोक आयात",
+    "import.subtitle": "CSV या JSON फ़ाइल से पुराने भूमि अभिलेख जोड़ें",
+    "import.chooseTitle": "1. फ़ाइल चुनें",
+    "import.chooseHint":
+      "CSV फ़ाइलों में शीर्ष पंक्ति होनी चाहिए। JSON फ़ाइलों में एकल-प्रविष्टि फ़ॉर्म जैसी प्रविष्टियों की सरणी होती है, जिनके कार्रवाई क्षेत्र {payload} के अंतर्गत होते हैं। पंक्तियाँ फ़ाइल के क्रम में जोड़ी जाती हैं और जोड़े जाने की तिथि पाती हैं; हर अभिलेख की मूल तिथि रखने के लिए प्रभावी तिथि स्तंभ मैप करें।",
+    "import.readFailed": "फ़ाइल पढ़ी नहीं जा सकी",
+    "import.parsed": "{file}: {rows} पंक्तियाँ, {columns} स्तंभ",
+    "import.mapTitle": "2. स्तंभ मैप करें",
+    "import.mapHint":
+      "जिन स्तंभों के शीर्षक किसी क्षेत्र से मेल खाते हैं, वे अपने-आप मैप हो गए हैं। कार्रवाई क्षेत्रों को तभी मैप करना है जब फ़ाइल में वह कार्रवाई हो।",
+    "import.notMapped": "— मैप नहीं किया गया —",
+    "import.checkTitle": "3. जाँचें और आयात करें",
+    "import.ready": "{total} में से {ready} पंक्तियाँ तैयार हैं",
+    "import.readyWithInvalid":
+      "{total} में से {ready} पंक्तियाँ तैयार हैं; आयात से पहले {invalid} अमान्य पंक्तियाँ ठीक करें",
+    "import.importing": "आयात हो रहा है {done} / {total}...",
+    "import.submit": "{count} पंक्तियाँ आयात करें",
+    "import.column.row": "पंक्ति",
+    "import.column.problems": "समस्याएँ",
+    "import.column.property": "संपत्ति",
+    "import.column.status": "स्थिति",
+    "import.column.message": "संदेश",
+    "import.moreInvalid": "…और {count} अन्य अमान्य पंक्तियाँ।",
+    "import.reportTitle": "आयात रिपोर्ट",
+    "import.summary": "{created} जोड़ी गईं, {failed} अस्वीकृत, {skipped} छोड़ी गईं",
+    "import.download": "रिपोर्ट डाउनलोड करें (CSV)",
+    "import.appended": "जोड़ी गई",
+    "import.failed": "आयात विफल रहा",
+    "import.notSent": "{error}। पंक्ति {row} से आगे की पंक्तियाँ नहीं भेजी गईं।",
+    "import.status.created": "जोड़ी गई",
+    "import.status.failed": "अस्वीकृत",
+    "import.status.skipped": "छोड़ी गई",
+    "import.error.fileEndsInQuote": "फ़ाइल उद्धरण-चिह्नों वाले किसी क्षेत्र के भीतर समाप्त होती है",
+    "import.error.invalidJSON": "फ़ाइल मान्य JSON नहीं है",
+    "import.error.notArray": "प्रविष्टियों की JSON सरणी अपेक्षित है",
+    "import.error.notObject": "पंक्ति {row} JSON ऑब्जेक्ट नहीं है",
+    "import.error.empty": "फ़ाइल खाली है",
+    "import.error.tooManyCells": "पंक्ति {row} में {cells} कोष्ठ हैं, पर शीर्ष पंक्ति में {columns} हैं",
+    "import.error.noRows": "फ़ाइल में डेटा की कोई पंक्ति नहीं है",
+    "import.error.required": "यह क्षेत्र आवश्यक है",
+    "import.error.landType": "भूमि का प्रकार Agricultural या Non-Agricultural होना चाहिए",
+    "import.error.unknownAction": 'अज्ञात कार्रवाई "{action}"',
+    "import.error.otherDetails": "अन्य का उपयोग करते समय घटना का वर्णन करें",
+    "import.error.correction": "संशोधन प्रशासन पैनल के फ़ॉर्म पर एक-एक करके दर्ज किए जाते हैं",
+    "import.error.reversalDetails": "निरस्तीकरण का कारण बताएँ",
+    "import.error.notCarried": "{action} प्रविष्टियों में यह क्षेत्र नहीं होता",
+    "import.error.dateFormat": "YYYY-MM-DD प्रारूप का उपयोग करें",
+    "import.error.futureDate": "तिथि भविष्य की नहीं हो सकती",
+    "import.error.amount": "राशि कम से कम 0.01 होनी चाहिए",
+    "import.error.amountTooLarge": "राशि {max} से कम होनी चाहिए",
+    "import.error.currency": "तीन अक्षरों वाला ISO मुद्रा कोड दें, उदा. INR",
+    "import.error.boundary": "सीमा GeoJSON Polygon के रूप में दें",
+    "import.error.newOwnerMismatch": "नया स्वामी प्रविष्टि के स्वामी ID से मेल खाना चाहिए",
+    "import.error.sameOwner": "नया स्वामी पिछले स्वामी से भिन्न होना चाहिए",
+
+    // Shared components
+    "activity.title": "हाल की गतिविधि",
+    "activity.status.connecting": "जुड़ रहा है",
+    "activity.status.live": "लाइव",
+    "activity.status.reconnecting": "फिर से जुड़ रहा है",
+    "activity.empty": "अभी तक कोई प्रविष्टि दर्ज नहीं हुई है।",
+    "activity.owner": "स्वामी {owner}",
+    "activity.recordedBy": "{officer} द्वारा दर्ज",
+    "ownerPicker.missing": "इस आईडी का कोई स्वामी पंजीकृत नहीं है। नए स्वामी के रूप में दर्ज करने से पहले {register}।",
+    "ownerPicker.register": "उन्हें पंजीकृत करें",
+    "ownerPicker.failed": "स्वामी रजिस्ट्री नहीं जाँची जा सकी",
+    "login.title": "अधिकारी साइन इन",
+    "login.officersOnly": "केवल रजिस्ट्री अधिकारी इस क्षेत्र तक पहुँच सकते हैं।",
+    "login.username": "उपयोगकर्ता नाम",
+    "login.password": "पासवर्ड",
+    "login.signIn": "साइन इन करें",
+    "login.signingIn": "साइन इन हो रहा है...",
+    "login.failed": "साइन इन नहीं हो सका",
+    "session.signOut": "साइन आउट",
+    "access.denied": "पहुँच अस्वीकृत",
+    "access.requires": "{name} ({role}) के रूप में साइन इन। इस क्षेत्र के लिए {roles} भूमिका आवश्यक है।",
+    "access.or": " या ",
+    "access.switch": "किसी अन्य के रूप में साइन इन करें",
+  },
+}
+
+export default hi
@@ -0,0 +1,259 @@
+// Per-action payload fields, mirroring payloadFields in server/payload.go.
+// Drives both the dynamic sections of the admin form and the timeline.
+
+import { describeBoundary, parseBoundary } from "./geo"
+import type { I18n } from "./i18n"
+import type { Action, ActionPayload, CorrectedFields } from "./types"
+
+export type PayloadFieldName = keyof ActionPayload
+// "properties" is a comma-separated list of property numbers.
+export type PayloadFieldKind = "text" | "date" | "amount" | "currency" | "geojson" | "properties"
+
+export interface PayloadFieldSpec {
+  name: PayloadFieldName
+  // In English; pages show the catalog's label (I18n.fieldLabel), and bulk
+  // import also matches spreadsheet columns against it.
+  label: string
+  kind: PayloadFieldKind
+  placeholder?: string
+  // Marks the fields server/payload.go does not require.
+  optional?: boolean
+}
+
+// Given when an ownership change, subdivision or merger is recorded despite an
+// active stay or lien (server/encumbrance.go).
+const OVERRIDE_REASON_FIELD: PayloadFieldSpec = {
+  name: "override_reason",
+  label: "Override Reason",
+  kind: "text",
+  placeholder: "Only when recording despite an active stay or lien",
+  optional: true,
+}
+
+export const PAYLOAD_FIELDS: Record<Action, PayloadFieldSpec[]> = {
+  AwardDeclared: [
+    { name: "award_number", label: "Award Number", kind: "text", placeholder: "e.g., AW/2024/017" },
+    { name: "award_date", label: "Award Date", kind: "date" },
+    { name: "amount", label: "Amount", kind: "amount", placeholder: "e.g., 2500000" },
+    { name: "currency", label: "Currency", kind: "currency", placeholder: "INR" },
+  ],
+  Compensated: [
+    { name: "award_number", label: "Award Number", kind: "text", placeholder: "The award this payment is against" },
+    { name: "amount", label: "Amount", kind: "amount", placeholder: "e.g., 1250000" },
+    { name: "currency", label: "Currency", kind: "currency", placeholder: "INR" },
+    { name: "payment_reference", label: "Payment Reference", kind: "text", placeholder: "e.g., UTR or cheque number" },
+  ],
+  OwnershipUpdated: [
+    { name: "previous_owner", label: "Previous Owner", kind: "text", placeholder: "e.g., OWN-001" },
+    { name: "new_owner", label: "New Owner", kind: "text", placeholder: "e.g., OWN-002" },
+    { name: "deed_reference", label: "Deed Reference", kind: "text", placeholder: "e.g., DEED-2024-0042" },
+    OVERRIDE_REASON_FIELD,
+  ],
+  LandConverted: [{ name: "conversion_order", label: "Conversion Order", kind: "text", placeholder: "e.g., CO/2024/9" }],
+  BoundaryRecorded: [
+    {
+      name: "boundary",
+      label: "Boundary",
+      kind: "geojson",
+      placeholder: '{"type": "Polygon", "coordinates": [[[77.59, 12.97], [77.6, 12.97], ...]]}',
+    },
+  ],
+  // Entries opening the new properties are written by the server: the
+  // children of a subdivision, the parents of a merger (server/lineage.go).
+  Subdivided: [
+    { name: "children", label: "New Properties", kind: "properties", placeholder: "e.g., PR-001-A, PR-001-B" },
+    OVERRIDE_REASON_FIELD,
+  ],
+  Merged: [
+    { name: "parents", label: "Merged From", kind: "properties", placeholder: "e.g., PR-001, PR-002" },
+    OVERRIDE_REASON_FIELD,
+  ],
+  // A registration and its release share the charge reference or case number
+  // (server/encumbrance.go).
+  LienRegistered: [
+    { name: "holder", label: "Lien Holder", kind: "text", placeholder: "e.g., the creditor or tax authority" },
+    { name: "charge_reference", label: "Charge Reference", kind: "text", placeholder: "e.g., LIEN/2024/031" },
+    { name: "amount", label: "Amount Secured", kind: "amount", optional: true },
+    { name: "currency", label: "Currency", kind: "currency", placeholder: "INR", optional: true },
+  ],
+  LienReleased: [
+    { name: "charge_reference", label: "Charge Reference", kind: "text", placeholder: "The lien being discharged" },
+  ],
+  MortgageRegistered: [
+    { name: "holder", label: "Lender", kind: "text", placeholder: "e.g., State Bank, Main Branch" },
+    { name: "charge_reference", label: "Charge Reference", kind: "text", placeholder: "e.g., MTG/2024/118" },
+    { name: "amount", label: "Amount Secured", kind: "amount", optional: true },
+    { name: "currency", label: "Currency", kind: "currency", placeholder: "INR", optional: true },
+  ],
+  MortgageReleased: [
+    { name: "charge_reference", label: "Charge Reference", kind: "text", placeholder: "The mortgage being released" },
+  ],
+  StayOrdered: [
+    { name: "court", label: "Court", kind: "text", placeholder: "e.g., District Court, Pune" },
+    { name: "case_number", label: "Case Number", kind: "text", placeholder: "e.g., OS 412/2024" },
+    { name: "order_date", label: "Order Date", kind: "date" },
+  ],
+  StayLifted: [
+    { name: "case_number", label: "Case Number", kind: "text", placeholder: "The case whose stay is lifted" },
+    { name: "order_date", label: "Order Date", kind: "date" },
+  ],
+  Other: [],
+  // The corrected fields are entered against the amended entry's own fields
+  // rather than listed here.
+  Correction: [{ name: "amends", label: "Amends Entry", kind: "text" }],
+  Reversal: [{ name: "amends", label: "Reverses Entry", kind: "text" }],
+}
+
+// Any action may carry an effective date, but only when imported in bulk
+// (server/import.go), so it is not listed per action above.
+export const EFFECTIVE_DATE_FIELD: PayloadFieldSpec = { name: "effective_date", label: "Effective Date", kind: "date" }
+
+// The entry fields a Correction may replace, besides the payload.
+export const CORRECTED_ENTRY_FIELDS: { name: Exclude<keyof CorrectedFields, "payload">; label: string }[] = [
+  { name: "owner_id", label: "Owner ID" },
+  { name: "land_type", label: "Land Type" },
+  { name: "survey_number", label: "Survey Number" },
+  { name: "details", label: "Details" },
+]
+
+export const isKnownAction = (action: string): action is Action => action in PAYLOAD_FIELDS
+
+export const formatPayloadValue = (spec: PayloadFieldSpec, payload: ActionPayload, i18n: I18n) => {
+  const value = payload[spec.name]
+  if (value === undefined) return ""
+  if (spec.kind === "amount" && typeof value === "number") return i18n.formatAmount(value, payload.currency)
+  if (spec.kind === "geojson" && payload.boundary) return describeBoundary(payload.boundary, i18n)
+  if (spec.kind === "properties") return propertyNumbers(payload).join(", ")
+  return String(value)
+}
+
+// Fields written by finalizing a transfer rather than entered on the form,
+// and the amendment fields the timeline shows as links and corrections.
+const TRANSFER_FIELDS: PayloadFieldName[] = ["transfer_id", "approvals"]
+const AMENDMENT_FIELDS: PayloadFieldName[] = ["amends", "corrected"]
+const LINEAGE_FIELDS: PayloadFieldName[] = ["children", "parents"]
+
+const payloadSpec = (name: PayloadFieldName) =>
+  [...Object.values(PAYLOAD_FIELDS).flat(), EFFECTIVE_DATE_FIELD].find((spec) => spec.name === name)
+
+// Lists what a Correction changes, labelled after the corrected fields.
+export const describeCorrection = (corrected: CorrectedFields | undefined, i18n: I18n) => {
+  if (!corrected) return []
+  const { t, fieldLabel } = i18n
+  const entryRows = CORRECTED_ENTRY_FIELDS.filter((field) => corrected[field.name] !== undefined).map((field) => ({
+    label: t("payload.corrected", { field: fieldLabel("", field) }),
+    value: corrected[field.name] as string,
+  }))
+  const payload = corrected.payload ?? {}
+  const payloadRows = (Object.keys(payload) as PayloadFieldName[])
+    .filter((name) => payload[name] !== undefined)
+    .map((name) => {
+      const spec = payloadSpec(name)
+      return {
+        label: t("payload.corrected", { field: spec ? fieldLabel("", spec) : name }),
+        value: spec ? formatPayloadValue(spec, payload, i18n) : String(payload[name]),
+      }
+    })
+  return [...entryRows, ...payloadRows]
+}
+
+const describeTransfer = (payload: ActionPayload, { t, formatDate }: I18n) => [
+  ...(payload.transfer_id ? [{ label: t("payload.transfer"), value: payload.transfer_id }] : []),
+  ...(payload.approvals ?? []).map((approval) => ({
+    label: t("payload.approval", { party: t(`party.${approval.party}`) }),
+    value: t("payload.approvedOn", { officer: approval.by, date: formatDate(approval.at) }),
+  })),
+]
+
+// The same lineage fields read differently on the entry closing a parent and
+// the entry opening a child.
+const describeLineage = (action: string, payload: ActionPayload, { t }: I18n) => [
+  ...(payload.children?.length
+    ? [
+        {
+          label: t(action === "Merged" ? "payload.mergedInto" : "payload.subdividedInto"),
+          value: payload.children.join(", "),
+        },
+      ]
+    : []),
+  ...(payload.parents?.length
+    ? [
+        {
+          label: t(action === "Merged" ? "payload.mergedFrom" : "payload.subdividedFrom"),
+          value: payload.parents.map((link) => link.property_number).join(", "),
+        },
+      ]
+    : []),
+]
+
+// Lists an entry's payload fields in display order, including any the client
+// does not know about so nothing hashed is hidden from the viewer.
+export const describePayload = (action: string, payload: ActionPayload | undefined, i18n: I18n) => {
+  if (!payload) return []
+  const specs = [...(isKnownAction(action) ? PAYLOAD_FIELDS[action] : []), EFFECTIVE_DATE_FIELD]
+  const known = specs
+    .filter((spec) => payload[spec.name] !== undefined && !(spec.kind === "currency" && payload.amount !== undefined))
+    .filter((spec) => !AMENDMENT_FIELDS.includes(spec.name) && !LINEAGE_FIELDS.includes(spec.name))
+    .map((spec) => ({ label: i18n.fieldLabel(action, spec), value: formatPayloadValue(spec, payload, i18n) }))
+  const unknown = (Object.keys(payload) as PayloadFieldName[])
+    .filter(
+      (name) =>
+        payload[name] !== undefined &&
+        !specs.some((spec) => spec.name === name) &&
+        !TRANSFER_FIELDS.includes(name) &&
+        !AMENDMENT_FIELDS.includes(name) &&
+        !LINEAGE_FIELDS.includes(name),
+    )
+    .map((name) => ({ label: name, value: String(payload[name]) }))
+  return [
+    ...known,
+    ...describeLineage(action, payload, i18n),
+    ...describeTransfer(payload, i18n),
+    ...describeCorrection(payload.corrected, i18n),
+    ...unknown,
+  ]
+}
+
+// The property numbers on the other side of a subdivision or merger.
+export const propertyNumbers = (payload: ActionPayload) => [
+  ...(payload.children ?? []),
+  ...(payload.parents ?? []).map((link) => link.property_number),
+]
+
+const splitList = (raw: string) =>
+  raw
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+
+// Turns raw form or spreadsheet strings into a payload for the given action,
+// dropping blanks and fields the action does not carry. Amounts that do not
+// parse are passed through as NaN so validation can flag them; boundaries
+// that are not a GeoJSON polygon are dropped, so check them with
+// parseBoundary first.
+export const buildPayload = (action: Action, values: Partial<Record<PayloadFieldName, string>>) => {
+  const payload: ActionPayload = {}
+  for (const spec of PAYLOAD_FIELDS[action]) {
+    const raw = values[spec.name]?.trim()
+    if (!raw) continue
+    // A currency means nothing without the amount it qualifies.
+    if (spec.kind === "currency" && !values.amount?.trim()) continue
+    if (spec.kind === "amount") {
+      payload.amount = Number(raw)
+    } else if (spec.kind === "geojson") {
+      const boundary = parseBoundary(raw)
+      if (boundary) payload.boundary = boundary
+    } else if (spec.name === "children") {
+      payload.children = splitList(raw)
+    } else if (spec.name === "parents") {
+      payload.parents = splitList(raw).map((property_number) => ({ property_number }))
+    } else {
+      const name = spec.name as Exclude<
+        PayloadFieldName,
+        "amount" | "approvals" | "corrected" | "boundary" | "children" | "parents"
+      >
+      payload[name] = spec.kind === "currency" ? raw.toUpperCase() : raw
+    }
+  }
+  return Object.keys(payload).length > 0 ? payload : undefined
+}
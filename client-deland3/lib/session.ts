@@ -0,0 +1,52 @@
+// Officer session persisted in localStorage. Components subscribe through
+// useSession so signing in or out anywhere re-renders every gated view.
+
+import { useSyncExternalStore } from "react"
+import type { Session } from "./types"
+
+const STORAGE_KEY = "deland.session"
+
+const listeners = new Set<() => void>()
+let cachedRaw: string | null = null
+let cachedSession: Session | null = null
+
+const notify = () => listeners.forEach((listener) => listener())
+
+export const getSession = (): Session | null => {
+  if (typeof window === "undefined") return null
+  const raw = window.localStorage.getItem(STORAGE_KEY)
+  if (raw !== cachedRaw) {
+    cachedRaw = raw
+    try {
+      cachedSession = raw ? (JSON.parse(raw) as Session) : null
+    } catch {
+      cachedSession = null
+    }
+  }
+  if (cachedSession && cachedSession.expires_at * 1000 <= Date.now()) return null
+  return cachedSession
+}
+
+export const saveSession = (session: Session) => {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(session))
+  notify()
+}
+
+export const clearSession = () => {
+  window.localStorage.removeItem(STORAGE_KEY)
+  notify()
+}
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener)
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener()
+  }
+  window.addEventListener("storage", onStorage)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener("storage", onStorage)
+  }
+}
+
+export const useSession = (): Session | null => useSyncExternalStore(subscribe, getSession, () => null)
@@ -0,0 +1,103 @@
+// Verifies officer Ed25519 signatures on ledger entries against the published
+// key registry. The registry is served with the web app rather than by the API
+// server, so tampering with the server's database cannot swap in new keys.
+
+import { array, number, object, optional, string } from "./decode"
+import type { KeyRegistry, LedgerEntry, PublicKeyRecord } from "./types"
+
+export const KEY_REGISTRY_URL = process.env.NEXT_PUBLIC_KEY_REGISTRY_URL || "/key-registry.json"
+
+export type SignatureStatus = "valid" | "missing" | "invalid" | "unknown_key" | "revoked" | "unsupported"
+
+export interface SignatureCheck {
+  id: string
+  status: SignatureStatus
+  key?: PublicKeyRecord
+}
+
+export const keyRegistry = object<KeyRegistry>({
+  keys: array(
+    object<PublicKeyRecord>({
+      key_id: string,
+      officer: string,
+      algorithm: string,
+      public_key: string,
+      revoked_at: optional(number),
+    }),
+  ),
+})
+
+export const loadKeyRegistry = async (signal?: AbortSignal): Promise<KeyRegistry> => {
+  const response = await fetch(KEY_REGISTRY_URL, { signal, cache: "no-store" })
+  if (!response.ok) throw new Error(`Key registry unavailable (${response.status})`)
+  return keyRegistry(await response.json())
+}
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+const importedKeys = new Map<string, Promise<CryptoKey>>()
+
+const importPublicKey = (record: PublicKeyRecord) => {
+  let key = importedKeys.get(record.public_key)
+  if (!key) {
+    key = crypto.subtle.importKey("raw", fromBase64(record.public_key), { name: "Ed25519" }, false, ["verify"])
+    importedKeys.set(record.public_key, key)
+  }
+  return key
+}
+
+// Anything signed by a registry key over its hex hash: ledger entries and
+// checkpoints alike.
+export interface SignedRecord {
+  hash: string
+  timestamp: number
+  key_id?: string
+  signature?: string
+}
+
+export const verifySignature = async (
+  record: SignedRecord,
+  registry: KeyRegistry,
+): Promise<{ status: SignatureStatus; key?: PublicKeyRecord }> => {
+  if (!record.signature || !record.key_id) return { status: "missing" }
+
+  const key = registry.keys.find((candidate) => candidate.key_id === record.key_id)
+  if (!key || key.algorithm !== "Ed25519") return { status: "unknown_key" }
+  if (key.revoked_at !== undefined && record.timestamp >= key.revoked_at) {
+    return { status: "revoked", key }
+  }
+
+  let publicKey: CryptoKey
+  try {
+    publicKey = await importPublicKey(key)
+  } catch {
+    // Older browsers do not implement Ed25519 in Web Crypto.
+    importedKeys.delete(key.public_key)
+    return { status: "unsupported", key }
+  }
+
+  try {
+    const valid = await crypto.subtle.verify(
+      { name: "Ed25519" },
+      publicKey,
+      fromBase64(record.signature),
+      new TextEncoder().encode(record.hash),
+    )
+    return { status: valid ? "valid" : "invalid", key }
+  } catch {
+    return { status: "invalid", key }
+  }
+}
+
+export const verifyEntrySignature = async (entry: LedgerEntry, registry: KeyRegistry): Promise<SignatureCheck> => ({
+  id: entry.id,
+  ...(await verifySignature(entry, registry)),
+})
+
+export const verifyEntrySignatures = (entries: LedgerEntry[], registry: KeyRegistry) =>
+  Promise.all(entries.map((entry) => verifyEntrySignature(entry, registry)))
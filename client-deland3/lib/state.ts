@@ -0,0 +1,316 @@
+// Point-in-time reconstruction of a property's record. replayState mirrors
+// replayPropertyState in server/rules.go and also totals what was awarded and
+// paid, so a dispute can be settled against the record as it stood on a date.
+
+import { amendedHistory } from "./amend"
+import type { I18n } from "./i18n"
+import type { ActionPayload, LedgerEntry } from "./types"
+
+export type AcquisitionStatus = "unregistered" | "registered" | "awarded" | "compensated"
+
+export type EncumbranceKind = "Lien" | "Mortgage" | "Stay"
+
+// A claim still in force against the property. reference is the charge
+// reference of a lien or mortgage, or the case number of a stay; holder is
+// the creditor, the lender or the court.
+export interface Encumbrance {
+  kind: EncumbranceKind
+  reference: string
+  holder: string
+  amount?: number
+  currency?: string
+  // The entry that registered it, and when.
+  entryId: string
+  since: number
+  orderDate?: string
+}
+
+// The encumbrance each action registers or releases, mirroring
+// encumbranceAction in server/encumbrance.go.
+const ENCUMBRANCE_ACTIONS: Record<string, { kind: EncumbranceKind; registers: boolean }> = {
+  LienRegistered: { kind: "Lien", registers: true },
+  LienReleased: { kind: "Lien", registers: false },
+  MortgageRegistered: { kind: "Mortgage", registers: true },
+  MortgageReleased: { kind: "Mortgage", registers: false },
+  StayOrdered: { kind: "Stay", registers: true },
+  StayLifted: { kind: "Stay", registers: false },
+}
+
+// Stays and liens stop ownership changing; a mortgage travels with the land.
+export const blocksTransfer = (encumbrance: Encumbrance) => encumbrance.kind !== "Mortgage"
+
+export interface PropertyState {
+  entryCount: number
+  lastEntry: LedgerEntry | null
+  owner: string | null
+  landType: string | null
+  surveyNumber: string | null
+  acquisition: AcquisitionStatus
+  awardNumber: string | null
+  awardDate: string | null
+  // Null for awards declared before amounts were recorded.
+  awardAmount: { currency: string; amount: number } | null
+  // Amount paid against the award per currency, in the order currencies
+  // first appear.
+  compensation: { currency: string; amount: number }[]
+  payments: number
+  // Set once the property has been subdivided or merged into others.
+  closedBy: string | null
+  successors: string[]
+  encumbrances: Encumbrance[]
+}
+
+// Whole cents, so sums of payments compare exactly against the award.
+const cents = (amount: number) => Math.round(amount * 100)
+
+// What is still owed on the award, or null when there is no award amount.
+export const outstandingAmount = (state: PropertyState) => {
+  if (!state.awardAmount) return null
+  const { currency, amount } = state.awardAmount
+  const paid = state.compensation.find((item) => item.currency === currency)?.amount ?? 0
+  return Math.max(cents(amount) - cents(paid), 0) / 100
+}
+
+// Replays entries given in chain order, as amended by their corrections and
+// reversals.
+export const replayState = (entries: LedgerEntry[]): PropertyState => {
+  const state: PropertyState = {
+    entryCount: 0,
+    lastEntry: null,
+    owner: null,
+    landType: null,
+    surveyNumber: null,
+    acquisition: "unregistered",
+    awardNumber: null,
+    awardDate: null,
+    awardAmount: null,
+    compensation: [],
+    payments: 0,
+    closedBy: null,
+    successors: [],
+    encumbrances: [],
+  }
+  for (const entry of amendedHistory(entries)) {
+    if (state.acquisition === "unregistered") state.acquisition = "registered"
+    state.landType = entry.land_type
+    state.surveyNumber = entry.survey_number
+    switch (entry.action) {
+      case "AwardDeclared":
+        state.acquisition = "awarded"
+        state.owner = entry.owner_id
+        state.awardNumber = entry.payload?.award_number ?? null
+        state.awardDate = entry.payload?.award_date ?? null
+        state.awardAmount =
+          entry.payload?.amount === undefined
+            ? null
+            : { currency: entry.payload.currency ?? "", amount: entry.payload.amount }
+        state.compensation = []
+        state.payments = 0
+        break
+      case "Compensated": {
+        state.payments++
+        const { amount, currency = "" } = entry.payload ?? {}
+        if (amount !== undefined) {
+          const total = state.compensation.find((item) => item.currency === currency)
+          if (total) total.amount = (cents(total.amount) + cents(amount)) / 100
+          else state.compensation.push({ currency, amount })
+        }
+        // A partial payment leaves the award pending.
+        if (!state.awardAmount || outstandingAmount(state) === 0) state.acquisition = "compensated"
+        break
+      }
+      case "OwnershipUpdated":
+        state.owner = entry.owner_id
+        break
+      case "Subdivided":
+      case "Merged":
+        // A child opens owned by whoever owned its parents.
+        if (entry.payload?.parents?.length) state.owner = entry.owner_id
+        if (entry.payload?.children?.length) {
+          state.closedBy = entry.action
+          state.successors = entry.payload.children
+        }
+        break
+    }
+    const encumbrance = ENCUMBRANCE_ACTIONS[entry.action]
+    if (encumbrance) {
+      const { kind, registers } = encumbrance
+      const payload = entry.payload ?? {}
+      const reference = (kind === "Stay" ? payload.case_number : payload.charge_reference) ?? ""
+      if (registers) {
+        state.encumbrances.push({
+          kind,
+          reference,
+          holder: (kind === "Stay" ? payload.court : payload.holder) ?? "",
+          amount: payload.amount,
+          currency: payload.currency,
+          entryId: entry.id,
+          since: entry.timestamp,
+          orderDate: payload.order_date,
+        })
+      } else {
+        state.encumbrances = state.encumbrances.filter(
+          (item) => item.kind !== kind || item.reference !== reference,
+        )
+      }
+    }
+  }
+  state.entryCount = entries.length
+  state.lastEntry = entries[entries.length - 1] ?? null
+  return state
+}
+
+// The survey number, owner and land type an amendment must restate: the
+// record as it stands once the amendment applies to entries.
+export const restatedRecord = (entries: LedgerEntry[], action: string, payload: ActionPayload) => {
+  // Amendments drop out of the amended history, so only action and payload matter.
+  const amendment: LedgerEntry = {
+    id: "",
+    survey_number: "",
+    property_number: "",
+    owner_id: "",
+    land_type: "",
+    action,
+    details: "",
+    payload,
+    timestamp: 0,
+    prev_hash: "",
+    hash: "",
+  }
+  const state = replayState([...entries, amendment])
+  const amended = amendedHistory([...entries, amendment])
+  return {
+    survey_number: state.surveyNumber ?? "",
+    owner_id: state.owner ?? amended[amended.length - 1]?.owner_id ?? "",
+    land_type: state.landType ?? "",
+  }
+}
+
+// When an entry took effect, in Unix seconds: the start of a migrated record's
+// effective_date in local time, else when it was recorded.
+export const effectiveTime = (entry: LedgerEntry) => {
+  const date = entry.payload?.effective_date
+  const millis = date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? new Date(`${date}T00:00`).getTime() : NaN
+  return Number.isFinite(millis) ? Math.floor(millis / 1000) : entry.timestamp
+}
+
+// The record as it stood at asOf (Unix seconds): only entries in effect by
+// then count, replayed in the order they took effect. Entries taking effect
+// together keep their chain order.
+export const stateAsOf = (entries: LedgerEntry[], asOf: number) =>
+  replayState(
+    entries.filter((entry) => effectiveTime(entry) <= asOf).sort((a, b) => effectiveTime(a) - effectiveTime(b)),
+  )
+
+const formatCompensation = (state: PropertyState, { t, plural, formatAmount }: I18n) => {
+  if (state.payments === 0) return t("state.none")
+  const totals = state.compensation.map(({ currency, amount }) => formatAmount(amount, currency || undefined))
+  const count = plural("state.payments", state.payments)
+  return totals.length > 0 ? `${totals.join(" + ")} (${count})` : count
+}
+
+export const formatAward = (state: PropertyState, { t, formatAmount }: I18n) => {
+  if (!state.awardNumber) return "—"
+  const amount = state.awardAmount && formatAmount(state.awardAmount.amount, state.awardAmount.currency || undefined)
+  if (state.awardDate && amount) {
+    return t("state.awardDatedFor", { award: state.awardNumber, date: state.awardDate, amount })
+  }
+  if (state.awardDate) return t("state.awardDated", { award: state.awardNumber, date: state.awardDate })
+  if (amount) return t("state.awardFor", { award: state.awardNumber, amount })
+  return state.awardNumber
+}
+
+export const formatOutstanding = (state: PropertyState, { formatAmount }: I18n) => {
+  const outstanding = outstandingAmount(state)
+  return outstanding === null ? "—" : formatAmount(outstanding, state.awardAmount?.currency || undefined)
+}
+
+// The state as rows in display order, keyed so diffs can compare them
+// whatever the language.
+export const describeState = (state: PropertyState, i18n: I18n) => {
+  const { t, actionLabel, landTypeLabel, formatTimestamp } = i18n
+  return [
+    { key: "owner", label: t("state.owner"), value: state.owner ?? t("state.noOwner") },
+    { key: "landType", label: t("state.landType"), value: state.landType ? landTypeLabel(state.landType) : "—" },
+    { key: "surveyNumber", label: t("state.surveyNumber"), value: state.surveyNumber ?? "—" },
+    { key: "acquisition", label: t("state.awardStatus"), value: t(`acquisition.${state.acquisition}`) },
+    { key: "award", label: t("state.award"), value: formatAward(state, i18n) },
+    { key: "compensation", label: t("state.compensationPaid"), value: formatCompensation(state, i18n) },
+    { key: "outstanding", label: t("state.outstanding"), value: formatOutstanding(state, i18n) },
+    {
+      key: "encumbrances",
+      label: t("state.encumbrances"),
+      value:
+        state.encumbrances
+          .map((item) => t("state.encumbrance", { kind: t(`encumbrance.${item.kind}`), reference: item.reference }))
+          .join(", ") || t("state.none"),
+    },
+    {
+      key: "succeededBy",
+      label: t("state.succeededBy"),
+      value: state.closedBy
+        ? t("state.succession", { action: actionLabel(state.closedBy), properties: state.successors.join(", ") })
+        : "—",
+    },
+    {
+      key: "lastEntry",
+      label: t("state.lastEntry"),
+      value: state.lastEntry
+        ? t("state.entryOn", {
+            action: actionLabel(state.lastEntry.action),
+            date: formatTimestamp(effectiveTime(state.lastEntry)),
+          })
+        : "—",
+    },
+  ]
+}
+
+export interface StateChange {
+  key: string
+  label: string
+  before: string
+  after: string
+}
+
+export interface StateComparison {
+  before: PropertyState
+  after: PropertyState
+  changes: StateChange[]
+  // The entries between the two points.
+  entries: LedgerEntry[]
+}
+
+// Compares the record at two points in the timeline, each given as the number
+// of entries (in chain order) recorded by then; 0 is before the first entry.
+// The points may be given in either order.
+export const compareStates = (
+  entries: LedgerEntry[],
+  first: number,
+  second: number,
+  i18n: I18n,
+): StateComparison => {
+  const [from, to] = first <= second ? [first, second] : [second, first]
+  const before = replayState(entries.slice(0, from))
+  const after = replayState(entries.slice(0, to))
+  const afterRows = describeState(after, i18n)
+  const changes = describeState(before, i18n)
+    .map((row, index) => ({ key: row.key, label: row.label, before: row.value, after: afterRows[index].value }))
+    .filter((change) => change.before !== change.after && change.key !== "lastEntry")
+  return { before, after, changes, entries: entries.slice(from, to) }
+}
+
+const pad = (value: number) => String(value).padStart(2, "0")
+
+// Formats Unix seconds for a datetime-local input, in the viewer's time zone.
+export const toDateTimeInput = (timestamp: number) => {
+  const date = new Date(timestamp * 1000)
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+  return `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+// Reads a datetime-local value as the end of that minute, so picking the minute
+// an entry was recorded in includes it. Returns null for an empty or bad value.
+export const parseDateTimeInput = (value: string) => {
+  const millis = new Date(value).getTime()
+  return value && Number.isFinite(millis) ? Math.floor(millis / 1000) + 59 : null
+}
@@ -0,0 +1,31 @@
+// Display helpers for ownership transfers (server/transfer.go). A transfer
+// moves draft → seller_approved → buyer_accepted → finalizing → finalized
+// unless it is cancelled or expires before finalizing.
+
+import type { TransferParty, TransferStatus } from "./types"
+
+export const TRANSFER_STATUS_STYLES: Record<TransferStatus, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  seller_approved: "bg-blue-100 text-blue-800",
+  buyer_accepted: "bg-yellow-100 text-yellow-800",
+  finalizing: "bg-yellow-100 text-yellow-800",
+  finalized: "bg-green-100 text-green-800",
+  cancelled: "bg-red-100 text-red-800",
+  expired: "bg-red-100 text-red-800",
+}
+
+// The parties whose approvals a transfer collects, in the order they must be
+// given.
+export const TRANSFER_STEPS: TransferParty[] = ["seller", "buyer", "registrar"]
+
+export const isOpenTransfer = (status: TransferStatus) =>
+  status === "draft" || status === "seller_approved" || status === "buyer_accepted"
+
+// The page each party acts on. Seller and buyer links carry their secret
+// token, so they should be shared with that party only.
+export const transferLink = (party: TransferParty, id: string, token?: string) => {
+  const params = new URLSearchParams({ id })
+  if (token) params.set("token", token)
+  const page = party === "registrar" ? "review" : party
+  return `/transfers/${page}?${params.toString()}`
+}
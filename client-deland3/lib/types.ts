@@ -0,0 +1,478 @@
+// Shapes shared with the Go server (server/main.go). Field names follow the
+// JSON tags on the server structs.
+
+export type LandType = "Agricultural" | "Non-Agricultural"
+export type Action =
+  | "AwardDeclared"
+  | "Compensated"
+  | "OwnershipUpdated"
+  | "LandConverted"
+  | "BoundaryRecorded"
+  | "Subdivided"
+  | "Merged"
+  | "LienRegistered"
+  | "LienReleased"
+  | "MortgageRegistered"
+  | "MortgageReleased"
+  | "StayOrdered"
+  | "StayLifted"
+  | "Other"
+  | "Correction"
+  | "Reversal"
+
+export const LAND_TYPES: LandType[] = ["Agricultural", "Non-Agricultural"]
+export const ACTIONS: Action[] = [
+  "AwardDeclared",
+  "Compensated",
+  "OwnershipUpdated",
+  "LandConverted",
+  "BoundaryRecorded",
+  "Subdivided",
+  "Merged",
+  "LienRegistered",
+  "LienReleased",
+  "MortgageRegistered",
+  "MortgageReleased",
+  "StayOrdered",
+  "StayLifted",
+  "Other",
+  "Correction",
+  "Reversal",
+]
+
+// Structured facts carried by an entry; which fields apply depends on the
+// action (see PAYLOAD_FIELDS in lib/payloads.ts).
+export interface ActionPayload {
+  // Declared by AwardDeclared and quoted by each Compensated entry paying it.
+  award_number?: string
+  award_date?: string
+  // The amount awarded (AwardDeclared) or paid (Compensated).
+  amount?: number
+  currency?: string
+  payment_reference?: string
+  previous_owner?: string
+  new_owner?: string
+  deed_reference?: string
+  // Only on entries appended by finalizing a transfer.
+  transfer_id?: string
+  approvals?: TransferApproval[]
+  // Why ownership changed despite an active stay or lien.
+  override_reason?: string
+  conversion_order?: string
+  boundary?: ParcelBoundary
+  // Liens and mortgages: the creditor or lender, and the charge reference
+  // their registration and release share.
+  holder?: string
+  charge_reference?: string
+  // Court stays, ordered and lifted by case number.
+  court?: string
+  case_number?: string
+  order_date?: string
+  // Subdivided and Merged: what a closed parent became, and a new child's
+  // parents (server/lineage.go).
+  children?: string[]
+  parents?: LineageLink[]
+  // Correction and Reversal: the ID of the entry amended and, for a
+  // Correction, the fields it corrects.
+  amends?: string
+  corrected?: CorrectedFields
+  // Any action, set only by bulk import: the YYYY-MM-DD date a migrated
+  // record took effect in the register it came from.
+  effective_date?: string
+}
+
+// A GeoJSON Polygon: an outer ring followed by any holes, each a closed ring
+// of [longitude, latitude] positions (server/parcel.go).
+export interface ParcelBoundary {
+  type: "Polygon"
+  coordinates: number[][][]
+}
+
+// A parent named on a child's opening entry. head is the hash of the entry
+// that closed the parent; the server fills it in on recording.
+export interface LineageLink {
+  property_number: string
+  head?: string
+}
+
+// The fields of an amended entry that a Correction replaces; unset fields
+// keep their recorded values (server/amend.go).
+export interface CorrectedFields {
+  survey_number?: string
+  owner_id?: string
+  land_type?: string
+  details?: string
+  payload?: ActionPayload
+}
+
+export interface LedgerEntry {
+  id: string
+  survey_number: string
+  property_number: string
+  // 1-based position in the property's chain; absent on unmigrated legacy entries.
+  sequence?: number
+  owner_id: string
+  land_type: string
+  action: string
+  details: string
+  payload?: ActionPayload
+  attachments?: Attachment[]
+  timestamp: number
+  prev_hash: string
+  hash: string
+  // 0 or absent: legacy concatenated hash input; 1: canonical JSON.
+  hash_version?: number
+  recorded_by?: string
+  key_id?: string
+  signature?: string
+}
+
+// A document stored on the server under the SHA-256 of its bytes. The digest
+// is part of the entry's hash, so the chain vouches for the file's contents.
+export interface Attachment {
+  sha256: string
+  name: string
+  content_type: string
+  size: number
+}
+
+export interface NewEntryPayload {
+  survey_number: string
+  property_number: string
+  owner_id: string
+  land_type: LandType
+  action: Action
+  details: string
+  payload?: ActionPayload
+  // Documents uploaded with uploadAttachment beforehand.
+  attachments?: Attachment[]
+  // The chain head the submitter last saw; the server answers 409 if it moved.
+  prev_hash?: string
+  // Records a boundary even though it overlaps another survey number's parcel.
+  accept_overlaps?: boolean
+}
+
+export type BatchRowStatus = "created" | "failed" | "skipped"
+
+// Outcome of one row sent to POST /add_entries; index is the row's position
+// in that request.
+export interface BatchRowResult {
+  index: number
+  status: BatchRowStatus
+  entry?: LedgerEntry
+  error?: string
+  fields?: Record<string, string>
+}
+
+export interface BatchResponse {
+  created: number
+  failed: number
+  skipped: number
+  results: BatchRowResult[]
+}
+
+export interface VerificationResult {
+  land_id: string
+  valid: boolean
+}
+
+export interface PropertyHolding {
+  property_number: string
+  survey_number: string
+  land_type: string
+  current_owner_id: string
+  last_action: string
+  acquired_at: number
+  released_at?: number
+  last_updated: number
+}
+
+export interface OwnerPortfolio {
+  owner_id: string
+  current: PropertyHolding[]
+  former: PropertyHolding[]
+}
+
+export type SearchSortField = "timestamp" | "survey_number" | "property_number" | "owner_id" | "land_type" | "action"
+
+// Query parameters accepted by GET /search. from/to are Unix seconds.
+export interface SearchFilters {
+  survey_number?: string
+  property_number?: string
+  owner_id?: string
+  land_type?: string
+  action?: string
+  q?: string
+  from?: number
+  to?: number
+  page?: number
+  page_size?: number
+  sort?: SearchSortField
+  order?: "asc" | "desc"
+}
+
+export interface SearchResponse {
+  results: LedgerEntry[]
+  total: number
+  page: number
+  page_size: number
+}
+
+export type Role = "registrar" | "auditor" | "viewer"
+
+export interface Officer {
+  username: string
+  name: string
+  role: Role
+}
+
+export interface Session {
+  token: string
+  officer: Officer
+  expires_at: number
+}
+
+// One officer key from the published registry (public/key-registry.json).
+// Entries recorded after revoked_at (Unix seconds) no longer verify.
+export interface PublicKeyRecord {
+  key_id: string
+  officer: string
+  algorithm: string
+  public_key: string
+  revoked_at?: number
+}
+
+export interface KeyRegistry {
+  keys: PublicKeyRecord[]
+}
+
+// A signed Merkle-root checkpoint over every property's chain head. Hash is
+// computed over the other published fields and PrevHash links the log.
+export interface Checkpoint {
+  sequence: number
+  root: string
+  tree_size: number
+  timestamp: number
+  prev_hash: string
+  hash: string
+  key_id: string
+  signature: string
+}
+
+export interface ProofStep {
+  hash: string
+  position: "left" | "right"
+}
+
+export interface InclusionProof {
+  entry_id: string
+  property_number: string
+  head_hash: string
+  leaf_index: number
+  siblings: ProofStep[]
+  checkpoint: Checkpoint
+}
+
+export type AuditFindingKind = "broken_link" | "hash_mismatch" | "orphan" | "duplicate_id" | "survey_mismatch"
+
+export const AUDIT_FINDING_KINDS: AuditFindingKind[] = [
+  "broken_link",
+  "hash_mismatch",
+  "orphan",
+  "duplicate_id",
+  "survey_mismatch",
+]
+
+// One integrity problem from GET /audit/scan. Position is the entry's 1-based
+// place in its property's chain; survey mismatches concern the whole chain.
+export interface AuditFinding {
+  kind: AuditFindingKind
+  property_number: string
+  entry_id?: string
+  position?: number
+  detail: string
+}
+
+// One batch of an audit scan. next_cursor is passed back as `after` to scan
+// the following batch and is empty once every property has been covered.
+export interface AuditScanResponse {
+  total_properties: number
+  properties: number
+  entries: number
+  findings: AuditFinding[]
+  next_cursor: string
+}
+
+export type TransferStatus =
+  "draft" | "seller_approved" | "buyer_accepted" | "finalizing" | "finalized" | "cancelled" | "expired"
+
+export const TRANSFER_STATUSES: TransferStatus[] = [
+  "draft",
+  "seller_approved",
+  "buyer_accepted",
+  "finalizing",
+  "finalized",
+  "cancelled",
+  "expired",
+]
+
+export type TransferParty = "seller" | "buyer" | "registrar"
+
+// One party's consent to a transfer; `by` is the seller's or buyer's owner ID,
+// or the finalizing registrar's username. `at` is Unix seconds.
+export interface TransferApproval {
+  party: TransferParty
+  by: string
+  at: number
+}
+
+// A pending change of ownership (server/transfer.go). entry_id names the
+// OwnershipUpdated entry appended once a registrar finalizes it.
+export interface Transfer {
+  id: string
+  property_number: string
+  survey_number: string
+  land_type: string
+  seller: string
+  buyer: string
+  deed_reference: string
+  details: string
+  status: TransferStatus
+  approvals: TransferApproval[]
+  created_by: string
+  created_at: number
+  expires_at: number
+  cancelled_by?: TransferApproval
+  cancel_reason?: string
+  entry_id?: string
+}
+
+export interface NewTransferPayload {
+  property_number: string
+  buyer: string
+  deed_reference: string
+  details: string
+  expires_in_days?: number
+}
+
+// A transfer as seen by whoever asked: its seller or buyer (by link token),
+// or an officer. The link tokens are only sent to registrars.
+export interface TransferView {
+  transfer: Transfer
+  party: TransferParty | "auditor"
+  seller_token?: string
+  buyer_token?: string
+}
+
+export type AwardStatus = "pending" | "partial" | "paid"
+
+// One Compensated entry paid against an award.
+export interface AwardPayment {
+  entry_id: string
+  amount?: number
+  currency?: string
+  payment_reference?: string
+  timestamp: number
+}
+
+// An AwardDeclared entry and what has been paid against it (server/compensation.go).
+// amount is absent on awards declared before amounts were recorded.
+export interface Award {
+  property_number: string
+  survey_number: string
+  owner_id: string
+  entry_id: string
+  award_number?: string
+  award_date?: string
+  declared_at: number
+  amount?: number
+  currency?: string
+  paid: number
+  outstanding: number
+  status: AwardStatus
+  payments: AwardPayment[]
+  age_days: number
+}
+
+// "outstanding" covers pending and partially paid awards.
+export type CompensationFilter = "outstanding" | "paid" | "all"
+
+export interface CompensationReport {
+  awards: Award[]
+  // Total still owed, per currency.
+  outstanding: Record<string, number>
+  generated_at: number
+}
+
+// The current boundary of a survey number: the latest one recorded on any of
+// its property chains. overlaps lists the survey numbers it overlaps.
+export interface Parcel {
+  survey_number: string
+  property_numbers: string[]
+  property_number: string
+  entry_id: string
+  recorded_at: number
+  boundary: ParcelBoundary
+  overlaps: string[]
+}
+
+// A property in a lineage graph. generation counts the subdivisions and
+// mergers from the property the graph was drawn for: negative for ancestors,
+// positive for descendants.
+export interface LineageNode {
+  property_number: string
+  survey_number?: string
+  generation: number
+  closed_by?: "Subdivided" | "Merged"
+}
+
+// verified: the child's opening entry carries the hash of the parent's
+// closing entry, and that entry lists the child.
+export interface LineageEdge {
+  parent: string
+  child: string
+  action: "Subdivided" | "Merged"
+  verified: boolean
+}
+
+export interface Lineage {
+  property_number: string
+  nodes: LineageNode[]
+  edges: LineageEdge[]
+  // Set when the graph was cut short at the server's node limit.
+  truncated?: boolean
+}
+
+// One member of a joint owner and their percentage share. name is filled in
+// from the member's own profile.
+export interface OwnerShare {
+  owner_id: string
+  share: number
+  name?: string
+}
+
+// A registered owner profile (server/owners.go). Individuals carry the
+// identity document checked at registration; joint owners list their members.
+// Profiles served to viewers who are not signed in come back masked: initials
+// for names and only the last few characters of the contact and document.
+export interface Owner {
+  id: string
+  name: string
+  contact?: string
+  id_document_type?: string
+  id_document_ref?: string
+  members?: OwnerShare[]
+  created_at: number
+  updated_at: number
+  recorded_by: string
+  masked?: boolean
+}
+
+export interface NewOwnerPayload {
+  id: string
+  name: string
+  contact: string
+  id_document_type: string
+  id_document_ref: string
+  members: OwnerShare[]
+}
@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { LOCALE_COOKIE, LOCALE_HEADER, splitLocalePath } from "@/lib/i18n"
+
+const ONE_YEAR = 60 * 60 * 24 * 365
+
+// Locale routing: /hi/property is the property page in Hindi. The prefix is
+// rewritten away, so every page serves every locale, and remembered, so links
+// without a prefix stay in the chosen language. Paths without a prefix are
+// left to the root layout (lib/i18n-server.ts).
+export function middleware(request: NextRequest) {
+  const { locale, path } = splitLocalePath(request.nextUrl.pathname)
+  if (!locale) return NextResponse.next()
+
+  const url = request.nextUrl.clone()
+  url.pathname = path
+  const requestHeaders = new Headers(request.headers)
+  requestHeaders.set(LOCALE_HEADER, locale)
+  const response = NextResponse.rewrite(url, { request: { headers: requestHeaders } })
+  response.cookies.set(LOCALE_COOKIE, locale, { path: "/", maxAge: ONE_YEAR, sameSite: "lax" })
+  return response
+}
+
+export const config = {
+  // Pages only, not Next's assets or the files in public/.
+  matcher: ["/((?!_next/|.*\\..*).*)"],
+}
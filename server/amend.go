@@ -0,0 +1,236 @@
+package main
+
+import (
+	"encoding/json"
+	"fmt"
+	"strings"
+)
+
+// Mistakes are fixed by appending, never by editing: a Correction entry
+// restates some fields of an earlier entry as they should have been recorded,
+// and a Reversal entry withdraws an earlier entry altogether. Both name the
+// entry they amend in payload.amends and stay on the chain like any other
+// entry; only the state derived from the chain reads the amended history.
+
+// CorrectedFields holds the fields of the amended entry that a Correction
+// replaces. Unset fields keep their recorded values; payload fields are
+// replaced one by one.
+type CorrectedFields struct {
+	SurveyNumber string         `bson:"survey_number,omitempty" json:"survey_number,omitempty"`
+	OwnerID      string         `bson:"owner_id,omitempty" json:"owner_id,omitempty"`
+	LandType     string         `bson:"land_type,omitempty" json:"land_type,omitempty"`
+	Details      string         `bson:"details,omitempty" json:"details,omitempty"`
+	Payload      *ActionPayload `bson:"payload,omitempty" json:"payload,omitempty"`
+}
+
+func isAmendment(action string) bool {
+	return action == ActionCorrection || action == ActionReversal
+}
+
+// apply returns entry with the corrected fields in place of the recorded ones.
+func (c *CorrectedFields) apply(entry LedgerEntry) LedgerEntry {
+	if c.SurveyNumber != "" {
+		entry.SurveyNumber = c.SurveyNumber
+	}
+	if c.OwnerID != "" {
+		entry.OwnerID = c.OwnerID
+	}
+	if c.LandType != "" {
+		entry.LandType = c.LandType
+	}
+	if c.Details != "" {
+		entry.Details = c.Details
+	}
+	if corrected := c.Payload.values(); len(corrected) > 0 {
+		merged := entry.Payload.values()
+		for name, value := range corrected {
+			merged[name] = value
+		}
+		raw, _ := json.Marshal(merged)
+		var payload ActionPayload
+		_ = json.Unmarshal(raw, &payload)
+		entry.Payload = &payload
+	}
+	return entry
+}
+
+// amendedHistory applies every Correction and Reversal in history to the
+// entry it names and leaves both out, giving the history as it should have
+// been recorded. Corrections of the same entry apply in chain order.
+func amendedHistory(history []LedgerEntry) []LedgerEntry {
+	positions := map[string]int{}
+	for i, entry := range history {
+		positions[entry.ID] = i
+	}
+	amended := make([]LedgerEntry, len(history))
+	copy(amended, history)
+	reversed := map[int]bool{}
+	for _, entry := range history {
+		if !isAmendment(entry.Action) || entry.Payload == nil {
+			continue
+		}
+		i, ok := positions[entry.Payload.Amends]
+		if !ok {
+			continue
+		}
+		if entry.Action == ActionReversal {
+			reversed[i] = true
+		} else if entry.Payload.Corrected != nil {
+			amended[i] = entry.Payload.Corrected.apply(amended[i])
+		}
+	}
+	result := make([]LedgerEntry, 0, len(amended))
+	for i, entry := range amended {
+		if !isAmendment(entry.Action) && !reversed[i] {
+			result = append(result, entry)
+		}
+	}
+	return result
+}
+
+// amendedEntry finds the entry an amendment names, as currently amended.
+func amendedEntry(id string, history []LedgerEntry) (LedgerEntry, bool) {
+	for _, entry := range amendedHistory(history) {
+		if entry.ID == id {
+			return entry, true
+		}
+	}
+	return LedgerEntry{}, false
+}
+
+// validateAmendment checks a Correction or Reversal against the history it
+// amends, adding violations to fields.
+func validateAmendment(payload NewEntryPayload, history []LedgerEntry, fields map[string]string) {
+	p := payload.Payload
+	if p == nil || p.Amends == "" {
+		return
+	}
+	var target *LedgerEntry
+	for i := range history {
+		if history[i].ID == p.Amends {
+			target = &history[i]
+		}
+	}
+	if target == nil {
+		fields["payload.amends"] = "No entry with this ID is on this property's chain"
+		return
+	}
+	if isAmendment(target.Action) {
+		fields["payload.amends"] = fmt.Sprintf("%s entries cannot be amended; amend the original entry", target.Action)
+		return
+	}
+	if isLineage(target.Action) {
+		fields["payload.amends"] = fmt.Sprintf("%s entries cannot be amended; the properties they link are on the ledger", target.Action)
+		return
+	}
+	current, ok := amendedEntry(target.ID, history)
+	if !ok {
+		fields["payload.amends"] = "This entry has already been reversed"
+		return
+	}
+
+	if payload.Action == ActionCorrection && p.Corrected != nil {
+		validateCorrection(p.Corrected, current, fields)
+	}
+	if len(fields) > 0 {
+		return
+	}
+
+	before := amendedHistory(history)
+	after := amendedHistory(append(append([]LedgerEntry{}, history...), LedgerEntry{Action: payload.Action, Payload: p}))
+	if len(after) == 0 {
+		fields["payload.amends"] = "Reversing this entry would leave the property with no record"
+		return
+	}
+	// Rules the history already broke before the amendment are not its fault.
+	existing := map[string]bool{}
+	for _, message := range historyViolations(before) {
+		existing[message] = true
+	}
+	for _, message := range historyViolations(after) {
+		if !existing[message] {
+			fields["payload.amends"] = message
+			return
+		}
+	}
+}
+
+// validateCorrection checks the corrected fields against the entry they
+// replace: at least one must change, and the result must satisfy the same
+// field rules a new entry of that action would.
+func validateCorrection(c *CorrectedFields, current LedgerEntry, fields map[string]string) {
+	if c.LandType != "" && !validLandTypes[c.LandType] {
+		fields["payload.corrected.land_type"] = "Land type must be Agricultural or Non-Agricultural"
+	}
+	if c.OwnerID != "" && current.Payload != nil && current.Payload.TransferID != "" {
+		fields["payload.corrected.owner_id"] = "Ownership recorded by a transfer cannot be corrected; reverse the entry instead"
+	}
+	allowed := payloadFields[current.Action]
+	for name := range c.Payload.values() {
+		if _, listed := allowed[name]; !listed || name == "transfer_id" || name == "approvals" {
+			fields["payload.corrected.payload."+name] = fmt.Sprintf("%s entries do not carry a correctable %s", current.Action, name)
+		}
+	}
+
+	// Only rules touching what the correction changes apply; an older entry
+	// may lack fields that have since become required.
+	corrected := c.apply(current)
+	checks := map[string]string{}
+	validatePayload(NewEntryPayload{
+		Action:       corrected.Action,
+		OwnerID:      corrected.OwnerID,
+		Payload:      corrected.Payload,
+		fromTransfer: true,
+	}, propertyState{}, checks)
+	changed := c.Payload.values()
+	for name, message := range checks {
+		field := strings.TrimPrefix(name, "payload.")
+		_, set := changed[field]
+		if (set || (field == "new_owner" && c.OwnerID != "")) && fields["payload.corrected."+name] == "" {
+			fields["payload.corrected."+name] = message
+		}
+	}
+
+	before, _ := json.Marshal(current)
+	after, _ := json.Marshal(corrected)
+	if string(before) == string(after) {
+		fields["payload.corrected"] = "The correction does not change anything"
+	}
+}
+
+// historyViolations replays a history against the acquisition and payment
+// rules and describes every entry they do not allow, in chain order.
+func historyViolations(history []LedgerEntry) []string {
+	var violations []string
+	for i, entry := range history {
+		state := replayPropertyState(history[:i])
+		if !transitionFree(entry.Action) && !allowedTransitions[state.acquisition][entry.Action] {
+			violations = append(violations, fmt.Sprintf("After this change %s (%s) would not be allowed while the property is %s",
+				entryLabel(entry), entry.Action, state.acquisition))
+		}
+		if blockedByEncumbrance(entry.Action) && (entry.Payload == nil || strings.TrimSpace(entry.Payload.OverrideReason) == "") {
+			if blocks := state.transferBlocks(); len(blocks) > 0 {
+				violations = append(violations, fmt.Sprintf("After this change %s (%s) would have been recorded while the property was subject to %s",
+					entryLabel(entry), entry.Action, strings.Join(blocks, " and ")))
+			}
+		}
+		if entry.Action == ActionCompensated && entry.Payload != nil {
+			payment := map[string]string{}
+			validatePayment(entry.Payload, state.award, payment)
+			for _, name := range []string{"payload.award_number", "payload.currency", "payload.amount"} {
+				if message, ok := payment[name]; ok {
+					violations = append(violations, fmt.Sprintf("After this change the payment in %s would not be valid: %s",
+						entryLabel(entry), message))
+				}
+			}
+		}
+	}
+	return violations
+}
+
+func entryLabel(entry LedgerEntry) string {
+	if entry.Sequence > 0 {
+		return fmt.Sprintf("entry #%d", entry.Sequence)
+	}
+	return "entry " + entry.ID
+}
@@ -0,0 +1,114 @@
+package main
+
+import "testing"
+
+func TestValidateAmendment(t *testing.T) {
+	correction := ledgerEntry("correction", ActionCorrection,
+		&ActionPayload{Amends: "opened", Corrected: &CorrectedFields{Details: "Registered on appeal"}})
+	amend := func(action string, p *ActionPayload) NewEntryPayload {
+		entry := newEntry(action, p)
+		entry.Details = "Clerical error"
+		return entry
+	}
+	transferred := ledgerEntry("transferred", ActionOwnershipUpdated, &ActionPayload{
+		PreviousOwner: "OWN-001", NewOwner: "OWN-002", DeedReference: "DEED-2", TransferID: "TR-1",
+	})
+	transferred.OwnerID = "OWN-002"
+
+	tests := []struct {
+		name    string
+		history []LedgerEntry
+		entry   NewEntryPayload
+		fields  []string
+	}{
+		{
+			name:    "correction",
+			history: []LedgerEntry{registered},
+			entry:   amend(ActionCorrection, correction.Payload),
+			fields:  nil,
+		},
+		{
+			name:    "correction that changes nothing",
+			history: []LedgerEntry{registered},
+			entry: amend(ActionCorrection,
+				&ActionPayload{Amends: "opened", Corrected: &CorrectedFields{Details: registered.Details}}),
+			fields: []string{"payload.corrected"},
+		},
+		{
+			name:    "correcting a correction",
+			history: []LedgerEntry{registered, correction},
+			entry: amend(ActionCorrection,
+				&ActionPayload{Amends: "correction", Corrected: &CorrectedFields{Details: "Registered"}}),
+			fields: []string{"payload.amends"},
+		},
+		{
+			name:    "reversing an entry twice",
+			history: []LedgerEntry{registered, awarded, ledgerEntry("reversal", ActionReversal, &ActionPayload{Amends: "awarded"})},
+			entry:   amend(ActionReversal, &ActionPayload{Amends: "awarded"}),
+			fields:  []string{"payload.amends"},
+		},
+		{
+			name:    "reversing an entry not on the chain",
+			history: []LedgerEntry{registered},
+			entry:   amend(ActionReversal, &ActionPayload{Amends: "elsewhere"}),
+			fields:  []string{"payload.amends"},
+		},
+		{
+			name:    "reversal that empties the chain",
+			history: []LedgerEntry{registered},
+			entry:   amend(ActionReversal, &ActionPayload{Amends: "opened"}),
+			fields:  []string{"payload.amends"},
+		},
+		{
+			name:    "reversing the payment a later transfer relied on",
+			history: []LedgerEntry{registered, awarded, paidInFull, transferred},
+			entry: func() NewEntryPayload {
+				entry := amend(ActionReversal, &ActionPayload{Amends: "paid-full"})
+				entry.OwnerID = "OWN-002"
+				return entry
+			}(),
+			fields: []string{"payload.amends"},
+		},
+		{
+			name:    "correcting the owner a transfer recorded",
+			history: []LedgerEntry{registered, awarded, paidInFull, transferred},
+			entry: func() NewEntryPayload {
+				entry := amend(ActionCorrection, &ActionPayload{Amends: "transferred", Corrected: &CorrectedFields{
+					OwnerID: "OWN-003", Payload: &ActionPayload{NewOwner: "OWN-003"},
+				}})
+				entry.OwnerID = "OWN-003"
+				return entry
+			}(),
+			fields: []string{"payload.corrected.owner_id"},
+		},
+	}
+	for _, tt := range tests {
+		t.Run(tt.name, func(t *testing.T) {
+			checkFields(t, validateEntry(tt.entry, tt.history), tt.fields...)
+		})
+	}
+}
+
+func TestHistoryViolationsIgnoreBlankOverrides(t *testing.T) {
+	lien := ledgerEntry("lien", ActionLienRegistered, &ActionPayload{Holder: "State Bank", ChargeReference: "LIEN-1"})
+	transfer := func(reason string) LedgerEntry {
+		entry := ledgerEntry("transferred", ActionOwnershipUpdated, transferPayload(reason))
+		entry.OwnerID = "OWN-002"
+		return entry
+	}
+
+	tests := []struct {
+		reason     string
+		violations int
+	}{
+		{reason: "", violations: 1},
+		{reason: "   ", violations: 1},
+		{reason: "Sale ordered by the recovery tribunal", violations: 0},
+	}
+	for _, tt := range tests {
+		got := historyViolations([]LedgerEntry{registered, lien, transfer(tt.reason)})
+		if len(got) != tt.violations {
+			t.Errorf("override %q: violations %q, want %d", tt.reason, got, tt.violations)
+		}
+	}
+}
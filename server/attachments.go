@@ -0,0 +1,194 @@
+package main
+
+import (
+	"crypto/sha256"
+	"encoding/hex"
+	"errors"
+	"fmt"
+	"io"
+	"io/fs"
+	"net/http"
+	"os"
+	"path/filepath"
+	"regexp"
+	"strings"
+
+	"github.com/gin-gonic/gin"
+)
+
+// Documents such as deeds, award orders and payment receipts are kept in a
+// content-addressed directory: each file is stored once, under the hex
+// SHA-256 of its bytes. An entry records the digest of every file attached to
+// it, so the entry hash covers the documents as well as the text.
+
+const (
+	maxAttachmentSize     = 25 << 20
+	maxEntryAttachments   = 10
+	maxAttachmentNameSize = 255
+)
+
+// Attachment describes a stored file as recorded on an entry. SHA256 is the
+// file's address in the store; name and content type are as uploaded.
+type Attachment struct {
+	SHA256      string `bson:"sha256" json:"sha256"`
+	Name        string `bson:"name" json:"name"`
+	ContentType string `bson:"content_type" json:"content_type"`
+	Size        int64  `bson:"size" json:"size"`
+}
+
+var (
+	attachmentDir = "attachments"
+
+	digestPattern = regexp.MustCompile(`^[0-9a-f]{64}$`)
+)
+
+func loadAttachmentDir() {
+	if dir := os.Getenv("ATTACHMENT_DIR"); dir != "" {
+		attachmentDir = dir
+	}
+}
+
+func attachmentPath(digest string) string {
+	return filepath.Join(attachmentDir, digest)
+}
+
+// storeAttachment copies r into the store and returns its digest and size.
+// The file is written under a temporary name and renamed into place, so a
+// stored digest never names a partial file; storing the same bytes twice
+// leaves a single copy.
+func storeAttachment(r io.Reader) (string, int64, error) {
+	if err := os.MkdirAll(attachmentDir, 0o700); err != nil {
+		return "", 0, err
+	}
+	tmp, err := os.CreateTemp(attachmentDir, ".upload-*")
+	if err != nil {
+		return "", 0, err
+	}
+	defer os.Remove(tmp.Name())
+
+	hasher := sha256.New()
+	size, err := io.Copy(io.MultiWriter(tmp, hasher), r)
+	if err == nil {
+		err = tmp.Sync()
+	}
+	if closeErr := tmp.Close(); err == nil {
+		err = closeErr
+	}
+	if err != nil {
+		return "", 0, err
+	}
+	digest := hex.EncodeToString(hasher.Sum(nil))
+	if err := os.Rename(tmp.Name(), attachmentPath(digest)); err != nil {
+		return "", 0, err
+	}
+	return digest, size, nil
+}
+
+// storedAttachmentSize fails with errNotFound when no file has the digest.
+func storedAttachmentSize(digest string) (int64, error) {
+	if !digestPattern.MatchString(digest) {
+		return 0, errNotFound
+	}
+	info, err := os.Stat(attachmentPath(digest))
+	if errors.Is(err, fs.ErrNotExist) {
+		return 0, errNotFound
+	}
+	if err != nil {
+		return 0, err
+	}
+	return info.Size(), nil
+}
+
+// validateAttachments checks that every attachment names a stored file of the
+// recorded size, adding violations to fields as "attachments.<index>".
+func validateAttachments(attachments []Attachment, fields map[string]string) error {
+	if len(attachments) > maxEntryAttachments {
+		fields["attachments"] = fmt.Sprintf("An entry may carry at most %d attachments", maxEntryAttachments)
+		return nil
+	}
+	seen := map[string]bool{}
+	for i, attachment := range attachments {
+		key := fmt.Sprintf("attachments.%d", i)
+		name := strings.TrimSpace(attachment.Name)
+		switch {
+		case name == "" || len(name) > maxAttachmentNameSize:
+			fields[key] = fmt.Sprintf("Give the file a name of at most %d characters", maxAttachmentNameSize)
+			continue
+		case seen[attachment.SHA256]:
+			fields[key] = fmt.Sprintf("%s is attached more than once", name)
+			continue
+		}
+		seen[attachment.SHA256] = true
+		size, err := storedAttachmentSize(attachment.SHA256)
+		if errors.Is(err, errNotFound) {
+			fields[key] = fmt.Sprintf("%s has not been uploaded", name)
+			continue
+		}
+		if err != nil {
+			return err
+		}
+		if size != attachment.Size {
+			fields[key] = fmt.Sprintf("%s is %d bytes, not %d", name, size, attachment.Size)
+		}
+	}
+	return nil
+}
+
+// uploadAttachmentHandler stores the "file" part of a multipart upload and
+// returns the attachment to record on an entry. Nothing refers to the file
+// until an entry carrying it is appended.
+func uploadAttachmentHandler(c *gin.Context) {
+	c.Request.Body = http.MaxBytesReader(c.Writer, c.Request.Body, maxAttachmentSize+1<<20)
+	header, err := c.FormFile("file")
+	if err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Send the document as the multipart field \"file\""})
+		return
+	}
+	if header.Size > maxAttachmentSize {
+		c.JSON(http.StatusRequestEntityTooLarge, gin.H{"error": fmt.Sprintf("Attachments may be at most %d MB", maxAttachmentSize>>20)})
+		return
+	}
+	file, err := header.Open()
+	if err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Invalid input"})
+		return
+	}
+	defer file.Close()
+
+	digest, size, err := storeAttachment(file)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	contentType := header.Header.Get("Content-Type")
+	if contentType == "" {
+		contentType = "application/octet-stream"
+	}
+	c.JSON(http.StatusOK, gin.H{"status": "success", "attachment": Attachment{
+		SHA256:      digest,
+		Name:        filepath.Base(header.Filename),
+		ContentType: contentType,
+		Size:        size,
+	}})
+}
+
+// getAttachmentHandler serves a stored file. The optional name query sets the
+// download's file name. A digest always names the same bytes, so responses
+// may be cached indefinitely.
+func getAttachmentHandler(c *gin.Context) {
+	digest := c.Param("sha256")
+	if _, err := storedAttachmentSize(digest); err != nil {
+		if errors.Is(err, errNotFound) {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Attachment not found"})
+			return
+		}
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	name := c.Query("name")
+	if name == "" {
+		name = digest
+	}
+	c.Header("Cache-Control", "public, max-age=31536000, immutable")
+	c.FileAttachment(attachmentPath(digest), name)
+}
@@ -0,0 +1,212 @@
+package main
+
+import (
+	"context"
+	"fmt"
+	"net/http"
+	"sort"
+	"strconv"
+	"strings"
+
+	"github.com/gin-gonic/gin"
+)
+
+const (
+	defaultAuditBatchSize = 100
+	maxAuditBatchSize     = 500
+)
+
+// Kinds of integrity problem an audit scan reports.
+const (
+	FindingBrokenLink     = "broken_link"
+	FindingHashMismatch   = "hash_mismatch"
+	FindingOrphan         = "orphan"
+	FindingDuplicateID    = "duplicate_id"
+	FindingSurveyMismatch = "survey_mismatch"
+)
+
+// AuditFinding is one problem found on one property's chain. Position is the
+// entry's 1-based place in the chain as getPropertyChain reads it.
+type AuditFinding struct {
+	Kind           string `json:"kind"`
+	PropertyNumber string `json:"property_number"`
+	EntryID        string `json:"entry_id,omitempty"`
+	Position       int    `json:"position,omitempty"`
+	Detail         string `json:"detail"`
+}
+
+// AuditScanResponse covers one batch of properties. NextCursor is the last
+// property number scanned; passing it back as `after` resumes the scan, and
+// it is empty once every property has been covered.
+type AuditScanResponse struct {
+	TotalProperties int            `json:"total_properties"`
+	Properties      int            `json:"properties"`
+	Entries         int            `json:"entries"`
+	Findings        []AuditFinding `json:"findings"`
+	NextCursor      string         `json:"next_cursor"`
+}
+
+// auditPropertyChain reports every problem on one chain, not just the first
+// break verifyPropertyChain stops at, so an auditor sees the full extent of
+// the damage.
+func auditPropertyChain(propertyNumber string, chain []LedgerEntry) []AuditFinding {
+	var findings []AuditFinding
+	hashes := make(map[string]bool, len(chain))
+	for _, entry := range chain {
+		hashes[entry.Hash] = true
+	}
+
+	surveys := make(map[string]int)
+	for i, entry := range chain {
+		surveys[entry.SurveyNumber]++
+		finding := AuditFinding{PropertyNumber: propertyNumber, EntryID: entry.ID, Position: i + 1}
+
+		if entry.HashVersion != hashVersionLegacy && entry.HashVersion != hashVersionJSON {
+			finding.Kind = FindingHashMismatch
+			finding.Detail = fmt.Sprintf("unknown hash version %d", entry.HashVersion)
+			findings = append(findings, finding)
+		} else if entry.Hash != calculateHash(entryHashInput(entry)) {
+			finding.Kind = FindingHashMismatch
+			finding.Detail = "hash does not match the entry's contents"
+			findings = append(findings, finding)
+		}
+
+		expectedPrev := openingPrevHash(entry)
+		if i > 0 {
+			expectedPrev = chain[i-1].Hash
+		}
+		switch {
+		case entry.PrevHash == expectedPrev:
+		case entry.PrevHash != genesisHash && !hashes[entry.PrevHash]:
+			finding.Kind = FindingOrphan
+			finding.Detail = "prev_hash does not match any entry on this property"
+			findings = append(findings, finding)
+		default:
+			finding.Kind = FindingBrokenLink
+			finding.Detail = "prev_hash points at a different entry than the one before it"
+			findings = append(findings, finding)
+		}
+
+		if entry.Sequence != 0 && entry.Sequence != int64(i+1) {
+			finding.Kind = FindingBrokenLink
+			finding.Detail = fmt.Sprintf("sequence %d at position %d", entry.Sequence, i+1)
+			findings = append(findings, finding)
+		}
+	}
+
+	if len(surveys) > 1 {
+		counts := make([]string, 0, len(surveys))
+		for survey, count := range surveys {
+			counts = append(counts, fmt.Sprintf("%q ×%d", survey, count))
+		}
+		sort.Strings(counts)
+		findings = append(findings, AuditFinding{
+			Kind:           FindingSurveyMismatch,
+			PropertyNumber: propertyNumber,
+			Detail:         "entries disagree on the survey number: " + strings.Join(counts, ", "),
+		})
+	}
+	return findings
+}
+
+// auditDuplicateIDs reports entries in the batch whose ID is shared with any
+// other entry in the collection, including entries on properties outside the
+// batch. positions holds each batch entry's place in its chain.
+func auditDuplicateIDs(ctx context.Context, batch []LedgerEntry, positions []int) ([]AuditFinding, error) {
+	ids := make([]string, 0, len(batch))
+	for _, entry := range batch {
+		ids = append(ids, entry.ID)
+	}
+	matches, _, err := store.FindEntries(ctx, EntryQuery{EntryFilter: EntryFilter{IDs: ids}})
+	if err != nil {
+		return nil, err
+	}
+
+	holders := make(map[string][]string)
+	for _, entry := range matches {
+		holders[entry.ID] = append(holders[entry.ID], entry.PropertyNumber)
+	}
+	var findings []AuditFinding
+	for i, entry := range batch {
+		if len(holders[entry.ID]) < 2 {
+			continue
+		}
+		findings = append(findings, AuditFinding{
+			Kind:           FindingDuplicateID,
+			PropertyNumber: entry.PropertyNumber,
+			EntryID:        entry.ID,
+			Position:       positions[i],
+			Detail:         fmt.Sprintf("%d entries share this ID (properties %s)", len(holders[entry.ID]), strings.Join(holders[entry.ID], ", ")),
+		})
+	}
+	return findings, nil
+}
+
+// scanLedger audits up to limit properties, in property-number order, after
+// the given cursor.
+func scanLedger(ctx context.Context, after string, limit int) (*AuditScanResponse, error) {
+	all, err := store.PropertyNumbers(ctx, EntryFilter{})
+	if err != nil {
+		return nil, err
+	}
+	propertyNumbers := make([]string, 0, len(all))
+	for _, propertyNumber := range all {
+		if propertyNumber != "" {
+			propertyNumbers = append(propertyNumbers, propertyNumber)
+		}
+	}
+	sort.Strings(propertyNumbers)
+
+	start := sort.SearchStrings(propertyNumbers, after)
+	if start < len(propertyNumbers) && propertyNumbers[start] == after {
+		start++
+	}
+	end := min(start+limit, len(propertyNumbers))
+
+	response := &AuditScanResponse{TotalProperties: len(propertyNumbers), Findings: []AuditFinding{}}
+	var batch []LedgerEntry
+	var positions []int
+	for _, propertyNumber := range propertyNumbers[start:end] {
+		chain, err := getPropertyChain(ctx, propertyNumber)
+		if err != nil {
+			return nil, err
+		}
+		for i := range chain {
+			positions = append(positions, i+1)
+		}
+		batch = append(batch, chain...)
+		response.Findings = append(response.Findings, auditPropertyChain(propertyNumber, chain)...)
+		response.Properties++
+	}
+	response.Entries = len(batch)
+
+	if len(batch) > 0 {
+		duplicates, err := auditDuplicateIDs(ctx, batch, positions)
+		if err != nil {
+			return nil, err
+		}
+		response.Findings = append(response.Findings, duplicates...)
+	}
+	if end < len(propertyNumbers) {
+		response.NextCursor = propertyNumbers[end-1]
+	}
+	return response, nil
+}
+
+func auditScanHandler(c *gin.Context) {
+	limit, ok := queryInt(c, "limit", defaultAuditBatchSize)
+	if !ok {
+		return
+	}
+	if limit < 1 || limit > maxAuditBatchSize {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "limit must be between 1 and " + strconv.Itoa(maxAuditBatchSize)})
+		return
+	}
+
+	response, err := scanLedger(context.TODO(), c.Query("after"), int(limit))
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	c.JSON(http.StatusOK, response)
+}
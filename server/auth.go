@@ -0,0 +1,289 @@
+package main
+
+import (
+	"context"
+	"crypto/hmac"
+	"crypto/rand"
+	"crypto/sha256"
+	"encoding/base64"
+	"encoding/json"
+	"errors"
+	"log"
+	"net/http"
+	"os"
+	"regexp"
+	"strings"
+	"time"
+
+	"github.com/gin-gonic/gin"
+	"golang.org/x/crypto/bcrypt"
+)
+
+const (
+	RoleRegistrar = "registrar"
+	RoleAuditor   = "auditor"
+	RoleViewer    = "viewer"
+
+	sessionTTL          = 8 * time.Hour
+	officerContextKey   = "officer"
+	authorizationPrefix = "Bearer "
+)
+
+var validRoles = map[string]bool{RoleRegistrar: true, RoleAuditor: true, RoleViewer: true}
+
+// usernamePattern keeps usernames safe to use in signing key file names.
+var usernamePattern = regexp.MustCompile(`^[a-z0-9_]{3,32}$`)
+
+// validUsername also reserves the name of the checkpoint signing key, whose
+// key files would otherwise be indistinguishable from an officer's.
+func validUsername(username string) bool {
+	return usernamePattern.MatchString(username) && username != checkpointKeyOwner
+}
+
+// Officer is a registry staff account. PasswordHash is a bcrypt hash and never
+// leaves the server.
+type Officer struct {
+	Username     string `bson:"username" json:"username"`
+	Name         string `bson:"name" json:"name"`
+	Role         string `bson:"role" json:"role"`
+	PasswordHash string `bson:"password_hash" json:"-"`
+	KeyID        string `bson:"key_id,omitempty" json:"key_id,omitempty"`
+	CreatedAt    int64  `bson:"created_at" json:"created_at"`
+}
+
+// SessionClaims are the signed contents of a session token.
+type SessionClaims struct {
+	Username  string `json:"sub"`
+	Name      string `json:"name"`
+	Role      string `json:"role"`
+	ExpiresAt int64  `json:"exp"`
+}
+
+type LoginPayload struct {
+	Username string `json:"username"`
+	Password string `json:"password"`
+}
+
+type NewOfficerPayload struct {
+	Username string `json:"username"`
+	Name     string `json:"name"`
+	Role     string `json:"role"`
+	Password string `json:"password"`
+}
+
+var (
+	sessionSecret []byte
+
+	errInvalidToken = errors.New("invalid session token")
+)
+
+// loadSessionSecret reads SESSION_SECRET. Without it a random secret is used,
+// which means every restart signs everyone out.
+func loadSessionSecret() {
+	if secret := os.Getenv("SESSION_SECRET"); secret != "" {
+		sessionSecret = []byte(secret)
+		return
+	}
+	log.Println("Warning: SESSION_SECRET not set, using a random secret; sessions will not survive a restart.")
+	sessionSecret = make([]byte, 32)
+	if _, err := rand.Read(sessionSecret); err != nil {
+		log.Fatal("Failed to generate session secret:", err)
+	}
+}
+
+func signSession(claims SessionClaims) (string, error) {
+	body, err := json.Marshal(claims)
+	if err != nil {
+		return "", err
+	}
+	encoded := base64.RawURLEncoding.EncodeToString(body)
+	mac := hmac.New(sha256.New, sessionSecret)
+	mac.Write([]byte(encoded))
+	return encoded + "." + base64.RawURLEncoding.EncodeToString(mac.Sum(nil)), nil
+}
+
+func parseSession(token string) (*SessionClaims, error) {
+	encoded, signature, found := strings.Cut(token, ".")
+	if !found {
+		return nil, errInvalidToken
+	}
+	given, err := base64.RawURLEncoding.DecodeString(signature)
+	if err != nil {
+		return nil, errInvalidToken
+	}
+	mac := hmac.New(sha256.New, sessionSecret)
+	mac.Write([]byte(encoded))
+	if !hmac.Equal(given, mac.Sum(nil)) {
+		return nil, errInvalidToken
+	}
+	body, err := base64.RawURLEncoding.DecodeString(encoded)
+	if err != nil {
+		return nil, errInvalidToken
+	}
+	var claims SessionClaims
+	if err := json.Unmarshal(body, &claims); err != nil {
+		return nil, errInvalidToken
+	}
+	if time.Now().Unix() >= claims.ExpiresAt {
+		return nil, errors.New("session expired")
+	}
+	return &claims, nil
+}
+
+func findOfficer(ctx context.Context, username string) (*Officer, error) {
+	return store.FindOfficer(ctx, username)
+}
+
+var errOfficerExists = errors.New("username already exists")
+
+func insertOfficer(ctx context.Context, payload NewOfficerPayload) (*Officer, error) {
+	hash, err := bcrypt.GenerateFromPassword([]byte(payload.Password), bcrypt.DefaultCost)
+	if err != nil {
+		return nil, err
+	}
+	officer := Officer{
+		Username:     payload.Username,
+		Name:         payload.Name,
+		Role:         payload.Role,
+		PasswordHash: string(hash),
+		CreatedAt:    time.Now().Unix(),
+	}
+	if officer.Role == RoleRegistrar {
+		if officer.KeyID, err = generateSigningKey(officer.Username); err != nil {
+			return nil, err
+		}
+	}
+	return &officer, store.InsertOfficer(ctx, officer)
+}
+
+// bootstrapRegistrar creates the first registrar from BOOTSTRAP_REGISTRAR_USERNAME
+// and BOOTSTRAP_REGISTRAR_PASSWORD when no officer accounts exist yet.
+func bootstrapRegistrar(ctx context.Context) {
+	username := os.Getenv("BOOTSTRAP_REGISTRAR_USERNAME")
+	password := os.Getenv("BOOTSTRAP_REGISTRAR_PASSWORD")
+	if username == "" || password == "" {
+		return
+	}
+	count, err := store.CountOfficers(ctx)
+	if err != nil {
+		log.Println("Warning: could not count officers:", err)
+		return
+	}
+	if count > 0 {
+		return
+	}
+	if !validUsername(username) {
+		log.Printf("Warning: bootstrap registrar username %q is not a valid username", username)
+		return
+	}
+	if _, err := insertOfficer(ctx, NewOfficerPayload{Username: username, Name: username, Role: RoleRegistrar, Password: password}); err != nil {
+		log.Println("Warning: could not create bootstrap registrar:", err)
+		return
+	}
+	log.Printf("Created bootstrap registrar %q", username)
+}
+
+// authenticate attaches the session's claims to the context when a valid
+// bearer token is present. It never rejects a request on its own.
+func authenticate(c *gin.Context) {
+	header := c.GetHeader("Authorization")
+	if strings.HasPrefix(header, authorizationPrefix) {
+		if claims, err := parseSession(strings.TrimPrefix(header, authorizationPrefix)); err == nil {
+			c.Set(officerContextKey, claims)
+		}
+	}
+	c.Next()
+}
+
+func currentOfficer(c *gin.Context) *SessionClaims {
+	value, ok := c.Get(officerContextKey)
+	if !ok {
+		return nil
+	}
+	claims, _ := value.(*SessionClaims)
+	return claims
+}
+
+// requireRole rejects requests without a session (401) or whose officer holds
+// none of the given roles (403).
+func requireRole(roles ...string) gin.HandlerFunc {
+	return func(c *gin.Context) {
+		claims := currentOfficer(c)
+		if claims == nil {
+			c.AbortWithStatusJSON(http.StatusUnauthorized, gin.H{"error": "Sign in to continue"})
+			return
+		}
+		for _, role := range roles {
+			if claims.Role == role {
+				c.Next()
+				return
+			}
+		}
+		c.AbortWithStatusJSON(http.StatusForbidden, gin.H{"error": "Your role (" + claims.Role + ") is not allowed to do this"})
+	}
+}
+
+func loginHandler(c *gin.Context) {
+	var payload LoginPayload
+	if err := c.BindJSON(&payload); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Invalid input"})
+		return
+	}
+	officer, err := findOfficer(context.TODO(), payload.Username)
+	if err != nil && !errors.Is(err, errNotFound) {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	if officer == nil || bcrypt.CompareHashAndPassword([]byte(officer.PasswordHash), []byte(payload.Password)) != nil {
+		c.JSON(http.StatusUnauthorized, gin.H{"error": "Invalid username or password"})
+		return
+	}
+
+	claims := SessionClaims{
+		Username:  officer.Username,
+		Name:      officer.Name,
+		Role:      officer.Role,
+		ExpiresAt: time.Now().Add(sessionTTL).Unix(),
+	}
+	token, err := signSession(claims)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	c.JSON(http.StatusOK, gin.H{"token": token, "officer": officer, "expires_at": claims.ExpiresAt})
+}
+
+func currentOfficerHandler(c *gin.Context) {
+	c.JSON(http.StatusOK, currentOfficer(c))
+}
+
+func createOfficerHandler(c *gin.Context) {
+	var payload NewOfficerPayload
+	if err := c.BindJSON(&payload); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Invalid input"})
+		return
+	}
+	if payload.Username == "" || len(payload.Password) < 8 || !validRoles[payload.Role] {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "A username, a password of at least 8 characters and a valid role are required"})
+		return
+	}
+	if !validUsername(payload.Username) {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Usernames must be 3 to 32 lowercase letters, digits or underscores and cannot be reserved names"})
+		return
+	}
+	ctx := context.TODO()
+	if _, err := findOfficer(ctx, payload.Username); err == nil {
+		c.JSON(http.StatusConflict, gin.H{"error": "Username already exists"})
+		return
+	}
+	// The store enforces unique usernames too, for a request that raced this one.
+	officer, err := insertOfficer(ctx, payload)
+	if errors.Is(err, errOfficerExists) {
+		c.JSON(http.StatusConflict, gin.H{"error": "Username already exists"})
+		return
+	} else if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	c.JSON(http.StatusOK, gin.H{"status": "success", "officer": officer})
+}
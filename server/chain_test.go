@@ -0,0 +1,204 @@
+package main
+
+import (
+	"encoding/json"
+	"os"
+	"strings"
+	"testing"
+)
+
+// hashFixture is one entry of testdata/hash_fixtures.json. The hashes and
+// hash inputs there were computed by client-deland3/lib/chain.ts, so these
+// tests fail whenever the server and the browser would disagree about an
+// entry's hash. Regenerate them with the client's hashInput and
+// computeEntryHash when a hash version is added, never by hand.
+type hashFixture struct {
+	Name      string      `json:"name"`
+	Entry     LedgerEntry `json:"entry"`
+	HashInput string      `json:"hash_input"`
+}
+
+func loadHashFixtures(t *testing.T) []hashFixture {
+	t.Helper()
+	raw, err := os.ReadFile("testdata/hash_fixtures.json")
+	if err != nil {
+		t.Fatal(err)
+	}
+	var fixtures []hashFixture
+	if err := json.Unmarshal(raw, &fixtures); err != nil {
+		t.Fatal(err)
+	}
+	return fixtures
+}
+
+func TestEntryHashMatchesClient(t *testing.T) {
+	versions := map[int]bool{}
+	for _, fixture := range loadHashFixtures(t) {
+		t.Run(fixture.Name, func(t *testing.T) {
+			versions[fixture.Entry.HashVersion] = true
+			if got := entryHashInput(fixture.Entry); got != fixture.HashInput {
+				t.Errorf("hash input\n got: %q\nwant: %q", got, fixture.HashInput)
+			}
+			if got := calculateHash(entryHashInput(fixture.Entry)); got != fixture.Entry.Hash {
+				t.Errorf("hash = %s, want %s", got, fixture.Entry.Hash)
+			}
+		})
+	}
+	for _, version := range []int{hashVersionLegacy, hashVersionJSON} {
+		if !versions[version] {
+			t.Errorf("no fixture covers hash version %d", version)
+		}
+	}
+}
+
+func TestLegacyHashInputFoldsTimestamp(t *testing.T) {
+	// Go's string(rune(n)) turns every realistic Unix timestamp into U+FFFD,
+	// so legacy entries a second apart hash alike.
+	entry := LedgerEntry{ID: "a", PrevHash: genesisHash, Timestamp: 1700000000}
+	later := entry
+	later.Timestamp++
+	if legacyHashInput(entry) != legacyHashInput(later) {
+		t.Fatal("legacy hash input changed with the timestamp")
+	}
+	if !strings.Contains(legacyHashInput(entry), "�") {
+		t.Fatal("legacy hash input does not carry the replacement rune")
+	}
+}
+
+func TestCanonicalHashInputCoversEveryField(t *testing.T) {
+	base := LedgerEntry{
+		ID:             "a",
+		SurveyNumber:   "SY-001",
+		PropertyNumber: "PR-001",
+		Sequence:       1,
+		OwnerID:        "OWN-001",
+		LandType:       "Agricultural",
+		Action:         ActionOther,
+		Details:        "x",
+		Timestamp:      1700000000,
+		PrevHash:       genesisHash,
+		HashVersion:    hashVersionJSON,
+		RecordedBy:     "registrar1",
+	}
+	changes := map[string]func(e *LedgerEntry){
+		"sequence":    func(e *LedgerEntry) { e.Sequence = 2 },
+		"timestamp":   func(e *LedgerEntry) { e.Timestamp++ },
+		"recorded_by": func(e *LedgerEntry) { e.RecordedBy = "registrar2" },
+		"payload":     func(e *LedgerEntry) { e.Payload = &ActionPayload{EffectiveDate: "1998-06-30"} },
+		"attachments": func(e *LedgerEntry) { e.Attachments = []Attachment{{SHA256: "00", Name: "a.pdf"}} },
+		// Field boundaries are unambiguous, unlike the legacy concatenation.
+		"field boundary": func(e *LedgerEntry) { e.SurveyNumber, e.PropertyNumber = "SY-001P", "R-001" },
+	}
+	for name, change := range changes {
+		changed := base
+		change(&changed)
+		if canonicalHashInput(changed) == canonicalHashInput(base) {
+			t.Errorf("changing %s does not change the hash input", name)
+		}
+	}
+	// An empty payload hashes like no payload at all.
+	withEmpty := base
+	withEmpty.Payload = &ActionPayload{}
+	if canonicalHashInput(withEmpty) != canonicalHashInput(base) {
+		t.Error("an empty payload changes the hash input")
+	}
+}
+
+// testChain builds a valid chain of canonical entries for one property.
+func testChain(actions ...string) []LedgerEntry {
+	chain := make([]LedgerEntry, len(actions))
+	prev := genesisHash
+	for i, action := range actions {
+		entry := LedgerEntry{
+			ID:             "entry-" + string(rune('a'+i)),
+			SurveyNumber:   "SY-001",
+			PropertyNumber: "PR-001",
+			Sequence:       int64(i + 1),
+			OwnerID:        "OWN-001",
+			LandType:       "Agricultural",
+			Action:         action,
+			Timestamp:      1700000000 + int64(i),
+			PrevHash:       prev,
+			HashVersion:    currentHashVersion,
+		}
+		entry.Hash = calculateHash(entryHashInput(entry))
+		chain[i] = entry
+		prev = entry.Hash
+	}
+	return chain
+}
+
+func TestVerifyPropertyChain(t *testing.T) {
+	tests := []struct {
+		name   string
+		tamper func(chain []LedgerEntry)
+		index  int
+		reason string
+	}{
+		{name: "intact", tamper: func([]LedgerEntry) {}, index: -1},
+		{
+			name:   "edited field",
+			tamper: func(chain []LedgerEntry) { chain[1].OwnerID = "OWN-999" },
+			index:  1,
+			reason: "hash does not match the entry's contents",
+		},
+		{
+			name: "relinked entry",
+			tamper: func(chain []LedgerEntry) {
+				chain[2].PrevHash = chain[0].Hash
+				chain[2].Hash = calculateHash(entryHashInput(chain[2]))
+			},
+			index:  2,
+			reason: "prev_hash does not match the previous entry",
+		},
+		{
+			name: "renumbered entry",
+			tamper: func(chain []LedgerEntry) {
+				chain[0].Sequence = 5
+				chain[0].Hash = calculateHash(entryHashInput(chain[0]))
+				chain[1].PrevHash = chain[0].Hash
+				chain[1].Hash = calculateHash(entryHashInput(chain[1]))
+				chain[2].PrevHash = chain[1].Hash
+				chain[2].Hash = calculateHash(entryHashInput(chain[2]))
+			},
+			index:  0,
+			reason: "sequence 5 at position 1",
+		},
+		{
+			name:   "unknown hash version",
+			tamper: func(chain []LedgerEntry) { chain[0].HashVersion = 7 },
+			index:  0,
+			reason: "unknown hash version 7",
+		},
+	}
+	for _, tt := range tests {
+		t.Run(tt.name, func(t *testing.T) {
+			chain := testChain(ActionOwnershipUpdated, ActionOther, ActionOther)
+			tt.tamper(chain)
+			broken := verifyPropertyChain(chain)
+			if tt.index < 0 {
+				if broken != nil {
+					t.Fatalf("unexpected break %+v", broken)
+				}
+				return
+			}
+			if broken == nil || broken.Index != tt.index || broken.Reason != tt.reason {
+				t.Fatalf("break = %+v, want index %d: %s", broken, tt.index, tt.reason)
+			}
+		})
+	}
+}
+
+func TestCanonicalJSON(t *testing.T) {
+	got, err := canonicalJSON(map[string]any{
+		"b": []any{1.5, "<&>", nil, true},
+		"a": map[string]any{"z": 1e21, "y": "\u2028"},
+	})
+	if err != nil {
+		t.Fatal(err)
+	}
+	want := `{"a":{"y":"\u2028","z":1e+21},"b":[1.5,"<&>",null,true]}`
+	if got != want {
+		t.Errorf("canonicalJSON\n got: %s\nwant: %s", got, want)
+	}
+}
@@ -0,0 +1,323 @@
+package main
+
+import (
+	"context"
+	"crypto/ed25519"
+	"encoding/base64"
+	"errors"
+	"log"
+	"net/http"
+	"os"
+	"path/filepath"
+	"sort"
+	"strings"
+	"sync"
+	"time"
+
+	"github.com/gin-gonic/gin"
+)
+
+// Checkpoints publish a Merkle root over every property's chain head. The
+// checkpoint log is itself hash-chained through PrevHash and each checkpoint
+// is signed with the server's checkpoint key, so one published root vouches
+// for the whole registry at that moment.
+
+// checkpointKeyOwner names the keystore key that signs checkpoints. It is
+// listed by GET /keys like any officer key.
+const checkpointKeyOwner = "checkpoint"
+
+const defaultCheckpointInterval = time.Hour
+
+// CheckpointLeaf is one property's chain head as of the checkpoint.
+type CheckpointLeaf struct {
+	PropertyNumber string `bson:"property_number" json:"property_number"`
+	HeadHash       string `bson:"head_hash" json:"head_hash"`
+}
+
+type Checkpoint struct {
+	Sequence  int64  `bson:"sequence" json:"sequence"`
+	Root      string `bson:"root" json:"root"`
+	TreeSize  int    `bson:"tree_size" json:"tree_size"`
+	Timestamp int64  `bson:"timestamp" json:"timestamp"`
+	PrevHash  string `bson:"prev_hash" json:"prev_hash"`
+	Hash      string `bson:"hash" json:"hash"`
+	KeyID     string `bson:"key_id" json:"key_id"`
+	Signature string `bson:"signature" json:"signature"`
+	// Leaves are kept so proofs can be served later; they are not part of
+	// the published checkpoint.
+	Leaves []CheckpointLeaf `bson:"leaves" json:"-"`
+}
+
+// InclusionProof shows that an entry's property chain, up to HeadHash, is
+// committed to by the checkpoint's root.
+type InclusionProof struct {
+	EntryID        string      `json:"entry_id"`
+	PropertyNumber string      `json:"property_number"`
+	HeadHash       string      `json:"head_hash"`
+	LeafIndex      int         `json:"leaf_index"`
+	Siblings       []ProofStep `json:"siblings"`
+	Checkpoint     Checkpoint  `json:"checkpoint"`
+}
+
+var (
+	checkpointMu    sync.Mutex
+	errNoCheckpoint = errors.New("No checkpoint has been published yet")
+)
+
+// checkpointHashInput covers every published field except the hash and
+// signature themselves.
+func checkpointHashInput(cp Checkpoint) string {
+	encoded, err := canonicalJSON(map[string]any{
+		"sequence":  cp.Sequence,
+		"root":      cp.Root,
+		"tree_size": cp.TreeSize,
+		"timestamp": cp.Timestamp,
+		"prev_hash": cp.PrevHash,
+	})
+	if err != nil {
+		// Strings and integers always encode.
+		panic(err)
+	}
+	return encoded
+}
+
+// checkpointSigningKey returns the checkpoint key, creating it on first use.
+func checkpointSigningKey() (string, ed25519.PrivateKey, error) {
+	files, err := filepath.Glob(filepath.Join(signingKeyDir, checkpointKeyOwner+"-*"+signingKeyExt))
+	if err != nil {
+		return "", nil, err
+	}
+	var keyID string
+	if len(files) > 0 {
+		sort.Strings(files)
+		keyID = strings.TrimSuffix(filepath.Base(files[0]), signingKeyExt)
+	} else if keyID, err = generateSigningKey(checkpointKeyOwner); err != nil {
+		return "", nil, err
+	}
+	key, err := readSigningKey(keyID)
+	return keyID, key, err
+}
+
+// collectChainHeads lists every property's current head, ordered by property
+// number so the tree is the same no matter how the database returns them.
+func collectChainHeads(ctx context.Context) ([]CheckpointLeaf, error) {
+	propertyNumbers, err := store.PropertyNumbers(ctx, EntryFilter{})
+	if err != nil {
+		return nil, err
+	}
+	leaves := make([]CheckpointLeaf, 0, len(propertyNumbers))
+	for _, propertyNumber := range propertyNumbers {
+		chain, err := getPropertyChain(ctx, propertyNumber)
+		if err != nil {
+			return nil, err
+		}
+		leaves = append(leaves, CheckpointLeaf{PropertyNumber: propertyNumber, HeadHash: getLastHash(chain)})
+	}
+	sort.Slice(leaves, func(i, j int) bool {
+		return leaves[i].PropertyNumber < leaves[j].PropertyNumber
+	})
+	return leaves, nil
+}
+
+func leafHashes(leaves []CheckpointLeaf) [][]byte {
+	hashes := make([][]byte, len(leaves))
+	for i, leaf := range leaves {
+		hashes[i] = merkleLeafHash(leaf.PropertyNumber, leaf.HeadHash)
+	}
+	return hashes
+}
+
+func latestCheckpoint(ctx context.Context) (*Checkpoint, error) {
+	cp, err := store.LatestCheckpoint(ctx)
+	if errors.Is(err, errNotFound) {
+		return nil, errNoCheckpoint
+	}
+	return cp, err
+}
+
+// createCheckpoint appends a checkpoint for the current chain heads. When no
+// chain has moved since the latest checkpoint it returns that one instead and
+// created is false, so idle periods do not grow the log.
+func createCheckpoint(ctx context.Context) (cp *Checkpoint, created bool, err error) {
+	checkpointMu.Lock()
+	defer checkpointMu.Unlock()
+
+	leaves, err := collectChainHeads(ctx)
+	if err != nil {
+		return nil, false, err
+	}
+	root := merkleRoot(leafHashes(leaves))
+
+	previous, err := latestCheckpoint(ctx)
+	if err != nil && !errors.Is(err, errNoCheckpoint) {
+		return nil, false, err
+	}
+	next := Checkpoint{
+		Sequence:  1,
+		Root:      root,
+		TreeSize:  len(leaves),
+		Timestamp: time.Now().Unix(),
+		PrevHash:  "genesis",
+		Leaves:    leaves,
+	}
+	if previous != nil {
+		if previous.Root == root {
+			return previous, false, nil
+		}
+		next.Sequence = previous.Sequence + 1
+		next.PrevHash = previous.Hash
+	}
+	next.Hash = calculateHash(checkpointHashInput(next))
+
+	keyID, key, err := checkpointSigningKey()
+	if err != nil {
+		return nil, false, err
+	}
+	next.KeyID = keyID
+	next.Signature = base64.StdEncoding.EncodeToString(ed25519.Sign(key, []byte(next.Hash)))
+
+	if err := store.InsertCheckpoint(ctx, next); err != nil {
+		return nil, false, err
+	}
+	return &next, true, nil
+}
+
+// loadCheckpointInterval reads CHECKPOINT_INTERVAL as a Go duration such as
+// "30m"; "0" turns periodic checkpoints off.
+func loadCheckpointInterval() time.Duration {
+	value := os.Getenv("CHECKPOINT_INTERVAL")
+	if value == "" {
+		return defaultCheckpointInterval
+	}
+	interval, err := time.ParseDuration(value)
+	if err != nil || interval < 0 {
+		log.Printf("Warning: invalid CHECKPOINT_INTERVAL %q, using %s", value, defaultCheckpointInterval)
+		return defaultCheckpointInterval
+	}
+	return interval
+}
+
+func startCheckpointScheduler(interval time.Duration) {
+	if interval == 0 {
+		return
+	}
+	go func() {
+		ticker := time.NewTicker(interval)
+		defer ticker.Stop()
+		for range ticker.C {
+			cp, created, err := createCheckpoint(context.Background())
+			if err != nil {
+				log.Println("Checkpoint failed:", err)
+			} else if created {
+				log.Printf("Published checkpoint %d over %d chains", cp.Sequence, cp.TreeSize)
+			}
+		}
+	}()
+}
+
+func createCheckpointHandler(c *gin.Context) {
+	cp, created, err := createCheckpoint(context.TODO())
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	c.JSON(http.StatusOK, gin.H{"checkpoint": cp, "created": created})
+}
+
+func latestCheckpointHandler(c *gin.Context) {
+	cp, err := latestCheckpoint(context.TODO())
+	if errors.Is(err, errNoCheckpoint) {
+		c.JSON(http.StatusNotFound, gin.H{"error": err.Error()})
+		return
+	}
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	c.JSON(http.StatusOK, cp)
+}
+
+// listCheckpointsHandler serves the checkpoint log, newest first.
+func listCheckpointsHandler(c *gin.Context) {
+	limit, ok := queryInt(c, "limit", 50)
+	if !ok {
+		return
+	}
+	if limit < 1 || limit > 500 {
+		limit = 50
+	}
+	checkpoints, err := store.ListCheckpoints(context.TODO(), limit)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	c.JSON(http.StatusOK, checkpoints)
+}
+
+// coveredByHead reports whether the entry sits at or before the chain head a
+// checkpoint recorded. Positions are compared rather than timestamps, which
+// cannot order entries recorded in the same second as the checkpoint.
+func coveredByHead(chain []LedgerEntry, entryID, headHash string) bool {
+	for _, entry := range chain {
+		if entry.ID == entryID {
+			return true
+		}
+		if entry.Hash == headHash {
+			return false
+		}
+	}
+	return false
+}
+
+// inclusionProofHandler proves an entry against the latest checkpoint. Entries
+// recorded after that checkpoint are reported as not yet covered.
+func inclusionProofHandler(c *gin.Context) {
+	ctx := context.TODO()
+	entryID := c.Param("entry_id")
+
+	entry, err := store.FindEntry(ctx, entryID)
+	if err != nil {
+		if errors.Is(err, errNotFound) {
+			c.JSON(http.StatusNotFound, gin.H{"error": "Entry not found"})
+			return
+		}
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+
+	cp, err := latestCheckpoint(ctx)
+	if errors.Is(err, errNoCheckpoint) {
+		c.JSON(http.StatusNotFound, gin.H{"error": err.Error()})
+		return
+	}
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+
+	index := sort.Search(len(cp.Leaves), func(i int) bool {
+		return cp.Leaves[i].PropertyNumber >= entry.PropertyNumber
+	})
+	covered := index < len(cp.Leaves) && cp.Leaves[index].PropertyNumber == entry.PropertyNumber
+	if covered {
+		chain, err := getPropertyChain(ctx, entry.PropertyNumber)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+			return
+		}
+		covered = coveredByHead(chain, entry.ID, cp.Leaves[index].HeadHash)
+	}
+	if !covered {
+		c.JSON(http.StatusConflict, gin.H{"error": "Entry was recorded after the latest checkpoint"})
+		return
+	}
+
+	c.JSON(http.StatusOK, InclusionProof{
+		EntryID:        entry.ID,
+		PropertyNumber: entry.PropertyNumber,
+		HeadHash:       cp.Leaves[index].HeadHash,
+		LeafIndex:      index,
+		Siblings:       merkleProof(leafHashes(cp.Leaves), index),
+		Checkpoint:     *cp,
+	})
+}
@@ -0,0 +1,193 @@
+package main
+
+import (
+	"context"
+	"fmt"
+	"math"
+	"net/http"
+	"sort"
+	"time"
+
+	"github.com/gin-gonic/gin"
+)
+
+// A property's award is declared once, by its AwardDeclared entry, and paid
+// off by Compensated entries quoting the award number, in as many partial
+// payments as it takes. Awards declared before amounts were recorded have no
+// amount; any payment settles them, as it always did.
+
+const (
+	AwardPending = "pending"
+	AwardPartial = "partial"
+	AwardPaid    = "paid"
+)
+
+// AwardPayment is one Compensated entry paid against an award.
+type AwardPayment struct {
+	EntryID          string  `json:"entry_id"`
+	Amount           float64 `json:"amount,omitempty"`
+	Currency         string  `json:"currency,omitempty"`
+	PaymentReference string  `json:"payment_reference,omitempty"`
+	Timestamp        int64   `json:"timestamp"`
+}
+
+// Award is an AwardDeclared entry together with what has been paid against it.
+type Award struct {
+	PropertyNumber string `json:"property_number"`
+	SurveyNumber   string `json:"survey_number"`
+	OwnerID        string `json:"owner_id"`
+	EntryID        string `json:"entry_id"`
+	AwardNumber    string `json:"award_number,omitempty"`
+	AwardDate      string `json:"award_date,omitempty"`
+	DeclaredAt     int64  `json:"declared_at"`
+	// Zero for awards declared before amounts were recorded.
+	Amount      float64        `json:"amount,omitempty"`
+	Currency    string         `json:"currency,omitempty"`
+	Paid        float64        `json:"paid"`
+	Outstanding float64        `json:"outstanding"`
+	Status      string         `json:"status"`
+	Payments    []AwardPayment `json:"payments"`
+	// Days since the award date, or since the entry when the date is unknown.
+	AgeDays int `json:"age_days"`
+}
+
+// cents rounds an amount to whole cents so that sums of payments compare
+// exactly against the award.
+func cents(amount float64) int64 {
+	return int64(math.Round(amount * 100))
+}
+
+func newAward(entry LedgerEntry) *Award {
+	award := &Award{
+		PropertyNumber: entry.PropertyNumber,
+		SurveyNumber:   entry.SurveyNumber,
+		OwnerID:        entry.OwnerID,
+		EntryID:        entry.ID,
+		DeclaredAt:     entry.Timestamp,
+		Status:         AwardPending,
+		Payments:       []AwardPayment{},
+	}
+	if p := entry.Payload; p != nil {
+		award.AwardNumber = p.AwardNumber
+		award.AwardDate = p.AwardDate
+		award.Amount = p.Amount
+		award.Currency = p.Currency
+	}
+	award.Outstanding = award.Amount
+	return award
+}
+
+// pay records a Compensated entry against the award.
+func (a *Award) pay(entry LedgerEntry) {
+	payment := AwardPayment{EntryID: entry.ID, Timestamp: entry.Timestamp}
+	if p := entry.Payload; p != nil {
+		payment.Amount = p.Amount
+		payment.Currency = p.Currency
+		payment.PaymentReference = p.PaymentReference
+	}
+	a.Payments = append(a.Payments, payment)
+	a.Paid = float64(cents(a.Paid+payment.Amount)) / 100
+	a.Outstanding = math.Max(float64(cents(a.Amount-a.Paid))/100, 0)
+	a.Status = AwardPartial
+	if a.settled() {
+		a.Status = AwardPaid
+	}
+}
+
+// settled reports whether the award needs no further payment.
+func (a *Award) settled() bool {
+	if a.Amount == 0 {
+		return len(a.Payments) > 0
+	}
+	return cents(a.Paid) >= cents(a.Amount)
+}
+
+func (a *Award) setAge(now time.Time) {
+	since := time.Unix(a.DeclaredAt, 0)
+	if date, err := time.Parse("2006-01-02", a.AwardDate); err == nil {
+		since = date
+	}
+	a.AgeDays = int(now.Sub(since).Hours() / 24)
+}
+
+// validatePayment checks a Compensated payload against the award on record.
+func validatePayment(p *ActionPayload, award *Award, fields map[string]string) {
+	if award == nil {
+		return
+	}
+	if p.AwardNumber != "" && award.AwardNumber != "" && p.AwardNumber != award.AwardNumber {
+		fields["payload.award_number"] = fmt.Sprintf("The award on record for this property is %s", award.AwardNumber)
+	}
+	if award.Amount == 0 {
+		return
+	}
+	if p.Currency != "" && award.Currency != "" && p.Currency != award.Currency {
+		fields["payload.currency"] = fmt.Sprintf("The award is in %s", award.Currency)
+	}
+	if award.settled() {
+		fields["payload.amount"] = "The award has already been paid in full"
+	} else if cents(p.Amount) > cents(award.Outstanding) {
+		fields["payload.amount"] = fmt.Sprintf("Only %.2f %s is outstanding on the award", award.Outstanding, award.Currency)
+	}
+}
+
+// CompensationReport lists awards with the outstanding balance per currency.
+type CompensationReport struct {
+	Awards      []Award            `json:"awards"`
+	Outstanding map[string]float64 `json:"outstanding"`
+	GeneratedAt int64              `json:"generated_at"`
+}
+
+// compensationReportHandler lists the awards still owed (status=outstanding,
+// the default), those paid in full (status=paid) or all of them, oldest
+// first, optionally for one survey number.
+func compensationReportHandler(c *gin.Context) {
+	ctx := context.TODO()
+	status := c.DefaultQuery("status", "outstanding")
+	if status != "outstanding" && status != AwardPaid && status != "all" {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Invalid status"})
+		return
+	}
+	propertyNumbers, err := store.PropertyNumbers(ctx, EntryFilter{
+		Action:       ActionAwardDeclared,
+		SurveyNumber: c.Query("survey_number"),
+	})
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+
+	now := time.Now()
+	report := CompensationReport{Awards: []Award{}, Outstanding: map[string]float64{}, GeneratedAt: now.Unix()}
+	for _, propertyNumber := range propertyNumbers {
+		chain, err := getPropertyChain(ctx, propertyNumber)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+			return
+		}
+		award := replayPropertyState(chain).award
+		if award == nil {
+			continue
+		}
+		paid := award.Status == AwardPaid
+		if (status == "outstanding" && paid) || (status == AwardPaid && !paid) {
+			continue
+		}
+		award.setAge(now)
+		if award.Outstanding > 0 {
+			report.Outstanding[award.Currency] = float64(cents(report.Outstanding[award.Currency]+award.Outstanding)) / 100
+		}
+		report.Awards = append(report.Awards, *award)
+	}
+	sort.Slice(report.Awards, func(i, j int) bool {
+		a, b := report.Awards[i], report.Awards[j]
+		if a.AgeDays != b.AgeDays {
+			return a.AgeDays > b.AgeDays
+		}
+		if a.SurveyNumber != b.SurveyNumber {
+			return a.SurveyNumber < b.SurveyNumber
+		}
+		return a.PropertyNumber < b.PropertyNumber
+	})
+	c.JSON(http.StatusOK, report)
+}
@@ -0,0 +1,177 @@
+package main
+
+import (
+	"fmt"
+	"strings"
+)
+
+// Encumbrances are claims against a property recorded on its chain: liens and
+// mortgages, registered and released by their charge reference, and court
+// stays, ordered and lifted by case number. A property's active encumbrances
+// are whatever its amended history registered and has not yet released.
+// Ownership cannot change, nor can the property be subdivided or merged, while
+// a stay or lien is active unless the entry gives an override reason; a
+// mortgage travels with the land and does not block a transfer.
+
+const (
+	ActionLienRegistered     = "LienRegistered"
+	ActionLienReleased       = "LienReleased"
+	ActionMortgageRegistered = "MortgageRegistered"
+	ActionMortgageReleased   = "MortgageReleased"
+	ActionStayOrdered        = "StayOrdered"
+	ActionStayLifted         = "StayLifted"
+)
+
+const (
+	EncumbranceLien     = "Lien"
+	EncumbranceMortgage = "Mortgage"
+	EncumbranceStay     = "Stay"
+)
+
+// Encumbrance is a claim still in force. Reference is the charge reference of
+// a lien or mortgage, or the case number of a stay; Holder is the creditor,
+// the lender or the court.
+type Encumbrance struct {
+	Kind      string
+	Reference string
+	Holder    string
+}
+
+// encumbranceAction reports the kind of encumbrance an action registers or
+// releases, and which of the two it does.
+func encumbranceAction(action string) (kind string, registers bool, ok bool) {
+	switch action {
+	case ActionLienRegistered:
+		return EncumbranceLien, true, true
+	case ActionLienReleased:
+		return EncumbranceLien, false, true
+	case ActionMortgageRegistered:
+		return EncumbranceMortgage, true, true
+	case ActionMortgageReleased:
+		return EncumbranceMortgage, false, true
+	case ActionStayOrdered:
+		return EncumbranceStay, true, true
+	case ActionStayLifted:
+		return EncumbranceStay, false, true
+	}
+	return "", false, false
+}
+
+func isEncumbrance(action string) bool {
+	_, _, ok := encumbranceAction(action)
+	return ok
+}
+
+// encumbranceReference is the payload field naming the encumbrance.
+func encumbranceReference(kind string, p *ActionPayload) string {
+	if kind == EncumbranceStay {
+		return p.CaseNumber
+	}
+	return p.ChargeReference
+}
+
+func (e Encumbrance) blocksTransfer() bool {
+	return e.Kind != EncumbranceMortgage
+}
+
+func (e Encumbrance) String() string {
+	if e.Kind == EncumbranceStay {
+		return fmt.Sprintf("a court stay in case %s (%s)", e.Reference, e.Holder)
+	}
+	return fmt.Sprintf("%s %s held by %s", strings.ToLower(e.Kind), e.Reference, e.Holder)
+}
+
+// applyEncumbrance registers or releases the encumbrance an entry records.
+func (s *propertyState) applyEncumbrance(entry LedgerEntry) {
+	kind, registers, ok := encumbranceAction(entry.Action)
+	if !ok || entry.Payload == nil {
+		return
+	}
+	reference := encumbranceReference(kind, entry.Payload)
+	if !registers {
+		if i := s.encumbranceIndex(kind, reference); i >= 0 {
+			s.encumbrances = append(s.encumbrances[:i:i], s.encumbrances[i+1:]...)
+		}
+		return
+	}
+	holder := entry.Payload.Holder
+	if kind == EncumbranceStay {
+		holder = entry.Payload.Court
+	}
+	s.encumbrances = append(s.encumbrances, Encumbrance{Kind: kind, Reference: reference, Holder: holder})
+}
+
+func (s propertyState) encumbranceIndex(kind, reference string) int {
+	for i, e := range s.encumbrances {
+		if e.Kind == kind && e.Reference == reference {
+			return i
+		}
+	}
+	return -1
+}
+
+// transferBlocks lists the active encumbrances that stop ownership changing.
+func (s propertyState) transferBlocks() []string {
+	var blocks []string
+	for _, e := range s.encumbrances {
+		if e.blocksTransfer() {
+			blocks = append(blocks, e.String())
+		}
+	}
+	return blocks
+}
+
+// blockedByEncumbrance reports whether an action is held up by an active stay
+// or lien. A merger is checked against its parents in validateLineage.
+func blockedByEncumbrance(action string) bool {
+	return action == ActionOwnershipUpdated || action == ActionSubdivided
+}
+
+// validateOverride requires an override reason exactly when blocks is not
+// empty.
+func validateOverride(blocks []string, reason string, fields map[string]string) {
+	switch {
+	case len(blocks) > 0 && strings.TrimSpace(reason) == "":
+		fields["payload.override_reason"] = fmt.Sprintf("The property is subject to %s; give an override reason to record the change anyway",
+			strings.Join(blocks, " and "))
+	case len(blocks) == 0 && strings.TrimSpace(reason) != "":
+		fields["payload.override_reason"] = "No stay or lien is active on this property; leave the override reason empty"
+	}
+}
+
+// validateEncumbrance checks an entry registering or releasing an
+// encumbrance against those already active, and an ownership change or
+// subdivision against the ones that block it.
+func validateEncumbrance(payload NewEntryPayload, state propertyState, fields map[string]string) {
+	p := payload.Payload
+	if p == nil {
+		return
+	}
+	if blockedByEncumbrance(payload.Action) {
+		validateOverride(state.transferBlocks(), p.OverrideReason, fields)
+		return
+	}
+
+	kind, registers, ok := encumbranceAction(payload.Action)
+	if !ok {
+		return
+	}
+	name := "payload.charge_reference"
+	if kind == EncumbranceStay {
+		name = "payload.case_number"
+	}
+	reference := encumbranceReference(kind, p)
+	if reference == "" {
+		return
+	}
+	active := state.encumbranceIndex(kind, reference) >= 0
+	switch {
+	case registers && active:
+		fields[name] = fmt.Sprintf("%s %s is already active on this property", kind, reference)
+	case !registers && !active:
+		fields[name] = fmt.Sprintf("No active %s with reference %s is on this property", strings.ToLower(kind), reference)
+	}
+	if registers && (p.Amount != 0) != (p.Currency != "") {
+		fields["payload.currency"] = "Give both the amount secured and its currency, or neither"
+	}
+}
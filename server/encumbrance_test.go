@@ -0,0 +1,161 @@
+package main
+
+import (
+	"context"
+	"testing"
+)
+
+func TestValidateEncumbrance(t *testing.T) {
+	lien := ledgerEntry("lien", ActionLienRegistered, &ActionPayload{Holder: "State Bank", ChargeReference: "LIEN-1"})
+	mortgage := ledgerEntry("mortgage", ActionMortgageRegistered, &ActionPayload{Holder: "State Bank", ChargeReference: "MORT-1"})
+	stay := ledgerEntry("stay", ActionStayOrdered, &ActionPayload{Court: "District Court", CaseNumber: "CS-9", OrderDate: "2024-02-01"})
+	lifted := ledgerEntry("lifted", ActionStayLifted, &ActionPayload{CaseNumber: "CS-9", OrderDate: "2024-03-01"})
+
+	tests := []struct {
+		name    string
+		history []LedgerEntry
+		entry   NewEntryPayload
+		fields  []string
+	}{
+		{
+			name:    "transfer under a lien",
+			history: []LedgerEntry{registered, lien},
+			entry:   transferTo("OWN-002", transferPayload("")),
+			fields:  []string{"payload.override_reason"},
+		},
+		{
+			name:    "transfer under a lien with a blank override",
+			history: []LedgerEntry{registered, lien},
+			entry:   transferTo("OWN-002", transferPayload(" \t")),
+			fields:  []string{"payload.override_reason"},
+		},
+		{
+			name:    "transfer under a lien with an override",
+			history: []LedgerEntry{registered, lien},
+			entry:   transferTo("OWN-002", transferPayload("Sale ordered by the recovery tribunal")),
+			fields:  nil,
+		},
+		{
+			name:    "transfer under a court stay",
+			history: []LedgerEntry{registered, stay},
+			entry:   transferTo("OWN-002", transferPayload("")),
+			fields:  []string{"payload.override_reason"},
+		},
+		{
+			name:    "transfer once the stay is lifted",
+			history: []LedgerEntry{registered, stay, lifted},
+			entry:   transferTo("OWN-002", transferPayload("")),
+			fields:  nil,
+		},
+		{
+			name:    "transfer under a mortgage",
+			history: []LedgerEntry{registered, mortgage},
+			entry:   transferTo("OWN-002", transferPayload("")),
+			fields:  nil,
+		},
+		{
+			name:    "override with nothing to override",
+			history: []LedgerEntry{registered, mortgage},
+			entry:   transferTo("OWN-002", transferPayload("Just in case")),
+			fields:  []string{"payload.override_reason"},
+		},
+		{
+			name:    "subdivision under a court stay",
+			history: []LedgerEntry{registered, stay},
+			entry:   newEntry(ActionSubdivided, &ActionPayload{Children: []string{"PR-001-A", "PR-001-B"}}),
+			fields:  []string{"payload.override_reason"},
+		},
+		{
+			name:    "subdivision under a lien with an override",
+			history: []LedgerEntry{registered, lien},
+			entry: newEntry(ActionSubdivided, &ActionPayload{
+				Children: []string{"PR-001-A", "PR-001-B"}, OverrideReason: "Partition decreed by the court"}),
+			fields: nil,
+		},
+		{
+			name:    "registering an active lien again",
+			history: []LedgerEntry{registered, lien},
+			entry:   newEntry(ActionLienRegistered, lien.Payload),
+			fields:  []string{"payload.charge_reference"},
+		},
+		{
+			name:    "ordering an active stay again",
+			history: []LedgerEntry{registered, stay},
+			entry:   newEntry(ActionStayOrdered, stay.Payload),
+			fields:  []string{"payload.case_number"},
+		},
+		{
+			name:    "releasing a lien that is not active",
+			history: []LedgerEntry{registered, mortgage},
+			entry:   newEntry(ActionLienReleased, &ActionPayload{ChargeReference: "MORT-1"}),
+			fields:  []string{"payload.charge_reference"},
+		},
+		{
+			name:    "releasing an active mortgage",
+			history: []LedgerEntry{registered, mortgage},
+			entry:   newEntry(ActionMortgageReleased, &ActionPayload{ChargeReference: "MORT-1"}),
+			fields:  nil,
+		},
+		{
+			name:    "amount secured without a currency",
+			history: []LedgerEntry{registered},
+			entry:   newEntry(ActionMortgageRegistered, &ActionPayload{Holder: "State Bank", ChargeReference: "MORT-2", Amount: 500}),
+			fields:  []string{"payload.currency"},
+		},
+	}
+	for _, tt := range tests {
+		t.Run(tt.name, func(t *testing.T) {
+			checkFields(t, validateEntry(tt.entry, tt.history), tt.fields...)
+		})
+	}
+}
+
+func TestMergeUnderEncumbrance(t *testing.T) {
+	ctx := context.Background()
+	previous := store
+	store = openTestJournal(t, "")
+	t.Cleanup(func() { store = previous })
+
+	for _, entry := range []LedgerEntry{
+		registered,
+		ledgerEntry("stay", ActionStayOrdered, &ActionPayload{Court: "District Court", CaseNumber: "CS-9", OrderDate: "2024-02-01"}),
+	} {
+		if err := store.InsertEntry(ctx, entry); err != nil {
+			t.Fatal(err)
+		}
+	}
+	other := registered
+	other.ID, other.PropertyNumber = "opened-2", "PR-002"
+	if err := store.InsertEntry(ctx, other); err != nil {
+		t.Fatal(err)
+	}
+
+	merger := func(reason string) NewEntryPayload {
+		entry := newEntry(ActionMerged, &ActionPayload{
+			Parents:        []LineageLink{{PropertyNumber: "PR-001"}, {PropertyNumber: "PR-002"}},
+			OverrideReason: reason,
+		})
+		entry.PropertyNumber = "PR-003"
+		return entry
+	}
+	for _, tt := range []struct {
+		name   string
+		entry  NewEntryPayload
+		fields []string
+	}{
+		{name: "without an override", entry: merger(""), fields: []string{"payload.override_reason"}},
+		{name: "with an override", entry: merger("Consolidation ordered in CS-9"), fields: nil},
+	} {
+		t.Run(tt.name, func(t *testing.T) {
+			fields := map[string]string{}
+			if err := validateLineage(ctx, tt.entry, nil, fields); err != nil {
+				t.Fatal(err)
+			}
+			var verr *ValidationError
+			if len(fields) > 0 {
+				verr = &ValidationError{Fields: fields}
+			}
+			checkFields(t, verr, tt.fields...)
+		})
+	}
+}
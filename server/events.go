@@ -0,0 +1,196 @@
+package main
+
+import (
+	"context"
+	"encoding/json"
+	"fmt"
+	"net/http"
+	"strconv"
+	"strings"
+	"sync"
+	"time"
+
+	"github.com/gin-gonic/gin"
+)
+
+// New entries are pushed to browsers over Server-Sent Events on GET /events.
+// Each event's ID is "<timestamp>:<entry id>"; a reconnecting client sends the
+// last one it saw (EventSource does this itself via the Last-Event-ID header)
+// and the stream first replays whatever it missed from the store. A client
+// that missed more than maxReplayEvents is sent a "reset" event instead and
+// reloads what it shows before streaming again.
+
+const (
+	eventBufferSize   = 64
+	maxReplayEvents   = 500
+	eventHeartbeat    = 25 * time.Second
+	eventRetryMillis  = 3000
+	ledgerEventName   = "entry"
+	resetEventName    = "reset"
+	lastEventIDHeader = "Last-Event-ID"
+)
+
+// entryBroker fans newly created entries out to every open stream. Delivery
+// never blocks an append: a subscriber that falls a full buffer behind is
+// dropped and catches up through Last-Event-ID when its client reconnects.
+type entryBroker struct {
+	mu          sync.Mutex
+	subscribers map[chan LedgerEntry]struct{}
+}
+
+var ledgerEvents = &entryBroker{subscribers: map[chan LedgerEntry]struct{}{}}
+
+func (b *entryBroker) subscribe() chan LedgerEntry {
+	ch := make(chan LedgerEntry, eventBufferSize)
+	b.mu.Lock()
+	b.subscribers[ch] = struct{}{}
+	b.mu.Unlock()
+	return ch
+}
+
+func (b *entryBroker) unsubscribe(ch chan LedgerEntry) {
+	b.mu.Lock()
+	defer b.mu.Unlock()
+	if _, ok := b.subscribers[ch]; ok {
+		delete(b.subscribers, ch)
+		close(ch)
+	}
+}
+
+func (b *entryBroker) publish(entry LedgerEntry) {
+	b.mu.Lock()
+	defer b.mu.Unlock()
+	for ch := range b.subscribers {
+		select {
+		case ch <- entry:
+		default:
+			delete(b.subscribers, ch)
+			close(ch)
+		}
+	}
+}
+
+func ledgerEventID(entry LedgerEntry) string {
+	return fmt.Sprintf("%d:%s", entry.Timestamp, entry.ID)
+}
+
+// missedEntries returns the entries created after the one named by
+// lastEventID, oldest first. Entries sharing the last entry's timestamp are
+// ordered by insertion; if that entry cannot be found among them, they are
+// all replayed and the client discards the ones it already has. complete is
+// false when there are more than maxReplayEvents to replay.
+func missedEntries(ctx context.Context, lastEventID, propertyNumber string) (missed []LedgerEntry, complete bool, err error) {
+	rawTimestamp, lastID, ok := strings.Cut(lastEventID, ":")
+	timestamp, err := strconv.ParseInt(rawTimestamp, 10, 64)
+	if !ok || err != nil {
+		return nil, true, nil
+	}
+
+	entries, _, err := store.FindEntries(ctx, EntryQuery{
+		EntryFilter: EntryFilter{PropertyNumber: propertyNumber, From: timestamp},
+		Limit:       maxReplayEvents + 1,
+	})
+	if err != nil {
+		return nil, false, err
+	}
+	if len(entries) > maxReplayEvents {
+		return nil, false, nil
+	}
+	for i, entry := range entries {
+		if entry.ID == lastID {
+			return entries[i+1:], true, nil
+		}
+	}
+	return entries, true, nil
+}
+
+func writeLedgerEvent(w gin.ResponseWriter, entry LedgerEntry) error {
+	data, err := json.Marshal(entry)
+	if err != nil {
+		return err
+	}
+	if _, err := fmt.Fprintf(w, "id: %s\nevent: %s\ndata: %s\n\n", ledgerEventID(entry), ledgerEventName, data); err != nil {
+		return err
+	}
+	w.Flush()
+	return nil
+}
+
+// writeResetEvent tells the client its replay was abandoned. It carries no ID,
+// so the client's Last-Event-ID stays at the last entry it actually saw.
+func writeResetEvent(w gin.ResponseWriter) error {
+	if _, err := fmt.Fprintf(w, "event: %s\ndata: {}\n\n", resetEventName); err != nil {
+		return err
+	}
+	w.Flush()
+	return nil
+}
+
+// ledgerEventsHandler streams new entries, optionally only those for one
+// property_number. A last_event_id query parameter stands in for the
+// Last-Event-ID header when a client opens a fresh stream itself.
+func ledgerEventsHandler(c *gin.Context) {
+	propertyNumber := c.Query("property_number")
+	lastEventID := c.GetHeader(lastEventIDHeader)
+	if lastEventID == "" {
+		lastEventID = c.Query("last_event_id")
+	}
+
+	// Subscribe before replaying so nothing created in between is lost;
+	// entries that arrive both ways are sent once.
+	ch := ledgerEvents.subscribe()
+	defer ledgerEvents.unsubscribe(ch)
+
+	ctx := c.Request.Context()
+	missed, complete, err := missedEntries(ctx, lastEventID, propertyNumber)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+
+	c.Header("Content-Type", "text/event-stream")
+	c.Header("Cache-Control", "no-cache")
+	c.Header("Connection", "keep-alive")
+	c.Header("X-Accel-Buffering", "no")
+	c.Status(http.StatusOK)
+	fmt.Fprintf(c.Writer, "retry: %d\n\n", eventRetryMillis)
+	c.Writer.Flush()
+
+	if !complete {
+		if err := writeResetEvent(c.Writer); err != nil {
+			return
+		}
+	}
+	replayed := make(map[string]bool, len(missed))
+	for _, entry := range missed {
+		if err := writeLedgerEvent(c.Writer, entry); err != nil {
+			return
+		}
+		replayed[entry.ID] = true
+	}
+
+	heartbeat := time.NewTicker(eventHeartbeat)
+	defer heartbeat.Stop()
+	for {
+		select {
+		case <-ctx.Done():
+			return
+		case <-heartbeat.C:
+			if _, err := fmt.Fprint(c.Writer, ": heartbeat\n\n"); err != nil {
+				return
+			}
+			c.Writer.Flush()
+		case entry, open := <-ch:
+			if !open {
+				// Dropped for falling behind; the client reconnects and replays.
+				return
+			}
+			if replayed[entry.ID] || (propertyNumber != "" && entry.PropertyNumber != propertyNumber) {
+				continue
+			}
+			if err := writeLedgerEvent(c.Writer, entry); err != nil {
+				return
+			}
+		}
+	}
+}
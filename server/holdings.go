@@ -0,0 +1,116 @@
+package main
+
+import (
+	"context"
+	"net/http"
+	"sort"
+
+	"github.com/gin-gonic/gin"
+)
+
+// PropertyHolding describes one property in an owner's portfolio. AcquiredAt is
+// the ownership entry that started the owner's most recent holding period and
+// ReleasedAt the entry that named someone else (zero while still held).
+type PropertyHolding struct {
+	PropertyNumber string `json:"property_number"`
+	SurveyNumber   string `json:"survey_number"`
+	LandType       string `json:"land_type"`
+	CurrentOwnerID string `json:"current_owner_id"`
+	LastAction     string `json:"last_action"`
+	AcquiredAt     int64  `json:"acquired_at"`
+	ReleasedAt     int64  `json:"released_at,omitempty"`
+	LastUpdated    int64  `json:"last_updated"`
+}
+
+type OwnerPortfolio struct {
+	OwnerID string            `json:"owner_id"`
+	Current []PropertyHolding `json:"current"`
+	Former  []PropertyHolding `json:"former"`
+}
+
+func isOwnershipAction(action string) bool {
+	return action == ActionAwardDeclared || action == ActionOwnershipUpdated
+}
+
+// holdingFor replays a property's chronological history and reports how the
+// given owner relates to it. ok is false when no ownership entry ever named them.
+// A property opened by a subdivision or merger is acquired by its first
+// owner, and one closed by them is released by whoever held it.
+func holdingFor(ownerID string, history []LedgerEntry) (holding PropertyHolding, current bool, ok bool) {
+	var holder string
+	for _, entry := range history {
+		if isLineage(entry.Action) && entry.Payload != nil && len(entry.Payload.Children) > 0 {
+			if holder == ownerID {
+				holding.ReleasedAt = entry.Timestamp
+			}
+			holder = ""
+			continue
+		}
+		if !isOwnershipAction(entry.Action) && openingPrevHash(entry) == genesisHash {
+			continue
+		}
+		if entry.OwnerID == ownerID && holder != ownerID {
+			holding.AcquiredAt = entry.Timestamp
+			holding.ReleasedAt = 0
+			ok = true
+		} else if entry.OwnerID != ownerID && holder == ownerID {
+			holding.ReleasedAt = entry.Timestamp
+		}
+		holder = entry.OwnerID
+	}
+	if !ok {
+		return holding, false, false
+	}
+
+	last := history[len(history)-1]
+	holding.PropertyNumber = last.PropertyNumber
+	holding.SurveyNumber = last.SurveyNumber
+	holding.LandType = last.LandType
+	holding.CurrentOwnerID = holder
+	holding.LastAction = last.Action
+	holding.LastUpdated = last.Timestamp
+	return holding, holder == ownerID, true
+}
+
+func getOwnerPortfolioHandler(c *gin.Context) {
+	ownerID := c.Param("owner_id")
+	ctx := context.TODO()
+
+	propertyNumbers, err := store.PropertyNumbers(ctx, EntryFilter{OwnerID: ownerID})
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	if len(propertyNumbers) == 0 {
+		c.JSON(http.StatusNotFound, gin.H{"error": "Owner not found"})
+		return
+	}
+
+	// Each chain is loaded in sequence order: timestamps only have one-second
+	// resolution, so entries recorded together cannot be ordered by them.
+	portfolio := OwnerPortfolio{OwnerID: ownerID, Current: []PropertyHolding{}, Former: []PropertyHolding{}}
+	for _, propertyNumber := range propertyNumbers {
+		history, err := getPropertyChain(ctx, propertyNumber)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+			return
+		}
+		holding, current, ok := holdingFor(ownerID, amendedHistory(history))
+		if !ok {
+			continue
+		}
+		if current {
+			portfolio.Current = append(portfolio.Current, holding)
+		} else {
+			portfolio.Former = append(portfolio.Former, holding)
+		}
+	}
+	sort.Slice(portfolio.Current, func(i, j int) bool {
+		return portfolio.Current[i].PropertyNumber < portfolio.Current[j].PropertyNumber
+	})
+	sort.Slice(portfolio.Former, func(i, j int) bool {
+		return portfolio.Former[i].ReleasedAt > portfolio.Former[j].ReleasedAt
+	})
+
+	c.JSON(http.StatusOK, portfolio)
+}
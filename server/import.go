@@ -0,0 +1,98 @@
+package main
+
+import (
+	"context"
+	"errors"
+	"fmt"
+	"net/http"
+
+	"github.com/gin-gonic/gin"
+)
+
+// maxBatchSize caps how many rows a single /add_entries call may carry.
+// Larger imports are split into several calls by the client.
+const maxBatchSize = 500
+
+const (
+	BatchRowCreated = "created"
+	BatchRowFailed  = "failed"
+	BatchRowSkipped = "skipped"
+)
+
+type BatchPayload struct {
+	Entries []NewEntryPayload `json:"entries"`
+}
+
+// BatchRowResult reports what happened to one row of a batch, by its position
+// in the request.
+type BatchRowResult struct {
+	Index  int               `json:"index"`
+	Status string            `json:"status"`
+	Entry  *LedgerEntry      `json:"entry,omitempty"`
+	Error  string            `json:"error,omitempty"`
+	Fields map[string]string `json:"fields,omitempty"`
+}
+
+type BatchResponse struct {
+	Created int              `json:"created"`
+	Failed  int              `json:"failed"`
+	Skipped int              `json:"skipped"`
+	Results []BatchRowResult `json:"results"`
+}
+
+// appendBatch appends the rows one after another through createEntry, so each
+// row is validated against, and chained onto, everything appended before it.
+// Every row is timestamped when it is appended; a migrated record keeps its
+// original date in the payload's effective_date.
+// A row that breaks a ledger rule or loses a race with another append is
+// reported and the batch carries on; a storage failure stops the batch and
+// the remaining rows are reported skipped.
+func appendBatch(ctx context.Context, rows []NewEntryPayload, recordedBy string) BatchResponse {
+	response := BatchResponse{Results: make([]BatchRowResult, 0, len(rows))}
+	var storageErr error
+	for i, row := range rows {
+		if storageErr != nil {
+			response.Skipped++
+			response.Results = append(response.Results, BatchRowResult{Index: i, Status: BatchRowSkipped, Error: "Not attempted after an earlier storage error"})
+			continue
+		}
+
+		row.fromImport = true
+		entry, err := createEntry(ctx, row, recordedBy)
+		var verr *ValidationError
+		var conflict *ChainConflictError
+		switch {
+		case errors.As(err, &verr):
+			response.Failed++
+			response.Results = append(response.Results, BatchRowResult{Index: i, Status: BatchRowFailed, Error: verr.Error(), Fields: verr.Fields})
+		case errors.As(err, &conflict):
+			response.Failed++
+			response.Results = append(response.Results, BatchRowResult{Index: i, Status: BatchRowFailed, Error: conflict.Error()})
+		case err != nil:
+			storageErr = err
+			response.Failed++
+			response.Results = append(response.Results, BatchRowResult{Index: i, Status: BatchRowFailed, Error: err.Error()})
+		default:
+			response.Created++
+			response.Results = append(response.Results, BatchRowResult{Index: i, Status: BatchRowCreated, Entry: entry})
+		}
+	}
+	return response
+}
+
+func addEntriesHandler(c *gin.Context) {
+	var payload BatchPayload
+	if err := c.BindJSON(&payload); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Invalid input"})
+		return
+	}
+	if len(payload.Entries) == 0 {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "The batch has no entries"})
+		return
+	}
+	if len(payload.Entries) > maxBatchSize {
+		c.JSON(http.StatusRequestEntityTooLarge, gin.H{"error": fmt.Sprintf("A batch may hold at most %d entries", maxBatchSize)})
+		return
+	}
+	c.JSON(http.StatusOK, appendBatch(context.TODO(), payload.Entries, currentOfficer(c).Username))
+}
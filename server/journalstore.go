@@ -0,0 +1,495 @@
+package main
+
+import (
+	"bufio"
+	"bytes"
+	"context"
+	"encoding/json"
+	"errors"
+	"fmt"
+	"io"
+	"log"
+	"os"
+	"sort"
+	"strings"
+	"sync"
+)
+
+// journalStore keeps the ledger in memory and, when given a path, appends
+// every write to a JSON-lines journal that is replayed on startup. Nothing in
+// the journal is ever rewritten: updates such as a migrated sequence number
+// are recorded as further lines. It is meant for local development and
+// end-to-end tests, not for concurrent servers sharing one file.
+type journalStore struct {
+	mu          sync.RWMutex
+	file        *os.File
+	entries     []LedgerEntry
+	officers    map[string]Officer
+	checkpoints []Checkpoint
+	transfers   []Transfer
+	owners      map[string]Owner
+}
+
+// journalRecord is one line of the journal; exactly one field is set.
+type journalRecord struct {
+	Entry      *LedgerEntry       `json:"entry,omitempty"`
+	Sequence   *journalSequence   `json:"sequence,omitempty"`
+	Officer    *journalOfficer    `json:"officer,omitempty"`
+	OfficerKey *journalOfficerKey `json:"officer_key,omitempty"`
+	Checkpoint *journalCheckpoint `json:"checkpoint,omitempty"`
+	Transfer   *journalTransfer   `json:"transfer,omitempty"`
+	// An owner is journalled whole on registration and on every update; the
+	// latest line wins.
+	Owner *Owner `json:"owner,omitempty"`
+}
+
+type journalSequence struct {
+	ID       string `json:"id"`
+	Sequence int64  `json:"sequence"`
+}
+
+// journalOfficer, journalCheckpoint and journalTransfer persist the fields
+// their JSON API shapes leave out.
+type journalOfficer struct {
+	Officer
+	PasswordHash string `json:"password_hash"`
+}
+
+type journalOfficerKey struct {
+	Username string `json:"username"`
+	KeyID    string `json:"key_id"`
+}
+
+type journalCheckpoint struct {
+	Checkpoint
+	Leaves []CheckpointLeaf `json:"leaves"`
+}
+
+// A transfer is journalled whole each time it changes; the latest line wins.
+type journalTransfer struct {
+	Transfer
+	SellerToken string `json:"seller_token"`
+	BuyerToken  string `json:"buyer_token"`
+}
+
+// openJournalStore replays the journal at path, creating it if needed. An
+// empty path keeps everything in memory.
+func openJournalStore(path string) (*journalStore, error) {
+	s := &journalStore{officers: map[string]Officer{}, owners: map[string]Owner{}}
+	if path == "" {
+		return s, nil
+	}
+
+	file, err := os.OpenFile(path, os.O_RDWR|os.O_CREATE, 0o600)
+	if err != nil {
+		return nil, err
+	}
+	reader := bufio.NewReader(file)
+	var offset int64
+	for line := 1; ; line++ {
+		raw, err := reader.ReadBytes('\n')
+		if errors.Is(err, io.EOF) {
+			if len(bytes.TrimSpace(raw)) > 0 {
+				// A write cut short by a crash; drop it so the next append
+				// starts on a fresh line.
+				log.Printf("Warning: discarding an incomplete last line in %s", path)
+				if err := file.Truncate(offset); err != nil {
+					file.Close()
+					return nil, err
+				}
+			}
+			break
+		}
+		if err != nil {
+			file.Close()
+			return nil, err
+		}
+		offset += int64(len(raw))
+		if len(bytes.TrimSpace(raw)) == 0 {
+			continue
+		}
+		var record journalRecord
+		if err := json.Unmarshal(raw, &record); err != nil {
+			file.Close()
+			return nil, fmt.Errorf("%s line %d: %w", path, line, err)
+		}
+		s.apply(record)
+	}
+	if _, err := file.Seek(0, io.SeekEnd); err != nil {
+		file.Close()
+		return nil, err
+	}
+	s.file = file
+	return s, nil
+}
+
+func (s *journalStore) apply(record journalRecord) {
+	switch {
+	case record.Entry != nil:
+		s.entries = append(s.entries, *record.Entry)
+	case record.Sequence != nil:
+		for i := range s.entries {
+			if s.entries[i].ID == record.Sequence.ID {
+				s.entries[i].Sequence = record.Sequence.Sequence
+				break
+			}
+		}
+	case record.Officer != nil:
+		officer := record.Officer.Officer
+		officer.PasswordHash = record.Officer.PasswordHash
+		s.officers[officer.Username] = officer
+	case record.OfficerKey != nil:
+		if officer, ok := s.officers[record.OfficerKey.Username]; ok {
+			officer.KeyID = record.OfficerKey.KeyID
+			s.officers[officer.Username] = officer
+		}
+	case record.Checkpoint != nil:
+		cp := record.Checkpoint.Checkpoint
+		cp.Leaves = record.Checkpoint.Leaves
+		s.checkpoints = append(s.checkpoints, cp)
+	case record.Transfer != nil:
+		transfer := record.Transfer.Transfer
+		transfer.SellerToken = record.Transfer.SellerToken
+		transfer.BuyerToken = record.Transfer.BuyerToken
+		if i := s.transferIndex(transfer.ID); i >= 0 {
+			s.transfers[i] = transfer
+		} else {
+			s.transfers = append(s.transfers, transfer)
+		}
+	case record.Owner != nil:
+		s.owners[record.Owner.ID] = *record.Owner
+	}
+}
+
+// write journals the record, then applies it. Callers hold the write lock.
+func (s *journalStore) write(record journalRecord) error {
+	if s.file != nil {
+		line, err := json.Marshal(record)
+		if err != nil {
+			return err
+		}
+		if _, err := s.file.Write(append(line, '\n')); err != nil {
+			return err
+		}
+		if err := s.file.Sync(); err != nil {
+			return err
+		}
+	}
+	s.apply(record)
+	return nil
+}
+
+func (s *journalStore) sequenceTaken(propertyNumber string, sequence int64) bool {
+	if sequence == 0 {
+		return false
+	}
+	for _, entry := range s.entries {
+		if entry.PropertyNumber == propertyNumber && entry.Sequence == sequence {
+			return true
+		}
+	}
+	return false
+}
+
+func (s *journalStore) InsertEntry(_ context.Context, entry LedgerEntry) error {
+	s.mu.Lock()
+	defer s.mu.Unlock()
+	if s.sequenceTaken(entry.PropertyNumber, entry.Sequence) {
+		return errSequenceTaken
+	}
+	return s.write(journalRecord{Entry: &entry})
+}
+
+func (s *journalStore) PropertyChain(_ context.Context, propertyNumber string) ([]LedgerEntry, error) {
+	s.mu.RLock()
+	defer s.mu.RUnlock()
+	var chain []LedgerEntry
+	for _, entry := range s.entries {
+		if entry.PropertyNumber == propertyNumber {
+			chain = append(chain, entry)
+		}
+	}
+	// Entries are held in insertion order, which the stable sort keeps for ties.
+	sort.SliceStable(chain, func(i, j int) bool {
+		if chain[i].Sequence != chain[j].Sequence {
+			return chain[i].Sequence < chain[j].Sequence
+		}
+		return chain[i].Timestamp < chain[j].Timestamp
+	})
+	return chain, nil
+}
+
+func containsString(values []string, value string) bool {
+	for _, candidate := range values {
+		if candidate == value {
+			return true
+		}
+	}
+	return false
+}
+
+func (f EntryFilter) matches(entry LedgerEntry) bool {
+	exact := map[string]string{
+		"survey_number":   f.SurveyNumber,
+		"property_number": f.PropertyNumber,
+		"owner_id":        f.OwnerID,
+		"land_type":       f.LandType,
+		"action":          f.Action,
+	}
+	for field, value := range exact {
+		if value != "" && entryField(entry, field) != value {
+			return false
+		}
+	}
+	switch {
+	case f.PropertyNumbers != nil && !containsString(f.PropertyNumbers, entry.PropertyNumber):
+		return false
+	case f.IDs != nil && !containsString(f.IDs, entry.ID):
+		return false
+	case f.DetailsContains != "" && !strings.Contains(strings.ToLower(entry.Details), strings.ToLower(f.DetailsContains)):
+		return false
+	case f.From > 0 && entry.Timestamp < f.From:
+		return false
+	case f.To > 0 && entry.Timestamp > f.To:
+		return false
+	}
+	return true
+}
+
+func (s *journalStore) FindEntries(_ context.Context, query EntryQuery) ([]LedgerEntry, int64, error) {
+	s.mu.RLock()
+	var matches []LedgerEntry
+	for _, entry := range s.entries {
+		if query.matches(entry) {
+			matches = append(matches, entry)
+		}
+	}
+	s.mu.RUnlock()
+
+	sort.SliceStable(matches, func(i, j int) bool {
+		if query.SortField != "" && query.SortField != "timestamp" {
+			a, b := entryField(matches[i], query.SortField), entryField(matches[j], query.SortField)
+			if a != b {
+				return a < b
+			}
+		}
+		return matches[i].Timestamp < matches[j].Timestamp
+	})
+	if query.Descending {
+		for i, j := 0, len(matches)-1; i < j; i, j = i+1, j-1 {
+			matches[i], matches[j] = matches[j], matches[i]
+		}
+	}
+
+	total := int64(len(matches))
+	start := min(query.Skip, total)
+	end := total
+	if query.Limit > 0 {
+		end = min(start+query.Limit, total)
+	}
+	page := make([]LedgerEntry, end-start)
+	copy(page, matches[start:end])
+	return page, total, nil
+}
+
+func (s *journalStore) FindEntry(_ context.Context, id string) (*LedgerEntry, error) {
+	s.mu.RLock()
+	defer s.mu.RUnlock()
+	for _, entry := range s.entries {
+		if entry.ID == id {
+			return &entry, nil
+		}
+	}
+	return nil, errNotFound
+}
+
+func (s *journalStore) PropertyNumbers(_ context.Context, filter EntryFilter) ([]string, error) {
+	s.mu.RLock()
+	defer s.mu.RUnlock()
+	seen := map[string]bool{}
+	propertyNumbers := []string{}
+	for _, entry := range s.entries {
+		if filter.matches(entry) && !seen[entry.PropertyNumber] {
+			seen[entry.PropertyNumber] = true
+			propertyNumbers = append(propertyNumbers, entry.PropertyNumber)
+		}
+	}
+	return propertyNumbers, nil
+}
+
+func (s *journalStore) SetEntrySequence(_ context.Context, id string, sequence int64) error {
+	s.mu.Lock()
+	defer s.mu.Unlock()
+	for _, entry := range s.entries {
+		if entry.ID == id {
+			if s.sequenceTaken(entry.PropertyNumber, sequence) {
+				return errSequenceTaken
+			}
+			break
+		}
+	}
+	return s.write(journalRecord{Sequence: &journalSequence{ID: id, Sequence: sequence}})
+}
+
+func (s *journalStore) FindOfficer(_ context.Context, username string) (*Officer, error) {
+	s.mu.RLock()
+	defer s.mu.RUnlock()
+	officer, ok := s.officers[username]
+	if !ok {
+		return nil, errNotFound
+	}
+	return &officer, nil
+}
+
+func (s *journalStore) InsertOfficer(_ context.Context, officer Officer) error {
+	s.mu.Lock()
+	defer s.mu.Unlock()
+	if _, ok := s.officers[officer.Username]; ok {
+		return errOfficerExists
+	}
+	return s.write(journalRecord{Officer: &journalOfficer{Officer: officer, PasswordHash: officer.PasswordHash}})
+}
+
+func (s *journalStore) CountOfficers(context.Context) (int64, error) {
+	s.mu.RLock()
+	defer s.mu.RUnlock()
+	return int64(len(s.officers)), nil
+}
+
+func (s *journalStore) SetOfficerKey(_ context.Context, username, keyID string) error {
+	s.mu.Lock()
+	defer s.mu.Unlock()
+	return s.write(journalRecord{OfficerKey: &journalOfficerKey{Username: username, KeyID: keyID}})
+}
+
+func (s *journalStore) LatestCheckpoint(context.Context) (*Checkpoint, error) {
+	s.mu.RLock()
+	defer s.mu.RUnlock()
+	if len(s.checkpoints) == 0 {
+		return nil, errNotFound
+	}
+	cp := s.checkpoints[len(s.checkpoints)-1]
+	return &cp, nil
+}
+
+func (s *journalStore) InsertCheckpoint(_ context.Context, cp Checkpoint) error {
+	s.mu.Lock()
+	defer s.mu.Unlock()
+	return s.write(journalRecord{Checkpoint: &journalCheckpoint{Checkpoint: cp, Leaves: cp.Leaves}})
+}
+
+func (s *journalStore) ListCheckpoints(_ context.Context, limit int64) ([]Checkpoint, error) {
+	s.mu.RLock()
+	defer s.mu.RUnlock()
+	checkpoints := []Checkpoint{}
+	for i := len(s.checkpoints) - 1; i >= 0 && int64(len(checkpoints)) < limit; i-- {
+		cp := s.checkpoints[i]
+		cp.Leaves = nil
+		checkpoints = append(checkpoints, cp)
+	}
+	return checkpoints, nil
+}
+
+func (s *journalStore) transferIndex(id string) int {
+	for i := range s.transfers {
+		if s.transfers[i].ID == id {
+			return i
+		}
+	}
+	return -1
+}
+
+func journalTransferRecord(transfer Transfer) journalRecord {
+	return journalRecord{Transfer: &journalTransfer{
+		Transfer:    transfer,
+		SellerToken: transfer.SellerToken,
+		BuyerToken:  transfer.BuyerToken,
+	}}
+}
+
+func (s *journalStore) InsertTransfer(_ context.Context, transfer Transfer) error {
+	s.mu.Lock()
+	defer s.mu.Unlock()
+	return s.write(journalTransferRecord(transfer))
+}
+
+func (s *journalStore) FindTransfer(_ context.Context, id string) (*Transfer, error) {
+	s.mu.RLock()
+	defer s.mu.RUnlock()
+	i := s.transferIndex(id)
+	if i < 0 {
+		return nil, errNotFound
+	}
+	transfer := s.transfers[i]
+	return &transfer, nil
+}
+
+func (s *journalStore) ListTransfers(_ context.Context, propertyNumber string) ([]Transfer, error) {
+	s.mu.RLock()
+	defer s.mu.RUnlock()
+	transfers := []Transfer{}
+	for i := len(s.transfers) - 1; i >= 0; i-- {
+		if propertyNumber == "" || s.transfers[i].PropertyNumber == propertyNumber {
+			transfers = append(transfers, s.transfers[i])
+		}
+	}
+	// Held in creation order, which the stable sort keeps (reversed) for ties.
+	sort.SliceStable(transfers, func(i, j int) bool {
+		return transfers[i].CreatedAt > transfers[j].CreatedAt
+	})
+	return transfers, nil
+}
+
+func (s *journalStore) UpdateTransfer(_ context.Context, transfer Transfer, fromStatus string) error {
+	s.mu.Lock()
+	defer s.mu.Unlock()
+	i := s.transferIndex(transfer.ID)
+	if i < 0 || s.transfers[i].Status != fromStatus {
+		return errStaleTransfer
+	}
+	return s.write(journalTransferRecord(transfer))
+}
+
+func (s *journalStore) InsertOwner(_ context.Context, owner Owner) error {
+	s.mu.Lock()
+	defer s.mu.Unlock()
+	if _, ok := s.owners[owner.ID]; ok {
+		return errOwnerExists
+	}
+	return s.write(journalRecord{Owner: &owner})
+}
+
+func (s *journalStore) FindOwner(_ context.Context, id string) (*Owner, error) {
+	s.mu.RLock()
+	defer s.mu.RUnlock()
+	owner, ok := s.owners[id]
+	if !ok {
+		return nil, errNotFound
+	}
+	return &owner, nil
+}
+
+func (s *journalStore) ListOwners(_ context.Context, query OwnerQuery) ([]Owner, error) {
+	s.mu.RLock()
+	defer s.mu.RUnlock()
+	owners := []Owner{}
+	for _, owner := range s.owners {
+		if query.matches(owner) {
+			owners = append(owners, owner)
+		}
+	}
+	sort.Slice(owners, func(i, j int) bool { return owners[i].ID < owners[j].ID })
+	if query.Limit > 0 && int64(len(owners)) > query.Limit {
+		owners = owners[:query.Limit]
+	}
+	return owners, nil
+}
+
+func (s *journalStore) UpdateOwner(_ context.Context, owner Owner) error {
+	s.mu.Lock()
+	defer s.mu.Unlock()
+	if _, ok := s.owners[owner.ID]; !ok {
+		return errNotFound
+	}
+	return s.write(journalRecord{Owner: &owner})
+}
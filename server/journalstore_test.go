@@ -0,0 +1,165 @@
+package main
+
+import (
+	"context"
+	"errors"
+	"os"
+	"path/filepath"
+	"testing"
+)
+
+func openTestJournal(t *testing.T, path string) *journalStore {
+	t.Helper()
+	s, err := openJournalStore(path)
+	if err != nil {
+		t.Fatal(err)
+	}
+	if s.file != nil {
+		t.Cleanup(func() { s.file.Close() })
+	}
+	return s
+}
+
+func TestJournalStoreReplaysWrites(t *testing.T) {
+	ctx := context.Background()
+	path := filepath.Join(t.TempDir(), "ledger.jsonl")
+	s := openTestJournal(t, path)
+
+	chain := testChain(ActionOwnershipUpdated, ActionOther)
+	for _, entry := range chain {
+		if err := s.InsertEntry(ctx, entry); err != nil {
+			t.Fatal(err)
+		}
+	}
+	if err := s.SetEntrySequence(ctx, chain[1].ID, 3); err != nil {
+		t.Fatal(err)
+	}
+	if err := s.InsertOfficer(ctx, Officer{Username: "registrar1", Role: "registrar", PasswordHash: "hash"}); err != nil {
+		t.Fatal(err)
+	}
+	if err := s.InsertOfficer(ctx, Officer{Username: "registrar1", Role: "viewer", PasswordHash: "other"}); !errors.Is(err, errOfficerExists) {
+		t.Errorf("second registrar1 = %v, want errOfficerExists", err)
+	}
+	if err := s.SetOfficerKey(ctx, "registrar1", "key-1"); err != nil {
+		t.Fatal(err)
+	}
+	if err := s.InsertOwner(ctx, Owner{ID: "OWN-001", Name: "First"}); err != nil {
+		t.Fatal(err)
+	}
+	if err := s.UpdateOwner(ctx, Owner{ID: "OWN-001", Name: "Second"}); err != nil {
+		t.Fatal(err)
+	}
+	s.file.Close()
+
+	reopened := openTestJournal(t, path)
+	replayed, err := reopened.PropertyChain(ctx, "PR-001")
+	if err != nil {
+		t.Fatal(err)
+	}
+	if len(replayed) != 2 || replayed[0].ID != chain[0].ID || replayed[1].Sequence != 3 {
+		t.Fatalf("replayed chain = %+v", replayed)
+	}
+	officer, err := reopened.FindOfficer(ctx, "registrar1")
+	if err != nil {
+		t.Fatal(err)
+	}
+	// The password hash is left out of the officer's JSON but must survive.
+	if officer.PasswordHash != "hash" || officer.KeyID != "key-1" {
+		t.Errorf("replayed officer = %+v", officer)
+	}
+	owner, err := reopened.FindOwner(ctx, "OWN-001")
+	if err != nil {
+		t.Fatal(err)
+	}
+	if owner.Name != "Second" {
+		t.Errorf("replayed owner name = %q, want the latest update", owner.Name)
+	}
+}
+
+func TestJournalStoreRejectsTakenSequences(t *testing.T) {
+	ctx := context.Background()
+	s := openTestJournal(t, "")
+	chain := testChain(ActionOwnershipUpdated, ActionOther)
+	for _, entry := range chain {
+		if err := s.InsertEntry(ctx, entry); err != nil {
+			t.Fatal(err)
+		}
+	}
+
+	duplicate := chain[1]
+	duplicate.ID = "entry-duplicate"
+	if err := s.InsertEntry(ctx, duplicate); !errors.Is(err, errSequenceTaken) {
+		t.Errorf("inserting a taken sequence: err = %v, want errSequenceTaken", err)
+	}
+	if err := s.SetEntrySequence(ctx, chain[0].ID, 2); !errors.Is(err, errSequenceTaken) {
+		t.Errorf("moving onto a taken sequence: err = %v, want errSequenceTaken", err)
+	}
+
+	// Legacy entries carry no sequence, so any number of them may share zero.
+	for _, id := range []string{"legacy-a", "legacy-b"} {
+		if err := s.InsertEntry(ctx, LedgerEntry{ID: id, PropertyNumber: "PR-002"}); err != nil {
+			t.Errorf("inserting unsequenced entry %s: %v", id, err)
+		}
+	}
+}
+
+func TestJournalStoreDropsIncompleteLastLine(t *testing.T) {
+	ctx := context.Background()
+	path := filepath.Join(t.TempDir(), "ledger.jsonl")
+	s := openTestJournal(t, path)
+	entry := testChain(ActionOwnershipUpdated)[0]
+	if err := s.InsertEntry(ctx, entry); err != nil {
+		t.Fatal(err)
+	}
+	s.file.Close()
+
+	file, err := os.OpenFile(path, os.O_APPEND|os.O_WRONLY, 0o600)
+	if err != nil {
+		t.Fatal(err)
+	}
+	if _, err := file.WriteString(`{"entry":{"id":"cut-sh`); err != nil {
+		t.Fatal(err)
+	}
+	file.Close()
+
+	reopened := openTestJournal(t, path)
+	next := testChain(ActionOwnershipUpdated, ActionOther)[1]
+	if err := reopened.InsertEntry(ctx, next); err != nil {
+		t.Fatal(err)
+	}
+	reopened.file.Close()
+
+	// The cut line is gone and the next write starts on a line of its own.
+	replayed := openTestJournal(t, path)
+	chain, err := replayed.PropertyChain(ctx, "PR-001")
+	if err != nil {
+		t.Fatal(err)
+	}
+	if len(chain) != 2 || chain[0].ID != entry.ID || chain[1].ID != next.ID {
+		t.Fatalf("replayed chain = %+v", chain)
+	}
+}
+
+func TestJournalStoreRejectsCorruptLines(t *testing.T) {
+	path := filepath.Join(t.TempDir(), "ledger.jsonl")
+	if err := os.WriteFile(path, []byte("not json\n"), 0o600); err != nil {
+		t.Fatal(err)
+	}
+	if _, err := openJournalStore(path); err == nil {
+		t.Fatal("opened a journal with a corrupt complete line")
+	}
+}
+
+func TestJournalStoreInMemory(t *testing.T) {
+	ctx := context.Background()
+	s := openTestJournal(t, "")
+	if s.file != nil {
+		t.Fatal("an empty path opened a file")
+	}
+	if err := s.InsertEntry(ctx, testChain(ActionOwnershipUpdated)[0]); err != nil {
+		t.Fatal(err)
+	}
+	if _, total, err := s.FindEntries(ctx, EntryQuery{}); err != nil || total != 1 {
+		t.Fatalf("FindEntries total = %d, err = %v", total, err)
+	}
+}
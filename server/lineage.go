@@ -0,0 +1,368 @@
+package main
+
+import (
+	"context"
+	"fmt"
+	"net/http"
+	"sort"
+	"strings"
+	"time"
+
+	"github.com/gin-gonic/gin"
+	"github.com/google/uuid"
+)
+
+// Plots are split and combined by closing the old property chains and opening
+// new ones. The entry that closes a parent lists the properties it became in
+// payload.children. The entry that opens a child lists its parents, each with
+// the hash of the entry that closed it, in payload.parents, and its prev_hash
+// points at the first parent's closing entry instead of genesis, so a child's
+// chain hangs off its parent's.
+//
+// A Subdivided entry is submitted on the parent and opens every child; a
+// Merged entry is submitted on the new property and closes every parent.
+
+// maxLineageNodes caps how many properties one lineage graph holds.
+const maxLineageNodes = 200
+
+// LineageLink names a parent on a child's opening entry, with the hash of the
+// entry that closed the parent. The hash is filled in on recording.
+type LineageLink struct {
+	PropertyNumber string `bson:"property_number" json:"property_number"`
+	Head           string `bson:"head,omitempty" json:"head,omitempty"`
+}
+
+func isLineage(action string) bool {
+	return action == ActionSubdivided || action == ActionMerged
+}
+
+// openingPrevHash is the prev_hash the first entry of a chain must carry:
+// genesis, or the closing entry of the first parent for a property opened by
+// a subdivision or merger.
+func openingPrevHash(entry LedgerEntry) string {
+	if isLineage(entry.Action) && entry.Payload != nil && len(entry.Payload.Parents) > 0 {
+		return entry.Payload.Parents[0].Head
+	}
+	return genesisHash
+}
+
+// lineageNumbersProblem describes what is wrong with a list of property
+// numbers naming the other side of a subdivision or merger, or returns "".
+func lineageNumbersProblem(propertyNumber string, numbers []string) string {
+	seen := map[string]bool{}
+	for _, number := range numbers {
+		switch {
+		case strings.TrimSpace(number) == "":
+			return "Property numbers cannot be blank"
+		case number == propertyNumber:
+			return fmt.Sprintf("%s cannot be linked to itself", number)
+		case seen[number]:
+			return fmt.Sprintf("%s is listed twice", number)
+		}
+		seen[number] = true
+	}
+	return ""
+}
+
+// validateLineage checks a submitted Subdivided or Merged entry against the
+// chains of the properties it names, adding violations to fields. It only
+// returns an error when a chain cannot be read.
+func validateLineage(ctx context.Context, payload NewEntryPayload, history []LedgerEntry, fields map[string]string) error {
+	if !isLineage(payload.Action) {
+		return nil
+	}
+	p := payload.Payload
+	if p == nil {
+		p = &ActionPayload{}
+	}
+
+	if payload.Action == ActionSubdivided {
+		if len(history) == 0 {
+			fields["property_number"] = "Only a property already on the ledger can be subdivided"
+		}
+		if len(p.Parents) > 0 {
+			fields["payload.parents"] = "A subdivision is recorded on the parent; list the new properties as children"
+		}
+		if len(p.Children) < 2 {
+			fields["payload.children"] = "List at least two new property numbers"
+			return nil
+		}
+		if problem := lineageNumbersProblem(payload.PropertyNumber, p.Children); problem != "" {
+			fields["payload.children"] = problem
+			return nil
+		}
+		for _, child := range p.Children {
+			chain, err := getPropertyChain(ctx, child)
+			if err != nil {
+				return err
+			}
+			if len(chain) > 0 {
+				fields["payload.children"] = fmt.Sprintf("%s is already on the ledger; subdivide into new property numbers", child)
+				return nil
+			}
+		}
+		return nil
+	}
+
+	if len(history) > 0 {
+		fields["property_number"] = "Properties merge into a new property number; this one is already on the ledger"
+	}
+	if len(p.Children) > 0 {
+		fields["payload.children"] = "A merger is recorded on the new property; list the merged properties as parents"
+	}
+	if len(p.Parents) < 2 {
+		fields["payload.parents"] = "List at least two properties to merge"
+		return nil
+	}
+	numbers := make([]string, 0, len(p.Parents))
+	for _, link := range p.Parents {
+		numbers = append(numbers, link.PropertyNumber)
+	}
+	if problem := lineageNumbersProblem(payload.PropertyNumber, numbers); problem != "" {
+		fields["payload.parents"] = problem
+		return nil
+	}
+	var blocks []string
+	for _, link := range p.Parents {
+		chain, err := getPropertyChain(ctx, link.PropertyNumber)
+		if err != nil {
+			return err
+		}
+		state := replayPropertyState(chain)
+		for _, block := range state.transferBlocks() {
+			blocks = append(blocks, fmt.Sprintf("%s on %s", block, link.PropertyNumber))
+		}
+		var problem string
+		switch {
+		case len(chain) == 0:
+			problem = fmt.Sprintf("%s is not on the ledger", link.PropertyNumber)
+		case state.closedBy != "":
+			problem = fmt.Sprintf("%s was already %s into %s", link.PropertyNumber,
+				strings.ToLower(state.closedBy), strings.Join(state.successors, ", "))
+		case !allowedTransitions[state.acquisition][ActionMerged]:
+			problem = fmt.Sprintf("%s cannot be merged while it is %s", link.PropertyNumber, state.acquisition)
+		case link.Head != "" && link.Head != getLastHash(chain):
+			problem = fmt.Sprintf("%s has changed since it was read; reload it and resubmit", link.PropertyNumber)
+		case state.owner != "" && state.owner != payload.OwnerID:
+			problem = fmt.Sprintf("%s is owned by %s; only properties with the same owner can merge", link.PropertyNumber, state.owner)
+		case state.landType != payload.LandType:
+			problem = fmt.Sprintf("%s is %s land; convert it before merging", link.PropertyNumber, state.landType)
+		}
+		if problem != "" {
+			fields["payload.parents"] = problem
+			return nil
+		}
+	}
+	// A merged property opens with no encumbrances, so the parents' stays and
+	// liens hold it up like an ownership change.
+	validateOverride(blocks, p.OverrideReason, fields)
+	return nil
+}
+
+// recordLineage appends a validated Subdivided or Merged entry along with the
+// entries it implies on the other properties. Parents are closed before any
+// child is opened, since a child's opening entry carries their closing hashes.
+// The store has no transactions, so a failure partway leaves the entries
+// already written in place and is reported like any other storage error.
+func recordLineage(ctx context.Context, entry LedgerEntry) (*LedgerEntry, error) {
+	if entry.Action == ActionSubdivided {
+		if err := appendEntry(ctx, &entry); err != nil {
+			return nil, err
+		}
+		for _, child := range entry.Payload.Children {
+			opening := entry
+			opening.ID = uuid.New().String()
+			opening.PropertyNumber = child
+			opening.Sequence = 1
+			opening.Payload = &ActionPayload{Parents: []LineageLink{{PropertyNumber: entry.PropertyNumber, Head: entry.Hash}}}
+			opening.Attachments = nil
+			opening.PrevHash = entry.Hash
+			opening.KeyID, opening.Signature = "", ""
+			if err := appendEntry(ctx, &opening); err != nil {
+				return nil, err
+			}
+		}
+		return &entry, nil
+	}
+
+	parents := make([]LineageLink, 0, len(entry.Payload.Parents))
+	for _, link := range entry.Payload.Parents {
+		chain, err := getPropertyChain(ctx, link.PropertyNumber)
+		if err != nil {
+			return nil, err
+		}
+		state := replayPropertyState(chain)
+		closing := LedgerEntry{
+			ID:             uuid.New().String(),
+			SurveyNumber:   state.surveyNumber,
+			PropertyNumber: link.PropertyNumber,
+			Sequence:       int64(len(chain)) + 1,
+			OwnerID:        entry.OwnerID,
+			LandType:       state.landType,
+			Action:         ActionMerged,
+			Details:        entry.Details,
+			Payload:        &ActionPayload{Children: []string{entry.PropertyNumber}},
+			Timestamp:      time.Now().Unix(),
+			PrevHash:       getLastHash(chain),
+			HashVersion:    currentHashVersion,
+			RecordedBy:     entry.RecordedBy,
+		}
+		if err := appendEntry(ctx, &closing); err != nil {
+			return nil, err
+		}
+		parents = append(parents, LineageLink{PropertyNumber: link.PropertyNumber, Head: closing.Hash})
+	}
+	entry.Payload = &ActionPayload{Parents: parents}
+	entry.PrevHash = parents[0].Head
+	if err := appendEntry(ctx, &entry); err != nil {
+		return nil, err
+	}
+	return &entry, nil
+}
+
+// LineageNode is one property in a lineage graph. Generation counts the
+// subdivisions and mergers between it and the property the graph was drawn
+// for: negative for ancestors, positive for descendants.
+type LineageNode struct {
+	PropertyNumber string `json:"property_number"`
+	SurveyNumber   string `json:"survey_number,omitempty"`
+	Generation     int    `json:"generation"`
+	// Subdivided or Merged once the property has been closed.
+	ClosedBy string `json:"closed_by,omitempty"`
+}
+
+// LineageEdge links a parent to a child. Verified is true when the child's
+// opening entry carries the hash of the parent's closing entry and that entry
+// lists the child.
+type LineageEdge struct {
+	Parent   string `json:"parent"`
+	Child    string `json:"child"`
+	Action   string `json:"action"`
+	Verified bool   `json:"verified"`
+}
+
+type Lineage struct {
+	PropertyNumber string        `json:"property_number"`
+	Nodes          []LineageNode `json:"nodes"`
+	Edges          []LineageEdge `json:"edges"`
+	// Set when the graph reached maxLineageNodes and was cut short.
+	Truncated bool `json:"truncated,omitempty"`
+}
+
+// closingEntry returns the entry that closed a property, if any. Lineage
+// entries cannot be amended, so the recorded entry stands.
+func closingEntry(chain []LedgerEntry) *LedgerEntry {
+	for i := len(chain) - 1; i >= 0; i-- {
+		if isLineage(chain[i].Action) && chain[i].Payload != nil && len(chain[i].Payload.Children) > 0 {
+			return &chain[i]
+		}
+	}
+	return nil
+}
+
+// buildLineage walks parent and child links outwards from a property, breadth
+// first, so every property gets its nearest generation.
+func buildLineage(ctx context.Context, propertyNumber string) (*Lineage, error) {
+	lineage := &Lineage{PropertyNumber: propertyNumber, Nodes: []LineageNode{}, Edges: []LineageEdge{}}
+	type visit struct {
+		propertyNumber string
+		generation     int
+	}
+	queue := []visit{{propertyNumber, 0}}
+	queued := map[string]bool{propertyNumber: true}
+	closings := map[string]*LedgerEntry{}
+	openings := map[string]LedgerEntry{}
+	edges := map[[2]string]LineageEdge{}
+
+	enqueue := func(number string, generation int) {
+		if queued[number] {
+			return
+		}
+		if len(queued) >= maxLineageNodes {
+			lineage.Truncated = true
+			return
+		}
+		queued[number] = true
+		queue = append(queue, visit{number, generation})
+	}
+
+	for len(queue) > 0 {
+		current := queue[0]
+		queue = queue[1:]
+		chain, err := getPropertyChain(ctx, current.propertyNumber)
+		if err != nil {
+			return nil, err
+		}
+		node := LineageNode{PropertyNumber: current.propertyNumber, Generation: current.generation}
+		if len(chain) > 0 {
+			node.SurveyNumber = replayPropertyState(chain).surveyNumber
+			if opening := chain[0]; openingPrevHash(opening) != genesisHash {
+				openings[current.propertyNumber] = opening
+				for _, link := range opening.Payload.Parents {
+					edges[[2]string{link.PropertyNumber, current.propertyNumber}] = LineageEdge{
+						Parent: link.PropertyNumber, Child: current.propertyNumber, Action: opening.Action,
+					}
+					enqueue(link.PropertyNumber, current.generation-1)
+				}
+			}
+		}
+		if closing := closingEntry(chain); closing != nil {
+			closings[current.propertyNumber] = closing
+			node.ClosedBy = closing.Action
+			for _, child := range closing.Payload.Children {
+				edges[[2]string{current.propertyNumber, child}] = LineageEdge{
+					Parent: current.propertyNumber, Child: child, Action: closing.Action,
+				}
+				enqueue(child, current.generation+1)
+			}
+		}
+		lineage.Nodes = append(lineage.Nodes, node)
+	}
+
+	for _, edge := range edges {
+		closing, opening := closings[edge.Parent], openings[edge.Child]
+		if closing != nil && opening.Payload != nil {
+			for _, link := range opening.Payload.Parents {
+				if link.PropertyNumber == edge.Parent && link.Head == closing.Hash {
+					edge.Verified = containsString(closing.Payload.Children, edge.Child)
+				}
+			}
+		}
+		lineage.Edges = append(lineage.Edges, edge)
+	}
+	sort.Slice(lineage.Nodes, func(i, j int) bool {
+		a, b := lineage.Nodes[i], lineage.Nodes[j]
+		if a.Generation != b.Generation {
+			return a.Generation < b.Generation
+		}
+		return a.PropertyNumber < b.PropertyNumber
+	})
+	sort.Slice(lineage.Edges, func(i, j int) bool {
+		a, b := lineage.Edges[i], lineage.Edges[j]
+		if a.Parent != b.Parent {
+			return a.Parent < b.Parent
+		}
+		return a.Child < b.Child
+	})
+	return lineage, nil
+}
+
+func getLineageHandler(c *gin.Context) {
+	propertyNumber := c.Param("property_number")
+	ctx := context.TODO()
+	chain, err := getPropertyChain(ctx, propertyNumber)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	if len(chain) == 0 {
+		c.JSON(http.StatusNotFound, gin.H{"error": "Property not found"})
+		return
+	}
+	lineage, err := buildLineage(ctx, propertyNumber)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	c.JSON(http.StatusOK, lineage)
+}
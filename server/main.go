@@ -4,6 +4,7 @@ import (
 	"context"
 	"crypto/sha256"
 	"encoding/hex"
+	"errors"
 	"log"
 	"net/http"
 	"os"
@@ -13,76 +14,162 @@ import (
 	"github.com/gin-gonic/gin"
 	"github.com/google/uuid"
 	"github.com/joho/godotenv"
-	"go.mongodb.org/mongo-driver/bson"
-	"go.mongodb.org/mongo-driver/mongo"
-	"go.mongodb.org/mongo-driver/mongo/options"
 )
 
 type LedgerEntry struct {
 	ID             string `bson:"id" json:"id"`
 	SurveyNumber   string `bson:"survey_number" json:"survey_number"`
 	PropertyNumber string `bson:"property_number" json:"property_number"`
-	OwnerID        string `bson:"owner_id" json:"owner_id"`
-	LandType       string `bson:"land_type" json:"land_type"`
-	Action         string `bson:"action" json:"action"`
-	Details        string `bson:"details" json:"details"`
-	Timestamp      int64  `bson:"timestamp" json:"timestamp"`
-	PrevHash       string `bson:"prev_hash" json:"prev_hash"`
-	Hash           string `bson:"hash" json:"hash"`
+	// Position in the property's chain, starting at 1. Zero only on entries
+	// recorded before sequence numbers existed and not yet migrated.
+	Sequence    int64          `bson:"sequence,omitempty" json:"sequence,omitempty"`
+	OwnerID     string         `bson:"owner_id" json:"owner_id"`
+	LandType    string         `bson:"land_type" json:"land_type"`
+	Action      string         `bson:"action" json:"action"`
+	Details     string         `bson:"details" json:"details"`
+	Payload     *ActionPayload `bson:"payload,omitempty" json:"payload,omitempty"`
+	Attachments []Attachment   `bson:"attachments,omitempty" json:"attachments,omitempty"`
+	Timestamp   int64          `bson:"timestamp" json:"timestamp"`
+	PrevHash    string         `bson:"prev_hash" json:"prev_hash"`
+	Hash        string         `bson:"hash" json:"hash"`
+	HashVersion int            `bson:"hash_version,omitempty" json:"hash_version,omitempty"`
+	RecordedBy  string         `bson:"recorded_by,omitempty" json:"recorded_by,omitempty"`
+	KeyID       string         `bson:"key_id,omitempty" json:"key_id,omitempty"`
+	Signature   string         `bson:"signature,omitempty" json:"signature,omitempty"`
 }
 
+const (
+	ActionAwardDeclared    = "AwardDeclared"
+	ActionCompensated      = "Compensated"
+	ActionOwnershipUpdated = "OwnershipUpdated"
+	ActionLandConverted    = "LandConverted"
+	ActionBoundaryRecorded = "BoundaryRecorded"
+	ActionSubdivided       = "Subdivided"
+	ActionMerged           = "Merged"
+	ActionOther            = "Other"
+	ActionCorrection       = "Correction"
+	ActionReversal         = "Reversal"
+)
+
 type NewEntryPayload struct {
-	SurveyNumber   string `json:"survey_number"`
-	PropertyNumber string `json:"property_number"`
-	OwnerID        string `json:"owner_id"`
-	LandType       string `json:"land_type"`
-	Action         string `json:"action"`
-	Details        string `json:"details"`
+	SurveyNumber   string         `json:"survey_number"`
+	PropertyNumber string         `json:"property_number"`
+	OwnerID        string         `json:"owner_id"`
+	LandType       string         `json:"land_type"`
+	Action         string         `json:"action"`
+	Details        string         `json:"details"`
+	Payload        *ActionPayload `json:"payload,omitempty"`
+	// Documents uploaded to /attachments beforehand.
+	Attachments []Attachment `json:"attachments,omitempty"`
+	// The chain head the submitter last saw. When set, the append is
+	// rejected with a conflict if another entry has landed since.
+	PrevHash string `json:"prev_hash,omitempty"`
+	// Records a boundary even though it overlaps another survey number's
+	// parcel. Like PrevHash, it is not part of the entry.
+	AcceptOverlaps bool `json:"accept_overlaps,omitempty"`
+	// fromTransfer marks the OwnershipUpdated entry appended by finalizing a
+	// transfer; it cannot be set through the API.
+	fromTransfer bool
+	// fromImport marks rows appended through /add_entries, which alone may
+	// carry an effective date and change owners without a transfer.
+	fromImport bool
 }
 
-var ledgerCollection *mongo.Collection
-
 func calculateHash(data string) string {
 	hash := sha256.Sum256([]byte(data))
 	return hex.EncodeToString(hash[:])
 }
 
-func getLastHash(ctx context.Context, propertyNumber string) string {
-	cur, err := ledgerCollection.Find(ctx, bson.M{"property_number": propertyNumber})
-	if err != nil {
-		return "genesis"
-	}
-	var entries []LedgerEntry
-	if err := cur.All(ctx, &entries); err != nil || len(entries) == 0 {
-		return "genesis"
+// getPropertyChain loads a property's entries in chain order. Timestamp and
+// insertion order only matter for entries that have not been given a sequence
+// number by the migration yet.
+func getPropertyChain(ctx context.Context, propertyNumber string) ([]LedgerEntry, error) {
+	return store.PropertyChain(ctx, propertyNumber)
+}
+
+func getLastHash(chain []LedgerEntry) string {
+	if len(chain) == 0 {
+		return genesisHash
 	}
-	sort.Slice(entries, func(i, j int) bool {
-		return entries[i].Timestamp < entries[j].Timestamp
-	})
-	return entries[len(entries)-1].Hash
+	return chain[len(chain)-1].Hash
 }
 
-func createEntry(ctx context.Context, payload NewEntryPayload) (*LedgerEntry, error) {
-	prevHash := getLastHash(ctx, payload.PropertyNumber)
-	timestamp := time.Now().Unix()
-	id := uuid.New().String()
-	raw := id + payload.SurveyNumber + payload.PropertyNumber + payload.OwnerID + payload.LandType + payload.Action + payload.Details + string(rune(timestamp))
-	hash := calculateHash(raw + prevHash)
+func createEntry(ctx context.Context, payload NewEntryPayload, recordedBy string) (*LedgerEntry, error) {
+	chain, err := getPropertyChain(ctx, payload.PropertyNumber)
+	if err != nil {
+		return nil, err
+	}
+	head := getLastHash(chain)
+	if payload.PrevHash != "" && payload.PrevHash != head {
+		return nil, &ChainConflictError{Head: head}
+	}
+	fields := map[string]string{}
+	if verr := validateEntry(payload, chain); verr != nil {
+		fields = verr.Fields
+	}
+	if err := validateAttachments(payload.Attachments, fields); err != nil {
+		return nil, err
+	}
+	if err := checkBoundaryOverlaps(ctx, payload, fields); err != nil {
+		return nil, err
+	}
+	if err := validateLineage(ctx, payload, chain, fields); err != nil {
+		return nil, err
+	}
+	if err := checkOwnerRegistered(ctx, payload, chain, fields); err != nil {
+		return nil, err
+	}
+	if len(fields) > 0 {
+		return nil, &ValidationError{Fields: fields}
+	}
 
 	entry := LedgerEntry{
-		ID:             id,
+		ID:             uuid.New().String(),
 		SurveyNumber:   payload.SurveyNumber,
 		PropertyNumber: payload.PropertyNumber,
+		Sequence:       int64(len(chain)) + 1,
 		OwnerID:        payload.OwnerID,
 		LandType:       payload.LandType,
 		Action:         payload.Action,
 		Details:        payload.Details,
-		Timestamp:      timestamp,
-		PrevHash:       prevHash,
-		Hash:           hash,
+		Payload:        payload.Payload,
+		Attachments:    payload.Attachments,
+		Timestamp:      time.Now().Unix(),
+		PrevHash:       head,
+		HashVersion:    currentHashVersion,
+		RecordedBy:     recordedBy,
+	}
+	if isLineage(entry.Action) {
+		return recordLineage(ctx, entry)
+	}
+	if err := appendEntry(ctx, &entry); err != nil {
+		return nil, err
+	}
+	return &entry, nil
+}
+
+// appendEntry hashes, signs and stores a new entry, then announces it. An
+// append that loses its sequence number to a concurrent one is reported as a
+// conflict.
+func appendEntry(ctx context.Context, entry *LedgerEntry) error {
+	entry.Hash = calculateHash(entryHashInput(*entry))
+	if err := signEntry(ctx, entry); err != nil {
+		return err
 	}
-	_, err := ledgerCollection.InsertOne(ctx, entry)
-	return &entry, err
+
+	if err := store.InsertEntry(ctx, *entry); err != nil {
+		if errors.Is(err, errSequenceTaken) {
+			// Another append took this sequence number between our read and write.
+			head := entry.PrevHash
+			if latest, readErr := getPropertyChain(ctx, entry.PropertyNumber); readErr == nil {
+				head = getLastHash(latest)
+			}
+			return &ChainConflictError{Head: head}
+		}
+		return err
+	}
+	ledgerEvents.publish(*entry)
+	return nil
 }
 
 func addEntryHandler(c *gin.Context) {
@@ -91,7 +178,17 @@ func addEntryHandler(c *gin.Context) {
 		c.JSON(http.StatusBadRequest, gin.H{"error": "Invalid input"})
 		return
 	}
-	entry, err := createEntry(context.TODO(), payload)
+	entry, err := createEntry(context.TODO(), payload, currentOfficer(c).Username)
+	var verr *ValidationError
+	if errors.As(err, &verr) {
+		c.JSON(http.StatusUnprocessableEntity, gin.H{"error": verr.Error(), "fields": verr.Fields})
+		return
+	}
+	var conflict *ChainConflictError
+	if errors.As(err, &conflict) {
+		c.JSON(http.StatusConflict, gin.H{"error": conflict.Error(), "head": conflict.Head})
+		return
+	}
 	if err != nil {
 		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
 		return
@@ -99,53 +196,53 @@ func addEntryHandler(c *gin.Context) {
 	c.JSON(http.StatusOK, gin.H{"status": "success", "entry": entry})
 }
 
+// PropertyChainStatus is the verification result for one property chain.
+type PropertyChainStatus struct {
+	PropertyNumber string      `json:"property_number"`
+	Valid          bool        `json:"valid"`
+	Break          *ChainBreak `json:"break,omitempty"`
+}
+
+// verifyLedgerHandler verifies every property chain recorded under a survey
+// number. Chains are identified by property number, as they are on append.
 func verifyLedgerHandler(c *gin.Context) {
+	ctx := context.TODO()
 	landID := c.Param("land_id")
-	cur, err := ledgerCollection.Find(context.TODO(), bson.M{"survey_number": landID})
+	propertyNumbers, err := store.PropertyNumbers(ctx, EntryFilter{SurveyNumber: landID})
 	if err != nil {
 		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
 		return
 	}
-	var chain []LedgerEntry
-	if err := cur.All(context.TODO(), &chain); err != nil {
-		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
-		return
-	}
-	sort.Slice(chain, func(i, j int) bool {
-		return chain[i].Timestamp < chain[j].Timestamp
-	})
 	valid := true
-	for i := 1; i < len(chain); i++ {
-		prev := chain[i-1]
-		curr := chain[i]
-		expected := calculateHash(curr.ID + curr.SurveyNumber + curr.PropertyNumber + curr.OwnerID + curr.LandType + curr.Action + curr.Details + string(rune(curr.Timestamp)) + curr.PrevHash)
-		if curr.PrevHash != prev.Hash || curr.Hash != expected {
-			valid = false
-			break
+	chains := []PropertyChainStatus{}
+	for _, propertyNumber := range propertyNumbers {
+		chain, err := getPropertyChain(ctx, propertyNumber)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+			return
 		}
+		status := PropertyChainStatus{PropertyNumber: propertyNumber, Break: verifyPropertyChain(chain)}
+		status.Valid = status.Break == nil
+		valid = valid && status.Valid
+		chains = append(chains, status)
 	}
-	c.JSON(http.StatusOK, gin.H{"land_id": landID, "valid": valid})
+	sort.Slice(chains, func(i, j int) bool {
+		return chains[i].PropertyNumber < chains[j].PropertyNumber
+	})
+	c.JSON(http.StatusOK, gin.H{"land_id": landID, "valid": valid, "chains": chains})
 }
 
 func getPropertyHistoryHandler(c *gin.Context) {
 	property := c.Param("property_number")
-	cur, err := ledgerCollection.Find(context.TODO(), bson.M{"property_number": property})
+	history, err := getPropertyChain(context.TODO(), property)
 	if err != nil {
 		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
 		return
 	}
-	var history []LedgerEntry
-	if err := cur.All(context.TODO(), &history); err != nil {
-		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
-		return
-	}
 	if len(history) == 0 {
 		c.JSON(http.StatusNotFound, gin.H{"error": "Property not found"})
 		return
 	}
-	sort.Slice(history, func(i, j int) bool {
-		return history[i].Timestamp < history[j].Timestamp
-	})
 	c.JSON(http.StatusOK, history)
 }
 
@@ -156,47 +253,80 @@ func main() {
 		log.Println("Warning: .env file not found, using environment variables.")
 	}
 
-	mongoURI := os.Getenv("MONGODB_URI")
-	if mongoURI == "" {
-		log.Fatal("MONGODB_URI environment variable is required")
-	}
-	
-	// Connect to MongoDB
-	client, err := mongo.Connect(context.TODO(), options.Client().ApplyURI(mongoURI))
+	store, err = openStore(context.Background())
 	if err != nil {
-		log.Fatal("Failed to connect to MongoDB:", err)
+		log.Fatal("Failed to open the ledger store:", err)
 	}
 
-	// Initialize collection
-	ledgerCollection = client.Database("ledger_db" ).Collection("entries")
-
-	ctx, cancel := context.WithTimeout(context.Background(), 5*time.Second)
-	defer cancel()
-	
-	err = client.Ping(ctx, nil)
-	if err != nil {
-		log.Fatal("Failed to ping MongoDB:", err)
+	if len(os.Args) > 1 && os.Args[1] == "migrate" {
+		report, err := runMigration(context.Background())
+		if err != nil {
+			log.Fatal("Migration failed: ", err)
+		}
+		logMigrationReport(report)
+		return
 	}
 
+	loadSessionSecret()
+	loadSigningKeyDir()
+	loadAttachmentDir()
+	bootstrapRegistrar(context.Background())
+	startCheckpointScheduler(loadCheckpointInterval())
+
 	r := gin.Default()
-	
+
 	// CORS middleware - Allow your Vercel domain
 	r.Use(func(c *gin.Context) {
 		c.Header("Access-Control-Allow-Origin", "https://de-land.vercel.app")
 		c.Header("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS")
-		c.Header("Access-Control-Allow-Headers", "Content-Type, Authorization")
-		
+		c.Header("Access-Control-Allow-Headers", "Content-Type, Authorization, Last-Event-ID")
+
 		if c.Request.Method == "OPTIONS" {
 			c.AbortWithStatus(204)
 			return
 		}
-		
+
 		c.Next()
 	})
-	
-	r.POST("/add_entry", addEntryHandler)
+	r.Use(authenticate)
+
+	r.POST("/auth/login", loginHandler)
+	r.GET("/auth/me", requireRole(RoleRegistrar, RoleAuditor, RoleViewer), currentOfficerHandler)
+	r.POST("/officers", requireRole(RoleRegistrar), createOfficerHandler)
+	r.GET("/keys", listPublicKeysHandler)
+
+	r.POST("/add_entry", requireRole(RoleRegistrar), addEntryHandler)
+	r.POST("/add_entries", requireRole(RoleRegistrar), addEntriesHandler)
 	r.GET("/verify/:land_id", verifyLedgerHandler)
 	r.GET("/property/:property_number", getPropertyHistoryHandler)
-	
+	r.GET("/lineage/:property_number", getLineageHandler)
+	r.GET("/owner/:owner_id", getOwnerPortfolioHandler)
+	r.GET("/owners", listOwnersHandler)
+	r.GET("/owners/:owner_id", getOwnerHandler)
+	r.POST("/owners", requireRole(RoleRegistrar), registerOwnerHandler)
+	r.PUT("/owners/:owner_id", requireRole(RoleRegistrar), updateOwnerHandler)
+	r.GET("/search", searchLedgerHandler)
+	r.GET("/events", ledgerEventsHandler)
+	r.GET("/parcels", listParcelsHandler)
+
+	r.POST("/attachments", requireRole(RoleRegistrar), uploadAttachmentHandler)
+	r.GET("/attachments/:sha256", getAttachmentHandler)
+
+	r.GET("/checkpoints", listCheckpointsHandler)
+	r.GET("/checkpoints/latest", latestCheckpointHandler)
+	r.POST("/checkpoints", requireRole(RoleRegistrar), createCheckpointHandler)
+	r.GET("/proof/:entry_id", inclusionProofHandler)
+
+	r.GET("/audit/scan", requireRole(RoleRegistrar, RoleAuditor), auditScanHandler)
+
+	r.GET("/compensation", requireRole(RoleRegistrar, RoleAuditor), compensationReportHandler)
+
+	r.POST("/transfers", requireRole(RoleRegistrar), createTransferHandler)
+	r.GET("/transfers", requireRole(RoleRegistrar, RoleAuditor), listTransfersHandler)
+	r.GET("/transfers/:id", getTransferHandler)
+	r.POST("/transfers/:id/approve", approveTransferHandler)
+	r.POST("/transfers/:id/cancel", cancelTransferHandler)
+	r.POST("/transfers/:id/finalize", requireRole(RoleRegistrar), finalizeTransferHandler)
+
 	r.Run(":" + "8080")
 }
@@ -0,0 +1,87 @@
+package main
+
+import (
+	"crypto/sha256"
+	"encoding/hex"
+)
+
+// The checkpoint tree commits to every property's chain head. Leaves and inner
+// nodes are hashed with distinct prefixes (0x00 and 0x01) so a leaf can never
+// be passed off as an inner node. A node without a sibling at the end of a
+// level is carried up unchanged. client-deland3/lib/merkle.ts mirrors this.
+
+const (
+	ProofSiblingLeft  = "left"
+	ProofSiblingRight = "right"
+)
+
+// ProofStep is one sibling on the path from a leaf to the root. Position says
+// which side of the running hash the sibling goes on.
+type ProofStep struct {
+	Hash     string `json:"hash"`
+	Position string `json:"position"`
+}
+
+func merkleLeafHash(propertyNumber, headHash string) []byte {
+	encoded, err := canonicalJSON([]string{propertyNumber, headHash})
+	if err != nil {
+		// A pair of strings always encodes.
+		panic(err)
+	}
+	sum := sha256.Sum256(append([]byte{0x00}, encoded...))
+	return sum[:]
+}
+
+func merkleNodeHash(left, right []byte) []byte {
+	data := make([]byte, 0, 1+len(left)+len(right))
+	data = append(data, 0x01)
+	data = append(data, left...)
+	data = append(data, right...)
+	sum := sha256.Sum256(data)
+	return sum[:]
+}
+
+func merkleParentLevel(level [][]byte) [][]byte {
+	parents := make([][]byte, 0, (len(level)+1)/2)
+	for i := 0; i < len(level); i += 2 {
+		if i+1 == len(level) {
+			parents = append(parents, level[i])
+		} else {
+			parents = append(parents, merkleNodeHash(level[i], level[i+1]))
+		}
+	}
+	return parents
+}
+
+// merkleRoot returns the hex root over the leaf hashes; an empty tree hashes
+// to SHA-256 of nothing.
+func merkleRoot(leaves [][]byte) string {
+	if len(leaves) == 0 {
+		sum := sha256.Sum256(nil)
+		return hex.EncodeToString(sum[:])
+	}
+	level := leaves
+	for len(level) > 1 {
+		level = merkleParentLevel(level)
+	}
+	return hex.EncodeToString(level[0])
+}
+
+// merkleProof lists the siblings needed to rebuild the root from leaves[index].
+func merkleProof(leaves [][]byte, index int) []ProofStep {
+	steps := []ProofStep{}
+	level := leaves
+	for len(level) > 1 {
+		sibling := index ^ 1
+		if sibling < len(level) {
+			position := ProofSiblingRight
+			if sibling < index {
+				position = ProofSiblingLeft
+			}
+			steps = append(steps, ProofStep{Hash: hex.EncodeToString(level[sibling]), Position: position})
+		}
+		level = merkleParentLevel(level)
+		index /= 2
+	}
+	return steps
+}
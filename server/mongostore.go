@@ -0,0 +1,367 @@
+package main
+
+import (
+	"context"
+	"errors"
+	"regexp"
+	"time"
+
+	"go.mongodb.org/mongo-driver/bson"
+	"go.mongodb.org/mongo-driver/mongo"
+	"go.mongodb.org/mongo-driver/mongo/options"
+)
+
+type mongoStore struct {
+	entries     *mongo.Collection
+	officers    *mongo.Collection
+	checkpoints *mongo.Collection
+	transfers   *mongo.Collection
+	owners      *mongo.Collection
+}
+
+func openMongoStore(ctx context.Context, uri string) (*mongoStore, error) {
+	client, err := mongo.Connect(ctx, options.Client().ApplyURI(uri))
+	if err != nil {
+		return nil, err
+	}
+
+	pingCtx, cancel := context.WithTimeout(ctx, 5*time.Second)
+	defer cancel()
+	if err := client.Ping(pingCtx, nil); err != nil {
+		return nil, err
+	}
+
+	db := client.Database("ledger_db")
+	s := &mongoStore{
+		entries:     db.Collection("entries"),
+		officers:    db.Collection("officers"),
+		checkpoints: db.Collection("checkpoints"),
+		transfers:   db.Collection("transfers"),
+		owners:      db.Collection("owners"),
+	}
+	if err := s.ensureIndexes(ctx); err != nil {
+		return nil, err
+	}
+	return s, nil
+}
+
+// ensureIndexes makes (property_number, sequence) unique, so two appends
+// racing for the same slot cannot both land. Entries from before sequence
+// numbers existed are left out until the migration numbers them. Owner IDs
+// and officer usernames are unique too, so two registrations of the same ID
+// or username cannot both land.
+func (s *mongoStore) ensureIndexes(ctx context.Context) error {
+	_, err := s.entries.Indexes().CreateOne(ctx, mongo.IndexModel{
+		Keys: bson.D{{Key: "property_number", Value: 1}, {Key: "sequence", Value: 1}},
+		Options: options.Index().
+			SetName("property_sequence").
+			SetUnique(true).
+			SetPartialFilterExpression(bson.M{"sequence": bson.M{"$gt": 0}}),
+	})
+	if err != nil {
+		return err
+	}
+	_, err = s.owners.Indexes().CreateOne(ctx, mongo.IndexModel{
+		Keys:    bson.D{{Key: "id", Value: 1}},
+		Options: options.Index().SetName("owner_id").SetUnique(true),
+	})
+	if err != nil {
+		return err
+	}
+	_, err = s.officers.Indexes().CreateOne(ctx, mongo.IndexModel{
+		Keys:    bson.D{{Key: "username", Value: 1}},
+		Options: options.Index().SetName("officer_username").SetUnique(true),
+	})
+	return err
+}
+
+func entryFilterDocument(f EntryFilter) bson.M {
+	filter := bson.M{}
+	exact := map[string]string{
+		"survey_number":   f.SurveyNumber,
+		"property_number": f.PropertyNumber,
+		"owner_id":        f.OwnerID,
+		"land_type":       f.LandType,
+		"action":          f.Action,
+	}
+	for field, value := range exact {
+		if value != "" {
+			filter[field] = value
+		}
+	}
+	if f.PropertyNumbers != nil {
+		filter["property_number"] = bson.M{"$in": f.PropertyNumbers}
+	}
+	if f.IDs != nil {
+		filter["id"] = bson.M{"$in": f.IDs}
+	}
+	if f.DetailsContains != "" {
+		filter["details"] = bson.M{"$regex": regexp.QuoteMeta(f.DetailsContains), "$options": "i"}
+	}
+	timeRange := bson.M{}
+	if f.From > 0 {
+		timeRange["$gte"] = f.From
+	}
+	if f.To > 0 {
+		timeRange["$lte"] = f.To
+	}
+	if len(timeRange) > 0 {
+		filter["timestamp"] = timeRange
+	}
+	return filter
+}
+
+func (s *mongoStore) InsertEntry(ctx context.Context, entry LedgerEntry) error {
+	_, err := s.entries.InsertOne(ctx, entry)
+	if mongo.IsDuplicateKeyError(err) {
+		return errSequenceTaken
+	}
+	return err
+}
+
+// The driver-generated _id stands in for insertion order.
+func (s *mongoStore) PropertyChain(ctx context.Context, propertyNumber string) ([]LedgerEntry, error) {
+	findOptions := options.Find().SetSort(bson.D{
+		{Key: "sequence", Value: 1},
+		{Key: "timestamp", Value: 1},
+		{Key: "_id", Value: 1},
+	})
+	cur, err := s.entries.Find(ctx, bson.M{"property_number": propertyNumber}, findOptions)
+	if err != nil {
+		return nil, err
+	}
+	var entries []LedgerEntry
+	if err := cur.All(ctx, &entries); err != nil {
+		return nil, err
+	}
+	return entries, nil
+}
+
+func (s *mongoStore) FindEntries(ctx context.Context, query EntryQuery) ([]LedgerEntry, int64, error) {
+	filter := entryFilterDocument(query.EntryFilter)
+	total, err := s.entries.CountDocuments(ctx, filter)
+	if err != nil {
+		return nil, 0, err
+	}
+
+	direction := 1
+	if query.Descending {
+		direction = -1
+	}
+	sortSpec := bson.D{}
+	if query.SortField != "" && query.SortField != "timestamp" {
+		sortSpec = append(sortSpec, bson.E{Key: query.SortField, Value: direction})
+	}
+	sortSpec = append(sortSpec, bson.E{Key: "timestamp", Value: direction}, bson.E{Key: "_id", Value: direction})
+	findOptions := options.Find().SetSort(sortSpec).SetSkip(query.Skip)
+	if query.Limit > 0 {
+		findOptions.SetLimit(query.Limit)
+	}
+
+	cur, err := s.entries.Find(ctx, filter, findOptions)
+	if err != nil {
+		return nil, 0, err
+	}
+	entries := []LedgerEntry{}
+	if err := cur.All(ctx, &entries); err != nil {
+		return nil, 0, err
+	}
+	return entries, total, nil
+}
+
+func (s *mongoStore) FindEntry(ctx context.Context, id string) (*LedgerEntry, error) {
+	var entry LedgerEntry
+	err := s.entries.FindOne(ctx, bson.M{"id": id}).Decode(&entry)
+	if errors.Is(err, mongo.ErrNoDocuments) {
+		return nil, errNotFound
+	}
+	if err != nil {
+		return nil, err
+	}
+	return &entry, nil
+}
+
+func (s *mongoStore) PropertyNumbers(ctx context.Context, filter EntryFilter) ([]string, error) {
+	values, err := s.entries.Distinct(ctx, "property_number", entryFilterDocument(filter))
+	if err != nil {
+		return nil, err
+	}
+	propertyNumbers := make([]string, 0, len(values))
+	for _, value := range values {
+		if propertyNumber, ok := value.(string); ok {
+			propertyNumbers = append(propertyNumbers, propertyNumber)
+		}
+	}
+	return propertyNumbers, nil
+}
+
+func (s *mongoStore) SetEntrySequence(ctx context.Context, id string, sequence int64) error {
+	_, err := s.entries.UpdateOne(ctx, bson.M{"id": id}, bson.M{"$set": bson.M{"sequence": sequence}})
+	if mongo.IsDuplicateKeyError(err) {
+		return errSequenceTaken
+	}
+	return err
+}
+
+func (s *mongoStore) FindOfficer(ctx context.Context, username string) (*Officer, error) {
+	var officer Officer
+	err := s.officers.FindOne(ctx, bson.M{"username": username}).Decode(&officer)
+	if errors.Is(err, mongo.ErrNoDocuments) {
+		return nil, errNotFound
+	}
+	if err != nil {
+		return nil, err
+	}
+	return &officer, nil
+}
+
+func (s *mongoStore) InsertOfficer(ctx context.Context, officer Officer) error {
+	_, err := s.officers.InsertOne(ctx, officer)
+	if mongo.IsDuplicateKeyError(err) {
+		return errOfficerExists
+	}
+	return err
+}
+
+func (s *mongoStore) CountOfficers(ctx context.Context) (int64, error) {
+	return s.officers.CountDocuments(ctx, bson.M{})
+}
+
+func (s *mongoStore) SetOfficerKey(ctx context.Context, username, keyID string) error {
+	_, err := s.officers.UpdateOne(ctx, bson.M{"username": username}, bson.M{"$set": bson.M{"key_id": keyID}})
+	return err
+}
+
+func (s *mongoStore) LatestCheckpoint(ctx context.Context) (*Checkpoint, error) {
+	var cp Checkpoint
+	findOptions := options.FindOne().SetSort(bson.D{{Key: "sequence", Value: -1}})
+	err := s.checkpoints.FindOne(ctx, bson.M{}, findOptions).Decode(&cp)
+	if errors.Is(err, mongo.ErrNoDocuments) {
+		return nil, errNotFound
+	}
+	if err != nil {
+		return nil, err
+	}
+	return &cp, nil
+}
+
+func (s *mongoStore) InsertCheckpoint(ctx context.Context, cp Checkpoint) error {
+	_, err := s.checkpoints.InsertOne(ctx, cp)
+	return err
+}
+
+func (s *mongoStore) ListCheckpoints(ctx context.Context, limit int64) ([]Checkpoint, error) {
+	findOptions := options.Find().
+		SetSort(bson.D{{Key: "sequence", Value: -1}}).
+		SetLimit(limit).
+		SetProjection(bson.M{"leaves": 0})
+	cur, err := s.checkpoints.Find(ctx, bson.M{}, findOptions)
+	if err != nil {
+		return nil, err
+	}
+	checkpoints := []Checkpoint{}
+	if err := cur.All(ctx, &checkpoints); err != nil {
+		return nil, err
+	}
+	return checkpoints, nil
+}
+
+func (s *mongoStore) InsertTransfer(ctx context.Context, transfer Transfer) error {
+	_, err := s.transfers.InsertOne(ctx, transfer)
+	return err
+}
+
+func (s *mongoStore) FindTransfer(ctx context.Context, id string) (*Transfer, error) {
+	var transfer Transfer
+	err := s.transfers.FindOne(ctx, bson.M{"id": id}).Decode(&transfer)
+	if errors.Is(err, mongo.ErrNoDocuments) {
+		return nil, errNotFound
+	}
+	if err != nil {
+		return nil, err
+	}
+	return &transfer, nil
+}
+
+func (s *mongoStore) ListTransfers(ctx context.Context, propertyNumber string) ([]Transfer, error) {
+	filter := bson.M{}
+	if propertyNumber != "" {
+		filter["property_number"] = propertyNumber
+	}
+	findOptions := options.Find().SetSort(bson.D{{Key: "created_at", Value: -1}, {Key: "_id", Value: -1}})
+	cur, err := s.transfers.Find(ctx, filter, findOptions)
+	if err != nil {
+		return nil, err
+	}
+	transfers := []Transfer{}
+	if err := cur.All(ctx, &transfers); err != nil {
+		return nil, err
+	}
+	return transfers, nil
+}
+
+func (s *mongoStore) UpdateTransfer(ctx context.Context, transfer Transfer, fromStatus string) error {
+	result, err := s.transfers.ReplaceOne(ctx, bson.M{"id": transfer.ID, "status": fromStatus}, transfer)
+	if err != nil {
+		return err
+	}
+	if result.MatchedCount == 0 {
+		return errStaleTransfer
+	}
+	return nil
+}
+
+func (s *mongoStore) InsertOwner(ctx context.Context, owner Owner) error {
+	_, err := s.owners.InsertOne(ctx, owner)
+	if mongo.IsDuplicateKeyError(err) {
+		return errOwnerExists
+	}
+	return err
+}
+
+func (s *mongoStore) FindOwner(ctx context.Context, id string) (*Owner, error) {
+	var owner Owner
+	err := s.owners.FindOne(ctx, bson.M{"id": id}).Decode(&owner)
+	if errors.Is(err, mongo.ErrNoDocuments) {
+		return nil, errNotFound
+	}
+	if err != nil {
+		return nil, err
+	}
+	return &owner, nil
+}
+
+func (s *mongoStore) ListOwners(ctx context.Context, query OwnerQuery) ([]Owner, error) {
+	filter := bson.M{}
+	if query.IDs != nil {
+		filter["id"] = bson.M{"$in": query.IDs}
+	}
+	if query.Search != "" {
+		pattern := bson.M{"$regex": regexp.QuoteMeta(query.Search), "$options": "i"}
+		filter["$or"] = bson.A{bson.M{"id": pattern}, bson.M{"name": pattern}}
+	}
+	findOptions := options.Find().SetSort(bson.D{{Key: "id", Value: 1}})
+	if query.Limit > 0 {
+		findOptions.SetLimit(query.Limit)
+	}
+	cur, err := s.owners.Find(ctx, filter, findOptions)
+	if err != nil {
+		return nil, err
+	}
+	owners := []Owner{}
+	if err := cur.All(ctx, &owners); err != nil {
+		return nil, err
+	}
+	return owners, nil
+}
+
+func (s *mongoStore) UpdateOwner(ctx context.Context, owner Owner) error {
+	result, err := s.owners.ReplaceOne(ctx, bson.M{"id": owner.ID}, owner)
+	if err != nil {
+		return err
+	}
+	if result.MatchedCount == 0 {
+		return errNotFound
+	}
+	return nil
+}
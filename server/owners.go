@@ -0,0 +1,416 @@
+package main
+
+import (
+	"context"
+	"errors"
+	"fmt"
+	"math"
+	"net/http"
+	"strconv"
+	"strings"
+	"time"
+
+	"github.com/gin-gonic/gin"
+)
+
+// The owner registry records who each owner ID on the ledger refers to. An
+// individual owner is registered with the identity document the registrar
+// checked; a joint owner is a set of registered individuals, each holding a
+// percentage share. Profiles live beside the ledger rather than on it: they
+// are corrected in place, and entries only carry the owner ID.
+
+const (
+	defaultOwnerListLimit = 20
+	maxOwnerListLimit     = 100
+	maxOwnerFieldLength   = 200
+)
+
+// Owner is a registered owner profile.
+type Owner struct {
+	ID      string `bson:"id" json:"id"`
+	Name    string `bson:"name" json:"name"`
+	Contact string `bson:"contact,omitempty" json:"contact,omitempty"`
+	// The identity document checked at registration, e.g. "Aadhaar" and its
+	// number. Required for individuals.
+	IDDocumentType string `bson:"id_document_type,omitempty" json:"id_document_type,omitempty"`
+	IDDocumentRef  string `bson:"id_document_ref,omitempty" json:"id_document_ref,omitempty"`
+	// Set on a joint owner: the individuals holding it and their shares.
+	Members    []OwnerShare `bson:"members,omitempty" json:"members,omitempty"`
+	CreatedAt  int64        `bson:"created_at" json:"created_at"`
+	UpdatedAt  int64        `bson:"updated_at" json:"updated_at"`
+	RecordedBy string       `bson:"recorded_by" json:"recorded_by"`
+	// Set on profiles served to viewers who are not signed in, whose personal
+	// fields have been masked.
+	Masked bool `bson:"-" json:"masked,omitempty"`
+}
+
+// OwnerShare is one member of a joint owner. Share is a percentage; a joint
+// owner's shares add up to 100. Name is filled in when the profile is served.
+type OwnerShare struct {
+	OwnerID string  `bson:"owner_id" json:"owner_id"`
+	Share   float64 `bson:"share" json:"share"`
+	Name    string  `bson:"-" json:"name,omitempty"`
+}
+
+type NewOwnerPayload struct {
+	ID             string       `json:"id"`
+	Name           string       `json:"name"`
+	Contact        string       `json:"contact"`
+	IDDocumentType string       `json:"id_document_type"`
+	IDDocumentRef  string       `json:"id_document_ref"`
+	Members        []OwnerShare `json:"members"`
+}
+
+// OwnerQuery selects registered owners. Search matches the ID or the name,
+// case-insensitively; IDs, when set, limits the result to those owners.
+type OwnerQuery struct {
+	Search string
+	IDs    []string
+	// Limit of zero returns every match.
+	Limit int64
+}
+
+func (q OwnerQuery) matches(owner Owner) bool {
+	if q.IDs != nil && !containsString(q.IDs, owner.ID) {
+		return false
+	}
+	search := strings.ToLower(q.Search)
+	return search == "" || strings.Contains(strings.ToLower(owner.ID), search) ||
+		strings.Contains(strings.ToLower(owner.Name), search)
+}
+
+var errOwnerExists = errors.New("owner ID already registered")
+
+// maskTail hides all but the last few characters of a personal value.
+func maskTail(value string, visible int) string {
+	runes := []rune(value)
+	if len(runes) <= visible {
+		return strings.Repeat("•", len(runes))
+	}
+	return strings.Repeat("•", len(runes)-visible) + string(runes[len(runes)-visible:])
+}
+
+// maskName reduces a name to its initials, e.g. "Ravi Kumar" to "R. K.".
+func maskName(name string) string {
+	words := strings.Fields(name)
+	for i, word := range words {
+		words[i] = string([]rune(word)[0]) + "."
+	}
+	return strings.Join(words, " ")
+}
+
+// masked returns the profile as shown to viewers who are not signed in.
+func (o Owner) masked() Owner {
+	o.Name = maskName(o.Name)
+	o.Contact = maskTail(o.Contact, 2)
+	o.IDDocumentRef = maskTail(o.IDDocumentRef, 4)
+	o.RecordedBy = ""
+	members := make([]OwnerShare, len(o.Members))
+	for i, member := range o.Members {
+		member.Name = maskName(member.Name)
+		members[i] = member
+	}
+	o.Members = members
+	o.Masked = true
+	return o
+}
+
+// ownerView prepares stored profiles for a response: member names filled in
+// from their own profiles, and personal fields masked unless the viewer is
+// signed in.
+func ownerView(ctx context.Context, owners []Owner, signedIn bool) ([]Owner, error) {
+	var memberIDs []string
+	for _, owner := range owners {
+		for _, member := range owner.Members {
+			memberIDs = append(memberIDs, member.OwnerID)
+		}
+	}
+	names := map[string]string{}
+	if len(memberIDs) > 0 {
+		members, err := store.ListOwners(ctx, OwnerQuery{IDs: memberIDs})
+		if err != nil {
+			return nil, err
+		}
+		for _, member := range members {
+			names[member.ID] = member.Name
+		}
+	}
+
+	views := make([]Owner, len(owners))
+	for i, owner := range owners {
+		members := make([]OwnerShare, len(owner.Members))
+		for j, member := range owner.Members {
+			member.Name = names[member.OwnerID]
+			members[j] = member
+		}
+		owner.Members = members
+		if !signedIn {
+			owner = owner.masked()
+		}
+		views[i] = owner
+	}
+	return views, nil
+}
+
+// validateOwner checks a profile about to be registered or updated, adding
+// violations to fields. It only returns an error when the registry cannot be
+// read.
+func validateOwner(ctx context.Context, owner Owner, fields map[string]string) error {
+	required := map[string]string{"id": owner.ID, "name": owner.Name}
+	if len(owner.Members) == 0 {
+		required["id_document_type"] = owner.IDDocumentType
+		required["id_document_ref"] = owner.IDDocumentRef
+	}
+	for name, value := range required {
+		if value == "" {
+			fields[name] = "This field is required"
+		}
+	}
+	if strings.ContainsAny(owner.ID, " \t\n,") {
+		fields["id"] = "Owner IDs cannot contain spaces or commas"
+	}
+	lengths := map[string]string{
+		"id":               owner.ID,
+		"name":             owner.Name,
+		"contact":          owner.Contact,
+		"id_document_type": owner.IDDocumentType,
+		"id_document_ref":  owner.IDDocumentRef,
+	}
+	for name, value := range lengths {
+		if len(value) > maxOwnerFieldLength && fields[name] == "" {
+			fields[name] = fmt.Sprintf("Keep this under %d characters", maxOwnerFieldLength)
+		}
+	}
+
+	if len(owner.Members) == 0 {
+		return nil
+	}
+	if len(owner.Members) < 2 {
+		fields["members"] = "A joint owner has at least two members"
+		return nil
+	}
+	total := 0.0
+	seen := map[string]bool{}
+	ids := make([]string, 0, len(owner.Members))
+	for i, member := range owner.Members {
+		key := fmt.Sprintf("members.%d", i)
+		switch {
+		case member.OwnerID == "":
+			fields[key] = "Choose a registered owner"
+		case member.OwnerID == owner.ID:
+			fields[key] = "A joint owner cannot be its own member"
+		case seen[member.OwnerID]:
+			fields[key] = fmt.Sprintf("%s is listed twice", member.OwnerID)
+		case member.Share <= 0 || member.Share > 100:
+			fields[key] = "Each share must be more than 0 and at most 100 percent"
+		}
+		seen[member.OwnerID] = true
+		ids = append(ids, member.OwnerID)
+		total += member.Share
+	}
+	if math.Abs(total-100) > 0.001 {
+		fields["members"] = fmt.Sprintf("The shares add up to %s%%; they must add up to 100%%", strconv.FormatFloat(total, 'f', -1, 64))
+	}
+
+	registered, err := store.ListOwners(ctx, OwnerQuery{IDs: ids})
+	if err != nil {
+		return err
+	}
+	byID := map[string]Owner{}
+	for _, member := range registered {
+		byID[member.ID] = member
+	}
+	for i, member := range owner.Members {
+		key := fmt.Sprintf("members.%d", i)
+		if fields[key] != "" {
+			continue
+		}
+		if found, ok := byID[member.OwnerID]; !ok {
+			fields[key] = fmt.Sprintf("No owner with ID %s is registered", member.OwnerID)
+		} else if len(found.Members) > 0 {
+			fields[key] = fmt.Sprintf("%s is itself a joint owner; list its members instead", member.OwnerID)
+		}
+	}
+
+	// Joint owners only hold individuals, so one that is already a member
+	// elsewhere cannot become joint.
+	all, err := store.ListOwners(ctx, OwnerQuery{})
+	if err != nil {
+		return err
+	}
+	for _, other := range all {
+		for _, member := range other.Members {
+			if member.OwnerID == owner.ID && other.ID != owner.ID {
+				fields["members"] = fmt.Sprintf("%s is a member of joint owner %s, so it cannot have members itself", owner.ID, other.ID)
+			}
+		}
+	}
+	return nil
+}
+
+func ownerFromPayload(payload NewOwnerPayload) Owner {
+	members := make([]OwnerShare, 0, len(payload.Members))
+	for _, member := range payload.Members {
+		members = append(members, OwnerShare{OwnerID: strings.TrimSpace(member.OwnerID), Share: member.Share})
+	}
+	return Owner{
+		ID:             strings.TrimSpace(payload.ID),
+		Name:           strings.TrimSpace(payload.Name),
+		Contact:        strings.TrimSpace(payload.Contact),
+		IDDocumentType: strings.TrimSpace(payload.IDDocumentType),
+		IDDocumentRef:  strings.TrimSpace(payload.IDDocumentRef),
+		Members:        members,
+	}
+}
+
+// checkOwnerRegistered requires the entry's owner to be registered when the
+// entry brings them onto the property. Owners already named on the chain,
+// which may predate the registry, are left alone. It only returns an error
+// when the registry cannot be read.
+func checkOwnerRegistered(ctx context.Context, payload NewEntryPayload, chain []LedgerEntry, fields map[string]string) error {
+	if payload.OwnerID == "" || fields["owner_id"] != "" {
+		return nil
+	}
+	for _, entry := range chain {
+		if entry.OwnerID == payload.OwnerID {
+			return nil
+		}
+	}
+	if _, err := store.FindOwner(ctx, payload.OwnerID); errors.Is(err, errNotFound) {
+		fields["owner_id"] = fmt.Sprintf("No owner with ID %s is registered; register them first", payload.OwnerID)
+	} else if err != nil {
+		return err
+	}
+	return nil
+}
+
+// listOwnersHandler searches the registry by `q`, or looks up the
+// comma-separated `ids`, which the property timeline uses to name owners.
+// Viewers who are not signed in can only find an owner by their exact ID:
+// matching on names would let them probe the masked names letter by letter.
+func listOwnersHandler(c *gin.Context) {
+	signedIn := currentOfficer(c) != nil
+	query := OwnerQuery{Search: strings.TrimSpace(c.Query("q")), Limit: defaultOwnerListLimit}
+	if ids := c.Query("ids"); ids != "" {
+		query.IDs = strings.Split(ids, ",")
+		query.Limit = int64(len(query.IDs))
+	}
+	if !signedIn && query.Search != "" {
+		if query.IDs == nil || containsString(query.IDs, query.Search) {
+			query.IDs = []string{query.Search}
+		} else {
+			query.IDs = []string{}
+		}
+		query.Search = ""
+	}
+	if raw := c.Query("limit"); raw != "" {
+		limit, err := strconv.ParseInt(raw, 10, 64)
+		if err != nil || limit < 1 || limit > maxOwnerListLimit {
+			c.JSON(http.StatusBadRequest, gin.H{"error": fmt.Sprintf("limit must be between 1 and %d", maxOwnerListLimit)})
+			return
+		}
+		query.Limit = limit
+	}
+	ctx := context.TODO()
+	owners, err := store.ListOwners(ctx, query)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	views, err := ownerView(ctx, owners, signedIn)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	c.JSON(http.StatusOK, views)
+}
+
+func getOwnerHandler(c *gin.Context) {
+	ctx := context.TODO()
+	owner, err := store.FindOwner(ctx, c.Param("owner_id"))
+	if errors.Is(err, errNotFound) {
+		c.JSON(http.StatusNotFound, gin.H{"error": "No owner with this ID is registered"})
+		return
+	}
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	views, err := ownerView(ctx, []Owner{*owner}, currentOfficer(c) != nil)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	c.JSON(http.StatusOK, views[0])
+}
+
+func registerOwnerHandler(c *gin.Context) {
+	var payload NewOwnerPayload
+	if err := c.BindJSON(&payload); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Invalid input"})
+		return
+	}
+	ctx := context.TODO()
+	owner := ownerFromPayload(payload)
+	fields := map[string]string{}
+	if err := validateOwner(ctx, owner, fields); err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	if len(fields) > 0 {
+		c.JSON(http.StatusUnprocessableEntity, gin.H{"error": "Owner cannot be registered", "fields": fields})
+		return
+	}
+
+	owner.CreatedAt = time.Now().Unix()
+	owner.UpdatedAt = owner.CreatedAt
+	owner.RecordedBy = currentOfficer(c).Username
+	if err := store.InsertOwner(ctx, owner); errors.Is(err, errOwnerExists) {
+		c.JSON(http.StatusConflict, gin.H{"error": fmt.Sprintf("Owner ID %s is already registered", owner.ID)})
+		return
+	} else if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	c.JSON(http.StatusOK, gin.H{"status": "success", "owner": owner})
+}
+
+// updateOwnerHandler replaces a profile's details; the owner ID stays fixed.
+func updateOwnerHandler(c *gin.Context) {
+	var payload NewOwnerPayload
+	if err := c.BindJSON(&payload); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Invalid input"})
+		return
+	}
+	ctx := context.TODO()
+	existing, err := store.FindOwner(ctx, c.Param("owner_id"))
+	if errors.Is(err, errNotFound) {
+		c.JSON(http.StatusNotFound, gin.H{"error": "No owner with this ID is registered"})
+		return
+	}
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+
+	payload.ID = existing.ID
+	owner := ownerFromPayload(payload)
+	fields := map[string]string{}
+	if err := validateOwner(ctx, owner, fields); err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	if len(fields) > 0 {
+		c.JSON(http.StatusUnprocessableEntity, gin.H{"error": "Owner cannot be updated", "fields": fields})
+		return
+	}
+
+	owner.CreatedAt = existing.CreatedAt
+	owner.UpdatedAt = time.Now().Unix()
+	owner.RecordedBy = currentOfficer(c).Username
+	if err := store.UpdateOwner(ctx, owner); err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	c.JSON(http.StatusOK, gin.H{"status": "success", "owner": owner})
+}
@@ -0,0 +1,481 @@
+package main
+
+import (
+	"context"
+	"encoding/json"
+	"fmt"
+	"math"
+	"net/http"
+	"sort"
+	"strings"
+	"sync"
+
+	"github.com/gin-gonic/gin"
+)
+
+// A survey number's parcel boundary is recorded on the chain by a
+// BoundaryRecorded entry carrying a GeoJSON polygon in longitude and latitude.
+// The latest boundary recorded under a survey number, on any of its property
+// chains and as amended, is the parcel's current boundary.
+
+const maxBoundaryVertices = 5000
+
+// ParcelBoundary is a GeoJSON Polygon geometry: an outer ring followed by any
+// holes, each a closed ring of [longitude, latitude] positions.
+type ParcelBoundary struct {
+	Type        string        `bson:"type" json:"type"`
+	Coordinates [][][]float64 `bson:"coordinates" json:"coordinates"`
+}
+
+// validateBoundary checks that the boundary is a well-formed polygon, adding
+// a violation to fields under key.
+func validateBoundary(b *ParcelBoundary, key string, fields map[string]string) {
+	if b == nil {
+		return
+	}
+	if b.Type != "Polygon" {
+		fields[key] = "Record the parcel as a single GeoJSON Polygon"
+		return
+	}
+	if len(b.Coordinates) == 0 {
+		fields[key] = "The polygon has no rings"
+		return
+	}
+	vertices := 0
+	for i, ring := range b.Coordinates {
+		name := "The outer ring"
+		if i > 0 {
+			name = fmt.Sprintf("Hole %d", i)
+		}
+		vertices += len(ring)
+		if len(ring) < 4 {
+			fields[key] = fmt.Sprintf("%s needs at least three corners and must end where it starts", name)
+			return
+		}
+		for _, position := range ring {
+			if len(position) != 2 {
+				fields[key] = "Give every position as [longitude, latitude]"
+				return
+			}
+			if math.Abs(position[0]) > 180 || math.Abs(position[1]) > 90 {
+				fields[key] = fmt.Sprintf("%s has a position outside longitude ±180 and latitude ±90", name)
+				return
+			}
+		}
+		first, last := ring[0], ring[len(ring)-1]
+		if first[0] != last[0] || first[1] != last[1] {
+			fields[key] = fmt.Sprintf("%s must end where it starts", name)
+			return
+		}
+		points := ringPoints(ring)
+		if ringArea(points) == 0 {
+			fields[key] = fmt.Sprintf("%s encloses no area", name)
+			return
+		}
+		if ringSelfIntersects(points) {
+			fields[key] = fmt.Sprintf("%s crosses itself", name)
+			return
+		}
+	}
+	if vertices > maxBoundaryVertices {
+		fields[key] = fmt.Sprintf("A boundary may have at most %d positions", maxBoundaryVertices)
+	}
+}
+
+// Overlap tests work on longitude and latitude as plane coordinates, which is
+// accurate enough at the scale of a parcel.
+type point struct{ x, y float64 }
+
+func ringPoints(ring [][]float64) []point {
+	points := make([]point, len(ring))
+	for i, position := range ring {
+		points[i] = point{position[0], position[1]}
+	}
+	return points
+}
+
+// ringArea is the ring's signed area; rings repeat their first point last.
+func ringArea(ring []point) float64 {
+	area := 0.0
+	for i := 0; i+1 < len(ring); i++ {
+		area += ring[i].x*ring[i+1].y - ring[i+1].x*ring[i].y
+	}
+	return area / 2
+}
+
+func orientation(a, b, c point) float64 {
+	return (b.x-a.x)*(c.y-a.y) - (b.y-a.y)*(c.x-a.x)
+}
+
+// segmentsCross reports whether the segments cross at a single point inside
+// both of them. Segments that touch at an end or run along each other do not
+// cross, so parcels sharing an edge are not flagged.
+func segmentsCross(a, b, c, d point) bool {
+	o1, o2 := orientation(a, b, c), orientation(a, b, d)
+	o3, o4 := orientation(c, d, a), orientation(c, d, b)
+	return o1*o2 < 0 && o3*o4 < 0
+}
+
+func ringSelfIntersects(ring []point) bool {
+	edges := len(ring) - 1
+	for i := 0; i < edges; i++ {
+		for j := i + 1; j < edges; j++ {
+			if segmentsCross(ring[i], ring[i+1], ring[j], ring[j+1]) {
+				return true
+			}
+		}
+	}
+	return false
+}
+
+func onSegment(p, a, b point) bool {
+	const epsilon = 1e-12
+	if math.Abs(orientation(a, b, p)) > epsilon {
+		return false
+	}
+	return p.x >= math.Min(a.x, b.x)-epsilon && p.x <= math.Max(a.x, b.x)+epsilon &&
+		p.y >= math.Min(a.y, b.y)-epsilon && p.y <= math.Max(a.y, b.y)+epsilon
+}
+
+// polygon is a boundary's rings as points, holes included.
+type polygon [][]point
+
+func boundaryPolygon(b *ParcelBoundary) polygon {
+	rings := make(polygon, len(b.Coordinates))
+	for i, ring := range b.Coordinates {
+		rings[i] = ringPoints(ring)
+	}
+	return rings
+}
+
+// strictlyInside reports whether p lies in the polygon's interior: inside the
+// outer ring, outside every hole and on no edge.
+func (poly polygon) strictlyInside(p point) bool {
+	inside := false
+	for _, ring := range poly {
+		for i := 0; i+1 < len(ring); i++ {
+			a, b := ring[i], ring[i+1]
+			if onSegment(p, a, b) {
+				return false
+			}
+			if (a.y > p.y) != (b.y > p.y) && p.x < a.x+(p.y-a.y)*(b.x-a.x)/(b.y-a.y) {
+				inside = !inside
+			}
+		}
+	}
+	return inside
+}
+
+// interiorPoint finds a point strictly inside the polygon by crossing it with
+// a horizontal line between the outer ring's two lowest distinct latitudes.
+func (poly polygon) interiorPoint() (point, bool) {
+	ys := []float64{}
+	for _, p := range poly[0] {
+		ys = append(ys, p.y)
+	}
+	sort.Float64s(ys)
+	y := ys[0]
+	for _, candidate := range ys {
+		if candidate > ys[0] {
+			y = (ys[0] + candidate) / 2
+			break
+		}
+	}
+	xs := []float64{}
+	for _, ring := range poly {
+		for i := 0; i+1 < len(ring); i++ {
+			a, b := ring[i], ring[i+1]
+			if (a.y > y) != (b.y > y) {
+				xs = append(xs, a.x+(y-a.y)*(b.x-a.x)/(b.y-a.y))
+			}
+		}
+	}
+	if len(xs) < 2 {
+		return point{}, false
+	}
+	sort.Float64s(xs)
+	return point{(xs[0] + xs[1]) / 2, y}, true
+}
+
+func (poly polygon) bounds() (lo, hi point) {
+	lo = point{math.Inf(1), math.Inf(1)}
+	hi = point{math.Inf(-1), math.Inf(-1)}
+	for _, p := range poly[0] {
+		lo = point{math.Min(lo.x, p.x), math.Min(lo.y, p.y)}
+		hi = point{math.Max(hi.x, p.x), math.Max(hi.y, p.y)}
+	}
+	return lo, hi
+}
+
+// samplePoints are the polygon's corners, edge midpoints and an interior
+// point: between them, one lands inside any polygon this one overlaps without
+// its edges crossing the other's.
+func (poly polygon) samplePoints() []point {
+	var samples []point
+	for _, ring := range poly {
+		for i := 0; i+1 < len(ring); i++ {
+			samples = append(samples, ring[i], point{(ring[i].x + ring[i+1].x) / 2, (ring[i].y + ring[i+1].y) / 2})
+		}
+	}
+	if p, ok := poly.interiorPoint(); ok {
+		samples = append(samples, p)
+	}
+	return samples
+}
+
+// parcelShape is a boundary prepared for overlap tests, with its bounding box.
+type parcelShape struct {
+	poly   polygon
+	lo, hi point
+}
+
+func shapeOf(b *ParcelBoundary) parcelShape {
+	poly := boundaryPolygon(b)
+	lo, hi := poly.bounds()
+	return parcelShape{poly: poly, lo: lo, hi: hi}
+}
+
+// boxesOverlap is the cheap test that rules out most pairs: shapes whose
+// bounding boxes share no interior cannot overlap.
+func (a parcelShape) boxesOverlap(b parcelShape) bool {
+	return a.lo.x < b.hi.x && b.lo.x < a.hi.x && a.lo.y < b.hi.y && b.lo.y < a.hi.y
+}
+
+// overlaps reports whether two shapes share any interior. Neighbouring
+// parcels that only share edges or corners do not overlap.
+func (a parcelShape) overlaps(b parcelShape) bool {
+	if !a.boxesOverlap(b) {
+		return false
+	}
+	pa, pb := a.poly, b.poly
+	for _, ringA := range pa {
+		for i := 0; i+1 < len(ringA); i++ {
+			for _, ringB := range pb {
+				for j := 0; j+1 < len(ringB); j++ {
+					if segmentsCross(ringA[i], ringA[i+1], ringB[j], ringB[j+1]) {
+						return true
+					}
+				}
+			}
+		}
+	}
+	for _, p := range pa.samplePoints() {
+		if pb.strictlyInside(p) {
+			return true
+		}
+	}
+	for _, p := range pb.samplePoints() {
+		if pa.strictlyInside(p) {
+			return true
+		}
+	}
+	return false
+}
+
+// Parcel is the current boundary of a survey number.
+type Parcel struct {
+	SurveyNumber string `json:"survey_number"`
+	// Every property recorded under the survey number.
+	PropertyNumbers []string `json:"property_numbers"`
+	// The entry that recorded the boundary, and the chain it is on.
+	PropertyNumber string          `json:"property_number"`
+	EntryID        string          `json:"entry_id"`
+	RecordedAt     int64           `json:"recorded_at"`
+	Boundary       *ParcelBoundary `json:"boundary"`
+	// Survey numbers whose boundaries overlap this one.
+	Overlaps []string `json:"overlaps"`
+}
+
+// latestBoundary returns the last BoundaryRecorded entry of the history as
+// amended by its corrections and reversals.
+func latestBoundary(history []LedgerEntry) (LedgerEntry, bool) {
+	amended := amendedHistory(history)
+	for i := len(amended) - 1; i >= 0; i-- {
+		entry := amended[i]
+		if entry.Action == ActionBoundaryRecorded && entry.Payload != nil && entry.Payload.Boundary != nil {
+			return entry, true
+		}
+	}
+	return LedgerEntry{}, false
+}
+
+// loadBoundaries returns every survey number's current boundary, without the
+// properties recorded under it or its overlaps.
+func loadBoundaries(ctx context.Context) (map[string]*Parcel, error) {
+	propertyNumbers, err := store.PropertyNumbers(ctx, EntryFilter{Action: ActionBoundaryRecorded})
+	if err != nil {
+		return nil, err
+	}
+	bySurvey := map[string]*Parcel{}
+	for _, propertyNumber := range propertyNumbers {
+		chain, err := getPropertyChain(ctx, propertyNumber)
+		if err != nil {
+			return nil, err
+		}
+		entry, ok := latestBoundary(chain)
+		if !ok {
+			continue
+		}
+		surveyNumber := replayPropertyState(chain).surveyNumber
+		if existing := bySurvey[surveyNumber]; existing != nil && existing.RecordedAt >= entry.Timestamp {
+			continue
+		}
+		bySurvey[surveyNumber] = &Parcel{
+			SurveyNumber:   surveyNumber,
+			PropertyNumber: propertyNumber,
+			EntryID:        entry.ID,
+			RecordedAt:     entry.Timestamp,
+			Boundary:       entry.Payload.Boundary,
+			Overlaps:       []string{},
+		}
+	}
+	return bySurvey, nil
+}
+
+// loadParcels returns every survey number's current boundary, sorted by
+// survey number, with the overlaps between them.
+func loadParcels(ctx context.Context) ([]Parcel, error) {
+	bySurvey, err := loadBoundaries(ctx)
+	if err != nil {
+		return nil, err
+	}
+	parcels := make([]Parcel, 0, len(bySurvey))
+	for surveyNumber, parcel := range bySurvey {
+		parcel.PropertyNumbers, err = store.PropertyNumbers(ctx, EntryFilter{SurveyNumber: surveyNumber})
+		if err != nil {
+			return nil, err
+		}
+		sort.Strings(parcel.PropertyNumbers)
+		parcels = append(parcels, *parcel)
+	}
+	sort.Slice(parcels, func(i, j int) bool {
+		return parcels[i].SurveyNumber < parcels[j].SurveyNumber
+	})
+	markOverlaps(parcels)
+	return parcels, nil
+}
+
+// overlapCache remembers whether pairs of boundaries overlap, keyed by both
+// boundaries' fingerprints, so a listing only runs the full test on pairs
+// involving a boundary recorded since the previous one. Each listing keeps
+// just the pairs it looked up, so replaced boundaries drop out.
+var (
+	overlapCacheMu sync.Mutex
+	overlapCache   = map[[2]string]bool{}
+)
+
+func boundaryFingerprint(b *ParcelBoundary) string {
+	raw, _ := json.Marshal(b)
+	return calculateHash(string(raw))
+}
+
+// markOverlaps fills in each parcel's overlaps. Parcels are swept in order of
+// their western edge, so only pairs whose bounding boxes meet are compared.
+func markOverlaps(parcels []Parcel) {
+	shapes := make([]parcelShape, len(parcels))
+	keys := make([]string, len(parcels))
+	order := make([]int, len(parcels))
+	for i, parcel := range parcels {
+		shapes[i] = shapeOf(parcel.Boundary)
+		keys[i] = boundaryFingerprint(parcel.Boundary)
+		order[i] = i
+	}
+	sort.Slice(order, func(a, b int) bool {
+		return shapes[order[a]].lo.x < shapes[order[b]].lo.x
+	})
+
+	overlapCacheMu.Lock()
+	defer overlapCacheMu.Unlock()
+	used := map[[2]string]bool{}
+	for n, i := range order {
+		for _, j := range order[n+1:] {
+			if shapes[j].lo.x >= shapes[i].hi.x {
+				break
+			}
+			if !shapes[i].boxesOverlap(shapes[j]) {
+				continue
+			}
+			key := [2]string{keys[i], keys[j]}
+			if keys[j] < keys[i] {
+				key = [2]string{keys[j], keys[i]}
+			}
+			overlap, known := overlapCache[key]
+			if !known {
+				overlap = shapes[i].overlaps(shapes[j])
+			}
+			used[key] = overlap
+			if overlap {
+				parcels[i].Overlaps = append(parcels[i].Overlaps, parcels[j].SurveyNumber)
+				parcels[j].Overlaps = append(parcels[j].Overlaps, parcels[i].SurveyNumber)
+			}
+		}
+	}
+	overlapCache = used
+	for i := range parcels {
+		sort.Strings(parcels[i].Overlaps)
+	}
+}
+
+// submittedBoundary returns the boundary an entry would leave on record and
+// the field it was given under: a BoundaryRecorded entry's own, or the one a
+// Correction substitutes.
+func submittedBoundary(payload NewEntryPayload) (*ParcelBoundary, string) {
+	p := payload.Payload
+	switch {
+	case p == nil:
+		return nil, ""
+	case payload.Action == ActionBoundaryRecorded:
+		return p.Boundary, "payload.boundary"
+	case payload.Action == ActionCorrection && p.Corrected != nil && p.Corrected.Payload != nil:
+		return p.Corrected.Payload.Boundary, "payload.corrected.payload.boundary"
+	}
+	return nil, ""
+}
+
+// checkBoundaryOverlaps flags a submitted boundary that overlaps another
+// survey number's parcel, unless the submitter has accepted the overlap.
+// Re-recording a survey number's own boundary replaces it and is not flagged.
+// Only the submitted boundary is tested, against each recorded one.
+func checkBoundaryOverlaps(ctx context.Context, payload NewEntryPayload, fields map[string]string) error {
+	boundary, key := submittedBoundary(payload)
+	if boundary == nil || payload.AcceptOverlaps || fields[key] != "" {
+		return nil
+	}
+	parcels, err := loadBoundaries(ctx)
+	if err != nil {
+		return err
+	}
+	submitted := shapeOf(boundary)
+	var overlaps []string
+	for surveyNumber, parcel := range parcels {
+		if surveyNumber != payload.SurveyNumber && submitted.overlaps(shapeOf(parcel.Boundary)) {
+			overlaps = append(overlaps, surveyNumber)
+		}
+	}
+	sort.Strings(overlaps)
+	if len(overlaps) > 0 {
+		fields[key] = fmt.Sprintf("Overlaps the recorded boundary of %s; confirm the overlap to record it anyway",
+			strings.Join(overlaps, ", "))
+	}
+	return nil
+}
+
+// listParcelsHandler lists parcel boundaries, all of them or the one for a
+// survey number, each with the survey numbers it overlaps.
+func listParcelsHandler(c *gin.Context) {
+	parcels, err := loadParcels(context.TODO())
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	if surveyNumber := c.Query("survey_number"); surveyNumber != "" {
+		matching := []Parcel{}
+		for _, parcel := range parcels {
+			if parcel.SurveyNumber == surveyNumber {
+				matching = append(matching, parcel)
+			}
+		}
+		parcels = matching
+	}
+	c.JSON(http.StatusOK, parcels)
+}
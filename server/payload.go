@@ -0,0 +1,277 @@
+package main
+
+import (
+	"bytes"
+	"encoding/json"
+	"fmt"
+	"regexp"
+	"sort"
+	"strings"
+	"time"
+)
+
+// ActionPayload holds the structured, per-action facts of an entry. Only the
+// fields listed for the entry's action in payloadFields may be set.
+type ActionPayload struct {
+	// AwardDeclared; Compensated quotes the award number it pays against
+	AwardNumber string `bson:"award_number,omitempty" json:"award_number,omitempty"`
+	AwardDate   string `bson:"award_date,omitempty" json:"award_date,omitempty"`
+
+	// AwardDeclared (the amount awarded) and Compensated (the amount paid)
+	Amount   float64 `bson:"amount,omitempty" json:"amount,omitempty"`
+	Currency string  `bson:"currency,omitempty" json:"currency,omitempty"`
+
+	// Compensated
+	PaymentReference string `bson:"payment_reference,omitempty" json:"payment_reference,omitempty"`
+
+	// OwnershipUpdated
+	PreviousOwner string `bson:"previous_owner,omitempty" json:"previous_owner,omitempty"`
+	NewOwner      string `bson:"new_owner,omitempty" json:"new_owner,omitempty"`
+	DeedReference string `bson:"deed_reference,omitempty" json:"deed_reference,omitempty"`
+	// Set only on entries appended by finalizing a transfer.
+	TransferID string             `bson:"transfer_id,omitempty" json:"transfer_id,omitempty"`
+	Approvals  []TransferApproval `bson:"approvals,omitempty" json:"approvals,omitempty"`
+	// Why ownership changed despite an active stay or lien; a subdivision or
+	// merger gives one for the same reason.
+	OverrideReason string `bson:"override_reason,omitempty" json:"override_reason,omitempty"`
+
+	// LandConverted
+	ConversionOrder string `bson:"conversion_order,omitempty" json:"conversion_order,omitempty"`
+
+	// BoundaryRecorded
+	Boundary *ParcelBoundary `bson:"boundary,omitempty" json:"boundary,omitempty"`
+
+	// LienRegistered and MortgageRegistered name the creditor or lender; they
+	// and their releases identify the charge by its reference. A registration
+	// may give the amount secured.
+	Holder          string `bson:"holder,omitempty" json:"holder,omitempty"`
+	ChargeReference string `bson:"charge_reference,omitempty" json:"charge_reference,omitempty"`
+
+	// StayOrdered and StayLifted
+	Court      string `bson:"court,omitempty" json:"court,omitempty"`
+	CaseNumber string `bson:"case_number,omitempty" json:"case_number,omitempty"`
+	OrderDate  string `bson:"order_date,omitempty" json:"order_date,omitempty"`
+
+	// Subdivided and Merged: the properties a parent became, on the entry
+	// closing the parent, and the parents of a child with the hashes of
+	// their closing entries, on the entry opening the child.
+	Children []string      `bson:"children,omitempty" json:"children,omitempty"`
+	Parents  []LineageLink `bson:"parents,omitempty" json:"parents,omitempty"`
+
+	// Correction and Reversal: the ID of the entry amended and, for a
+	// Correction, the fields it corrects.
+	Amends    string           `bson:"amends,omitempty" json:"amends,omitempty"`
+	Corrected *CorrectedFields `bson:"corrected,omitempty" json:"corrected,omitempty"`
+
+	// Any action, set only by bulk import: the YYYY-MM-DD date a migrated
+	// record took effect in the register it came from. The entry's timestamp
+	// stays the time it was appended here.
+	EffectiveDate string `bson:"effective_date,omitempty" json:"effective_date,omitempty"`
+}
+
+// payloadFields lists the payload fields each action carries and whether they
+// are required. client-deland3/lib/payloads.ts mirrors this table.
+// effective_date is not listed: any action may carry it when imported.
+var payloadFields = map[string]map[string]bool{
+	ActionAwardDeclared:    {"award_number": true, "award_date": true, "amount": true, "currency": true},
+	ActionCompensated:      {"award_number": true, "amount": true, "currency": true, "payment_reference": true},
+	ActionOwnershipUpdated: {"previous_owner": true, "new_owner": true, "deed_reference": true, "transfer_id": false, "approvals": false, "override_reason": false},
+	ActionLandConverted:    {"conversion_order": true},
+	ActionBoundaryRecorded: {"boundary": true},
+	ActionSubdivided:       {"children": false, "parents": false, "override_reason": false},
+	ActionMerged:           {"children": false, "parents": false, "override_reason": false},
+	ActionOther:            {},
+	ActionCorrection:       {"amends": true, "corrected": true},
+	ActionReversal:         {"amends": true},
+
+	ActionLienRegistered:     {"holder": true, "charge_reference": true, "amount": false, "currency": false},
+	ActionLienReleased:       {"charge_reference": true},
+	ActionMortgageRegistered: {"holder": true, "charge_reference": true, "amount": false, "currency": false},
+	ActionMortgageReleased:   {"charge_reference": true},
+	ActionStayOrdered:        {"court": true, "case_number": true, "order_date": true},
+	ActionStayLifted:         {"case_number": true, "order_date": true},
+}
+
+const maxPaymentAmount = 1e15
+
+var currencyPattern = regexp.MustCompile(`^[A-Z]{3}$`)
+
+// values returns the payload's non-empty fields keyed by JSON name.
+func (p *ActionPayload) values() map[string]any {
+	values := map[string]any{}
+	if p == nil {
+		return values
+	}
+	raw, _ := json.Marshal(p)
+	_ = json.Unmarshal(raw, &values)
+	return values
+}
+
+// canonicalJSON encodes v with object keys sorted at every level and without
+// HTML escaping. Scalars keep encoding/json's formatting, which matches
+// JSON.stringify, so browsers can rebuild the exact same bytes.
+func canonicalJSON(v any) (string, error) {
+	raw, err := json.Marshal(v)
+	if err != nil {
+		return "", err
+	}
+	decoder := json.NewDecoder(bytes.NewReader(raw))
+	decoder.UseNumber()
+	var generic any
+	if err := decoder.Decode(&generic); err != nil {
+		return "", err
+	}
+	var b strings.Builder
+	if err := writeCanonical(&b, generic); err != nil {
+		return "", err
+	}
+	return b.String(), nil
+}
+
+func writeCanonical(b *strings.Builder, v any) error {
+	switch t := v.(type) {
+	case map[string]any:
+		keys := make([]string, 0, len(t))
+		for key := range t {
+			keys = append(keys, key)
+		}
+		sort.Strings(keys)
+		b.WriteByte('{')
+		for i, key := range keys {
+			if i > 0 {
+				b.WriteByte(',')
+			}
+			if err := writeCanonical(b, key); err != nil {
+				return err
+			}
+			b.WriteByte(':')
+			if err := writeCanonical(b, t[key]); err != nil {
+				return err
+			}
+		}
+		b.WriteByte('}')
+	case []any:
+		b.WriteByte('[')
+		for i, item := range t {
+			if i > 0 {
+				b.WriteByte(',')
+			}
+			if err := writeCanonical(b, item); err != nil {
+				return err
+			}
+		}
+		b.WriteByte(']')
+	case string:
+		var buf bytes.Buffer
+		encoder := json.NewEncoder(&buf)
+		encoder.SetEscapeHTML(false)
+		if err := encoder.Encode(t); err != nil {
+			return err
+		}
+		b.WriteString(strings.TrimSuffix(buf.String(), "\n"))
+	case json.Number:
+		b.WriteString(t.String())
+	case bool:
+		fmt.Fprintf(b, "%t", t)
+	case nil:
+		b.WriteString("null")
+	default:
+		return fmt.Errorf("canonicalJSON: unsupported type %T", v)
+	}
+	return nil
+}
+
+// payloadHashInput is the payload's contribution to the entry hash. Entries
+// without a payload contribute nothing, so they hash as they always have.
+func payloadHashInput(p *ActionPayload) string {
+	if len(p.values()) == 0 {
+		return ""
+	}
+	encoded, err := canonicalJSON(p)
+	if err != nil {
+		// ActionPayload only holds strings, numbers and structs made of
+		// them, which always encode.
+		panic(err)
+	}
+	return encoded
+}
+
+// validateDate checks an optional YYYY-MM-DD date that cannot be in the future.
+func validateDate(value, name, label string, fields map[string]string) {
+	if value == "" {
+		return
+	}
+	if date, err := time.Parse("2006-01-02", value); err != nil {
+		fields[name] = "Use the YYYY-MM-DD format"
+	} else if date.After(time.Now()) {
+		fields[name] = fmt.Sprintf("The %s cannot be in the future", label)
+	}
+}
+
+// validatePayload checks the payload against the action's field table and the
+// property's current state, adding violations to fields as "payload.<name>".
+func validatePayload(payload NewEntryPayload, state propertyState, fields map[string]string) {
+	allowed, known := payloadFields[payload.Action]
+	if !known {
+		return
+	}
+	values := payload.Payload.values()
+	for name := range values {
+		if _, listed := allowed[name]; !listed && name != "effective_date" {
+			fields["payload."+name] = fmt.Sprintf("%s entries do not carry %s", payload.Action, name)
+		}
+	}
+	for name, required := range allowed {
+		if _, present := values[name]; required && !present {
+			fields["payload."+name] = "This field is required"
+		}
+	}
+	if payload.Payload == nil {
+		return
+	}
+	p := payload.Payload
+
+	if p.EffectiveDate != "" {
+		if payload.fromImport {
+			validateDate(p.EffectiveDate, "payload.effective_date", "effective date", fields)
+		} else {
+			fields["payload.effective_date"] = "Effective dates are recorded by bulk import"
+		}
+	}
+
+	switch payload.Action {
+	case ActionAwardDeclared:
+		validateDate(p.AwardDate, "payload.award_date", "award date", fields)
+	case ActionStayOrdered, ActionStayLifted:
+		validateDate(p.OrderDate, "payload.order_date", "order date", fields)
+	case ActionCompensated:
+		validatePayment(p, state.award, fields)
+	case ActionOwnershipUpdated:
+		if p.NewOwner != "" && p.NewOwner != payload.OwnerID {
+			fields["payload.new_owner"] = "The new owner must match the entry's owner ID"
+		}
+		if p.PreviousOwner != "" && state.owner != "" && p.PreviousOwner != state.owner {
+			fields["payload.previous_owner"] = fmt.Sprintf("The current owner on record is %s", state.owner)
+		}
+		if p.PreviousOwner != "" && p.PreviousOwner == p.NewOwner {
+			fields["payload.new_owner"] = "The new owner must differ from the previous owner"
+		}
+		if !payload.fromTransfer && (p.TransferID != "" || len(p.Approvals) > 0) {
+			fields["payload.approvals"] = "Approvals are recorded by finalizing a transfer"
+		}
+	case ActionBoundaryRecorded:
+		validateBoundary(p.Boundary, "payload.boundary", fields)
+	}
+
+	validateEncumbrance(payload, state, fields)
+
+	// Awards, payments and registered charges carry an amount and currency.
+	if p.Amount != 0 && p.Amount < 0.01 {
+		fields["payload.amount"] = "The amount must be at least 0.01"
+	} else if p.Amount >= maxPaymentAmount {
+		fields["payload.amount"] = fmt.Sprintf("The amount must be less than %.0f", maxPaymentAmount)
+	}
+	if p.Currency != "" && !currencyPattern.MatchString(p.Currency) {
+		fields["payload.currency"] = "Use a three-letter ISO currency code such as INR"
+	}
+}
@@ -0,0 +1,231 @@
+package main
+
+import (
+	"fmt"
+	"strings"
+)
+
+// ValidationError reports which payload fields broke the ledger rules, keyed
+// by their JSON names so the admin form can show each message inline.
+type ValidationError struct {
+	Fields map[string]string
+}
+
+func (e *ValidationError) Error() string {
+	return "Entry violates ledger rules"
+}
+
+var validLandTypes = map[string]bool{"Agricultural": true, "Non-Agricultural": true}
+
+var validActions = map[string]bool{
+	ActionAwardDeclared:    true,
+	ActionCompensated:      true,
+	ActionOwnershipUpdated: true,
+	ActionLandConverted:    true,
+	ActionBoundaryRecorded: true,
+	ActionSubdivided:       true,
+	ActionMerged:           true,
+	ActionOther:            true,
+	ActionCorrection:       true,
+	ActionReversal:         true,
+
+	ActionLienRegistered:     true,
+	ActionLienReleased:       true,
+	ActionMortgageRegistered: true,
+	ActionMortgageReleased:   true,
+	ActionStayOrdered:        true,
+	ActionStayLifted:         true,
+}
+
+// acquisitionState is where a property stands in the land-acquisition process.
+type acquisitionState int
+
+const (
+	stateUnregistered acquisitionState = iota
+	stateRegistered
+	stateAwarded
+	stateCompensated
+)
+
+func (s acquisitionState) String() string {
+	switch s {
+	case stateUnregistered:
+		return "unregistered"
+	case stateAwarded:
+		return "awarded (compensation pending)"
+	case stateCompensated:
+		return "compensated"
+	default:
+		return "registered"
+	}
+}
+
+// allowedTransitions lists, per state, the actions that may be appended next.
+// Actions that leave the acquisition state alone are always allowed and are
+// not listed; see transitionFree. A property cannot be subdivided or merged
+// while an award on it is being paid, and the entries opening the properties
+// that result are appended to empty chains (lineage.go).
+var allowedTransitions = map[acquisitionState]map[string]bool{
+	stateUnregistered: {
+		ActionAwardDeclared: true, ActionOwnershipUpdated: true, ActionSubdivided: true, ActionMerged: true,
+	},
+	stateRegistered: {
+		ActionAwardDeclared: true, ActionOwnershipUpdated: true, ActionLandConverted: true,
+		ActionSubdivided: true, ActionMerged: true,
+	},
+	stateAwarded: {ActionCompensated: true},
+	stateCompensated: {
+		ActionCompensated: true, ActionOwnershipUpdated: true, ActionLandConverted: true,
+		ActionSubdivided: true, ActionMerged: true,
+	},
+}
+
+// transitionFree reports whether an action may be appended in any state:
+// Other, a parcel boundary, an encumbrance or an amendment.
+func transitionFree(action string) bool {
+	return action == ActionOther || action == ActionBoundaryRecorded || isEncumbrance(action) || isAmendment(action)
+}
+
+// propertyState summarises a property's chronological history.
+type propertyState struct {
+	acquisition  acquisitionState
+	owner        string
+	landType     string
+	surveyNumber string
+	// The latest award and its payments; nil before any award.
+	award *Award
+	// Set once the property has been subdivided or merged into others.
+	closedBy   string
+	successors []string
+	// Liens, mortgages and stays not yet released, oldest first.
+	encumbrances []Encumbrance
+}
+
+// replayPropertyState replays the history as amended by its corrections and
+// reversals.
+func replayPropertyState(history []LedgerEntry) propertyState {
+	state := propertyState{acquisition: stateUnregistered}
+	for _, entry := range amendedHistory(history) {
+		if state.acquisition == stateUnregistered {
+			state.acquisition = stateRegistered
+		}
+		state.landType = entry.LandType
+		state.surveyNumber = entry.SurveyNumber
+		switch entry.Action {
+		case ActionAwardDeclared:
+			state.acquisition = stateAwarded
+			state.owner = entry.OwnerID
+			state.award = newAward(entry)
+		case ActionCompensated:
+			// A partial payment leaves the award pending.
+			if state.award != nil {
+				state.award.pay(entry)
+			}
+			if state.award == nil || state.award.settled() {
+				state.acquisition = stateCompensated
+			}
+		case ActionOwnershipUpdated:
+			state.owner = entry.OwnerID
+		case ActionSubdivided, ActionMerged:
+			if entry.Payload == nil {
+				break
+			}
+			// A child opens owned by whoever owned its parents.
+			if len(entry.Payload.Parents) > 0 {
+				state.owner = entry.OwnerID
+			}
+			if len(entry.Payload.Children) > 0 {
+				state.closedBy = entry.Action
+				state.successors = entry.Payload.Children
+			}
+		case ActionLienRegistered, ActionLienReleased, ActionMortgageRegistered, ActionMortgageReleased,
+			ActionStayOrdered, ActionStayLifted:
+			state.applyEncumbrance(entry)
+		}
+	}
+	return state
+}
+
+// validateEntry checks a new entry against the property's existing history.
+// It returns nil when the entry may be appended.
+func validateEntry(payload NewEntryPayload, history []LedgerEntry) *ValidationError {
+	fields := map[string]string{}
+	required := map[string]string{
+		"survey_number":   payload.SurveyNumber,
+		"property_number": payload.PropertyNumber,
+		"owner_id":        payload.OwnerID,
+	}
+	for name, value := range required {
+		if strings.TrimSpace(value) == "" {
+			fields[name] = "This field is required"
+		}
+	}
+	if !validLandTypes[payload.LandType] {
+		fields["land_type"] = "Land type must be Agricultural or Non-Agricultural"
+	}
+	if !validActions[payload.Action] {
+		fields["action"] = fmt.Sprintf("Unknown action %q", payload.Action)
+	}
+	if len(fields) > 0 {
+		return &ValidationError{Fields: fields}
+	}
+
+	state := replayPropertyState(history)
+	if isAmendment(payload.Action) {
+		// An amendment restates the record as it stands once amended.
+		amended := append(append([]LedgerEntry{}, history...), LedgerEntry{Action: payload.Action, Payload: payload.Payload})
+		state = replayPropertyState(amended)
+	}
+
+	if state.closedBy != "" && !isAmendment(payload.Action) {
+		fields["action"] = fmt.Sprintf("This property was %s into %s; record further events on those properties",
+			strings.ToLower(state.closedBy), strings.Join(state.successors, ", "))
+	} else if !transitionFree(payload.Action) && !allowedTransitions[state.acquisition][payload.Action] {
+		fields["action"] = fmt.Sprintf("%s is not allowed while the property is %s", payload.Action, state.acquisition)
+	}
+	if state.surveyNumber != "" && payload.SurveyNumber != state.surveyNumber {
+		fields["survey_number"] = fmt.Sprintf("This property is recorded under survey number %s", state.surveyNumber)
+	}
+
+	switch payload.Action {
+	case ActionOwnershipUpdated:
+		if state.owner != "" && payload.OwnerID == state.owner {
+			fields["owner_id"] = fmt.Sprintf("%s already owns this property; enter the new owner", payload.OwnerID)
+		}
+		// Imported rows are migrated history rather than new transfers.
+		if state.owner != "" && !payload.fromTransfer && !payload.fromImport {
+			fields["action"] = fmt.Sprintf("%s owns this property; ownership passes only through a finalized transfer", state.owner)
+		}
+	case ActionAwardDeclared, ActionSubdivided:
+		// Neither changes hands: an award compensates the owner on record, and
+		// the properties a subdivision opens start out theirs.
+		if state.owner != "" && payload.OwnerID != state.owner {
+			fields["owner_id"] = fmt.Sprintf("%s owns this property; ownership passes only through a finalized transfer", state.owner)
+		}
+	case ActionLandConverted:
+		if state.landType != "" && payload.LandType == state.landType {
+			fields["land_type"] = fmt.Sprintf("The property is already %s; choose the land type it converts to", state.landType)
+		}
+	case ActionOther:
+		if strings.TrimSpace(payload.Details) == "" {
+			fields["details"] = "Describe the event when using Other"
+		}
+	case ActionCorrection, ActionReversal:
+		if strings.TrimSpace(payload.Details) == "" {
+			fields["details"] = fmt.Sprintf("Give the reason for the %s", strings.ToLower(payload.Action))
+		}
+		if state.owner != "" && payload.OwnerID != state.owner {
+			fields["owner_id"] = fmt.Sprintf("Once amended, the owner on record is %s", state.owner)
+		}
+		validateAmendment(payload, history, fields)
+	}
+	validatePayload(payload, state, fields)
+	if payload.Action != ActionLandConverted && state.landType != "" && payload.LandType != state.landType {
+		fields["land_type"] = fmt.Sprintf("Land type is %s; record a %s entry to change it", state.landType, ActionLandConverted)
+	}
+
+	if len(fields) > 0 {
+		return &ValidationError{Fields: fields}
+	}
+	return nil
+}
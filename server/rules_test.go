@@ -0,0 +1,257 @@
+package main
+
+import (
+	"sort"
+	"strings"
+	"testing"
+	"time"
+)
+
+// ledgerEntry is a recorded entry on the test property, owned by OWN-001.
+func ledgerEntry(id, action string, payload *ActionPayload) LedgerEntry {
+	return LedgerEntry{
+		ID:             id,
+		SurveyNumber:   "SY-001",
+		PropertyNumber: "PR-001",
+		OwnerID:        "OWN-001",
+		LandType:       "Agricultural",
+		Action:         action,
+		Details:        "Recorded",
+		Payload:        payload,
+	}
+}
+
+// newEntry is a submission for the test property, owned by OWN-001.
+func newEntry(action string, payload *ActionPayload) NewEntryPayload {
+	return NewEntryPayload{
+		SurveyNumber:   "SY-001",
+		PropertyNumber: "PR-001",
+		OwnerID:        "OWN-001",
+		LandType:       "Agricultural",
+		Action:         action,
+		Details:        "Recorded",
+		Payload:        payload,
+	}
+}
+
+// transferTo is the OwnershipUpdated entry finalizing a transfer to owner.
+func transferTo(owner string, payload *ActionPayload) NewEntryPayload {
+	entry := newEntry(ActionOwnershipUpdated, payload)
+	entry.OwnerID = owner
+	entry.fromTransfer = true
+	return entry
+}
+
+func transferPayload(reason string) *ActionPayload {
+	return &ActionPayload{PreviousOwner: "OWN-001", NewOwner: "OWN-002", DeedReference: "DEED-2", OverrideReason: reason}
+}
+
+var (
+	registered = ledgerEntry("opened", ActionOwnershipUpdated, nil)
+	awarded    = ledgerEntry("awarded", ActionAwardDeclared,
+		&ActionPayload{AwardNumber: "AW-1", AwardDate: "2024-01-15", Amount: 1000, Currency: "INR"})
+	paidInPart = ledgerEntry("paid-part", ActionCompensated,
+		&ActionPayload{AwardNumber: "AW-1", Amount: 400, Currency: "INR", PaymentReference: "PAY-1"})
+	paidInFull = ledgerEntry("paid-full", ActionCompensated,
+		&ActionPayload{AwardNumber: "AW-1", Amount: 1000, Currency: "INR", PaymentReference: "PAY-2"})
+)
+
+// checkFields fails unless err flags exactly the named fields.
+func checkFields(t *testing.T, err *ValidationError, want ...string) {
+	t.Helper()
+	var got []string
+	if err != nil {
+		for name := range err.Fields {
+			got = append(got, name)
+		}
+	}
+	sort.Strings(got)
+	sort.Strings(want)
+	if strings.Join(got, ",") != strings.Join(want, ",") {
+		t.Errorf("flagged fields %v, want %v (%+v)", got, want, err)
+	}
+}
+
+func TestValidateEntry(t *testing.T) {
+	conversion := newEntry(ActionLandConverted, &ActionPayload{ConversionOrder: "CO-1"})
+	conversion.LandType = "Non-Agricultural"
+	other := func(p *ActionPayload) NewEntryPayload { return newEntry(ActionOther, p) }
+	imported := func(p *ActionPayload) NewEntryPayload {
+		entry := other(p)
+		entry.fromImport = true
+		return entry
+	}
+	tomorrow := time.Now().AddDate(0, 0, 1).Format("2006-01-02")
+
+	tests := []struct {
+		name    string
+		history []LedgerEntry
+		entry   NewEntryPayload
+		fields  []string
+	}{
+		{
+			name:   "missing identifiers",
+			entry:  NewEntryPayload{LandType: "Forest", Action: "Sold"},
+			fields: []string{"survey_number", "property_number", "owner_id", "land_type", "action"},
+		},
+		{
+			name:   "award opens a property",
+			entry:  newEntry(ActionAwardDeclared, awarded.Payload),
+			fields: nil,
+		},
+		{
+			name:   "award without its payload",
+			entry:  newEntry(ActionAwardDeclared, nil),
+			fields: []string{"payload.award_number", "payload.award_date", "payload.amount", "payload.currency"},
+		},
+		{
+			name:   "payload field the action does not carry",
+			entry:  newEntry(ActionAwardDeclared, &ActionPayload{AwardNumber: "AW-1", AwardDate: "2024-01-15", Amount: 1, Currency: "INR", Holder: "Bank"}),
+			fields: []string{"payload.holder"},
+		},
+		{
+			name:   "award too large to record",
+			entry:  newEntry(ActionAwardDeclared, &ActionPayload{AwardNumber: "AW-1", AwardDate: "2024-01-15", Amount: 1e15, Currency: "INR"}),
+			fields: []string{"payload.amount"},
+		},
+		{
+			name:    "ownership while an award is pending",
+			history: []LedgerEntry{registered, awarded},
+			entry:   transferTo("OWN-002", transferPayload("")),
+			fields:  []string{"action"},
+		},
+		{
+			name:    "conversion after a partial payment",
+			history: []LedgerEntry{registered, awarded, paidInPart},
+			entry:   conversion,
+			fields:  []string{"action"},
+		},
+		{
+			name:    "conversion once compensated",
+			history: []LedgerEntry{registered, awarded, paidInFull},
+			entry:   conversion,
+			fields:  nil,
+		},
+		{
+			name:    "conversion to the same land type",
+			history: []LedgerEntry{registered},
+			entry:   newEntry(ActionLandConverted, &ActionPayload{ConversionOrder: "CO-1"}),
+			fields:  []string{"land_type"},
+		},
+		{
+			name:    "ownership change outside a transfer",
+			history: []LedgerEntry{registered},
+			entry: func() NewEntryPayload {
+				entry := transferTo("OWN-002", transferPayload(""))
+				entry.fromTransfer = false
+				return entry
+			}(),
+			fields: []string{"action"},
+		},
+		{
+			name:    "ownership change by a finalized transfer",
+			history: []LedgerEntry{registered},
+			entry:   transferTo("OWN-002", transferPayload("")),
+			fields:  nil,
+		},
+		{
+			name:    "ownership change in imported history",
+			history: []LedgerEntry{registered},
+			entry: func() NewEntryPayload {
+				entry := transferTo("OWN-002", transferPayload(""))
+				entry.fromTransfer = false
+				entry.fromImport = true
+				return entry
+			}(),
+			fields: nil,
+		},
+		{
+			name:    "transfer to the current owner",
+			history: []LedgerEntry{registered},
+			entry:   transferTo("OWN-001", &ActionPayload{PreviousOwner: "OWN-001", NewOwner: "OWN-001", DeedReference: "DEED-2"}),
+			fields:  []string{"owner_id", "payload.new_owner"},
+		},
+		{
+			name:    "award to someone other than the owner",
+			history: []LedgerEntry{registered},
+			entry: func() NewEntryPayload {
+				entry := newEntry(ActionAwardDeclared, awarded.Payload)
+				entry.OwnerID = "OWN-002"
+				return entry
+			}(),
+			fields: []string{"owner_id"},
+		},
+		{
+			name:    "subdivision under another owner",
+			history: []LedgerEntry{registered},
+			entry: func() NewEntryPayload {
+				entry := newEntry(ActionSubdivided, &ActionPayload{Children: []string{"PR-001-A", "PR-001-B"}})
+				entry.OwnerID = "OWN-002"
+				return entry
+			}(),
+			fields: []string{"owner_id"},
+		},
+		{
+			name:    "subdivision under the owner",
+			history: []LedgerEntry{registered},
+			entry:   newEntry(ActionSubdivided, &ActionPayload{Children: []string{"PR-001-A", "PR-001-B"}}),
+			fields:  nil,
+		},
+		{
+			name:    "other without details",
+			history: []LedgerEntry{registered},
+			entry: func() NewEntryPayload {
+				entry := other(nil)
+				entry.Details = " "
+				return entry
+			}(),
+			fields: []string{"details"},
+		},
+		{
+			name:    "effective date outside an import",
+			history: []LedgerEntry{registered},
+			entry:   other(&ActionPayload{EffectiveDate: "1998-06-30"}),
+			fields:  []string{"payload.effective_date"},
+		},
+		{
+			name:    "effective date on an imported row",
+			history: []LedgerEntry{registered},
+			entry:   imported(&ActionPayload{EffectiveDate: "1998-06-30"}),
+			fields:  nil,
+		},
+		{
+			name:    "malformed effective date on an imported row",
+			history: []LedgerEntry{registered},
+			entry:   imported(&ActionPayload{EffectiveDate: "30/06/1998"}),
+			fields:  []string{"payload.effective_date"},
+		},
+		{
+			name:    "future effective date on an imported row",
+			history: []LedgerEntry{registered},
+			entry:   imported(&ActionPayload{EffectiveDate: tomorrow}),
+			fields:  []string{"payload.effective_date"},
+		},
+		{
+			name: "entry on a subdivided property",
+			history: []LedgerEntry{registered, ledgerEntry("split", ActionSubdivided,
+				&ActionPayload{Children: []string{"PR-001-A", "PR-001-B"}})},
+			entry:  other(nil),
+			fields: []string{"action"},
+		},
+		{
+			name:    "different survey number",
+			history: []LedgerEntry{registered},
+			entry: func() NewEntryPayload {
+				entry := other(nil)
+				entry.SurveyNumber = "SY-002"
+				return entry
+			}(),
+			fields: []string{"survey_number"},
+		},
+	}
+	for _, tt := range tests {
+		t.Run(tt.name, func(t *testing.T) {
+			checkFields(t, validateEntry(tt.entry, tt.history), tt.fields...)
+		})
+	}
+}
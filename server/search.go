@@ -0,0 +1,105 @@
+package main
+
+import (
+	"context"
+	"net/http"
+	"strconv"
+
+	"github.com/gin-gonic/gin"
+)
+
+const (
+	defaultSearchPageSize = 20
+	maxSearchPageSize     = 100
+)
+
+// searchSortFields whitelists the fields results may be ordered by.
+var searchSortFields = map[string]bool{
+	"timestamp":       true,
+	"survey_number":   true,
+	"property_number": true,
+	"owner_id":        true,
+	"land_type":       true,
+	"action":          true,
+}
+
+type SearchResponse struct {
+	Results  []LedgerEntry `json:"results"`
+	Total    int64         `json:"total"`
+	Page     int64         `json:"page"`
+	PageSize int64         `json:"page_size"`
+}
+
+func queryInt(c *gin.Context, name string, fallback int64) (int64, bool) {
+	raw := c.Query(name)
+	if raw == "" {
+		return fallback, true
+	}
+	value, err := strconv.ParseInt(raw, 10, 64)
+	if err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Invalid " + name})
+		return 0, false
+	}
+	return value, true
+}
+
+// buildSearchFilter turns the query string into an entry filter. Exact-match
+// fields are compared verbatim; q is a case-insensitive substring of details.
+func buildSearchFilter(c *gin.Context) (EntryFilter, bool) {
+	filter := EntryFilter{
+		SurveyNumber:    c.Query("survey_number"),
+		PropertyNumber:  c.Query("property_number"),
+		OwnerID:         c.Query("owner_id"),
+		LandType:        c.Query("land_type"),
+		Action:          c.Query("action"),
+		DetailsContains: c.Query("q"),
+	}
+
+	var ok bool
+	if filter.From, ok = queryInt(c, "from", 0); !ok {
+		return filter, false
+	}
+	if filter.To, ok = queryInt(c, "to", 0); !ok {
+		return filter, false
+	}
+	return filter, true
+}
+
+func searchLedgerHandler(c *gin.Context) {
+	filter, ok := buildSearchFilter(c)
+	if !ok {
+		return
+	}
+
+	page, ok := queryInt(c, "page", 1)
+	if !ok {
+		return
+	}
+	pageSize, ok := queryInt(c, "page_size", defaultSearchPageSize)
+	if !ok {
+		return
+	}
+	if page < 1 || pageSize < 1 || pageSize > maxSearchPageSize {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "page must be at least 1 and page_size between 1 and " + strconv.Itoa(maxSearchPageSize)})
+		return
+	}
+
+	sortField := c.DefaultQuery("sort", "timestamp")
+	if !searchSortFields[sortField] {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Unsupported sort field: " + sortField})
+		return
+	}
+	results, total, err := store.FindEntries(context.TODO(), EntryQuery{
+		EntryFilter: filter,
+		SortField:   sortField,
+		Descending:  c.DefaultQuery("order", "desc") != "asc",
+		Skip:        (page - 1) * pageSize,
+		Limit:       pageSize,
+	})
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+
+	c.JSON(http.StatusOK, SearchResponse{Results: results, Total: total, Page: page, PageSize: pageSize})
+}
@@ -0,0 +1,160 @@
+package main
+
+import (
+	"context"
+	"crypto/ed25519"
+	"crypto/rand"
+	"crypto/sha256"
+	"encoding/base64"
+	"encoding/hex"
+	"errors"
+	"net/http"
+	"os"
+	"path/filepath"
+	"strings"
+	"sync"
+
+	"github.com/gin-gonic/gin"
+)
+
+// Officer signing keys live on the server's filesystem rather than in MongoDB,
+// so write access to the database alone is not enough to forge a signed entry.
+// Each key is stored as <key_id>.key holding the base64 Ed25519 seed.
+
+const signingKeyExt = ".key"
+
+// PublicKeyRecord is one entry of the published key registry the browser
+// verifies signatures against.
+type PublicKeyRecord struct {
+	KeyID     string `json:"key_id"`
+	Officer   string `json:"officer"`
+	Algorithm string `json:"algorithm"`
+	PublicKey string `json:"public_key"`
+}
+
+var (
+	signingKeyDir = "keys"
+	signingKeys   = map[string]ed25519.PrivateKey{}
+	signingKeysMu sync.Mutex
+)
+
+func loadSigningKeyDir() {
+	if dir := os.Getenv("SIGNING_KEY_DIR"); dir != "" {
+		signingKeyDir = dir
+	}
+}
+
+func newKeyID(username string, public ed25519.PublicKey) string {
+	fingerprint := sha256.Sum256(public)
+	return username + "-" + hex.EncodeToString(fingerprint[:4])
+}
+
+func readSigningKey(keyID string) (ed25519.PrivateKey, error) {
+	signingKeysMu.Lock()
+	defer signingKeysMu.Unlock()
+	if key, ok := signingKeys[keyID]; ok {
+		return key, nil
+	}
+	raw, err := os.ReadFile(filepath.Join(signingKeyDir, keyID+signingKeyExt))
+	if err != nil {
+		return nil, err
+	}
+	seed, err := base64.StdEncoding.DecodeString(strings.TrimSpace(string(raw)))
+	if err != nil || len(seed) != ed25519.SeedSize {
+		return nil, errors.New("malformed signing key " + keyID)
+	}
+	key := ed25519.NewKeyFromSeed(seed)
+	signingKeys[keyID] = key
+	return key, nil
+}
+
+// generateSigningKey creates and persists a fresh key pair for an officer.
+// The username becomes part of the file name, so anything outside
+// usernamePattern is refused.
+func generateSigningKey(username string) (string, error) {
+	if !usernamePattern.MatchString(username) {
+		return "", errors.New("cannot issue a signing key for username " + username)
+	}
+	public, private, err := ed25519.GenerateKey(rand.Reader)
+	if err != nil {
+		return "", err
+	}
+	keyID := newKeyID(username, public)
+	if err := os.MkdirAll(signingKeyDir, 0o700); err != nil {
+		return "", err
+	}
+	seed := base64.StdEncoding.EncodeToString(private.Seed())
+	if err := os.WriteFile(filepath.Join(signingKeyDir, keyID+signingKeyExt), []byte(seed+"\n"), 0o600); err != nil {
+		return "", err
+	}
+	signingKeysMu.Lock()
+	signingKeys[keyID] = private
+	signingKeysMu.Unlock()
+	return keyID, nil
+}
+
+// officerSigningKey returns the officer's key, issuing one on first use for
+// accounts created before signing existed.
+func officerSigningKey(ctx context.Context, username string) (string, ed25519.PrivateKey, error) {
+	officer, err := findOfficer(ctx, username)
+	if err != nil {
+		return "", nil, err
+	}
+	if officer.KeyID == "" {
+		keyID, err := generateSigningKey(username)
+		if err != nil {
+			return "", nil, err
+		}
+		if err := store.SetOfficerKey(ctx, username, keyID); err != nil {
+			return "", nil, err
+		}
+		officer.KeyID = keyID
+	}
+	key, err := readSigningKey(officer.KeyID)
+	if err != nil {
+		return "", nil, err
+	}
+	return officer.KeyID, key, nil
+}
+
+// signEntry signs the entry's hash with the recording officer's key. The
+// signature covers the hex hash string, which already commits to every field.
+func signEntry(ctx context.Context, entry *LedgerEntry) error {
+	keyID, key, err := officerSigningKey(ctx, entry.RecordedBy)
+	if err != nil {
+		return err
+	}
+	entry.KeyID = keyID
+	entry.Signature = base64.StdEncoding.EncodeToString(ed25519.Sign(key, []byte(entry.Hash)))
+	return nil
+}
+
+// listPublicKeysHandler exports the public half of every key in the keystore so
+// operators can publish it as the client's key registry.
+func listPublicKeysHandler(c *gin.Context) {
+	files, err := filepath.Glob(filepath.Join(signingKeyDir, "*"+signingKeyExt))
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	keys := []PublicKeyRecord{}
+	for _, file := range files {
+		keyID := strings.TrimSuffix(filepath.Base(file), signingKeyExt)
+		key, err := readSigningKey(keyID)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+			return
+		}
+		officer := keyID
+		if i := strings.LastIndex(keyID, "-"); i > 0 {
+			officer = keyID[:i]
+		}
+		keys = append(keys, PublicKeyRecord{
+			KeyID:     keyID,
+			Officer:   officer,
+			Algorithm: "Ed25519",
+			PublicKey: base64.StdEncoding.EncodeToString(key.Public().(ed25519.PublicKey)),
+		})
+	}
+	c.JSON(http.StatusOK, gin.H{"keys": keys})
+}
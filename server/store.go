@@ -0,0 +1,133 @@
+package main
+
+import (
+	"context"
+	"errors"
+	"log"
+	"os"
+)
+
+// Store is everything the server persists: ledger entries, officer accounts,
+// checkpoints, pending transfers and registered owners. MongoDB backs it in production; the journal store keeps
+// the same data in memory, optionally appended to a local file, so the whole
+// app runs on a laptop without a database.
+type Store interface {
+	// InsertEntry appends an entry. It fails with errSequenceTaken when the
+	// property already has an entry at the same (nonzero) sequence number.
+	InsertEntry(ctx context.Context, entry LedgerEntry) error
+	// PropertyChain returns a property's entries ordered by sequence, then
+	// timestamp, then insertion.
+	PropertyChain(ctx context.Context, propertyNumber string) ([]LedgerEntry, error)
+	// FindEntries returns one page of the entries matching the query along
+	// with the total number of matches.
+	FindEntries(ctx context.Context, query EntryQuery) ([]LedgerEntry, int64, error)
+	// FindEntry fails with errNotFound when no entry has the ID.
+	FindEntry(ctx context.Context, id string) (*LedgerEntry, error)
+	// PropertyNumbers lists the distinct property numbers of matching entries.
+	PropertyNumbers(ctx context.Context, filter EntryFilter) ([]string, error)
+	SetEntrySequence(ctx context.Context, id string, sequence int64) error
+
+	// FindOfficer fails with errNotFound for an unknown username.
+	FindOfficer(ctx context.Context, username string) (*Officer, error)
+	// InsertOfficer fails with errOfficerExists when the username is taken.
+	InsertOfficer(ctx context.Context, officer Officer) error
+	CountOfficers(ctx context.Context) (int64, error)
+	SetOfficerKey(ctx context.Context, username, keyID string) error
+
+	// LatestCheckpoint fails with errNotFound before the first checkpoint.
+	LatestCheckpoint(ctx context.Context) (*Checkpoint, error)
+	InsertCheckpoint(ctx context.Context, cp Checkpoint) error
+	// ListCheckpoints returns up to limit checkpoints, newest first, without
+	// their leaves.
+	ListCheckpoints(ctx context.Context, limit int64) ([]Checkpoint, error)
+
+	InsertTransfer(ctx context.Context, transfer Transfer) error
+	// FindTransfer fails with errNotFound when no transfer has the ID.
+	FindTransfer(ctx context.Context, id string) (*Transfer, error)
+	// ListTransfers returns transfers newest first, all of them or only those
+	// for one property when propertyNumber is set.
+	ListTransfers(ctx context.Context, propertyNumber string) ([]Transfer, error)
+	// UpdateTransfer replaces a transfer, provided it is still in fromStatus;
+	// otherwise it fails with errStaleTransfer.
+	UpdateTransfer(ctx context.Context, transfer Transfer, fromStatus string) error
+
+	// InsertOwner fails with errOwnerExists when the owner ID is taken.
+	InsertOwner(ctx context.Context, owner Owner) error
+	// FindOwner fails with errNotFound for an unregistered owner ID.
+	FindOwner(ctx context.Context, id string) (*Owner, error)
+	// ListOwners returns matching owners ordered by ID.
+	ListOwners(ctx context.Context, query OwnerQuery) ([]Owner, error)
+	// UpdateOwner replaces a registered owner; it fails with errNotFound when
+	// the owner ID is not registered.
+	UpdateOwner(ctx context.Context, owner Owner) error
+}
+
+// EntryFilter selects entries; zero-valued fields match everything.
+type EntryFilter struct {
+	SurveyNumber    string
+	PropertyNumber  string
+	PropertyNumbers []string
+	IDs             []string
+	OwnerID         string
+	LandType        string
+	Action          string
+	// DetailsContains is a case-insensitive substring of details.
+	DetailsContains string
+	// From and To bound the timestamp, inclusive, when nonzero.
+	From int64
+	To   int64
+}
+
+// EntryQuery pages through filtered entries. Results are ordered by SortField,
+// then timestamp, then insertion, all in the same direction; an empty
+// SortField orders by timestamp.
+type EntryQuery struct {
+	EntryFilter
+	SortField  string
+	Descending bool
+	Skip       int64
+	// Limit of zero returns every match.
+	Limit int64
+}
+
+var (
+	store Store
+
+	errNotFound      = errors.New("not found")
+	errSequenceTaken = errors.New("sequence number already taken")
+	errStaleTransfer = errors.New("transfer changed since it was read")
+)
+
+// openStore connects to MongoDB when MONGODB_URI is set. Otherwise it opens
+// the journal store: in memory only, or replayed from and appended to
+// LEDGER_FILE when that is set.
+func openStore(ctx context.Context) (Store, error) {
+	if uri := os.Getenv("MONGODB_URI"); uri != "" {
+		return openMongoStore(ctx, uri)
+	}
+	path := os.Getenv("LEDGER_FILE")
+	if path == "" {
+		log.Println("Warning: neither MONGODB_URI nor LEDGER_FILE is set; the ledger is kept in memory and lost on restart.")
+	} else {
+		log.Printf("Using the local ledger file %s", path)
+	}
+	return openJournalStore(path)
+}
+
+// entryField returns the value of one of the searchable string fields, for
+// stores that filter and sort in Go.
+func entryField(entry LedgerEntry, field string) string {
+	switch field {
+	case "survey_number":
+		return entry.SurveyNumber
+	case "property_number":
+		return entry.PropertyNumber
+	case "owner_id":
+		return entry.OwnerID
+	case "land_type":
+		return entry.LandType
+	case "action":
+		return entry.Action
+	}
+	return ""
+}
@@ -0,0 +1,526 @@
+package main
+
+import (
+	"context"
+	"crypto/rand"
+	"crypto/subtle"
+	"encoding/base64"
+	"errors"
+	"fmt"
+	"log"
+	"net/http"
+	"strings"
+	"time"
+
+	"github.com/gin-gonic/gin"
+	"github.com/google/uuid"
+)
+
+// Ownership of a property with an owner on record changes through a transfer.
+// A registrar drafts it, the seller approves, the buyer accepts and a
+// registrar finalizes it, which appends the OwnershipUpdated entry carrying
+// the whole approval trail. While that entry is being appended the transfer
+// is finalizing, so it can no longer be cancelled. Seller and buyer are not officers: each acts
+// through a link holding a secret token issued with the draft.
+
+const (
+	TransferDraft          = "draft"
+	TransferSellerApproved = "seller_approved"
+	TransferBuyerAccepted  = "buyer_accepted"
+	TransferFinalizing     = "finalizing"
+	TransferFinalized      = "finalized"
+	TransferCancelled      = "cancelled"
+	TransferExpired        = "expired"
+
+	PartySeller    = "seller"
+	PartyBuyer     = "buyer"
+	PartyRegistrar = "registrar"
+
+	defaultTransferDays = 14
+	maxTransferDays     = 90
+)
+
+var validTransferStatuses = map[string]bool{
+	TransferDraft:          true,
+	TransferSellerApproved: true,
+	TransferBuyerAccepted:  true,
+	TransferFinalizing:     true,
+	TransferFinalized:      true,
+	TransferCancelled:      true,
+	TransferExpired:        true,
+}
+
+// TransferApproval records one party's consent: the owner ID of the seller
+// or buyer, or the username of the finalizing registrar.
+type TransferApproval struct {
+	Party string `bson:"party" json:"party"`
+	By    string `bson:"by" json:"by"`
+	At    int64  `bson:"at" json:"at"`
+}
+
+// Transfer is a pending change of ownership. Survey number and land type are
+// copied from the chain when the draft is created so the parties see exactly
+// what the final entry will record.
+type Transfer struct {
+	ID             string             `bson:"id" json:"id"`
+	PropertyNumber string             `bson:"property_number" json:"property_number"`
+	SurveyNumber   string             `bson:"survey_number" json:"survey_number"`
+	LandType       string             `bson:"land_type" json:"land_type"`
+	Seller         string             `bson:"seller" json:"seller"`
+	Buyer          string             `bson:"buyer" json:"buyer"`
+	DeedReference  string             `bson:"deed_reference" json:"deed_reference"`
+	Details        string             `bson:"details" json:"details"`
+	Status         string             `bson:"status" json:"status"`
+	Approvals      []TransferApproval `bson:"approvals" json:"approvals"`
+	CreatedBy      string             `bson:"created_by" json:"created_by"`
+	CreatedAt      int64              `bson:"created_at" json:"created_at"`
+	ExpiresAt      int64              `bson:"expires_at" json:"expires_at"`
+	CancelledBy    *TransferApproval  `bson:"cancelled_by,omitempty" json:"cancelled_by,omitempty"`
+	CancelReason   string             `bson:"cancel_reason,omitempty" json:"cancel_reason,omitempty"`
+	// The OwnershipUpdated entry appended on finalization.
+	EntryID string `bson:"entry_id,omitempty" json:"entry_id,omitempty"`
+	// Secrets behind the seller's and buyer's links; only registrars see them.
+	SellerToken string `bson:"seller_token" json:"-"`
+	BuyerToken  string `bson:"buyer_token" json:"-"`
+}
+
+type NewTransferPayload struct {
+	PropertyNumber string `json:"property_number"`
+	Buyer          string `json:"buyer"`
+	DeedReference  string `json:"deed_reference"`
+	Details        string `json:"details"`
+	// Defaults to defaultTransferDays.
+	ExpiresInDays int `json:"expires_in_days,omitempty"`
+}
+
+// TransferActionPayload is the body of approve, cancel and finalize calls.
+// Seller and buyer identify themselves with the token from their link.
+type TransferActionPayload struct {
+	Token    string `json:"token,omitempty"`
+	Reason   string `json:"reason,omitempty"`
+	PrevHash string `json:"prev_hash,omitempty"`
+	// Finalize only: recorded on the entry when ownership changes despite an
+	// active stay or lien (encumbrance.go).
+	OverrideReason string `json:"override_reason,omitempty"`
+}
+
+// TransferView is a transfer as seen by one party. The link tokens are only
+// filled in for registrars.
+type TransferView struct {
+	Transfer    *Transfer `json:"transfer"`
+	Party       string    `json:"party"`
+	SellerToken string    `json:"seller_token,omitempty"`
+	BuyerToken  string    `json:"buyer_token,omitempty"`
+}
+
+// TransferStateError reports an action the transfer's current status does
+// not allow.
+type TransferStateError struct {
+	Message string
+}
+
+func (e *TransferStateError) Error() string {
+	return e.Message
+}
+
+func isOpenTransfer(status string) bool {
+	return status == TransferDraft || status == TransferSellerApproved || status == TransferBuyerAccepted
+}
+
+func newTransferToken() (string, error) {
+	raw := make([]byte, 32)
+	if _, err := rand.Read(raw); err != nil {
+		return "", err
+	}
+	return base64.RawURLEncoding.EncodeToString(raw), nil
+}
+
+func tokenMatches(token, expected string) bool {
+	return token != "" && subtle.ConstantTimeCompare([]byte(token), []byte(expected)) == 1
+}
+
+// expireIfDue marks an open transfer expired once its deadline has passed.
+// Expiry is applied lazily whenever a transfer is read.
+func expireIfDue(ctx context.Context, t *Transfer) error {
+	if !isOpenTransfer(t.Status) || time.Now().Unix() < t.ExpiresAt {
+		return nil
+	}
+	expired := *t
+	expired.Status = TransferExpired
+	err := store.UpdateTransfer(ctx, expired, t.Status)
+	if errors.Is(err, errStaleTransfer) {
+		current, findErr := store.FindTransfer(ctx, t.ID)
+		if findErr != nil {
+			return findErr
+		}
+		*t = *current
+		return expireIfDue(ctx, t)
+	}
+	if err != nil {
+		return err
+	}
+	*t = expired
+	return nil
+}
+
+func loadTransfer(ctx context.Context, id string) (*Transfer, error) {
+	t, err := store.FindTransfer(ctx, id)
+	if err != nil {
+		return nil, err
+	}
+	return t, expireIfDue(ctx, t)
+}
+
+// transferActor works out who is acting: the seller or buyer by their link
+// token, otherwise a signed-in registrar or auditor. party is empty for
+// anyone else.
+func transferActor(c *gin.Context, t *Transfer, token string) (party, by string) {
+	switch {
+	case tokenMatches(token, t.SellerToken):
+		return PartySeller, t.Seller
+	case tokenMatches(token, t.BuyerToken):
+		return PartyBuyer, t.Buyer
+	}
+	if claims := currentOfficer(c); claims != nil && (claims.Role == RoleRegistrar || claims.Role == RoleAuditor) {
+		return claims.Role, claims.Username
+	}
+	return "", ""
+}
+
+func transferView(t *Transfer, party string) TransferView {
+	view := TransferView{Transfer: t, Party: party}
+	if party == PartyRegistrar {
+		view.SellerToken = t.SellerToken
+		view.BuyerToken = t.BuyerToken
+	}
+	return view
+}
+
+func respondTransferError(c *gin.Context, err error) {
+	var stateErr *TransferStateError
+	switch {
+	case errors.Is(err, errNotFound):
+		c.JSON(http.StatusNotFound, gin.H{"error": "Transfer not found"})
+	case errors.Is(err, errStaleTransfer):
+		c.JSON(http.StatusConflict, gin.H{"error": "The transfer changed while you were acting on it; reload it and try again"})
+	case errors.As(err, &stateErr):
+		c.JSON(http.StatusConflict, gin.H{"error": stateErr.Error()})
+	default:
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+	}
+}
+
+// createTransfer drafts a transfer from the property's current owner to the
+// buyer. Only one transfer per property may be open at a time.
+func createTransfer(ctx context.Context, payload NewTransferPayload, createdBy string) (*Transfer, error) {
+	payload.PropertyNumber = strings.TrimSpace(payload.PropertyNumber)
+	payload.Buyer = strings.TrimSpace(payload.Buyer)
+	payload.DeedReference = strings.TrimSpace(payload.DeedReference)
+
+	fields := map[string]string{}
+	required := map[string]string{
+		"property_number": payload.PropertyNumber,
+		"buyer":           payload.Buyer,
+		"deed_reference":  payload.DeedReference,
+	}
+	for name, value := range required {
+		if value == "" {
+			fields[name] = "This field is required"
+		}
+	}
+	if payload.ExpiresInDays == 0 {
+		payload.ExpiresInDays = defaultTransferDays
+	}
+	if payload.ExpiresInDays < 1 || payload.ExpiresInDays > maxTransferDays {
+		fields["expires_in_days"] = fmt.Sprintf("A transfer may stay open for 1 to %d days", maxTransferDays)
+	}
+	if len(fields) > 0 {
+		return nil, &ValidationError{Fields: fields}
+	}
+
+	chain, err := getPropertyChain(ctx, payload.PropertyNumber)
+	if err != nil {
+		return nil, err
+	}
+	state := replayPropertyState(chain)
+	switch {
+	case len(chain) == 0:
+		fields["property_number"] = "No property with this number is on record"
+	case state.closedBy != "":
+		fields["property_number"] = fmt.Sprintf("This property was %s into %s", strings.ToLower(state.closedBy), strings.Join(state.successors, ", "))
+	case state.owner == "":
+		fields["property_number"] = fmt.Sprintf("This property has no owner on record; record its first owner with an %s entry", ActionOwnershipUpdated)
+	case !allowedTransitions[state.acquisition][ActionOwnershipUpdated]:
+		fields["property_number"] = fmt.Sprintf("Ownership cannot change while the property is %s", state.acquisition)
+	case payload.Buyer == state.owner:
+		fields["buyer"] = fmt.Sprintf("%s already owns this property", payload.Buyer)
+	}
+	if fields["buyer"] == "" {
+		if _, err := store.FindOwner(ctx, payload.Buyer); errors.Is(err, errNotFound) {
+			fields["buyer"] = fmt.Sprintf("No owner with ID %s is registered; register them first", payload.Buyer)
+		} else if err != nil {
+			return nil, err
+		}
+	}
+	if len(fields) > 0 {
+		return nil, &ValidationError{Fields: fields}
+	}
+
+	existing, err := store.ListTransfers(ctx, payload.PropertyNumber)
+	if err != nil {
+		return nil, err
+	}
+	for i := range existing {
+		if err := expireIfDue(ctx, &existing[i]); err != nil {
+			return nil, err
+		}
+		if isOpenTransfer(existing[i].Status) || existing[i].Status == TransferFinalizing {
+			return nil, &TransferStateError{Message: fmt.Sprintf("Transfer %s is already open for this property", existing[i].ID)}
+		}
+	}
+
+	now := time.Now()
+	t := Transfer{
+		ID:             uuid.New().String(),
+		PropertyNumber: payload.PropertyNumber,
+		SurveyNumber:   state.surveyNumber,
+		LandType:       state.landType,
+		Seller:         state.owner,
+		Buyer:          payload.Buyer,
+		DeedReference:  payload.DeedReference,
+		Details:        payload.Details,
+		Status:         TransferDraft,
+		Approvals:      []TransferApproval{},
+		CreatedBy:      createdBy,
+		CreatedAt:      now.Unix(),
+		ExpiresAt:      now.AddDate(0, 0, payload.ExpiresInDays).Unix(),
+	}
+	if t.SellerToken, err = newTransferToken(); err != nil {
+		return nil, err
+	}
+	if t.BuyerToken, err = newTransferToken(); err != nil {
+		return nil, err
+	}
+	return &t, store.InsertTransfer(ctx, t)
+}
+
+func createTransferHandler(c *gin.Context) {
+	var payload NewTransferPayload
+	if err := c.BindJSON(&payload); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Invalid input"})
+		return
+	}
+	t, err := createTransfer(context.TODO(), payload, currentOfficer(c).Username)
+	var verr *ValidationError
+	if errors.As(err, &verr) {
+		c.JSON(http.StatusUnprocessableEntity, gin.H{"error": "Transfer cannot be drafted", "fields": verr.Fields})
+		return
+	}
+	if err != nil {
+		respondTransferError(c, err)
+		return
+	}
+	c.JSON(http.StatusOK, gin.H{"status": "success", "transfer": transferView(t, PartyRegistrar)})
+}
+
+// listTransfersHandler lists transfers newest first, optionally only those
+// for one property_number or in one status.
+func listTransfersHandler(c *gin.Context) {
+	ctx := context.TODO()
+	status := c.Query("status")
+	if status != "" && !validTransferStatuses[status] {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Invalid status"})
+		return
+	}
+	transfers, err := store.ListTransfers(ctx, c.Query("property_number"))
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+	matching := []Transfer{}
+	for i := range transfers {
+		if err := expireIfDue(ctx, &transfers[i]); err != nil {
+			c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+			return
+		}
+		if status == "" || transfers[i].Status == status {
+			matching = append(matching, transfers[i])
+		}
+	}
+	c.JSON(http.StatusOK, matching)
+}
+
+// getTransferHandler shows a transfer to its seller or buyer (by the token
+// query parameter from their link) or to a registrar or auditor.
+func getTransferHandler(c *gin.Context) {
+	t, err := loadTransfer(context.TODO(), c.Param("id"))
+	if err != nil {
+		respondTransferError(c, err)
+		return
+	}
+	party, _ := transferActor(c, t, c.Query("token"))
+	if party == "" {
+		c.JSON(http.StatusUnauthorized, gin.H{"error": "Open the link you were sent, or sign in as an officer"})
+		return
+	}
+	c.JSON(http.StatusOK, transferView(t, party))
+}
+
+// approveTransferHandler records the seller's approval of a draft or the
+// buyer's acceptance of a seller-approved transfer.
+func approveTransferHandler(c *gin.Context) {
+	var payload TransferActionPayload
+	if err := c.BindJSON(&payload); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Invalid input"})
+		return
+	}
+	ctx := context.TODO()
+	t, err := loadTransfer(ctx, c.Param("id"))
+	if err != nil {
+		respondTransferError(c, err)
+		return
+	}
+
+	party, by := transferActor(c, t, payload.Token)
+	var from, to string
+	switch party {
+	case PartySeller:
+		from, to = TransferDraft, TransferSellerApproved
+	case PartyBuyer:
+		from, to = TransferSellerApproved, TransferBuyerAccepted
+	default:
+		c.JSON(http.StatusForbidden, gin.H{"error": "Only the seller and buyer approve a transfer, through the links they were sent"})
+		return
+	}
+	if t.Status != from {
+		respondTransferError(c, &TransferStateError{Message: fmt.Sprintf("The %s cannot approve a transfer that is %s", party, t.Status)})
+		return
+	}
+
+	updated := *t
+	updated.Status = to
+	updated.Approvals = append(append([]TransferApproval{}, t.Approvals...), TransferApproval{Party: party, By: by, At: time.Now().Unix()})
+	if err := store.UpdateTransfer(ctx, updated, from); err != nil {
+		respondTransferError(c, err)
+		return
+	}
+	c.JSON(http.StatusOK, gin.H{"status": "success", "transfer": transferView(&updated, party)})
+}
+
+// finalizeTransferHandler appends the OwnershipUpdated entry for a transfer
+// the buyer has accepted, with every approval, the registrar's included, in
+// its payload. The usual ledger rules still apply, so a transfer whose seller
+// no longer owns the property cannot be finalized. The transfer is claimed
+// first, so a cancellation either lands before the entry is appended or not
+// at all.
+func finalizeTransferHandler(c *gin.Context) {
+	var payload TransferActionPayload
+	if err := c.BindJSON(&payload); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Invalid input"})
+		return
+	}
+	ctx := context.TODO()
+	t, err := loadTransfer(ctx, c.Param("id"))
+	if err != nil {
+		respondTransferError(c, err)
+		return
+	}
+	if t.Status != TransferBuyerAccepted {
+		respondTransferError(c, &TransferStateError{Message: fmt.Sprintf("Only a transfer the buyer has accepted can be finalized; this one is %s", t.Status)})
+		return
+	}
+
+	registrar := currentOfficer(c).Username
+	approvals := append(append([]TransferApproval{}, t.Approvals...), TransferApproval{Party: PartyRegistrar, By: registrar, At: time.Now().Unix()})
+	claimed := *t
+	claimed.Status = TransferFinalizing
+	if err := store.UpdateTransfer(ctx, claimed, TransferBuyerAccepted); err != nil {
+		respondTransferError(c, err)
+		return
+	}
+
+	entry, err := createEntry(ctx, NewEntryPayload{
+		SurveyNumber:   t.SurveyNumber,
+		PropertyNumber: t.PropertyNumber,
+		OwnerID:        t.Buyer,
+		LandType:       t.LandType,
+		Action:         ActionOwnershipUpdated,
+		Details:        t.Details,
+		Payload: &ActionPayload{
+			PreviousOwner:  t.Seller,
+			NewOwner:       t.Buyer,
+			DeedReference:  t.DeedReference,
+			TransferID:     t.ID,
+			Approvals:      approvals,
+			OverrideReason: strings.TrimSpace(payload.OverrideReason),
+		},
+		PrevHash:     payload.PrevHash,
+		fromTransfer: true,
+	}, registrar)
+	if err != nil {
+		// Nothing was appended, so the transfer goes back to awaiting the
+		// registrar.
+		if releaseErr := store.UpdateTransfer(ctx, *t, TransferFinalizing); releaseErr != nil {
+			log.Printf("Warning: transfer %s is still finalizing after a failed finalization: %v", t.ID, releaseErr)
+		}
+	}
+	var verr *ValidationError
+	if errors.As(err, &verr) {
+		c.JSON(http.StatusUnprocessableEntity, gin.H{"error": verr.Error(), "fields": verr.Fields})
+		return
+	}
+	var conflict *ChainConflictError
+	if errors.As(err, &conflict) {
+		c.JSON(http.StatusConflict, gin.H{"error": conflict.Error(), "head": conflict.Head})
+		return
+	}
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": err.Error()})
+		return
+	}
+
+	finalized := *t
+	finalized.Status = TransferFinalized
+	finalized.Approvals = approvals
+	finalized.EntryID = entry.ID
+	if err := store.UpdateTransfer(ctx, finalized, TransferFinalizing); err != nil {
+		// The entry is on the ledger, which is what counts.
+		log.Printf("Warning: transfer %s finalized as entry %s but not updated: %v", t.ID, entry.ID, err)
+	}
+	c.JSON(http.StatusOK, gin.H{"status": "success", "transfer": transferView(&finalized, PartyRegistrar), "entry": entry})
+}
+
+// cancelTransferHandler withdraws an open transfer. The seller, the buyer
+// or a registrar may cancel at any point before finalization.
+func cancelTransferHandler(c *gin.Context) {
+	var payload TransferActionPayload
+	if err := c.BindJSON(&payload); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "Invalid input"})
+		return
+	}
+	ctx := context.TODO()
+	t, err := loadTransfer(ctx, c.Param("id"))
+	if err != nil {
+		respondTransferError(c, err)
+		return
+	}
+	party, by := transferActor(c, t, payload.Token)
+	if party != PartySeller && party != PartyBuyer && party != PartyRegistrar {
+		c.JSON(http.StatusForbidden, gin.H{"error": "Only the seller, the buyer or a registrar can cancel a transfer"})
+		return
+	}
+	if !isOpenTransfer(t.Status) {
+		respondTransferError(c, &TransferStateError{Message: fmt.Sprintf("The transfer is already %s", t.Status)})
+		return
+	}
+
+	cancelled := *t
+	cancelled.Status = TransferCancelled
+	cancelled.CancelledBy = &TransferApproval{Party: party, By: by, At: time.Now().Unix()}
+	cancelled.CancelReason = strings.TrimSpace(payload.Reason)
+	if err := store.UpdateTransfer(ctx, cancelled, t.Status); err != nil {
+		respondTransferError(c, err)
+		return
+	}
+	c.JSON(http.StatusOK, gin.H{"status": "success", "transfer": transferView(&cancelled, party)})
+}